@@ -23,6 +23,9 @@ export default [
         __dirname: 'readonly',
         __filename: 'readonly',
         fetch: 'readonly',
+        Request: 'readonly',
+        Response: 'readonly',
+        URL: 'readonly',
       },
     },
     plugins: {
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { CargoAnalyzer } from '../rust/CargoAnalyzer.js';
+import { getCrateIndexPath, diffCrateFeatures } from '../../lib/crates-registry.js';
+
+vi.mock('../../lib/changelog.js', () => ({
+  fetchGitHubReleaseNotes: vi.fn().mockResolvedValue(null),
+}));
+
+const INDEX_LINES = [
+  {
+    name: 'tokio-util',
+    vers: '0.6.0',
+    deps: [{ name: 'slab', req: '^0.4', optional: true }],
+    features: { default: [], codec: [], compat: [] },
+    yanked: false,
+    rust_version: '1.56',
+  },
+  {
+    name: 'tokio-util',
+    vers: '0.7.0',
+    deps: [],
+    features: { default: [], codec: [] },
+    yanked: false,
+    rust_version: '1.63',
+  },
+  {
+    name: 'tokio-util',
+    vers: '0.7.1',
+    deps: [],
+    features: { default: [], codec: [], io: [] },
+    yanked: false,
+    rust_version: '1.63',
+  },
+];
+
+// Minimal sparse index + crates.io API stand-in
+const REGISTRY_FIXTURES: Record<string, string> = {
+  '/to/ki/tokio-util': INDEX_LINES.map((line) => JSON.stringify(line)).join('\n'),
+  '/api/v1/crates/tokio-util': JSON.stringify({
+    crate: {
+      name: 'tokio-util',
+      description: 'Additional utilities for working with Tokio.',
+      homepage: 'https://tokio.rs',
+      repository: null,
+    },
+    versions: [{ num: '0.7.1', created_at: '2024-03-01T00:00:00Z', license: 'MIT' }],
+  }),
+};
+
+const CARGO_TOML = `[package]
+name = "service"
+version = "0.1.0"
+
+[dependencies]
+serde = { version = "1", features = ["derive"] }
+tu = { package = "tokio-util", version = "0.6", features = ["codec", "compat"] }
+
+[dev-dependencies.tokio-util]
+version = "0.6"
+`;
+
+const MAIN_RS = `use tu::codec::{Framed, LinesCodec as Lines};
+use serde::Deserialize;
+
+// tu::compat is gone in 0.7
+fn main() {
+    let codec = Lines::new();
+    let framed = tu::codec::Framed::new(io, codec);
+    let reader = tu::io::reader;
+}
+`;
+
+describe('CargoAnalyzer', () => {
+  let server: Server;
+  let registryUrl: string;
+  let projectPath: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const body = REGISTRY_FIXTURES[req.url ?? ''];
+      res.statusCode = body ? 200 : 404;
+      res.end(body ?? 'not found');
+    });
+    await new Promise<void>((resolve) => server.listen(0, 'localhost', resolve));
+    registryUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    projectPath = await mkdtemp(join(tmpdir(), 'cargo-analyzer-'));
+    await mkdir(join(projectPath, 'src'));
+    await writeFile(join(projectPath, 'Cargo.toml'), CARGO_TOML);
+    await writeFile(
+      join(projectPath, 'Cargo.lock'),
+      '[[package]]\nname = "tokio-util"\nversion = "0.6.0"\n\n[[package]]\nname = "bytes"\nversion = "1.5.0"\n'
+    );
+    await writeFile(join(projectPath, 'src', 'main.rs'), MAIN_RS);
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) =>
+      server.close(() => {
+        resolve();
+      })
+    );
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  const createAnalyzer = () => new CargoAnalyzer({ indexUrl: registryUrl, apiUrl: registryUrl });
+  const update = { name: 'tokio-util', fromVersion: '0.6.0', toVersion: '0.7.1' };
+
+  it('should handle crates declared in Cargo.toml or Cargo.lock', async () => {
+    const analyzer = createAnalyzer();
+
+    expect(await analyzer.canHandle('tokio-util', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('serde', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('bytes', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('express', projectPath)).toBe(false);
+    expect(await analyzer.canHandle('tokio-util', tmpdir())).toBe(false);
+  });
+
+  it('should combine index and API metadata', async () => {
+    const metadata = await createAnalyzer().fetchMetadata(update);
+
+    expect(metadata).toMatchObject({
+      name: 'tokio-util',
+      version: '0.7.1',
+      description: 'Additional utilities for working with Tokio.',
+      homepage: 'https://tokio.rs',
+      license: 'MIT',
+      deprecated: false,
+    });
+    expect(metadata?.publishedAt?.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  it('should report removed features as breaking and list versions in range', async () => {
+    const changelog = await createAnalyzer().fetchChangelog(update);
+
+    expect(changelog?.source).toBe('crates.io');
+    expect(changelog?.content).toContain('BREAKING: Feature `compat` was removed in 0.7.1');
+    expect(changelog?.content).toContain('BREAKING: Feature `slab` was removed in 0.7.1');
+    expect(changelog?.content).toContain(
+      'Minimum supported Rust version changed from 1.56 to 1.63'
+    );
+    expect(changelog?.content).toContain('- 0.7.0');
+    expect(changelog?.content).not.toContain('- 0.6.0');
+  });
+
+  it('should scan use declarations and qualified paths through renamed dependencies', async () => {
+    const usage = await createAnalyzer().analyzeUsage('tokio-util', projectPath);
+
+    const sourceLocations = usage.locations.filter((loc) => loc.file === 'src/main.rs');
+    expect(sourceLocations.filter((loc) => loc.type === 'import')).toHaveLength(1);
+    expect(sourceLocations).toContainEqual(
+      expect.objectContaining({ type: 'type-reference', line: 6 })
+    );
+    expect(sourceLocations).toContainEqual(
+      expect.objectContaining({ type: 'function-call', line: 7 })
+    );
+    expect(sourceLocations).toContainEqual(
+      expect.objectContaining({ type: 'property-access', line: 8 })
+    );
+    expect(sourceLocations.some((loc) => loc.line === 4)).toBe(false);
+
+    const manifestLines = usage.locations
+      .filter((loc) => loc.file === 'Cargo.toml')
+      .map((loc) => loc.line);
+    expect(manifestLines).toEqual([7, 9]);
+    expect(usage.locations.some((loc) => loc.file === 'Cargo.lock')).toBe(true);
+  });
+
+  it('should expose feature and MSRV changes as additional context', async () => {
+    const context = await createAnalyzer().getAdditionalContext(update);
+
+    expect(context).toMatchObject({
+      removedFeatures: ['compat', 'slab'],
+      addedFeatures: ['io'],
+      rustVersionRequirement: '1.63',
+      isYanked: false,
+    });
+  });
+});
+
+describe('crates registry helpers', () => {
+  it('should compute sparse index paths', () => {
+    expect(getCrateIndexPath('a')).toBe('1/a');
+    expect(getCrateIndexPath('ab')).toBe('2/ab');
+    expect(getCrateIndexPath('abc')).toBe('3/a/abc');
+    expect(getCrateIndexPath('Serde')).toBe('se/rd/serde');
+  });
+
+  it('should treat optional dependencies behind dep: as non-features', () => {
+    const base = { name: 'x', vers: '1.0.0', yanked: false };
+    const { removed } = diffCrateFeatures(
+      {
+        ...base,
+        deps: [{ name: 'log', req: '^0.4', optional: true }],
+        features: { tracing: ['dep:log'] },
+      },
+      { ...base, vers: '2.0.0', deps: [], features: {} }
+    );
+
+    expect(removed).toEqual(['tracing']);
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { DockerActionsAnalyzer } from '../docker/DockerActionsAnalyzer.js';
+import { DockerActionsStrategy } from '../strategies/DockerActionsStrategy.js';
+import { parseActionManifest, diffActionManifests } from '../../lib/github-actions.js';
+import { parseImageName, compareImageTags } from '../../lib/docker-registry.js';
+import { extractBreakingChanges } from '../../lib/breaking.js';
+
+vi.mock('../../lib/changelog.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/changelog.js')>()),
+  fetchGitHubReleaseNotes: vi.fn().mockResolvedValue(null),
+}));
+
+const ACTION_V3 = `name: 'Checkout'
+description: 'Checkout a Git repository at a particular version'
+inputs:
+  repository:
+    description: 'Repository name with owner'
+    default: \${{ github.repository }}
+  token:
+    description: >
+      Personal access token (PAT) used to fetch the repository.
+    default: \${{ github.token }}
+  persist-credentials:
+    description: 'Whether to configure the token with the local git config'
+    default: true
+outputs:
+  ref:
+    description: 'The branch, tag or SHA that was checked out'
+  commit:
+    description: 'The commit SHA that was checked out'
+runs:
+  using: node16
+  main: dist/index.js
+`;
+
+const ACTION_V4 = `name: 'Checkout'
+description: 'Checkout a Git repository at a particular version'
+inputs:
+  repository:
+    description: 'Repository name with owner'
+    default: \${{ github.repository }}
+  token:
+    description: 'Personal access token (PAT) used to fetch the repository.'
+    default: \${{ github.token }}
+    deprecationMessage: 'Use a GitHub App token instead'
+  sparse-checkout:
+    description: 'Do a sparse checkout on given patterns'
+    required: true
+outputs:
+  ref:
+    description: 'The branch, tag or SHA that was checked out'
+runs:
+  using: 'node20'
+  main: dist/index.js
+`;
+
+const WORKFLOW = `name: CI
+on: [push]
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v3
+        with:
+          persist-credentials: false
+          fetch-depth: 0
+      - name: Setup
+        uses: actions/setup-node@v4
+        with:
+          node-version: 20
+`;
+
+const hubTag = (name: string, platforms: string[], size: number) =>
+  JSON.stringify({
+    name,
+    last_updated: '2024-05-01T00:00:00Z',
+    full_size: size,
+    images: platforms.map((platform) => {
+      const [os, architecture, variant] = platform.split('/');
+      return { os, architecture, variant: variant ?? null };
+    }),
+  });
+
+describe('DockerActionsAnalyzer', () => {
+  let server: Server;
+  let baseUrl: string;
+  let projectPath: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const fixtures: Record<string, string> = {
+        '/raw/actions/checkout/v3/action.yml': ACTION_V3,
+        '/raw/actions/checkout/v4/action.yml': ACTION_V4,
+        '/v2/repositories/library/node': JSON.stringify({
+          name: 'node',
+          namespace: 'library',
+          description: 'Node.js is a JavaScript-based platform',
+        }),
+        '/v2/repositories/library/node/tags/18-alpine': hubTag(
+          '18-alpine',
+          ['linux/amd64', 'linux/arm/v6', 'linux/arm64/v8'],
+          40 * 1024 * 1024
+        ),
+        '/v2/repositories/library/node/tags/20-alpine': hubTag(
+          '20-alpine',
+          ['linux/amd64', 'linux/arm64/v8', 'linux/s390x'],
+          45 * 1024 * 1024
+        ),
+      };
+      const body = fixtures[req.url ?? ''];
+      res.statusCode = body ? 200 : 404;
+      res.end(body ?? 'not found');
+    });
+    await new Promise<void>((resolve) => server.listen(0, 'localhost', resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    projectPath = await mkdtemp(join(tmpdir(), 'docker-actions-analyzer-'));
+    await mkdir(join(projectPath, '.github', 'workflows'), { recursive: true });
+    await writeFile(join(projectPath, '.github', 'workflows', 'ci.yml'), WORKFLOW);
+    await writeFile(
+      join(projectPath, 'Dockerfile'),
+      'FROM node:18-alpine AS build\nWORKDIR /app\nRUN npm ci\n\nFROM build AS test\n\nFROM docker.io/library/node:18-alpine\nCOPY --from=build /app /app\n'
+    );
+    await writeFile(
+      join(projectPath, 'docker-compose.yml'),
+      'services:\n  db:\n    image: postgres:16\n  app:\n    image: "node:18-alpine"\n'
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) =>
+      server.close(() => {
+        resolve();
+      })
+    );
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  const createAnalyzer = () =>
+    new DockerActionsAnalyzer({ rawContentUrl: `${baseUrl}/raw`, dockerHubApiUrl: baseUrl });
+  const actionUpdate = { name: 'actions/checkout', fromVersion: 'v3', toVersion: 'v4' };
+  const imageUpdate = { name: 'node', fromVersion: '18-alpine', toVersion: '20-alpine' };
+
+  it('should handle actions from workflows and images from Dockerfiles or Compose files', async () => {
+    const analyzer = createAnalyzer();
+
+    expect(await analyzer.canHandle('actions/checkout', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('node', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('postgres', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('actions/cache', projectPath)).toBe(false);
+    expect(await analyzer.canHandle('@types/node', projectPath)).toBe(false);
+  });
+
+  it('should report removed inputs and runtime changes as breaking', async () => {
+    const analyzer = createAnalyzer();
+    await analyzer.canHandle('actions/checkout', projectPath);
+    const changelog = await analyzer.fetchChangelog(actionUpdate);
+
+    expect(changelog?.source).toBe('github-actions');
+
+    const breaking = extractBreakingChanges(changelog?.content ?? '', undefined, changelog?.source);
+    const lines = breaking.map((change) => change.line);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('Input `persist-credentials` was removed in v4'),
+        expect.stringContaining('Input `sparse-checkout` is now required'),
+        expect.stringContaining('Output `commit` was removed'),
+        expect.stringContaining('changed from node16 to node20'),
+        expect.stringContaining('Input `token` is deprecated'),
+      ])
+    );
+  });
+
+  it('should record uses: lines and the inputs passed to the action', async () => {
+    const usage = await createAnalyzer().analyzeUsage('actions/checkout', projectPath);
+
+    expect(usage.locations).toEqual([
+      expect.objectContaining({ file: '.github/workflows/ci.yml', line: 7, type: 'import' }),
+      expect.objectContaining({
+        line: 9,
+        type: 'property-access',
+        code: 'persist-credentials: false',
+      }),
+      expect.objectContaining({ line: 10, type: 'property-access', code: 'fetch-depth: 0' }),
+    ]);
+  });
+
+  it('should compare Docker Hub tag metadata', async () => {
+    const analyzer = createAnalyzer();
+    await analyzer.canHandle('node', projectPath);
+
+    const changelog = await analyzer.fetchChangelog(imageUpdate);
+    expect(changelog?.source).toBe('docker-hub');
+
+    const breaking = extractBreakingChanges(changelog?.content ?? '', undefined, changelog?.source);
+    expect(breaking).toContainEqual(
+      expect.objectContaining({
+        severity: 'breaking',
+        line: expect.stringContaining('linux/arm/v6 is no longer published') as string,
+      })
+    );
+    expect(changelog?.content).toContain('Image major version changed from 18 to 20');
+
+    const metadata = await analyzer.fetchMetadata(imageUpdate);
+    expect(metadata).toMatchObject({
+      description: 'Node.js is a JavaScript-based platform',
+      homepage: 'https://hub.docker.com/_/node',
+    });
+  });
+
+  it('should record FROM lines and Compose images', async () => {
+    const usage = await createAnalyzer().analyzeUsage('node', projectPath);
+
+    expect(usage.locations).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ file: 'Dockerfile', line: 1, type: 'import' }),
+        expect.objectContaining({ file: 'Dockerfile', line: 7, type: 'import' }),
+        expect.objectContaining({ file: 'docker-compose.yml', line: 5, type: 'config' }),
+      ])
+    );
+    expect(usage.locations).toHaveLength(3);
+  });
+
+  it('should plug into the fallback analysis chain', async () => {
+    const strategy = new DockerActionsStrategy(projectPath, {
+      rawContentUrl: `${baseUrl}/raw`,
+      dockerHubApiUrl: baseUrl,
+    });
+
+    expect(await strategy.isApplicable(actionUpdate)).toBe(true);
+    const result = await strategy.tryAnalyze(actionUpdate);
+    expect(result?.breakingChanges.length).toBeGreaterThan(0);
+    expect(result?.metadata).toMatchObject({
+      kind: 'github-action',
+      removedInputs: ['persist-credentials'],
+      runsUsingChange: { from: 'node16', to: 'node20' },
+    });
+  });
+});
+
+describe('action.yml and image tag helpers', () => {
+  it('should parse inputs, outputs and runs.using', () => {
+    const manifest = parseActionManifest(ACTION_V4);
+
+    expect(Object.keys(manifest.inputs)).toEqual(['repository', 'token', 'sparse-checkout']);
+    expect(manifest.inputs['sparse-checkout']).toEqual({ required: true });
+    expect(manifest.outputs).toEqual(['ref']);
+    expect(manifest.runsUsing).toBe('node20');
+    expect(diffActionManifests(manifest, manifest).removedInputs).toEqual([]);
+  });
+
+  it('should read block scalars, flow maps and quoted keys', () => {
+    const manifest = parseActionManifest(
+      [
+        'name: Deploy',
+        'description: |',
+        '  Deploys the app.',
+        '  inputs: not a section',
+        'inputs:',
+        '  "api-key": { required: true, description: "Key" }',
+        "  'region':",
+        '    description: >',
+        '      Region to deploy to',
+        '      required: false',
+        '    default: eu-west-1',
+        '  retries: {default: 3}',
+        'outputs: { url: { description: Deployed URL } }',
+        "runs: { using: 'node20', main: dist/index.js }",
+      ].join('\n')
+    );
+
+    expect(manifest).toEqual({
+      name: 'Deploy',
+      description: 'Deploys the app.\ninputs: not a section\n',
+      inputs: {
+        'api-key': { required: true },
+        region: { required: false, default: 'eu-west-1' },
+        retries: { required: false, default: '3' },
+      },
+      outputs: ['url'],
+      runsUsing: 'node20',
+      runsMain: 'dist/index.js',
+    });
+    expect(parseActionManifest('inputs: [unclosed')).toEqual({ inputs: {}, outputs: [] });
+  });
+
+  it('should normalize image names and compare tag variants', () => {
+    expect(parseImageName('node')).toEqual({
+      registry: 'docker.io',
+      namespace: 'library',
+      repository: 'node',
+    });
+    expect(parseImageName('ghcr.io/owner/app')).toEqual({
+      registry: 'ghcr.io',
+      namespace: 'owner',
+      repository: 'app',
+    });
+    expect(compareImageTags('3.11-slim', '3.12-alpine')).toMatchObject({
+      variantChange: { from: 'slim', to: 'alpine' },
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { GoModulesAnalyzer } from '../go/GoModulesAnalyzer.js';
+import { modulePathForVersion, splitMajorVersionSuffix } from '../../lib/go-proxy.js';
+
+vi.mock('../../lib/changelog.js', () => ({
+  fetchGitHubReleaseNotes: vi.fn().mockResolvedValue(null),
+}));
+
+// Minimal GOPROXY stand-in serving a single module across a v1 -> v2 path change
+const PROXY_FIXTURES: Record<string, string> = {
+  '/github.com/acme/widget/@v/list': 'v1.4.0\nv1.5.0\n',
+  '/github.com/acme/widget/v2/@v/list': 'v2.0.0\nv2.1.0\n',
+  '/github.com/acme/widget/v2/@v/v2.1.0.info': JSON.stringify({
+    Version: 'v2.1.0',
+    Time: '2024-05-01T00:00:00Z',
+  }),
+  '/github.com/acme/widget/v2/@v/v2.1.0.mod':
+    '// Deprecated: use github.com/acme/gadget instead\nmodule github.com/acme/widget/v2\n\ngo 1.22\n',
+  '/github.com/acme/widget/@v/v1.4.0.mod': 'module github.com/acme/widget\n\ngo 1.20\n',
+};
+
+const GO_MOD = `module example.com/service
+
+go 1.22
+
+require (
+	github.com/acme/widget v1.4.0
+	golang.org/x/sync v0.7.0 // indirect
+)
+`;
+
+const MAIN_GO = `package main
+
+import (
+	"fmt"
+
+	w "github.com/acme/widget/client"
+	"github.com/acme/widget"
+)
+
+func main() {
+	c := w.New()
+	fmt.Println(widget.Version, c)
+}
+`;
+
+describe('GoModulesAnalyzer', () => {
+  let server: Server;
+  let proxyUrl: string;
+  let projectPath: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const body = PROXY_FIXTURES[req.url ?? ''];
+      res.statusCode = body ? 200 : 404;
+      res.end(body ?? 'not found');
+    });
+    await new Promise<void>((resolve) => server.listen(0, 'localhost', resolve));
+    proxyUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    projectPath = await mkdtemp(join(tmpdir(), 'go-analyzer-'));
+    await mkdir(join(projectPath, 'cmd'));
+    await writeFile(join(projectPath, 'go.mod'), GO_MOD);
+    await writeFile(join(projectPath, 'cmd', 'main.go'), MAIN_GO);
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) =>
+      server.close(() => {
+        resolve();
+      })
+    );
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('should only handle modules required by go.mod', async () => {
+    const analyzer = new GoModulesAnalyzer({ proxyUrl });
+
+    expect(await analyzer.canHandle('github.com/acme/widget', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('github.com/acme/widget/v2', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('express', projectPath)).toBe(false);
+    expect(await analyzer.canHandle('github.com/acme/widget', tmpdir())).toBe(false);
+  });
+
+  it('should read metadata and deprecation from the proxy', async () => {
+    const analyzer = new GoModulesAnalyzer({ proxyUrl });
+    const metadata = await analyzer.fetchMetadata({
+      name: 'github.com/acme/widget',
+      fromVersion: '1.4.0',
+      toVersion: '2.1.0',
+    });
+
+    expect(metadata).toMatchObject({
+      name: 'github.com/acme/widget/v2',
+      version: 'v2.1.0',
+      repository: 'https://github.com/acme/widget',
+      deprecated: true,
+      deprecationMessage: 'use github.com/acme/gadget instead',
+    });
+    expect(metadata?.publishedAt?.toISOString()).toBe('2024-05-01T00:00:00.000Z');
+  });
+
+  it('should report /vN path changes as breaking and list tags in range', async () => {
+    const analyzer = new GoModulesAnalyzer({ proxyUrl });
+    const changelog = await analyzer.fetchChangelog({
+      name: 'github.com/acme/widget',
+      fromVersion: '1.4.0',
+      toVersion: '2.1.0',
+    });
+
+    expect(changelog?.source).toBe('go-proxy');
+    expect(changelog?.content).toContain(
+      'BREAKING: Module path changed from github.com/acme/widget to github.com/acme/widget/v2'
+    );
+    expect(changelog?.content).toContain('- v1.5.0');
+    expect(changelog?.content).toContain('- v2.1.0');
+    expect(changelog?.content).not.toContain('- v1.4.0');
+  });
+
+  it('should scan import paths and qualified identifiers in .go files', async () => {
+    const analyzer = new GoModulesAnalyzer({ proxyUrl });
+    const usage = await analyzer.analyzeUsage('github.com/acme/widget', projectPath);
+
+    const sourceLocations = usage.locations.filter((loc) => loc.file === 'cmd/main.go');
+    expect(sourceLocations.filter((loc) => loc.type === 'import')).toHaveLength(2);
+    expect(sourceLocations).toContainEqual(
+      expect.objectContaining({ type: 'function-call', code: 'c := w.New()', line: 11 })
+    );
+    expect(sourceLocations).toContainEqual(
+      expect.objectContaining({ type: 'property-access', line: 12 })
+    );
+    expect(usage.locations.some((loc) => loc.file === 'go.mod')).toBe(true);
+  });
+
+  it('should expose go directive and module path changes as additional context', async () => {
+    const analyzer = new GoModulesAnalyzer({ proxyUrl });
+    const context = await analyzer.getAdditionalContext({
+      name: 'github.com/acme/widget',
+      fromVersion: '1.4.0',
+      toVersion: '2.1.0',
+    });
+
+    expect(context).toMatchObject({
+      fromModulePath: 'github.com/acme/widget',
+      toModulePath: 'github.com/acme/widget/v2',
+      majorVersionPathChange: true,
+      goVersionRequirement: '1.22',
+      goDirectiveChange: { from: '1.20', to: '1.22' },
+    });
+  });
+});
+
+describe('Go module path helpers', () => {
+  it('should split major version suffixes', () => {
+    expect(splitMajorVersionSuffix('github.com/foo/bar/v3')).toEqual({
+      basePath: 'github.com/foo/bar',
+      major: 3,
+    });
+    expect(splitMajorVersionSuffix('gopkg.in/yaml.v3')).toEqual({
+      basePath: 'gopkg.in/yaml',
+      major: 3,
+    });
+    expect(splitMajorVersionSuffix('github.com/foo/bar')).toEqual({
+      basePath: 'github.com/foo/bar',
+      major: null,
+    });
+  });
+
+  it('should compute the module path for a version', () => {
+    expect(modulePathForVersion('github.com/foo/bar', 'v1.9.0')).toBe('github.com/foo/bar');
+    expect(modulePathForVersion('github.com/foo/bar/v2', '3.0.0')).toBe('github.com/foo/bar/v3');
+    expect(modulePathForVersion('gopkg.in/yaml.v2', 'v3.0.1')).toBe('gopkg.in/yaml.v3');
+    expect(modulePathForVersion('github.com/foo/bar', 'v2.0.0+incompatible')).toBe(
+      'github.com/foo/bar'
+    );
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { MavenAnalyzer } from '../jvm/MavenAnalyzer.js';
+import { getMavenVersionsInRange, parsePom } from '../../lib/maven-repository.js';
+
+vi.mock('../../lib/changelog.js', () => ({
+  fetchGitHubReleaseNotes: vi.fn().mockResolvedValue(null),
+}));
+
+const pom = (version: string, javaVersion: string, extra = '') => `<?xml version="1.0"?>
+<project>
+  <parent>
+    <groupId>com.acme</groupId>
+    <artifactId>acme-parent</artifactId>
+    <name>Acme Parent</name>
+  </parent>
+  <groupId>com.acme</groupId>
+  <artifactId>widget-core</artifactId>
+  <version>${version}</version>
+  <name>Widget Core</name>
+  <description>Widgets for the JVM</description>
+  <url>https://widgets.acme.com</url>
+  <properties>
+    <maven.compiler.release>${javaVersion}</maven.compiler.release>
+  </properties>
+  <licenses>
+    <license><name>Apache-2.0</name></license>
+  </licenses>
+  <scm>
+    <url>https://gitlab.acme.com/widget</url>
+  </scm>
+  ${extra}
+</project>`;
+
+// Minimal Maven-layout repository stand-in
+const REPOSITORY_FIXTURES: Record<string, string> = {
+  '/com/acme/widget-core/maven-metadata.xml': `<metadata>
+  <groupId>com.acme</groupId>
+  <artifactId>widget-core</artifactId>
+  <versioning>
+    <latest>3.0.0</latest>
+    <release>3.0.0</release>
+    <versions>
+      <version>2.9</version>
+      <version>2.10</version>
+      <version>3.0.0</version>
+    </versions>
+  </versioning>
+</metadata>`,
+  '/com/acme/widget-core/2.9/widget-core-2.9.pom': pom('2.9', '11'),
+  '/com/acme/widget-core/3.0.0/widget-core-3.0.0.pom': pom(
+    '3.0.0',
+    '17',
+    `<distributionManagement>
+    <relocation>
+      <groupId>com.acme.widgets</groupId>
+      <message>Moved to the widgets group</message>
+    </relocation>
+  </distributionManagement>`
+  ),
+};
+
+const POM_XML = `<project>
+  <dependencies>
+    <dependency>
+      <groupId>com.acme</groupId>
+      <artifactId>widget-core</artifactId>
+      <version>2.9</version>
+    </dependency>
+  </dependencies>
+</project>
+`;
+
+const BUILD_GRADLE_KTS = `dependencies {
+    implementation("com.acme:widget-core:2.9")
+    testImplementation(group = "org.junit.jupiter", name = "junit-jupiter", version = "5.10.0")
+}
+`;
+
+const APP_JAVA = `package com.example;
+
+import com.acme.widget.WidgetFactory;
+import static com.acme.widget.Widgets.render;
+import java.util.List;
+
+public class App {
+    private WidgetFactory factory;
+
+    public void run() {
+        factory = new WidgetFactory();
+        render(factory.create());
+    }
+}
+`;
+
+const MAIN_KT = `package com.example
+
+import com.acme.widget.Widget as AcmeWidget
+
+fun main() {
+    val widget: AcmeWidget = AcmeWidget.DEFAULT
+}
+`;
+
+describe('MavenAnalyzer', () => {
+  let server: Server;
+  let repositoryUrl: string;
+  let projectPath: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const body = REPOSITORY_FIXTURES[req.url ?? ''];
+      res.statusCode = body ? 200 : 404;
+      res.end(body ?? 'not found');
+    });
+    await new Promise<void>((resolve) => server.listen(0, 'localhost', resolve));
+    repositoryUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    projectPath = await mkdtemp(join(tmpdir(), 'maven-analyzer-'));
+    await mkdir(join(projectPath, 'app', 'src', 'main', 'java'), { recursive: true });
+    await mkdir(join(projectPath, 'cli', 'src', 'main', 'kotlin'), { recursive: true });
+    await writeFile(join(projectPath, 'pom.xml'), POM_XML);
+    await writeFile(join(projectPath, 'cli', 'build.gradle.kts'), BUILD_GRADLE_KTS);
+    await writeFile(join(projectPath, 'app', 'src', 'main', 'java', 'App.java'), APP_JAVA);
+    await writeFile(join(projectPath, 'cli', 'src', 'main', 'kotlin', 'Main.kt'), MAIN_KT);
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) =>
+      server.close(() => {
+        resolve();
+      })
+    );
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  const createAnalyzer = () => new MavenAnalyzer({ repositoryUrl });
+  const update = { name: 'com.acme:widget-core', fromVersion: '2.9', toVersion: '3.0.0' };
+
+  it('should only handle coordinates declared in Maven or Gradle build files', async () => {
+    const analyzer = createAnalyzer();
+
+    expect(await analyzer.canHandle('com.acme:widget-core', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('org.junit.jupiter:junit-jupiter', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('com.acme:widget-extras', projectPath)).toBe(false);
+    expect(await analyzer.canHandle('express', projectPath)).toBe(false);
+  });
+
+  it('should read project-level POM metadata and relocations', async () => {
+    const metadata = await createAnalyzer().fetchMetadata(update);
+
+    expect(metadata).toMatchObject({
+      name: 'com.acme:widget-core',
+      version: '3.0.0',
+      description: 'Widgets for the JVM',
+      homepage: 'https://widgets.acme.com',
+      repository: 'https://gitlab.acme.com/widget',
+      license: 'Apache-2.0',
+      deprecated: true,
+      deprecationMessage: 'Relocated to com.acme.widgets:widget-core: Moved to the widgets group',
+    });
+  });
+
+  it('should report relocations as breaking and list versions in range', async () => {
+    const changelog = await createAnalyzer().fetchChangelog(update);
+
+    expect(changelog?.source).toBe('maven');
+    expect(changelog?.content).toContain(
+      'BREAKING: Artifact com.acme:widget-core was relocated to com.acme.widgets:widget-core'
+    );
+    expect(changelog?.content).toContain('Java target changed from 11 to 17');
+    expect(changelog?.content).toContain('- 2.10');
+    expect(changelog?.content).toContain('- 3.0.0');
+    expect(changelog?.content).not.toContain('- 2.9');
+  });
+
+  it('should scan Java and Kotlin imports and identifier usages', async () => {
+    const usage = await createAnalyzer().analyzeUsage('com.acme:widget-core', projectPath);
+
+    const javaLocations = usage.locations.filter((loc) => loc.file.endsWith('App.java'));
+    expect(javaLocations.filter((loc) => loc.type === 'import')).toHaveLength(2);
+    expect(javaLocations).toContainEqual(
+      expect.objectContaining({ type: 'type-reference', line: 8 })
+    );
+    expect(javaLocations).toContainEqual(
+      expect.objectContaining({ type: 'function-call', line: 11 })
+    );
+    expect(javaLocations).toContainEqual(
+      expect.objectContaining({ type: 'function-call', line: 12 })
+    );
+    expect(javaLocations.some((loc) => loc.code.includes('java.util'))).toBe(false);
+
+    const kotlinLocations = usage.locations.filter((loc) => loc.file.endsWith('Main.kt'));
+    expect(kotlinLocations).toContainEqual(
+      expect.objectContaining({ type: 'property-access', line: 6 })
+    );
+
+    const buildFileLocations = usage.locations
+      .filter((loc) => loc.type === 'config')
+      .map((loc) => `${loc.file}:${loc.line}`);
+    expect(buildFileLocations).toEqual(
+      expect.arrayContaining(['pom.xml:4', 'cli/build.gradle.kts:2'])
+    );
+  });
+
+  it('should expose Java target changes as additional context', async () => {
+    const context = await createAnalyzer().getAdditionalContext(update);
+
+    expect(context).toMatchObject({
+      groupId: 'com.acme',
+      artifactId: 'widget-core',
+      relocatedTo: 'com.acme.widgets:widget-core',
+      javaVersionRequirement: '17',
+      javaVersionChange: { from: '11', to: '17' },
+    });
+  });
+});
+
+describe('Maven repository helpers', () => {
+  it('should ignore nested sections when parsing POMs', () => {
+    const parsed = parsePom(
+      '<project><parent><name>Parent</name></parent><name>Child</name></project>'
+    );
+
+    expect(parsed.name).toBe('Child');
+    expect(parsed.relocation).toBeUndefined();
+  });
+
+  it('should compare non-semver Maven versions', () => {
+    expect(
+      getMavenVersionsInRange(
+        ['5.6.14.Final', '5.6.15.Final', '6.0.0.Alpha1', '6.0.0.Final'],
+        '5.6.14.Final',
+        '6.0.0.Final'
+      )
+    ).toEqual(['5.6.15.Final', '6.0.0.Alpha1', '6.0.0.Final']);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PackagistAnalyzer } from '../php/PackagistAnalyzer.js';
+import { expandMinifiedVersions } from '../../lib/packagist.js';
+import { extractBreakingChanges } from '../../lib/breaking.js';
+
+vi.mock('../../lib/changelog.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/changelog.js')>()),
+  fetchGitHubReleaseNotes: vi.fn().mockResolvedValue(null),
+}));
+
+// Minified composer/2.0 metadata: later entries only carry the fields that changed
+const GUZZLE_METADATA = {
+  minified: 'composer/2.0',
+  packages: {
+    'guzzlehttp/guzzle': [
+      {
+        name: 'guzzlehttp/guzzle',
+        version: '7.0.0',
+        description: 'Guzzle is a PHP HTTP client library',
+        homepage: 'http://guzzlephp.org/',
+        license: ['MIT'],
+        time: '2020-06-27T10:33:25+00:00',
+        source: { type: 'git', url: 'https://github.com/guzzle/guzzle.git' },
+        require: { php: '^7.2.5 || ^8.0' },
+        autoload: { 'psr-4': { 'GuzzleHttp\\': 'src/' } },
+      },
+      { version: '6.5.8', time: '2022-06-20T22:16:07+00:00', require: { php: '>=5.5' } },
+      {
+        version: '6.5.0',
+        time: '2019-12-23T11:57:10+00:00',
+        autoload: { 'psr-4': { 'GuzzleHttp\\': 'src/', 'GuzzleHttp\\Legacy\\': 'legacy/' } },
+      },
+      { version: 'dev-master', time: '__unset' },
+    ],
+  },
+};
+
+describe('PackagistAnalyzer', () => {
+  let server: Server;
+  let repositoryUrl: string;
+  let projectPath: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const fixtures: Record<string, string> = {
+        '/p2/guzzlehttp/guzzle.json': JSON.stringify(GUZZLE_METADATA),
+      };
+      const body = fixtures[req.url ?? ''];
+      res.statusCode = body ? 200 : 404;
+      res.end(body ?? 'not found');
+    });
+    await new Promise<void>((resolve) => server.listen(0, 'localhost', resolve));
+    repositoryUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    projectPath = await mkdtemp(join(tmpdir(), 'packagist-analyzer-'));
+    await mkdir(join(projectPath, 'src'));
+    await mkdir(join(projectPath, 'vendor', 'guzzlehttp'), { recursive: true });
+    await writeFile(
+      join(projectPath, 'composer.json'),
+      JSON.stringify(
+        {
+          name: 'acme/app',
+          require: { php: '^8.1', 'guzzlehttp/guzzle': '^6.5' },
+          'require-dev': { 'phpunit/phpunit': '^10.5' },
+        },
+        null,
+        4
+      )
+    );
+    await writeFile(
+      join(projectPath, 'composer.lock'),
+      JSON.stringify({
+        packages: [
+          {
+            name: 'guzzlehttp/guzzle',
+            version: '6.5.8',
+            autoload: { 'psr-4': { 'GuzzleHttp\\': 'src/' } },
+          },
+          { name: 'guzzlehttp/psr7', version: '1.9.1' },
+        ],
+        'packages-dev': [],
+      })
+    );
+    await writeFile(
+      join(projectPath, 'src', 'Client.php'),
+      `<?php\n\nnamespace Acme;\n\nuse GuzzleHttp\\Client;\nuse GuzzleHttp\\{Psr7, Exception};\n\n// GuzzleHttp\\Client is wrapped here\nclass Api\n{\n    public function send()\n    {\n        return \\GuzzleHttp\\Psr7\\Utils::streamFor('x');\n    }\n\n    public function fail(): \\GuzzleHttp\\Exception\\RequestException {}\n}\n`
+    );
+    await writeFile(
+      join(projectPath, 'vendor', 'guzzlehttp', 'Ignored.php'),
+      '<?php\nuse GuzzleHttp\\Client;\n'
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) =>
+      server.close(() => {
+        resolve();
+      })
+    );
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  const createAnalyzer = () => new PackagistAnalyzer({ repositoryUrl });
+  const update = { name: 'guzzlehttp/guzzle', fromVersion: '6.5.8', toVersion: '7.0.0' };
+
+  it('should handle packages from composer.json or composer.lock', async () => {
+    const analyzer = createAnalyzer();
+
+    expect(await analyzer.canHandle('guzzlehttp/guzzle', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('phpunit/phpunit', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('guzzlehttp/psr7', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('symfony/console', projectPath)).toBe(false);
+    expect(await analyzer.canHandle('guzzlehttp/guzzle', tmpdir())).toBe(false);
+  });
+
+  it('should read release metadata from minified p2 metadata', async () => {
+    const metadata = await createAnalyzer().fetchMetadata(update);
+
+    expect(metadata).toMatchObject({
+      name: 'guzzlehttp/guzzle',
+      version: '7.0.0',
+      description: 'Guzzle is a PHP HTTP client library',
+      repository: 'https://github.com/guzzle/guzzle.git',
+      license: 'MIT',
+      deprecated: false,
+    });
+  });
+
+  it('should flag PHP requirement changes and dropped namespaces', async () => {
+    const changelog = await createAnalyzer().fetchChangelog({
+      ...update,
+      fromVersion: '6.5.0',
+    });
+
+    expect(changelog?.source).toBe('packagist');
+    expect(changelog?.content).toContain('- 6.5.8\n- 7.0.0');
+
+    const breaking = extractBreakingChanges(changelog?.content ?? '', undefined, changelog?.source);
+    expect(breaking.map((change) => change.line)).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('Namespace `GuzzleHttp\\Legacy` is no longer autoloaded'),
+        expect.stringContaining('Required PHP version changed from >=5.5 to ^7.2.5 || ^8.0'),
+      ])
+    );
+  });
+
+  it('should scan use statements and fully qualified references', async () => {
+    const usage = await createAnalyzer().analyzeUsage('guzzlehttp/guzzle', projectPath);
+
+    const sourceLocations = usage.locations.filter((loc) => loc.file === 'src/Client.php');
+    expect(sourceLocations).toEqual([
+      expect.objectContaining({ type: 'import', line: 5 }),
+      expect.objectContaining({ type: 'import', line: 6 }),
+      expect.objectContaining({ type: 'function-call', line: 13 }),
+      expect.objectContaining({ type: 'type-reference', line: 16 }),
+    ]);
+    expect(usage.locations).toContainEqual(
+      expect.objectContaining({ file: 'composer.json', type: 'config' })
+    );
+    expect(usage.locations.some((loc) => loc.file.startsWith('vendor/'))).toBe(false);
+  });
+
+  it('should resolve bumped constraints and expose PHP requirements', async () => {
+    const context = await createAnalyzer().getAdditionalContext({
+      name: 'guzzlehttp/guzzle',
+      fromVersion: '6.5',
+      toVersion: '7.0',
+    });
+
+    expect(context).toMatchObject({
+      resolvedVersion: '7.0.0',
+      phpVersionRequirement: '^7.2.5 || ^8.0',
+      phpVersionChange: { from: '>=5.5', to: '^7.2.5 || ^8.0' },
+      namespaces: ['GuzzleHttp'],
+      abandoned: false,
+    });
+  });
+});
+
+describe('expandMinifiedVersions', () => {
+  it('should carry fields forward and drop "__unset" ones', () => {
+    const expanded = expandMinifiedVersions(GUZZLE_METADATA.packages['guzzlehttp/guzzle']);
+
+    expect(expanded[1]).toMatchObject({ version: '6.5.8', description: expect.any(String) });
+    expect(expanded[3]).not.toHaveProperty('time');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { RubyGemsAnalyzer } from '../ruby/RubyGemsAnalyzer.js';
+import { toRawChangelogUrl } from '../../lib/rubygems.js';
+import { extractBreakingChanges } from '../../lib/breaking.js';
+
+vi.mock('../../lib/changelog.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/changelog.js')>()),
+  fetchGitHubReleaseNotes: vi.fn().mockResolvedValue(null),
+}));
+
+const CHANGELOG = `# Changelog
+
+## 3.0.0 (2024-04-01)
+
+* BREAKING: \`Rack::Test::Session#request\` no longer accepts a block
+* Drop support for Ruby 2.7
+
+## 2.2.0 (2024-01-10)
+
+* Add \`follow_redirect!\` options
+
+## 2.1.0 (2023-06-01)
+
+* Initial multipart rewrite
+`;
+
+describe('RubyGemsAnalyzer', () => {
+  let server: Server;
+  let apiUrl: string;
+  let projectPath: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const fixtures: Record<string, string> = {
+        '/api/v2/rubygems/rack-test/versions/3.0.0.json': JSON.stringify({
+          name: 'rack-test',
+          version: '3.0.0',
+          info: 'Simple testing API built on Rack',
+          homepage_uri: 'https://github.com/rack/rack-test',
+          source_code_uri: 'https://github.com/rack/rack-test',
+          changelog_uri: `${apiUrl}/files/CHANGELOG.md`,
+        }),
+        '/api/v1/versions/rack-test.json': JSON.stringify([
+          {
+            number: '3.0.0',
+            created_at: '2024-04-01T00:00:00Z',
+            ruby_version: '>= 3.0',
+            licenses: ['MIT'],
+          },
+          {
+            number: '2.2.0',
+            created_at: '2024-01-10T00:00:00Z',
+            ruby_version: '>= 2.7',
+            licenses: ['MIT'],
+          },
+          {
+            number: '2.1.0',
+            created_at: '2023-06-01T00:00:00Z',
+            ruby_version: '>= 2.7',
+            licenses: ['MIT'],
+          },
+        ]),
+        '/files/CHANGELOG.md': CHANGELOG,
+      };
+      const body = fixtures[req.url ?? ''];
+      res.statusCode = body ? 200 : 404;
+      res.end(body ?? 'not found');
+    });
+    await new Promise<void>((resolve) => server.listen(0, 'localhost', resolve));
+    apiUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    projectPath = await mkdtemp(join(tmpdir(), 'rubygems-analyzer-'));
+    await mkdir(join(projectPath, 'lib'));
+    await writeFile(
+      join(projectPath, 'Gemfile'),
+      `source 'https://rubygems.org'\n\ngem 'rails', '~> 7.1'\ngem "rack-test", "~> 2.1", require: "rack/test"\n`
+    );
+    await writeFile(
+      join(projectPath, 'Gemfile.lock'),
+      'GEM\n  remote: https://rubygems.org/\n  specs:\n    rack (3.0.8)\n    rack-test (2.1.0)\n      rack (>= 1.3)\n'
+    );
+    await writeFile(
+      join(projectPath, 'lib', 'client.rb'),
+      `require "rack/test"\nrequire "json"\n\n# Rack::Test is only used here\nclass Client\n  include Rack::Test::Methods\n\n  def session\n    Rack::Test::Session.new(app)\n  end\nend\n`
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) =>
+      server.close(() => {
+        resolve();
+      })
+    );
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  const createAnalyzer = () => new RubyGemsAnalyzer({ apiUrl });
+  const update = { name: 'rack-test', fromVersion: '2.1.0', toVersion: '3.0.0' };
+
+  it('should handle gems from the Gemfile or Gemfile.lock', async () => {
+    const analyzer = createAnalyzer();
+
+    expect(await analyzer.canHandle('rack-test', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('rack', projectPath)).toBe(true);
+    expect(await analyzer.canHandle('sidekiq', projectPath)).toBe(false);
+    expect(await analyzer.canHandle('rack-test', tmpdir())).toBe(false);
+  });
+
+  it('should read version metadata from the API', async () => {
+    const metadata = await createAnalyzer().fetchMetadata(update);
+
+    expect(metadata).toMatchObject({
+      name: 'rack-test',
+      version: '3.0.0',
+      description: 'Simple testing API built on Rack',
+      repository: 'https://github.com/rack/rack-test',
+      license: 'MIT',
+    });
+    expect(metadata?.publishedAt?.toISOString()).toBe('2024-04-01T00:00:00.000Z');
+  });
+
+  it('should feed changelog_uri sections into breaking change detection', async () => {
+    const changelog = await createAnalyzer().fetchChangelog(update);
+
+    expect(changelog?.source).toBe('rubygems');
+    expect(changelog?.content).toContain('## 2.2.0');
+    expect(changelog?.content).not.toContain('Initial multipart rewrite');
+
+    const breaking = extractBreakingChanges(changelog?.content ?? '', undefined, changelog?.source);
+    expect(breaking.map((change) => change.line)).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('no longer accepts a block'),
+        expect.stringContaining('Required Ruby version changed from >= 2.7 to >= 3.0'),
+      ])
+    );
+  });
+
+  it('should scan require statements and constant references', async () => {
+    const usage = await createAnalyzer().analyzeUsage('rack-test', projectPath);
+
+    const sourceLocations = usage.locations.filter((loc) => loc.file === 'lib/client.rb');
+    expect(sourceLocations).toEqual([
+      expect.objectContaining({ type: 'require', line: 1 }),
+      expect.objectContaining({ type: 'type-reference', line: 6 }),
+      expect.objectContaining({ type: 'function-call', line: 9 }),
+    ]);
+    expect(usage.locations).toContainEqual(
+      expect.objectContaining({ file: 'Gemfile', line: 4, type: 'config' })
+    );
+    expect(usage.locations.some((loc) => loc.file === 'Gemfile.lock')).toBe(true);
+  });
+
+  it('should expose Ruby version requirements as additional context', async () => {
+    const context = await createAnalyzer().getAdditionalContext(update);
+
+    expect(context).toMatchObject({
+      rubyVersionRequirement: '>= 3.0',
+      rubyVersionChange: { from: '>= 2.7', to: '>= 3.0' },
+      isPrerelease: false,
+      changelogUri: `${apiUrl}/files/CHANGELOG.md`,
+    });
+  });
+});
+
+describe('toRawChangelogUrl', () => {
+  it('should rewrite GitHub blob links and reject HTML pages', () => {
+    expect(toRawChangelogUrl('https://github.com/rack/rack-test/blob/main/History.md')).toBe(
+      'https://raw.githubusercontent.com/rack/rack-test/main/History.md'
+    );
+    expect(toRawChangelogUrl('https://github.com/rack/rack-test/releases')).toBeNull();
+  });
+});
@@ -0,0 +1,364 @@
+import {
+  PackageAnalyzer,
+  PackageMetadata,
+  UsageAnalysis,
+  UsageLocation,
+  AdditionalContext,
+} from '../base.js';
+import type { PackageUpdate, ChangelogDiff } from '../../types/index.js';
+import { categorizeUsages } from '../utils.js';
+import {
+  DEFAULT_RAW_CONTENT_URL,
+  parseActionReference,
+  fetchActionManifest,
+  diffActionManifests,
+  describeActionManifestDiff,
+  findWorkflowActionUsages,
+  type ActionManifestDiff,
+} from '../../lib/github-actions.js';
+import {
+  isDockerHubImage,
+  parseImageName,
+  fetchDockerHubTag,
+  fetchDockerHubRepository,
+  compareImageTags,
+  describeImageTagComparison,
+  findDockerImageReferences,
+} from '../../lib/docker-registry.js';
+import { fetchGitHubReleaseNotes } from '../../lib/changelog.js';
+import { loggers } from '../../lib/logger.js';
+import semver from 'semver';
+
+export type DockerActionsAnalyzerOptions = {
+  /** Base URL serving raw repository files; defaults to raw.githubusercontent.com */
+  rawContentUrl?: string;
+  /** Docker Hub API base URL; defaults to $RENOVATE_SAFETY_DOCKER_HUB_API or hub.docker.com */
+  dockerHubApiUrl?: string;
+};
+
+/**
+ * Actions are referenced as "owner/repo" or "owner/repo/path"; Renovate reports the
+ * repository, so the sub-path actions a project uses are remembered for manifest diffs
+ */
+type DetectedDependency = { kind: 'action'; uses: string[] } | { kind: 'docker' };
+
+/**
+ * Treats GitHub Actions (`uses: owner/action@ref`) and Docker base images
+ * (`FROM image:tag`, Compose `image:`) as packages
+ */
+export class DockerActionsAnalyzer extends PackageAnalyzer {
+  private readonly rawContentUrl: string;
+  private readonly dockerHubApiUrl?: string;
+  private readonly detected = new Map<string, DetectedDependency>();
+
+  constructor(options: DockerActionsAnalyzerOptions = {}) {
+    super();
+    this.rawContentUrl = options.rawContentUrl ?? DEFAULT_RAW_CONTENT_URL;
+    this.dockerHubApiUrl = options.dockerHubApiUrl;
+  }
+
+  async canHandle(packageName: string, projectPath: string): Promise<boolean> {
+    return (await this.detect(packageName, projectPath)) !== null;
+  }
+
+  async fetchMetadata(pkg: PackageUpdate): Promise<PackageMetadata | null> {
+    try {
+      const dependency = await this.resolve(pkg.name);
+
+      if (dependency?.kind === 'action') {
+        const action = parseActionReference(dependency.uses[0]);
+        const manifest = action
+          ? await fetchActionManifest(action, pkg.toVersion, this.rawContentUrl)
+          : null;
+        if (!action || !manifest) {
+          return null;
+        }
+
+        return {
+          name: pkg.name,
+          version: pkg.toVersion,
+          description: manifest.description ?? manifest.name,
+          repository: `https://github.com/${action.owner}/${action.repo}`,
+        };
+      }
+
+      if (dependency?.kind === 'docker') {
+        const [repository, tag] = await Promise.all([
+          fetchDockerHubRepository(pkg.name, this.dockerHubApiUrl),
+          fetchDockerHubTag(pkg.name, pkg.toVersion, this.dockerHubApiUrl),
+        ]);
+        if (!repository && !tag) {
+          return null;
+        }
+
+        return {
+          name: pkg.name,
+          version: pkg.toVersion,
+          description: repository?.description ?? undefined,
+          homepage: this.getDockerHubPage(pkg.name),
+          publishedAt: tag?.last_updated ? new Date(tag.last_updated) : undefined,
+        };
+      }
+
+      return null;
+    } catch (error) {
+      loggers.fetchFailed('Docker/Actions metadata', pkg.name, error);
+      return null;
+    }
+  }
+
+  async fetchChangelog(pkg: PackageUpdate): Promise<ChangelogDiff | null> {
+    try {
+      const dependency = await this.resolve(pkg.name);
+      if (dependency?.kind === 'action') {
+        return await this.fetchActionChangelog(pkg, dependency.uses);
+      }
+      if (dependency?.kind === 'docker') {
+        return await this.fetchImageChangelog(pkg);
+      }
+      return null;
+    } catch (error) {
+      loggers.genericFailed('fetch Docker/Actions changelog', error);
+      return null;
+    }
+  }
+
+  async analyzeUsage(packageName: string, projectPath: string): Promise<UsageAnalysis> {
+    const locations: UsageLocation[] = [];
+
+    for (const usage of await findWorkflowActionUsages(projectPath, packageName)) {
+      locations.push({
+        file: usage.file,
+        line: usage.line,
+        column: 0,
+        type: 'import',
+        code: usage.code,
+        context: 'build',
+      });
+      // `with:` inputs are what a removed or newly required input breaks
+      for (const input of usage.inputs) {
+        locations.push({
+          file: usage.file,
+          line: input.line,
+          column: 0,
+          type: 'property-access',
+          code: input.code,
+          context: 'build',
+        });
+      }
+    }
+
+    for (const reference of await this.findImageReferences(packageName, projectPath)) {
+      locations.push({
+        file: reference.file,
+        line: reference.line,
+        column: 0,
+        type: reference.kind === 'dockerfile' ? 'import' : 'config',
+        code: reference.code,
+        context: reference.kind === 'dockerfile' ? 'production' : 'config',
+      });
+    }
+
+    const categorization = categorizeUsages(locations);
+
+    return {
+      locations,
+      ...categorization,
+    };
+  }
+
+  async getAdditionalContext(pkg: PackageUpdate): Promise<AdditionalContext> {
+    const context: AdditionalContext = {};
+
+    try {
+      const dependency = await this.resolve(pkg.name);
+
+      if (dependency?.kind === 'action') {
+        const diffs = await this.diffActions(pkg, dependency.uses);
+        context.kind = 'github-action';
+        context.actions = dependency.uses;
+        context.removedInputs = diffs.flatMap(({ diff }) => diff.removedInputs);
+        context.newlyRequiredInputs = diffs.flatMap(({ diff }) => diff.newlyRequiredInputs);
+        context.removedOutputs = diffs.flatMap(({ diff }) => diff.removedOutputs);
+        const runsUsingChange = diffs.find(({ diff }) => diff.runsUsingChange)?.diff
+          .runsUsingChange;
+        if (runsUsingChange) {
+          context.runsUsingChange = runsUsingChange;
+        }
+      }
+
+      if (dependency?.kind === 'docker') {
+        const comparison = await this.compareImages(pkg);
+        context.kind = 'docker-image';
+        context.registry = parseImageName(pkg.name).registry;
+        context.removedPlatforms = comparison.removedPlatforms;
+        context.addedPlatforms = comparison.addedPlatforms;
+        if (comparison.variantChange) {
+          context.variantChange = comparison.variantChange;
+        }
+        if (comparison.majorVersionChange) {
+          context.majorVersionChange = comparison.majorVersionChange;
+        }
+      }
+    } catch (error) {
+      loggers.genericFailed('get additional Docker/Actions context', error);
+    }
+
+    return context;
+  }
+
+  getFileExtensions(): string[] {
+    return ['.yml', '.yaml', '.dockerfile'];
+  }
+
+  getImportPatterns(): RegExp[] {
+    return [
+      /^\s*-?\s*uses:\s*['"]?([^@'"\s]+)@/gm, // uses: owner/action@ref
+      /^\s*FROM\s+(?:--platform=\S+\s+)?([^\s:@]+)/gim, // FROM image:tag
+    ];
+  }
+
+  private async fetchActionChangelog(
+    pkg: PackageUpdate,
+    uses: string[]
+  ): Promise<ChangelogDiff | null> {
+    const sections: string[] = [
+      `# Changelog for ${pkg.name}: ${pkg.fromVersion} → ${pkg.toVersion}`,
+    ];
+
+    const diffs = await this.diffActions(pkg, uses);
+    for (const { uses: action, diff } of diffs) {
+      const lines = describeActionManifestDiff(diff, pkg.toVersion);
+      if (lines.length > 0) {
+        const heading =
+          diffs.length > 1 ? `## action.yml changes (${action})` : '## action.yml changes';
+        sections.push(`${heading}\n\n${lines.map((line) => `- ${line}`).join('\n')}`);
+      }
+    }
+
+    const action = parseActionReference(pkg.name);
+    const from = semver.coerce(pkg.fromVersion)?.version;
+    const to = semver.coerce(pkg.toVersion)?.version;
+    const releaseNotes =
+      action && from && to
+        ? await fetchGitHubReleaseNotes(action, { ...pkg, fromVersion: from, toVersion: to })
+        : null;
+    if (releaseNotes) {
+      sections.push(releaseNotes.content);
+    }
+
+    if (sections.length === 1 && diffs.length === 0) {
+      return null;
+    }
+
+    return this.toChangelogDiff(sections, 'github-actions', pkg);
+  }
+
+  private async fetchImageChangelog(pkg: PackageUpdate): Promise<ChangelogDiff | null> {
+    const sections: string[] = [
+      `# Changelog for ${pkg.name}: ${pkg.fromVersion} → ${pkg.toVersion}`,
+    ];
+
+    const comparison = await this.compareImages(pkg);
+    const lines = describeImageTagComparison(pkg.name, comparison, pkg.toVersion);
+    if (lines.length === 0) {
+      return null;
+    }
+
+    sections.push(`## Tag comparison\n\n${lines.map((line) => `- ${line}`).join('\n')}`);
+    return this.toChangelogDiff(sections, 'docker-hub', pkg);
+  }
+
+  private async diffActions(
+    pkg: PackageUpdate,
+    uses: string[]
+  ): Promise<Array<{ uses: string; diff: ActionManifestDiff }>> {
+    const diffs: Array<{ uses: string; diff: ActionManifestDiff }> = [];
+
+    for (const name of uses) {
+      const action = parseActionReference(name);
+      if (!action) continue;
+
+      const [from, to] = await Promise.all([
+        fetchActionManifest(action, pkg.fromVersion, this.rawContentUrl),
+        fetchActionManifest(action, pkg.toVersion, this.rawContentUrl),
+      ]);
+      if (from && to) {
+        diffs.push({ uses: name, diff: diffActionManifests(from, to) });
+      }
+    }
+
+    return diffs;
+  }
+
+  private async compareImages(pkg: PackageUpdate) {
+    const [fromTag, toTag] = await Promise.all([
+      fetchDockerHubTag(pkg.name, pkg.fromVersion, this.dockerHubApiUrl),
+      fetchDockerHubTag(pkg.name, pkg.toVersion, this.dockerHubApiUrl),
+    ]);
+    return compareImageTags(pkg.fromVersion, pkg.toVersion, fromTag, toTag);
+  }
+
+  private async findImageReferences(packageName: string, projectPath: string) {
+    try {
+      return await findDockerImageReferences(projectPath, packageName);
+    } catch {
+      // Not a valid image name (e.g. an npm scope), so it cannot appear in a FROM line
+      return [];
+    }
+  }
+
+  private async detect(
+    packageName: string,
+    projectPath: string
+  ): Promise<DetectedDependency | null> {
+    let dependency: DetectedDependency | null = null;
+
+    if (parseActionReference(packageName)) {
+      const usages = await findWorkflowActionUsages(projectPath, packageName);
+      if (usages.length > 0) {
+        dependency = { kind: 'action', uses: [...new Set(usages.map((usage) => usage.uses))] };
+      }
+    }
+
+    if (!dependency && (await this.findImageReferences(packageName, projectPath)).length > 0) {
+      dependency = { kind: 'docker' };
+    }
+
+    if (dependency) {
+      this.detected.set(packageName, dependency);
+    }
+    return dependency;
+  }
+
+  /**
+   * fetchMetadata/fetchChangelog only receive the package, so reuse what canHandle found
+   */
+  private async resolve(packageName: string): Promise<DetectedDependency | null> {
+    return this.detected.get(packageName) ?? this.detect(packageName, process.cwd());
+  }
+
+  private getDockerHubPage(imageName: string): string | undefined {
+    if (!isDockerHubImage(imageName)) {
+      return undefined;
+    }
+
+    const { namespace, repository } = parseImageName(imageName);
+    return namespace === 'library'
+      ? `https://hub.docker.com/_/${repository}`
+      : `https://hub.docker.com/r/${namespace}/${repository}`;
+  }
+
+  private toChangelogDiff(
+    sections: string[],
+    source: ChangelogDiff['source'],
+    pkg: PackageUpdate
+  ): ChangelogDiff {
+    return {
+      content: sections.join('\n\n'),
+      source,
+      fromVersion: pkg.fromVersion,
+      toVersion: pkg.toVersion,
+    };
+  }
+}
@@ -32,6 +32,7 @@ export async function findPackageInConfigFiles(
   for (const { pattern, type } of configPatterns) {
     const configFiles = await getFiles(pattern, {
       absolute: false, // Keep relative paths for compatibility
+      cwd: projectPath,
     });
 
     for (const file of configFiles) {
@@ -64,6 +65,26 @@ export const SOURCE_FILE_PATTERNS = {
     extensions: ['**/*.py'],
     ignore: ['**/venv/**', '**/__pycache__/**', '**/site-packages/**', '**/.tox/**'],
   },
+  go: {
+    extensions: ['**/*.go'],
+    ignore: ['**/vendor/**', '**/testdata/**'],
+  },
+  rust: {
+    extensions: ['**/*.rs'],
+    ignore: ['**/target/**'],
+  },
+  jvm: {
+    extensions: ['**/*.java', '**/*.kt'],
+    ignore: ['**/target/**', '**/build/**', '**/.gradle/**', '**/out/**'],
+  },
+  ruby: {
+    extensions: ['**/*.rb'],
+    ignore: ['**/vendor/bundle/**', '**/.bundle/**', '**/log/**'],
+  },
+  php: {
+    extensions: ['**/*.php'],
+    ignore: ['**/vendor/**', '**/var/cache/**', '**/storage/framework/**'],
+  },
 };
 
 /**
@@ -87,6 +108,28 @@ export const CONFIG_PATTERNS = {
     { pattern: 'tox.ini', type: 'tox' },
     { pattern: '.pre-commit-config.yaml', type: 'precommit' },
   ],
+  go: [
+    { pattern: 'go.mod', type: 'go.mod' },
+    { pattern: 'go.sum', type: 'go.sum' },
+    { pattern: 'go.work', type: 'go.work' },
+  ],
+  rust: [
+    { pattern: 'Cargo.lock', type: 'Cargo.lock' },
+    { pattern: '.cargo/config.toml', type: 'cargo-config' },
+  ],
+  jvm: [
+    { pattern: '**/gradle.lockfile', type: 'gradle-lockfile' },
+    { pattern: 'gradle.properties', type: 'gradle-properties' },
+    { pattern: '.mvn/extensions.xml', type: 'maven-extensions' },
+  ],
+  ruby: [
+    { pattern: 'Gemfile.lock', type: 'Gemfile.lock' },
+    { pattern: '*.gemspec', type: 'gemspec' },
+  ],
+  php: [
+    { pattern: 'composer.lock', type: 'composer.lock' },
+    { pattern: 'symfony.lock', type: 'symfony.lock' },
+  ],
 };
 
 /**
@@ -94,12 +137,17 @@ export const CONFIG_PATTERNS = {
  */
 export async function findSourceFiles(
   projectPath: string,
-  ecosystem: 'javascript' | 'python'
+  ecosystem: 'javascript' | 'python' | 'go' | 'rust' | 'jvm' | 'ruby' | 'php'
 ): Promise<string[]> {
   // Use getSourceFiles from glob-helpers
   const ecosystemMap = {
     javascript: 'node',
     python: 'python',
+    go: 'go',
+    rust: 'rust',
+    jvm: 'jvm',
+    ruby: 'ruby',
+    php: 'php',
   } as const;
 
   const files = await getSourceFiles(projectPath, ecosystemMap[ecosystem]);
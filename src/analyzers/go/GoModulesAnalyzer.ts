@@ -0,0 +1,366 @@
+import {
+  PackageAnalyzer,
+  PackageMetadata,
+  UsageAnalysis,
+  UsageLocation,
+  AdditionalContext,
+} from '../base.js';
+import type { PackageUpdate, ChangelogDiff } from '../../types/index.js';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import semver from 'semver';
+import { getFileContext, categorizeUsages } from '../utils.js';
+import { findPackageInConfigFiles, findSourceFiles, CONFIG_PATTERNS } from '../file-utils.js';
+import {
+  fetchGoModuleInfo,
+  fetchGoModFile,
+  listGoModuleVersions,
+  splitMajorVersionSuffix,
+  modulePathForVersion,
+  extractGoGitHubRepo,
+  parseGoModDeprecation,
+  parseGoDirective,
+  toGoVersion,
+} from '../../lib/go-proxy.js';
+import { fetchGitHubReleaseNotes } from '../../lib/changelog.js';
+import { readFileWithDefault } from '../../lib/file-helpers.js';
+import { loggers } from '../../lib/logger.js';
+
+export type GoModulesAnalyzerOptions = {
+  /** GOPROXY-compatible base URL; defaults to $GOPROXY or proxy.golang.org */
+  proxyUrl?: string;
+};
+
+type GoImport = {
+  path: string;
+  alias: string | null;
+  line: number;
+  code: string;
+};
+
+export class GoModulesAnalyzer extends PackageAnalyzer {
+  private readonly proxyUrl?: string;
+
+  constructor(options: GoModulesAnalyzerOptions = {}) {
+    super();
+    this.proxyUrl = options.proxyUrl;
+  }
+
+  async canHandle(packageName: string, projectPath: string): Promise<boolean> {
+    const goMod = await readFileWithDefault(join(projectPath, 'go.mod'), '');
+    if (!goMod) {
+      return false;
+    }
+
+    // Only claim modules that go.mod actually requires, so mixed repos still reach NpmAnalyzer
+    const { basePath } = splitMajorVersionSuffix(packageName);
+    return this.parseRequiredModules(goMod).some(
+      (required) => splitMajorVersionSuffix(required).basePath === basePath
+    );
+  }
+
+  async fetchMetadata(pkg: PackageUpdate): Promise<PackageMetadata | null> {
+    try {
+      const modulePath = modulePathForVersion(pkg.name, pkg.toVersion);
+      const [info, goMod] = await Promise.all([
+        fetchGoModuleInfo(modulePath, pkg.toVersion, this.proxyUrl),
+        fetchGoModFile(modulePath, pkg.toVersion, this.proxyUrl),
+      ]);
+
+      if (!info) {
+        return null;
+      }
+
+      const github = extractGoGitHubRepo(modulePath, info.Origin?.URL);
+      const deprecationMessage = goMod ? parseGoModDeprecation(goMod) : undefined;
+
+      return {
+        name: modulePath,
+        version: info.Version,
+        homepage: `https://pkg.go.dev/${modulePath}`,
+        repository: github ? `https://github.com/${github.owner}/${github.repo}` : info.Origin?.URL,
+        publishedAt: info.Time ? new Date(info.Time) : undefined,
+        deprecated: deprecationMessage !== undefined,
+        deprecationMessage,
+      };
+    } catch (error) {
+      loggers.fetchFailed('Go module metadata', pkg.name, error);
+      return null;
+    }
+  }
+
+  async fetchChangelog(pkg: PackageUpdate): Promise<ChangelogDiff | null> {
+    try {
+      const fromPath = modulePathForVersion(pkg.name, pkg.fromVersion);
+      const toPath = modulePathForVersion(pkg.name, pkg.toVersion);
+      const sections: string[] = [
+        `# Changelog for ${pkg.name}: ${toGoVersion(pkg.fromVersion)} → ${toGoVersion(pkg.toVersion)}`,
+      ];
+
+      // A /vN path change is breaking by definition: every import must be rewritten
+      if (fromPath !== toPath) {
+        sections.push(
+          `BREAKING: Module path changed from ${fromPath} to ${toPath}; all import paths must be updated`
+        );
+      }
+
+      const github = extractGoGitHubRepo(toPath);
+      const releaseNotes = github ? await fetchGitHubReleaseNotes(github, pkg) : null;
+      if (releaseNotes) {
+        sections.push(releaseNotes.content);
+        return {
+          content: sections.join('\n\n'),
+          source: 'github',
+          fromVersion: pkg.fromVersion,
+          toVersion: pkg.toVersion,
+        };
+      }
+
+      // No release notes: fall back to the tags the proxy knows about in range
+      const tags = await this.listTagsInRange(pkg, fromPath, toPath);
+      if (tags.length === 0 && fromPath === toPath) {
+        return null;
+      }
+
+      if (tags.length > 0) {
+        sections.push(`## Tagged versions\n\n${tags.map((tag) => `- ${tag}`).join('\n')}`);
+      }
+
+      return {
+        content: sections.join('\n\n'),
+        source: 'go-proxy',
+        fromVersion: pkg.fromVersion,
+        toVersion: pkg.toVersion,
+      };
+    } catch (error) {
+      loggers.genericFailed('fetch Go module changelog', error);
+      return null;
+    }
+  }
+
+  async analyzeUsage(packageName: string, projectPath: string): Promise<UsageAnalysis> {
+    const locations: UsageLocation[] = [];
+    const { basePath } = splitMajorVersionSuffix(packageName);
+
+    const goFiles = await findSourceFiles(projectPath, 'go');
+
+    for (const file of goFiles) {
+      const content = await readFile(join(projectPath, file), 'utf-8');
+      const lines = content.split('\n');
+      const imports = this.parseImports(lines).filter((imp) =>
+        this.isModuleImport(imp.path, basePath)
+      );
+
+      for (const imp of imports) {
+        locations.push({
+          file,
+          line: imp.line,
+          column: 0,
+          type: 'import',
+          code: imp.code,
+          context: getFileContext(file),
+        });
+
+        const identifier = imp.alias ?? this.defaultPackageName(imp.path);
+        if (identifier !== '_' && identifier !== '.') {
+          this.findQualifiedUsages(lines, identifier, file, locations);
+        }
+      }
+    }
+
+    // go.mod / go.sum / go.work references
+    const configLocations = await findPackageInConfigFiles(
+      basePath,
+      projectPath,
+      CONFIG_PATTERNS.go
+    );
+    locations.push(...configLocations);
+
+    const categorization = categorizeUsages(locations);
+
+    return {
+      locations,
+      ...categorization,
+    };
+  }
+
+  async getAdditionalContext(pkg: PackageUpdate): Promise<AdditionalContext> {
+    const context: AdditionalContext = {};
+    const fromPath = modulePathForVersion(pkg.name, pkg.fromVersion);
+    const toPath = modulePathForVersion(pkg.name, pkg.toVersion);
+
+    context.fromModulePath = fromPath;
+    context.toModulePath = toPath;
+    context.majorVersionPathChange = fromPath !== toPath;
+    context.isIncompatible = toGoVersion(pkg.toVersion).includes('+incompatible');
+
+    try {
+      const [fromMod, toMod] = await Promise.all([
+        fetchGoModFile(fromPath, pkg.fromVersion, this.proxyUrl),
+        fetchGoModFile(toPath, pkg.toVersion, this.proxyUrl),
+      ]);
+
+      const fromGo = fromMod ? parseGoDirective(fromMod) : undefined;
+      const toGo = toMod ? parseGoDirective(toMod) : undefined;
+      if (toGo) {
+        context.goVersionRequirement = toGo;
+      }
+      if (fromGo && toGo && fromGo !== toGo) {
+        context.goDirectiveChange = { from: fromGo, to: toGo };
+      }
+    } catch (error) {
+      loggers.genericFailed('get additional Go module context', error);
+    }
+
+    return context;
+  }
+
+  getFileExtensions(): string[] {
+    return ['.go'];
+  }
+
+  getImportPatterns(): RegExp[] {
+    return [
+      /^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm, // import alias "path"
+      /^\s+(?:[\w.]+\s+)?"([^"]+)"\s*$/gm, // "path" inside an import ( ... ) block
+    ];
+  }
+
+  private parseRequiredModules(goMod: string): string[] {
+    const modules: string[] = [];
+    let inRequireBlock = false;
+
+    for (const rawLine of goMod.split('\n')) {
+      const line = rawLine.replace(/\/\/.*$/, '').trim();
+
+      if (inRequireBlock) {
+        if (line === ')') {
+          inRequireBlock = false;
+        } else if (line) {
+          modules.push(line.split(/\s+/)[0]);
+        }
+        continue;
+      }
+
+      if (/^require\s*\($/.test(line)) {
+        inRequireBlock = true;
+        continue;
+      }
+
+      const single = /^require\s+(\S+)\s+\S+/.exec(line);
+      if (single) {
+        modules.push(single[1]);
+      }
+    }
+
+    return modules;
+  }
+
+  private parseImports(lines: string[]): GoImport[] {
+    const imports: GoImport[] = [];
+    const specPattern = /^(?:([\w.]+)\s+)?"([^"]+)"/;
+    let inImportBlock = false;
+
+    lines.forEach((rawLine, index) => {
+      const line = rawLine.trim();
+
+      if (inImportBlock) {
+        if (line.startsWith(')')) {
+          inImportBlock = false;
+          return;
+        }
+        const spec = specPattern.exec(line);
+        if (spec) {
+          imports.push({ alias: spec[1] ?? null, path: spec[2], line: index + 1, code: line });
+        }
+        return;
+      }
+
+      if (/^import\s*\($/.test(line)) {
+        inImportBlock = true;
+        return;
+      }
+
+      const single = /^import\s+(.+)$/.exec(line);
+      const spec = single ? specPattern.exec(single[1]) : null;
+      if (spec) {
+        imports.push({ alias: spec[1] ?? null, path: spec[2], line: index + 1, code: line });
+      }
+    });
+
+    return imports;
+  }
+
+  /**
+   * Match the module itself or any of its packages, regardless of major version suffix,
+   * so usages are still found after the import paths change
+   */
+  private isModuleImport(importPath: string, basePath: string): boolean {
+    // Covers github.com/foo/bar, github.com/foo/bar/pkg and github.com/foo/bar/v3/pkg
+    if (importPath === basePath || importPath.startsWith(`${basePath}/`)) {
+      return true;
+    }
+
+    // gopkg.in/yaml.v3 style suffixes
+    return (
+      importPath.startsWith(`${basePath}.v`) &&
+      /^\d+(?:\/|$)/.test(importPath.slice(basePath.length + 2))
+    );
+  }
+
+  private defaultPackageName(importPath: string): string {
+    const { basePath, major } = splitMajorVersionSuffix(importPath);
+    const lastElement = (major !== null ? basePath : importPath).split('/').pop() ?? importPath;
+    return lastElement
+      .replace(/^go-/, '')
+      .replace(/[.-]go$/, '')
+      .replace(/[^\w]/g, '_');
+  }
+
+  private findQualifiedUsages(
+    lines: string[],
+    identifier: string,
+    file: string,
+    locations: UsageLocation[]
+  ): void {
+    const callPattern = new RegExp(`\\b${identifier}\\.(\\w+)\\s*\\(`);
+    const accessPattern = new RegExp(`\\b${identifier}\\.(\\w+)`);
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('//') || trimmed.startsWith('import') || trimmed.startsWith('"')) {
+        return;
+      }
+
+      const isCall = callPattern.test(line);
+      if (isCall || accessPattern.test(line)) {
+        locations.push({
+          file,
+          line: index + 1,
+          column: line.indexOf(`${identifier}.`),
+          type: isCall ? 'function-call' : 'property-access',
+          code: trimmed,
+          context: getFileContext(file),
+        });
+      }
+    });
+  }
+
+  private async listTagsInRange(
+    pkg: PackageUpdate,
+    fromPath: string,
+    toPath: string
+  ): Promise<string[]> {
+    const paths = fromPath === toPath ? [toPath] : [fromPath, toPath];
+    const versions = (
+      await Promise.all(paths.map((path) => listGoModuleVersions(path, this.proxyUrl)))
+    ).flat();
+
+    const from = toGoVersion(pkg.fromVersion);
+    const to = toGoVersion(pkg.toVersion);
+
+    return [...new Set(versions)]
+      .filter((version) => semver.gt(version, from) && semver.lte(version, to))
+      .sort((a, b) => semver.compare(a, b));
+  }
+}
@@ -2,8 +2,21 @@
 import { analyzerRegistry } from './base.js';
 import { NpmAnalyzer } from './npm/NpmAnalyzer.js';
 import { PyPiAnalyzer } from './python/PyPiAnalyzer.js';
+import { GoModulesAnalyzer } from './go/GoModulesAnalyzer.js';
+import { CargoAnalyzer } from './rust/CargoAnalyzer.js';
+import { MavenAnalyzer } from './jvm/MavenAnalyzer.js';
+import { RubyGemsAnalyzer } from './ruby/RubyGemsAnalyzer.js';
+import { DockerActionsAnalyzer } from './docker/DockerActionsAnalyzer.js';
+import { PackagistAnalyzer } from './php/PackagistAnalyzer.js';
 
 // Register analyzers
+// Manifest-checking analyzers come first: NpmAnalyzer accepts any project with a package.json
+analyzerRegistry.register(new GoModulesAnalyzer());
+analyzerRegistry.register(new CargoAnalyzer());
+analyzerRegistry.register(new MavenAnalyzer());
+analyzerRegistry.register(new RubyGemsAnalyzer());
+analyzerRegistry.register(new DockerActionsAnalyzer());
+analyzerRegistry.register(new PackagistAnalyzer());
 analyzerRegistry.register(new NpmAnalyzer());
 analyzerRegistry.register(new PyPiAnalyzer());
 
@@ -0,0 +1,380 @@
+import {
+  PackageAnalyzer,
+  PackageMetadata,
+  UsageAnalysis,
+  UsageLocation,
+  AdditionalContext,
+} from '../base.js';
+import type { PackageUpdate, ChangelogDiff } from '../../types/index.js';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { getFileContext, categorizeUsages } from '../utils.js';
+import { findPackageInConfigFiles, findSourceFiles, CONFIG_PATTERNS } from '../file-utils.js';
+import {
+  fetchMavenMetadata,
+  fetchMavenPom,
+  getMavenVersionsInRange,
+  parseMavenCoordinate,
+  type MavenCoordinate,
+  type MavenRelocation,
+} from '../../lib/maven-repository.js';
+import { fetchGitHubReleaseNotes } from '../../lib/changelog.js';
+import { extractGitHubRepo } from '../../lib/npm-registry.js';
+import { getFiles } from '../../lib/glob-helpers.js';
+import { escapeRegex } from '../../lib/string-validators.js';
+import { loggers } from '../../lib/logger.js';
+
+export type MavenAnalyzerOptions = {
+  /** Maven-layout repository base URL; defaults to $RENOVATE_SAFETY_MAVEN_REPOSITORY or Maven Central */
+  repositoryUrl?: string;
+};
+
+type JvmImport = {
+  path: string;
+  alias: string | null;
+  isStatic: boolean;
+  line: number;
+  code: string;
+};
+
+// Maven and Gradle build files, including Gradle version catalogs
+const BUILD_FILE_PATTERNS = [
+  '**/pom.xml',
+  '**/build.gradle',
+  '**/build.gradle.kts',
+  '**/gradle/*.versions.toml',
+];
+
+const COORDINATE_PATTERN = /^[\w.-]+:[\w.-]+$/;
+
+export class MavenAnalyzer extends PackageAnalyzer {
+  private readonly repositoryUrl?: string;
+
+  constructor(options: MavenAnalyzerOptions = {}) {
+    super();
+    this.repositoryUrl = options.repositoryUrl;
+  }
+
+  async canHandle(packageName: string, projectPath: string): Promise<boolean> {
+    // Renovate's maven and gradle managers always report group:artifact
+    if (!COORDINATE_PATTERN.test(packageName)) {
+      return false;
+    }
+
+    const coordinate = parseMavenCoordinate(packageName);
+    for (const file of await this.findBuildFiles(projectPath)) {
+      const content = await readFile(join(projectPath, file), 'utf-8');
+      if (this.findDeclarations(content, coordinate).length > 0) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  async fetchMetadata(pkg: PackageUpdate): Promise<PackageMetadata | null> {
+    try {
+      const pom = await fetchMavenPom(pkg.name, pkg.toVersion, this.repositoryUrl);
+
+      if (!pom) {
+        return null;
+      }
+
+      const relocatedTo = pom.relocation ? this.describeRelocation(pkg.name, pom.relocation) : null;
+
+      return {
+        name: pkg.name,
+        version: pkg.toVersion,
+        description: pom.description ?? pom.name,
+        homepage: pom.url,
+        repository: pom.scmUrl,
+        license: pom.licenses.length > 0 ? pom.licenses.join(', ') : undefined,
+        deprecated: relocatedTo !== null,
+        deprecationMessage: relocatedTo
+          ? [`Relocated to ${relocatedTo}`, pom.relocation?.message].filter(Boolean).join(': ')
+          : undefined,
+      };
+    } catch (error) {
+      loggers.fetchFailed('Maven metadata', pkg.name, error);
+      return null;
+    }
+  }
+
+  async fetchChangelog(pkg: PackageUpdate): Promise<ChangelogDiff | null> {
+    try {
+      const [fromPom, toPom] = await Promise.all([
+        fetchMavenPom(pkg.name, pkg.fromVersion, this.repositoryUrl),
+        fetchMavenPom(pkg.name, pkg.toVersion, this.repositoryUrl),
+      ]);
+      const sections: string[] = [
+        `# Changelog for ${pkg.name}: ${pkg.fromVersion} → ${pkg.toVersion}`,
+      ];
+
+      // A relocation means every coordinate (and usually package) reference must change
+      if (toPom?.relocation) {
+        sections.push(
+          `BREAKING: Artifact ${pkg.name} was relocated to ${this.describeRelocation(pkg.name, toPom.relocation)}`
+        );
+      }
+
+      if (toPom?.javaVersion && fromPom?.javaVersion && toPom.javaVersion !== fromPom.javaVersion) {
+        sections.push(`⚠️ Java target changed from ${fromPom.javaVersion} to ${toPom.javaVersion}`);
+      }
+
+      const github = extractGitHubRepo(toPom?.scmUrl ?? fromPom?.scmUrl);
+      const releaseNotes = github ? await fetchGitHubReleaseNotes(github, pkg) : null;
+      if (releaseNotes) {
+        sections.push(releaseNotes.content);
+        return {
+          content: sections.join('\n\n'),
+          source: 'github',
+          fromVersion: pkg.fromVersion,
+          toVersion: pkg.toVersion,
+        };
+      }
+
+      const metadata = await fetchMavenMetadata(pkg.name, this.repositoryUrl);
+      const versions = metadata
+        ? getMavenVersionsInRange(metadata.versions, pkg.fromVersion, pkg.toVersion)
+        : [];
+      if (versions.length === 0 && sections.length === 1) {
+        return null;
+      }
+
+      if (versions.length > 0) {
+        sections.push(
+          `## Published versions\n\n${versions.map((version) => `- ${version}`).join('\n')}`
+        );
+      }
+
+      return {
+        content: sections.join('\n\n'),
+        source: 'maven',
+        fromVersion: pkg.fromVersion,
+        toVersion: pkg.toVersion,
+      };
+    } catch (error) {
+      loggers.genericFailed('fetch Maven changelog', error);
+      return null;
+    }
+  }
+
+  async analyzeUsage(packageName: string, projectPath: string): Promise<UsageAnalysis> {
+    const locations: UsageLocation[] = [];
+    const coordinate = parseMavenCoordinate(packageName);
+
+    // Build file declarations, with the exact line
+    for (const file of await this.findBuildFiles(projectPath)) {
+      const content = await readFile(join(projectPath, file), 'utf-8');
+      for (const declaration of this.findDeclarations(content, coordinate)) {
+        locations.push({
+          file,
+          line: declaration.line,
+          column: 0,
+          type: 'config',
+          code: declaration.code,
+          context: 'config',
+        });
+      }
+    }
+
+    // Artifacts rarely declare their Java packages; the groupId is the conventional prefix
+    const jvmFiles = await findSourceFiles(projectPath, 'jvm');
+    for (const file of jvmFiles) {
+      const content = await readFile(join(projectPath, file), 'utf-8');
+      const lines = content.split('\n');
+      const imports = this.parseImports(lines).filter(
+        (imp) => imp.path === coordinate.groupId || imp.path.startsWith(`${coordinate.groupId}.`)
+      );
+
+      for (const imp of imports) {
+        locations.push({
+          file,
+          line: imp.line,
+          column: 0,
+          type: 'import',
+          code: imp.code,
+          context: getFileContext(file),
+        });
+
+        const identifier = imp.alias ?? imp.path.split('.').pop() ?? '';
+        if (identifier && identifier !== '*') {
+          this.findIdentifierUsages(lines, identifier, imp.isStatic, file, locations);
+        }
+      }
+    }
+
+    // Gradle lockfiles and properties
+    const configLocations = await findPackageInConfigFiles(
+      packageName,
+      projectPath,
+      CONFIG_PATTERNS.jvm
+    );
+    locations.push(...configLocations);
+
+    const categorization = categorizeUsages(locations);
+
+    return {
+      locations,
+      ...categorization,
+    };
+  }
+
+  async getAdditionalContext(pkg: PackageUpdate): Promise<AdditionalContext> {
+    const context: AdditionalContext = {};
+    const { groupId, artifactId } = parseMavenCoordinate(pkg.name);
+    context.groupId = groupId;
+    context.artifactId = artifactId;
+
+    try {
+      const [fromPom, toPom] = await Promise.all([
+        fetchMavenPom(pkg.name, pkg.fromVersion, this.repositoryUrl),
+        fetchMavenPom(pkg.name, pkg.toVersion, this.repositoryUrl),
+      ]);
+
+      if (toPom?.relocation) {
+        context.relocatedTo = this.describeRelocation(pkg.name, toPom.relocation);
+      }
+      if (toPom?.javaVersion) {
+        context.javaVersionRequirement = toPom.javaVersion;
+      }
+      if (fromPom?.javaVersion && toPom?.javaVersion && fromPom.javaVersion !== toPom.javaVersion) {
+        context.javaVersionChange = { from: fromPom.javaVersion, to: toPom.javaVersion };
+      }
+    } catch (error) {
+      loggers.genericFailed('get additional Maven context', error);
+    }
+
+    return context;
+  }
+
+  getFileExtensions(): string[] {
+    return ['.java', '.kt'];
+  }
+
+  getImportPatterns(): RegExp[] {
+    return [
+      /^import\s+(?:static\s+)?([\w.]+(?:\.\*)?)\s*;/gm, // Java: import [static] a.b.C;
+      /^import\s+([\w.`]+(?:\.\*)?)(?:\s+as\s+\w+)?\s*$/gm, // Kotlin: import a.b.C [as D]
+    ];
+  }
+
+  private async findBuildFiles(projectPath: string): Promise<string[]> {
+    return getFiles(BUILD_FILE_PATTERNS, {
+      cwd: projectPath,
+      ecosystem: 'jvm',
+      includeTests: true,
+    });
+  }
+
+  /**
+   * Locate declarations of a coordinate in pom.xml, Gradle scripts or version catalogs
+   */
+  private findDeclarations(
+    content: string,
+    { groupId, artifactId }: MavenCoordinate
+  ): Array<{ line: number; code: string }> {
+    const group = escapeRegex(groupId);
+    const artifact = escapeRegex(artifactId);
+    const patterns = [
+      // <groupId>g</groupId> <artifactId>a</artifactId>
+      new RegExp(
+        `<groupId>\\s*${group}\\s*</groupId>\\s*<artifactId>\\s*${artifact}\\s*</artifactId>`,
+        'g'
+      ),
+      // 'g:a:1.0', "g:a", module = "g:a"
+      new RegExp(`['"]${group}:${artifact}(?::[^'"]*)?['"]`, 'g'),
+      // group: 'g', name: 'a' / group = "g", name = "a"
+      new RegExp(
+        `group\\s*[:=]\\s*['"]${group}['"]\\s*,\\s*(?:name|module)\\s*[:=]\\s*['"]${artifact}['"]`,
+        'g'
+      ),
+    ];
+
+    const lines = content.split('\n');
+    const declarations = new Map<number, string>();
+    for (const pattern of patterns) {
+      for (const match of content.matchAll(pattern)) {
+        const line = content.slice(0, match.index).split('\n').length;
+        declarations.set(line, lines[line - 1].trim());
+      }
+    }
+
+    return [...declarations.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([line, code]) => ({ line, code }));
+  }
+
+  private parseImports(lines: string[]): JvmImport[] {
+    const imports: JvmImport[] = [];
+    const importPattern = /^import\s+(static\s+)?([\w.`]+?)(\.\*)?(?:\s+as\s+(\w+))?\s*;?$/;
+
+    lines.forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      const match = importPattern.exec(line);
+      if (match) {
+        imports.push({
+          path: match[2].replace(/`/g, '') + (match[3] ?? ''),
+          alias: match[4] ?? null,
+          isStatic: Boolean(match[1]),
+          line: index + 1,
+          code: line,
+        });
+      }
+    });
+
+    return imports;
+  }
+
+  private findIdentifierUsages(
+    lines: string[],
+    identifier: string,
+    isStatic: boolean,
+    file: string,
+    locations: UsageLocation[]
+  ): void {
+    const safeIdentifier = escapeRegex(identifier);
+    const callPattern = new RegExp(`(?:\\bnew\\s+)?\\b${safeIdentifier}(?:\\.\\w+)?\\s*\\(`);
+    const accessPattern = new RegExp(`\\b${safeIdentifier}\\.\\w+`);
+    const referencePattern = new RegExp(`\\b${safeIdentifier}\\b`);
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (
+        trimmed.startsWith('//') ||
+        trimmed.startsWith('*') ||
+        trimmed.startsWith('import ') ||
+        trimmed.startsWith('package ')
+      ) {
+        return;
+      }
+
+      let type: UsageLocation['type'] | null = null;
+      if (callPattern.test(line)) {
+        type = 'function-call';
+      } else if (accessPattern.test(line)) {
+        type = 'property-access';
+      } else if (referencePattern.test(line)) {
+        // Statically imported members are values; imported classes are types
+        type = isStatic ? 'property-access' : 'type-reference';
+      }
+
+      if (type) {
+        locations.push({
+          file,
+          line: index + 1,
+          column: line.search(referencePattern),
+          type,
+          code: trimmed,
+          context: getFileContext(file),
+        });
+      }
+    });
+  }
+
+  private describeRelocation(coordinate: string, relocation: MavenRelocation): string {
+    const { groupId, artifactId } = parseMavenCoordinate(coordinate);
+    const target = `${relocation.groupId ?? groupId}:${relocation.artifactId ?? artifactId}`;
+    return relocation.version ? `${target}:${relocation.version}` : target;
+  }
+}
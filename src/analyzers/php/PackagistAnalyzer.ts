@@ -0,0 +1,345 @@
+import {
+  PackageAnalyzer,
+  PackageMetadata,
+  UsageAnalysis,
+  UsageLocation,
+  AdditionalContext,
+} from '../base.js';
+import type { PackageUpdate, ChangelogDiff } from '../../types/index.js';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { getFileContext, categorizeUsages } from '../utils.js';
+import { findPackageInConfigFiles, findSourceFiles, CONFIG_PATTERNS } from '../file-utils.js';
+import {
+  fetchPackagistVersions,
+  findPackagistVersion,
+  getPackagistVersionsInRange,
+  getAutoloadNamespaces,
+  getAbandonedReplacement,
+  type ComposerManifest,
+  type ComposerLock,
+  type ComposerLockPackage,
+  type PackagistVersion,
+} from '../../lib/packagist.js';
+import { fetchGitHubReleaseNotes } from '../../lib/changelog.js';
+import { extractGitHubRepo } from '../../lib/npm-registry.js';
+import { readJsonFile, readFileWithDefault } from '../../lib/file-helpers.js';
+import { escapeRegex } from '../../lib/string-validators.js';
+import { loggers } from '../../lib/logger.js';
+import semver from 'semver';
+
+export type PackagistAnalyzerOptions = {
+  /** Composer repository base URL; defaults to $RENOVATE_SAFETY_PACKAGIST_URL or repo.packagist.org */
+  repositoryUrl?: string;
+};
+
+export class PackagistAnalyzer extends PackageAnalyzer {
+  private readonly repositoryUrl?: string;
+
+  constructor(options: PackagistAnalyzerOptions = {}) {
+    super();
+    this.repositoryUrl = options.repositoryUrl;
+  }
+
+  async canHandle(packageName: string, projectPath: string): Promise<boolean> {
+    const manifest = await readJsonFile<ComposerManifest>(join(projectPath, 'composer.json'));
+    if (!manifest) {
+      return false;
+    }
+
+    if (manifest.require?.[packageName] || manifest['require-dev']?.[packageName]) {
+      return true;
+    }
+
+    // Transitive packages only appear in the lockfile
+    return (await this.findLockedPackage(packageName, projectPath)) !== undefined;
+  }
+
+  async fetchMetadata(pkg: PackageUpdate): Promise<PackageMetadata | null> {
+    try {
+      const versions = await fetchPackagistVersions(pkg.name, this.repositoryUrl);
+      const release = findPackagistVersion(versions, pkg.toVersion);
+
+      if (!release) {
+        return null;
+      }
+
+      const replacement = getAbandonedReplacement(release);
+
+      return {
+        name: pkg.name,
+        version: release.version,
+        description: release.description,
+        homepage: release.homepage,
+        repository: release.source?.url,
+        license:
+          release.license && release.license.length > 0 ? release.license.join(', ') : undefined,
+        publishedAt: release.time ? new Date(release.time) : undefined,
+        deprecated: Boolean(release.abandoned),
+        deprecationMessage: release.abandoned
+          ? `Package is abandoned${replacement ? `; use ${replacement} instead` : ''}`
+          : undefined,
+      };
+    } catch (error) {
+      loggers.fetchFailed('Packagist metadata', pkg.name, error);
+      return null;
+    }
+  }
+
+  async fetchChangelog(pkg: PackageUpdate): Promise<ChangelogDiff | null> {
+    try {
+      const versions = await fetchPackagistVersions(pkg.name, this.repositoryUrl);
+      const from = findPackagistVersion(versions, pkg.fromVersion);
+      const to = findPackagistVersion(versions, pkg.toVersion);
+      const sections: string[] = [
+        `# Changelog for ${pkg.name}: ${pkg.fromVersion} → ${pkg.toVersion}`,
+      ];
+
+      if (from && to) {
+        sections.push(...this.describeReleaseChanges(from, to));
+      }
+
+      const github = extractGitHubRepo(to?.source?.url ?? from?.source?.url);
+      const fromSemver = semver.coerce(from?.version ?? pkg.fromVersion)?.version;
+      const toSemver = semver.coerce(to?.version ?? pkg.toVersion)?.version;
+      const releaseNotes =
+        github && fromSemver && toSemver
+          ? await fetchGitHubReleaseNotes(github, {
+              ...pkg,
+              fromVersion: fromSemver,
+              toVersion: toSemver,
+            })
+          : null;
+      if (releaseNotes) {
+        sections.push(releaseNotes.content);
+        return this.toChangelogDiff(sections, 'github', pkg);
+      }
+
+      const published = getPackagistVersionsInRange(versions, pkg.fromVersion, pkg.toVersion);
+      if (published.length === 0 && sections.length === 1) {
+        return null;
+      }
+
+      if (published.length > 0) {
+        sections.push(
+          `## Published versions\n\n${published.map((release) => `- ${release.version}`).join('\n')}`
+        );
+      }
+
+      return this.toChangelogDiff(sections, 'packagist', pkg);
+    } catch (error) {
+      loggers.genericFailed('fetch Packagist changelog', error);
+      return null;
+    }
+  }
+
+  async analyzeUsage(packageName: string, projectPath: string): Promise<UsageAnalysis> {
+    const locations: UsageLocation[] = [];
+
+    // composer.json declarations (require / require-dev)
+    const composerJson = await readFileWithDefault(join(projectPath, 'composer.json'), '');
+    const declarationPattern = new RegExp(`^\\s*"${escapeRegex(packageName)}"\\s*:`);
+    composerJson.split('\n').forEach((line, index) => {
+      if (declarationPattern.test(line)) {
+        locations.push({
+          file: 'composer.json',
+          line: index + 1,
+          column: 0,
+          type: 'config',
+          code: line.trim(),
+          context: 'config',
+        });
+      }
+    });
+
+    const namespaces = await this.getNamespaces(packageName, projectPath);
+    const phpFiles = await findSourceFiles(projectPath, 'php');
+
+    for (const file of phpFiles) {
+      const content = await readFile(join(projectPath, file), 'utf-8');
+      this.scanPhpSource(content.split('\n'), namespaces, file, locations);
+    }
+
+    // composer.lock and symfony.lock references
+    const configLocations = await findPackageInConfigFiles(
+      packageName,
+      projectPath,
+      CONFIG_PATTERNS.php
+    );
+    locations.push(...configLocations);
+
+    const categorization = categorizeUsages(locations);
+
+    return {
+      locations,
+      ...categorization,
+    };
+  }
+
+  async getAdditionalContext(pkg: PackageUpdate): Promise<AdditionalContext> {
+    const context: AdditionalContext = {};
+
+    try {
+      const versions = await fetchPackagistVersions(pkg.name, this.repositoryUrl);
+      const from = findPackagistVersion(versions, pkg.fromVersion);
+      const to = findPackagistVersion(versions, pkg.toVersion);
+
+      const fromPhp = from?.require?.php;
+      const toPhp = to?.require?.php;
+      if (toPhp) {
+        context.phpVersionRequirement = toPhp;
+      }
+      if (fromPhp && toPhp && fromPhp !== toPhp) {
+        context.phpVersionChange = { from: fromPhp, to: toPhp };
+      }
+      if (to) {
+        context.resolvedVersion = to.version;
+        context.namespaces = getAutoloadNamespaces(to.autoload);
+        context.abandoned = Boolean(to.abandoned);
+        const replacement = getAbandonedReplacement(to);
+        if (replacement) {
+          context.replacement = replacement;
+        }
+      }
+    } catch (error) {
+      loggers.genericFailed('get additional Packagist context', error);
+    }
+
+    return context;
+  }
+
+  getFileExtensions(): string[] {
+    return ['.php'];
+  }
+
+  getImportPatterns(): RegExp[] {
+    return [
+      /^\s*use\s+(?:function\s+|const\s+)?\\?([\w\\]+)/gm, // use Vendor\Package\Class;
+    ];
+  }
+
+  private toChangelogDiff(
+    sections: string[],
+    source: ChangelogDiff['source'],
+    pkg: PackageUpdate
+  ): ChangelogDiff {
+    return {
+      content: sections.join('\n\n'),
+      source,
+      fromVersion: pkg.fromVersion,
+      toVersion: pkg.toVersion,
+    };
+  }
+
+  /**
+   * Changes visible in the release metadata itself, as lines understood by extractBreakingChanges
+   */
+  private describeReleaseChanges(from: PackagistVersion, to: PackagistVersion): string[] {
+    const lines: string[] = [];
+
+    const toNamespaces = getAutoloadNamespaces(to.autoload);
+    if (toNamespaces.length > 0) {
+      getAutoloadNamespaces(from.autoload)
+        .filter((namespace) => !toNamespaces.includes(namespace))
+        .forEach((namespace) =>
+          lines.push(
+            `BREAKING: Namespace \`${namespace}\` is no longer autoloaded in ${to.version}`
+          )
+        );
+    }
+
+    const fromPhp = from.require?.php;
+    const toPhp = to.require?.php;
+    if (fromPhp && toPhp && fromPhp !== toPhp) {
+      lines.push(`⚠️ Required PHP version changed from ${fromPhp} to ${toPhp}`);
+    }
+
+    if (to.abandoned) {
+      const replacement = getAbandonedReplacement(to);
+      lines.push(`⚠️ Package is abandoned${replacement ? `; use ${replacement} instead` : ''}`);
+    }
+
+    return lines;
+  }
+
+  private async findLockedPackage(
+    packageName: string,
+    projectPath: string
+  ): Promise<ComposerLockPackage | undefined> {
+    const lock = await readJsonFile<ComposerLock>(join(projectPath, 'composer.lock'));
+    return [...(lock?.packages ?? []), ...(lock?.['packages-dev'] ?? [])].find(
+      (entry) => entry.name === packageName
+    );
+  }
+
+  /**
+   * Namespaces the package autoloads: composer.lock is authoritative for the installed
+   * version, then Packagist metadata, then a guess from the name (acme/http-client -> Acme\HttpClient)
+   */
+  private async getNamespaces(packageName: string, projectPath: string): Promise<string[]> {
+    const locked = await this.findLockedPackage(packageName, projectPath);
+    const lockedNamespaces = getAutoloadNamespaces(locked?.autoload);
+    if (lockedNamespaces.length > 0) {
+      return lockedNamespaces;
+    }
+
+    const versions = await fetchPackagistVersions(packageName, this.repositoryUrl);
+    const registryNamespaces = getAutoloadNamespaces(versions[0]?.autoload);
+    if (registryNamespaces.length > 0) {
+      return registryNamespaces;
+    }
+
+    const studly = (segment: string) =>
+      segment
+        .split(/[-_.]/)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join('');
+    return [packageName.split('/').map(studly).join('\\')];
+  }
+
+  private scanPhpSource(
+    lines: string[],
+    namespaces: string[],
+    file: string,
+    locations: UsageLocation[]
+  ): void {
+    const context = getFileContext(file);
+    const namespacePattern = namespaces.map(escapeRegex).join('|');
+    const usePattern = new RegExp(
+      `^use\\s+(?:function\\s+|const\\s+)?\\\\?(?:${namespacePattern})(?:\\\\|\\s*;|\\s+as\\s)`
+    );
+    // Fully qualified references in code: \Vendor\Package\Foo::bar(), new \Vendor\Package\Foo
+    const qualifiedPattern = new RegExp(
+      `\\\\(?:${namespacePattern})(?:\\\\\\w+)+(\\s*::\\s*\\w+\\s*\\()?`
+    );
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || /^(?:\/\/|#|\/?\*)/.test(trimmed)) return;
+
+      if (usePattern.test(trimmed)) {
+        locations.push({
+          file,
+          line: index + 1,
+          column: 0,
+          type: 'import',
+          code: trimmed,
+          context,
+        });
+        return;
+      }
+
+      const match = qualifiedPattern.exec(line);
+      if (match) {
+        locations.push({
+          file,
+          line: index + 1,
+          column: match.index,
+          type: match[1] ? 'function-call' : 'type-reference',
+          code: trimmed,
+          context,
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,382 @@
+import {
+  PackageAnalyzer,
+  PackageMetadata,
+  UsageAnalysis,
+  UsageLocation,
+  AdditionalContext,
+} from '../base.js';
+import type { PackageUpdate, ChangelogDiff } from '../../types/index.js';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { getFileContext, categorizeUsages } from '../utils.js';
+import { findPackageInConfigFiles, findSourceFiles, CONFIG_PATTERNS } from '../file-utils.js';
+import {
+  fetchGemVersionInfo,
+  fetchGemVersions,
+  fetchGemChangelogFile,
+  getGemChangelogUri,
+  getGemSourceUri,
+  type RubyGemVersion,
+} from '../../lib/rubygems.js';
+import { extractRelevantSections, fetchGitHubReleaseNotes } from '../../lib/changelog.js';
+import { extractGitHubRepo } from '../../lib/npm-registry.js';
+import { readFileWithDefault } from '../../lib/file-helpers.js';
+import { escapeRegex } from '../../lib/string-validators.js';
+import { loggers } from '../../lib/logger.js';
+import semver from 'semver';
+
+export type RubyGemsAnalyzerOptions = {
+  /** RubyGems-compatible API base URL; defaults to $RENOVATE_SAFETY_RUBYGEMS_API or rubygems.org */
+  apiUrl?: string;
+};
+
+type GemDeclaration = {
+  line: number;
+  code: string;
+  requirePaths: string[];
+};
+
+// Gems whose top-level constant cannot be derived from the gem name
+const KNOWN_GEM_NAMESPACES: Record<string, string[]> = {
+  actioncable: ['ActionCable'],
+  actionmailer: ['ActionMailer'],
+  actionpack: ['ActionController', 'ActionDispatch'],
+  actionview: ['ActionView'],
+  activejob: ['ActiveJob'],
+  activemodel: ['ActiveModel'],
+  activerecord: ['ActiveRecord'],
+  activestorage: ['ActiveStorage'],
+  activesupport: ['ActiveSupport'],
+  railties: ['Rails'],
+  rails: ['Rails'],
+  rspec: ['RSpec'],
+  'rspec-rails': ['RSpec'],
+};
+
+export class RubyGemsAnalyzer extends PackageAnalyzer {
+  private readonly apiUrl?: string;
+
+  constructor(options: RubyGemsAnalyzerOptions = {}) {
+    super();
+    this.apiUrl = options.apiUrl;
+  }
+
+  async canHandle(packageName: string, projectPath: string): Promise<boolean> {
+    const gemfile = await readFileWithDefault(join(projectPath, 'Gemfile'), '');
+    if (!gemfile) {
+      return false;
+    }
+
+    if (this.findGemfileDeclarations(gemfile, packageName).length > 0) {
+      return true;
+    }
+
+    // Transitive gems only appear in the lockfile specs, indented under their parent
+    const lockfile = await readFileWithDefault(join(projectPath, 'Gemfile.lock'), '');
+    return new RegExp(`^\\s{4}${escapeRegex(packageName)} \\(`, 'm').test(lockfile);
+  }
+
+  async fetchMetadata(pkg: PackageUpdate): Promise<PackageMetadata | null> {
+    try {
+      const [info, versions] = await Promise.all([
+        fetchGemVersionInfo(pkg.name, pkg.toVersion, this.apiUrl),
+        fetchGemVersions(pkg.name, this.apiUrl),
+      ]);
+
+      if (!info) {
+        return null;
+      }
+
+      const toVersion = this.findVersion(versions, pkg.toVersion);
+      const licenses = toVersion?.licenses ?? info.licenses;
+
+      return {
+        name: info.name,
+        version: pkg.toVersion,
+        description: info.info ?? undefined,
+        homepage: info.homepage_uri ?? undefined,
+        repository: getGemSourceUri(info),
+        license: licenses && licenses.length > 0 ? licenses.join(', ') : undefined,
+        publishedAt: toVersion?.created_at ? new Date(toVersion.created_at) : undefined,
+        deprecated: info.yanked ?? false,
+        deprecationMessage: info.yanked ? `Version ${pkg.toVersion} has been yanked` : undefined,
+      };
+    } catch (error) {
+      loggers.fetchFailed('RubyGems metadata', pkg.name, error);
+      return null;
+    }
+  }
+
+  async fetchChangelog(pkg: PackageUpdate): Promise<ChangelogDiff | null> {
+    try {
+      const [info, versions] = await Promise.all([
+        fetchGemVersionInfo(pkg.name, pkg.toVersion, this.apiUrl),
+        fetchGemVersions(pkg.name, this.apiUrl),
+      ]);
+      const sections: string[] = [
+        `# Changelog for ${pkg.name}: ${pkg.fromVersion} → ${pkg.toVersion}`,
+      ];
+
+      const fromRuby = this.findVersion(versions, pkg.fromVersion)?.ruby_version;
+      const toRuby = this.findVersion(versions, pkg.toVersion)?.ruby_version;
+      if (fromRuby && toRuby && fromRuby !== toRuby) {
+        sections.push(`⚠️ Required Ruby version changed from ${fromRuby} to ${toRuby}`);
+      }
+
+      // The gemspec's changelog_uri is the most direct source; its sections go through
+      // extractBreakingChanges like any npm CHANGELOG.md
+      const changelogUri = info ? getGemChangelogUri(info) : undefined;
+      const changelogFile = changelogUri ? await fetchGemChangelogFile(changelogUri) : null;
+      const changelogSections = changelogFile
+        ? extractRelevantSections(changelogFile, pkg.fromVersion, pkg.toVersion)
+        : null;
+      if (changelogSections) {
+        sections.push(changelogSections);
+        return this.toChangelogDiff(sections, 'rubygems', pkg);
+      }
+
+      const github = info ? extractGitHubRepo(getGemSourceUri(info)) : null;
+      const releaseNotes = github ? await fetchGitHubReleaseNotes(github, pkg) : null;
+      if (releaseNotes) {
+        sections.push(releaseNotes.content);
+        return this.toChangelogDiff(sections, 'github', pkg);
+      }
+
+      const published = this.getVersionsInRange(versions, pkg);
+      if (published.length === 0 && sections.length === 1) {
+        return null;
+      }
+
+      if (published.length > 0) {
+        sections.push(
+          `## Published versions\n\n${published.map((version) => `- ${version}`).join('\n')}`
+        );
+      }
+
+      return this.toChangelogDiff(sections, 'rubygems', pkg);
+    } catch (error) {
+      loggers.genericFailed('fetch RubyGems changelog', error);
+      return null;
+    }
+  }
+
+  async analyzeUsage(packageName: string, projectPath: string): Promise<UsageAnalysis> {
+    const locations: UsageLocation[] = [];
+    const requirePaths = new Set([packageName, packageName.replace(/-/g, '/')]);
+
+    // Gemfile declarations, including custom `require:` paths
+    const gemfile = await readFileWithDefault(join(projectPath, 'Gemfile'), '');
+    for (const declaration of this.findGemfileDeclarations(gemfile, packageName)) {
+      declaration.requirePaths.forEach((path) => requirePaths.add(path));
+      locations.push({
+        file: 'Gemfile',
+        line: declaration.line,
+        column: 0,
+        type: 'config',
+        code: declaration.code,
+        context: 'config',
+      });
+    }
+
+    const constants = this.getConstantNames(packageName, [...requirePaths]);
+    const rubyFiles = await findSourceFiles(projectPath, 'ruby');
+
+    for (const file of rubyFiles) {
+      const content = await readFile(join(projectPath, file), 'utf-8');
+      this.scanRubySource(content.split('\n'), requirePaths, constants, file, locations);
+    }
+
+    // Gemfile.lock and gemspec references
+    const configLocations = await findPackageInConfigFiles(
+      packageName,
+      projectPath,
+      CONFIG_PATTERNS.ruby
+    );
+    locations.push(...configLocations);
+
+    const categorization = categorizeUsages(locations);
+
+    return {
+      locations,
+      ...categorization,
+    };
+  }
+
+  async getAdditionalContext(pkg: PackageUpdate): Promise<AdditionalContext> {
+    const context: AdditionalContext = {};
+
+    try {
+      const [info, versions] = await Promise.all([
+        fetchGemVersionInfo(pkg.name, pkg.toVersion, this.apiUrl),
+        fetchGemVersions(pkg.name, this.apiUrl),
+      ]);
+
+      const fromVersion = this.findVersion(versions, pkg.fromVersion);
+      const toVersion = this.findVersion(versions, pkg.toVersion);
+
+      if (toVersion?.ruby_version) {
+        context.rubyVersionRequirement = toVersion.ruby_version;
+      }
+      if (
+        fromVersion?.ruby_version &&
+        toVersion?.ruby_version &&
+        fromVersion.ruby_version !== toVersion.ruby_version
+      ) {
+        context.rubyVersionChange = { from: fromVersion.ruby_version, to: toVersion.ruby_version };
+      }
+      if (toVersion) {
+        context.isPrerelease = toVersion.prerelease ?? false;
+      }
+
+      const changelogUri = info ? getGemChangelogUri(info) : undefined;
+      if (changelogUri) {
+        context.changelogUri = changelogUri;
+      }
+    } catch (error) {
+      loggers.genericFailed('get additional RubyGems context', error);
+    }
+
+    return context;
+  }
+
+  getFileExtensions(): string[] {
+    return ['.rb'];
+  }
+
+  getImportPatterns(): RegExp[] {
+    return [
+      /^\s*require\s*\(?\s*['"]([^'"]+)['"]/gm, // require 'gem/path'
+    ];
+  }
+
+  private toChangelogDiff(
+    sections: string[],
+    source: ChangelogDiff['source'],
+    pkg: PackageUpdate
+  ): ChangelogDiff {
+    return {
+      content: sections.join('\n\n'),
+      source,
+      fromVersion: pkg.fromVersion,
+      toVersion: pkg.toVersion,
+    };
+  }
+
+  private findVersion(versions: RubyGemVersion[], version: string): RubyGemVersion | undefined {
+    // Platform gems (e.g. nokogiri x86_64-linux) share a number; prefer the pure-Ruby build
+    const matches = versions.filter((entry) => entry.number === version);
+    return matches.find((entry) => !entry.platform || entry.platform === 'ruby') ?? matches[0];
+  }
+
+  private getVersionsInRange(versions: RubyGemVersion[], pkg: PackageUpdate): string[] {
+    const numbers = [...new Set(versions.map((entry) => entry.number))];
+    return numbers
+      .filter((number) => {
+        const coerced = semver.coerce(number);
+        const from = semver.coerce(pkg.fromVersion);
+        const to = semver.coerce(pkg.toVersion);
+        if (!coerced || !from || !to) return false;
+        return number === pkg.toVersion || (semver.gt(coerced, from) && semver.lte(coerced, to));
+      })
+      .sort((a, b) => semver.compare(semver.coerce(a) ?? a, semver.coerce(b) ?? b));
+  }
+
+  private findGemfileDeclarations(gemfile: string, gemName: string): GemDeclaration[] {
+    const declarations: GemDeclaration[] = [];
+    const gemPattern = new RegExp(`^\\s*gem\\s*\\(?\\s*['"]${escapeRegex(gemName)}['"](.*)$`);
+
+    gemfile.split('\n').forEach((line, index) => {
+      const match = gemPattern.exec(line);
+      if (!match) return;
+
+      // gem 'foo', require: 'foo/bar' / :require => ['a', 'b']; `require: false` adds nothing
+      const requireOption = /(?::require\s*=>|require:)\s*(\[[^\]]*\]|['"][^'"]+['"])/.exec(
+        match[1]
+      );
+      const requirePaths = requireOption
+        ? [...requireOption[1].matchAll(/['"]([^'"]+)['"]/g)].map((path) => path[1])
+        : [];
+
+      declarations.push({ line: index + 1, code: line.trim(), requirePaths });
+    });
+
+    return declarations;
+  }
+
+  /**
+   * Top-level constants a gem is expected to define: rack-test -> Rack::Test,
+   * active_model_serializers -> ActiveModelSerializers, plus any custom require paths
+   */
+  private getConstantNames(gemName: string, requirePaths: string[]): string[] {
+    const camelize = (path: string) =>
+      path
+        .split(/[/-]/)
+        .map((segment) =>
+          segment
+            .split('_')
+            .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+            .join('')
+        )
+        .join('::');
+
+    const names = new Set(KNOWN_GEM_NAMESPACES[gemName] ?? [camelize(gemName)]);
+    for (const path of requirePaths) {
+      names.add(camelize(path));
+    }
+
+    return [...names];
+  }
+
+  private scanRubySource(
+    lines: string[],
+    requirePaths: Set<string>,
+    constants: string[],
+    file: string,
+    locations: UsageLocation[]
+  ): void {
+    const context = getFileContext(file);
+    const constantPatterns = constants.map(
+      (constant) =>
+        new RegExp(
+          `(?<![\\w:])(?:::)?${escapeRegex(constant)}\\b(?!\\?)((?:::[A-Z]\\w*)*)(\\.\\w+)?`
+        )
+    );
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) return;
+
+      const requireMatch = /^require\s*\(?\s*['"]([^'"]+)['"]/.exec(trimmed);
+      if (requireMatch) {
+        const path = requireMatch[1];
+        if ([...requirePaths].some((req) => path === req || path.startsWith(`${req}/`))) {
+          locations.push({
+            file,
+            line: index + 1,
+            column: 0,
+            type: 'require',
+            code: trimmed,
+            context,
+          });
+        }
+        return;
+      }
+
+      for (const pattern of constantPatterns) {
+        const match = pattern.exec(line);
+        if (match) {
+          locations.push({
+            file,
+            line: index + 1,
+            column: match.index,
+            // In Ruby `Const.anything` is always a method call
+            type: match[2] ? 'function-call' : 'type-reference',
+            code: trimmed,
+            context,
+          });
+          break;
+        }
+      }
+    });
+  }
+}
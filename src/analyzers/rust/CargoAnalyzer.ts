@@ -0,0 +1,425 @@
+import {
+  PackageAnalyzer,
+  PackageMetadata,
+  UsageAnalysis,
+  UsageLocation,
+  AdditionalContext,
+} from '../base.js';
+import type { PackageUpdate, ChangelogDiff } from '../../types/index.js';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { getFileContext, categorizeUsages } from '../utils.js';
+import { findPackageInConfigFiles, findSourceFiles, CONFIG_PATTERNS } from '../file-utils.js';
+import {
+  fetchCrateIndex,
+  fetchCrateApiData,
+  findCrateVersion,
+  getCrateVersionsInRange,
+  diffCrateFeatures,
+  type CratesRegistryOptions,
+  type CrateIndexEntry,
+} from '../../lib/crates-registry.js';
+import { fetchGitHubReleaseNotes } from '../../lib/changelog.js';
+import { extractGitHubRepo } from '../../lib/npm-registry.js';
+import { readFileWithDefault } from '../../lib/file-helpers.js';
+import { getFiles } from '../../lib/glob-helpers.js';
+import { loggers } from '../../lib/logger.js';
+
+/**
+ * A dependency declaration in a Cargo.toml dependency table
+ */
+type CargoDependency = {
+  alias: string;
+  crate: string;
+  features: string[];
+  line: number;
+  code: string;
+};
+
+const DEPENDENCY_TABLE = /^\[(?:target\..+\.)?(?:workspace\.)?(?:dev-|build-)?dependencies\]$/;
+const DEPENDENCY_SUBTABLE =
+  /^\[(?:target\..+\.)?(?:workspace\.)?(?:dev-|build-)?dependencies\.([\w-]+)\]$/;
+
+export class CargoAnalyzer extends PackageAnalyzer {
+  private readonly registryOptions: CratesRegistryOptions;
+
+  constructor(options: CratesRegistryOptions = {}) {
+    super();
+    this.registryOptions = options;
+  }
+
+  async canHandle(packageName: string, projectPath: string): Promise<boolean> {
+    const cargoToml = await readFileWithDefault(join(projectPath, 'Cargo.toml'), '');
+    if (!cargoToml) {
+      return false;
+    }
+
+    // Declared directly, or pulled in by a workspace member / transitively via the lockfile
+    if (this.parseDependencies(cargoToml).some((dep) => dep.crate === packageName)) {
+      return true;
+    }
+
+    const cargoLock = await readFileWithDefault(join(projectPath, 'Cargo.lock'), '');
+    return cargoLock.split('\n').some((line) => line.trim() === `name = "${packageName}"`);
+  }
+
+  async fetchMetadata(pkg: PackageUpdate): Promise<PackageMetadata | null> {
+    try {
+      const [index, api] = await Promise.all([
+        fetchCrateIndex(pkg.name, this.registryOptions),
+        fetchCrateApiData(pkg.name, this.registryOptions),
+      ]);
+
+      const entry = findCrateVersion(index, pkg.toVersion);
+      if (!entry && !api) {
+        return null;
+      }
+
+      const apiVersion = api?.versions?.find((v) => v.num === pkg.toVersion);
+      const yanked = entry?.yanked ?? apiVersion?.yanked ?? false;
+
+      return {
+        name: api?.crate.name ?? pkg.name,
+        version: entry?.vers ?? pkg.toVersion,
+        description: api?.crate.description ?? undefined,
+        homepage: api?.crate.homepage ?? api?.crate.documentation ?? undefined,
+        repository: api?.crate.repository ?? undefined,
+        license: apiVersion?.license ?? undefined,
+        publishedAt: apiVersion?.created_at ? new Date(apiVersion.created_at) : undefined,
+        deprecated: yanked,
+        deprecationMessage: yanked ? `Version ${pkg.toVersion} has been yanked` : undefined,
+      };
+    } catch (error) {
+      loggers.fetchFailed('crate metadata', pkg.name, error);
+      return null;
+    }
+  }
+
+  async fetchChangelog(pkg: PackageUpdate): Promise<ChangelogDiff | null> {
+    try {
+      const [index, api] = await Promise.all([
+        fetchCrateIndex(pkg.name, this.registryOptions),
+        fetchCrateApiData(pkg.name, this.registryOptions),
+      ]);
+
+      const sections: string[] = [
+        `# Changelog for ${pkg.name}: ${pkg.fromVersion} → ${pkg.toVersion}`,
+      ];
+      const registryNotes = this.describeRegistryChanges(index, pkg);
+      sections.push(...registryNotes);
+
+      const github = extractGitHubRepo(api?.crate.repository ?? undefined);
+      const releaseNotes = github ? await fetchGitHubReleaseNotes(github, pkg) : null;
+      if (releaseNotes) {
+        sections.push(releaseNotes.content);
+        return {
+          content: sections.join('\n\n'),
+          source: 'github',
+          fromVersion: pkg.fromVersion,
+          toVersion: pkg.toVersion,
+        };
+      }
+
+      const versions = getCrateVersionsInRange(index, pkg.fromVersion, pkg.toVersion);
+      if (versions.length === 0 && registryNotes.length === 0) {
+        return null;
+      }
+
+      if (versions.length > 0) {
+        sections.push(
+          `## Published versions\n\n${versions
+            .map((entry) => `- ${entry.vers}${entry.yanked ? ' (yanked)' : ''}`)
+            .join('\n')}`
+        );
+      }
+
+      return {
+        content: sections.join('\n\n'),
+        source: 'crates.io',
+        fromVersion: pkg.fromVersion,
+        toVersion: pkg.toVersion,
+      };
+    } catch (error) {
+      loggers.genericFailed('fetch crate changelog', error);
+      return null;
+    }
+  }
+
+  async analyzeUsage(packageName: string, projectPath: string): Promise<UsageAnalysis> {
+    const locations: UsageLocation[] = [];
+
+    // Cargo.toml declarations, with the exact line so enabled features are visible
+    const manifests = await getFiles('**/Cargo.toml', {
+      cwd: projectPath,
+      ecosystem: 'rust',
+      includeTests: true,
+    });
+    const identifiers = new Set([packageName.replace(/-/g, '_')]);
+
+    for (const manifest of manifests) {
+      const content = await readFile(join(projectPath, manifest), 'utf-8');
+      for (const dep of this.parseDependencies(content)) {
+        if (dep.crate !== packageName) continue;
+
+        // Renamed dependencies (`foo = { package = "bar" }`) are referenced as `foo` in code
+        identifiers.add(dep.alias.replace(/-/g, '_'));
+        locations.push({
+          file: manifest,
+          line: dep.line,
+          column: 0,
+          type: 'config',
+          code: dep.code,
+          context: 'config',
+        });
+      }
+    }
+
+    const rustFiles = await findSourceFiles(projectPath, 'rust');
+    for (const file of rustFiles) {
+      const content = await readFile(join(projectPath, file), 'utf-8');
+      this.scanRustSource(content.split('\n'), identifiers, file, locations);
+    }
+
+    // Cargo.lock and .cargo/config.toml references
+    const configLocations = await findPackageInConfigFiles(
+      packageName,
+      projectPath,
+      CONFIG_PATTERNS.rust
+    );
+    locations.push(...configLocations);
+
+    const categorization = categorizeUsages(locations);
+
+    return {
+      locations,
+      ...categorization,
+    };
+  }
+
+  async getAdditionalContext(pkg: PackageUpdate): Promise<AdditionalContext> {
+    const context: AdditionalContext = {};
+
+    try {
+      const index = await fetchCrateIndex(pkg.name, this.registryOptions);
+      const fromEntry = findCrateVersion(index, pkg.fromVersion);
+      const toEntry = findCrateVersion(index, pkg.toVersion);
+
+      if (toEntry?.rust_version) {
+        context.rustVersionRequirement = toEntry.rust_version;
+      }
+      if (toEntry) {
+        context.isYanked = toEntry.yanked;
+      }
+      if (fromEntry && toEntry) {
+        const { removed, added } = diffCrateFeatures(fromEntry, toEntry);
+        context.removedFeatures = removed;
+        context.addedFeatures = added;
+      }
+    } catch (error) {
+      loggers.genericFailed('get additional crate context', error);
+    }
+
+    return context;
+  }
+
+  getFileExtensions(): string[] {
+    return ['.rs'];
+  }
+
+  getImportPatterns(): RegExp[] {
+    return [
+      /^\s*(?:pub(?:\([\w:\s]+\))?\s+)?use\s+(?:::)?(\w+)::/gm, // use crate_name::path
+      /^\s*extern\s+crate\s+(\w+)/gm, // extern crate crate_name
+    ];
+  }
+
+  /**
+   * Registry-derived notes: removed features are breaking, MSRV bumps and yanks are warnings
+   */
+  private describeRegistryChanges(index: CrateIndexEntry[], pkg: PackageUpdate): string[] {
+    const notes: string[] = [];
+    const fromEntry = findCrateVersion(index, pkg.fromVersion);
+    const toEntry = findCrateVersion(index, pkg.toVersion);
+
+    if (!fromEntry || !toEntry) {
+      return notes;
+    }
+
+    const { removed } = diffCrateFeatures(fromEntry, toEntry);
+    for (const feature of removed) {
+      notes.push(`BREAKING: Feature \`${feature}\` was removed in ${toEntry.vers}`);
+    }
+
+    if (toEntry.rust_version && toEntry.rust_version !== fromEntry.rust_version) {
+      notes.push(
+        `⚠️ Minimum supported Rust version changed from ${fromEntry.rust_version ?? 'unspecified'} to ${toEntry.rust_version}`
+      );
+    }
+
+    if (toEntry.yanked) {
+      notes.push(`⚠️ Version ${toEntry.vers} has been yanked from the registry`);
+    }
+
+    return notes;
+  }
+
+  private parseDependencies(cargoToml: string): CargoDependency[] {
+    const dependencies: CargoDependency[] = [];
+    let inDependencyTable = false;
+    let subtable: CargoDependency | null = null;
+
+    cargoToml.split('\n').forEach((rawLine, index) => {
+      const line = rawLine.replace(/\s+#.*$/, '').trim();
+      if (!line || line.startsWith('#')) return;
+
+      if (line.startsWith('[')) {
+        const subtableMatch = DEPENDENCY_SUBTABLE.exec(line);
+        inDependencyTable = DEPENDENCY_TABLE.test(line);
+        subtable = subtableMatch
+          ? {
+              alias: subtableMatch[1],
+              crate: subtableMatch[1],
+              features: [],
+              line: index + 1,
+              code: line,
+            }
+          : null;
+        if (subtable) dependencies.push(subtable);
+        return;
+      }
+
+      if (subtable) {
+        const packageMatch = /^package\s*=\s*"([^"]+)"/.exec(line);
+        if (packageMatch) subtable.crate = packageMatch[1];
+        const featuresMatch = /^features\s*=\s*\[([^\]]*)\]/.exec(line);
+        if (featuresMatch) subtable.features = this.parseStringArray(featuresMatch[1]);
+        return;
+      }
+
+      if (!inDependencyTable) return;
+
+      // name = "1.0" | name = { version = "1.0", package = "real", features = [...] } | name.workspace = true
+      const entry = /^([\w-]+)(?:\.workspace)?\s*=\s*(.+)$/.exec(line);
+      if (!entry) return;
+
+      const packageMatch = /package\s*=\s*"([^"]+)"/.exec(entry[2]);
+      const featuresMatch = /features\s*=\s*\[([^\]]*)\]/.exec(entry[2]);
+      dependencies.push({
+        alias: entry[1],
+        crate: packageMatch?.[1] ?? entry[1],
+        features: featuresMatch ? this.parseStringArray(featuresMatch[1]) : [],
+        line: index + 1,
+        code: line,
+      });
+    });
+
+    return dependencies;
+  }
+
+  private parseStringArray(body: string): string[] {
+    return [...body.matchAll(/"([^"]+)"/g)].map((match) => match[1]);
+  }
+
+  private scanRustSource(
+    lines: string[],
+    crateIdentifiers: Set<string>,
+    file: string,
+    locations: UsageLocation[]
+  ): void {
+    const identifiers = new Set(crateIdentifiers);
+    const importedItems = new Set<string>();
+    const context = getFileContext(file);
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('//')) return;
+
+      const externCrate = /^extern\s+crate\s+(\w+)(?:\s+as\s+(\w+))?\s*;/.exec(trimmed);
+      if (externCrate && identifiers.has(externCrate[1])) {
+        if (externCrate[2]) identifiers.add(externCrate[2]);
+        locations.push({
+          file,
+          line: index + 1,
+          column: 0,
+          type: 'import',
+          code: trimmed,
+          context,
+        });
+        return;
+      }
+
+      const useDecl = /^(?:pub(?:\([\w:\s]+\))?\s+)?use\s+(?:::)?(\w+)(?:::(.*))?;/.exec(trimmed);
+      if (useDecl && identifiers.has(useDecl[1])) {
+        this.collectImportedItems(useDecl[2] ?? '', importedItems);
+        locations.push({
+          file,
+          line: index + 1,
+          column: 0,
+          type: 'import',
+          code: trimmed,
+          context,
+        });
+        return;
+      }
+
+      const usage = this.classifyLineUsage(line, identifiers, importedItems);
+      if (usage) {
+        locations.push({
+          file,
+          line: index + 1,
+          column: usage.column,
+          type: usage.type,
+          code: trimmed,
+          context,
+        });
+      }
+    });
+  }
+
+  /**
+   * Collect the items a `use` brings into scope, e.g. `de::{self, Deserialize as De}`
+   */
+  private collectImportedItems(path: string, items: Set<string>): void {
+    const braced = /\{([^}]*)\}/.exec(path);
+    const segments = braced ? braced[1].split(',') : [path];
+
+    for (const segment of segments) {
+      const aliasMatch = /\bas\s+(\w+)\s*$/.exec(segment);
+      const name = aliasMatch ? aliasMatch[1] : segment.trim().split('::').pop()?.trim();
+      if (name && name !== 'self' && name !== '*' && /^\w+$/.test(name)) {
+        items.add(name);
+      }
+    }
+  }
+
+  private classifyLineUsage(
+    line: string,
+    identifiers: Set<string>,
+    importedItems: Set<string>
+  ): { type: UsageLocation['type']; column: number } | null {
+    for (const identifier of identifiers) {
+      // Full path after the crate, e.g. `tu::codec::Framed::new(` or `tracing::info!(`
+      const qualified = new RegExp(`\\b${identifier}((?:::\\w+)+)(\\s*!?\\s*\\()?`).exec(line);
+      if (qualified) {
+        return {
+          type: this.usageTypeFor(qualified[1], Boolean(qualified[2])),
+          column: qualified.index,
+        };
+      }
+    }
+
+    for (const item of importedItems) {
+      const bare = new RegExp(`(?<![\\w:])${item}\\b(\\s*!?\\s*\\()?`).exec(line);
+      if (bare) {
+        return { type: this.usageTypeFor(item, Boolean(bare[1])), column: bare.index };
+      }
+    }
+
+    return null;
+  }
+
+  private usageTypeFor(path: string, isCall: boolean): UsageLocation['type'] {
+    if (isCall) return 'function-call';
+    return /(?:^|::)[A-Z]/.test(path) ? 'type-reference' : 'property-access';
+  }
+}
@@ -0,0 +1,54 @@
+import { AnalysisStrategy, StrategyAnalysisResult } from './base.js';
+import type { PackageUpdate } from '../../types/index.js';
+import { extractBreakingChanges } from '../../lib/breaking.js';
+import {
+  DockerActionsAnalyzer,
+  type DockerActionsAnalyzerOptions,
+} from '../docker/DockerActionsAnalyzer.js';
+
+/**
+ * Diffs action.yml interfaces and Docker tag metadata for updates that are not
+ * registry packages at all, so npm-based strategies do not guess at them
+ */
+export class DockerActionsStrategy extends AnalysisStrategy {
+  name = 'Docker/Actions Metadata';
+  private readonly analyzer: DockerActionsAnalyzer;
+
+  constructor(
+    private readonly projectPath: string = process.cwd(),
+    options: DockerActionsAnalyzerOptions = {}
+  ) {
+    super();
+    this.analyzer = new DockerActionsAnalyzer(options);
+  }
+
+  async isApplicable(pkg: PackageUpdate): Promise<boolean> {
+    return this.analyzer.canHandle(pkg.name, this.projectPath);
+  }
+
+  async tryAnalyze(pkg: PackageUpdate): Promise<StrategyAnalysisResult | null> {
+    try {
+      const changelog = await this.analyzer.fetchChangelog(pkg);
+      if (!changelog) {
+        return null;
+      }
+
+      const breakingChanges = extractBreakingChanges(
+        changelog.content,
+        undefined,
+        changelog.source
+      );
+
+      return {
+        content: changelog.content,
+        breakingChanges: breakingChanges.map((bc) => bc.line),
+        confidence: 0.85, // Interface and platform diffs come straight from the published artifacts
+        source: this.name,
+        metadata: await this.analyzer.getAdditionalContext(pkg),
+      };
+    } catch (error) {
+      console.warn(`Failed to analyze Docker/Actions update:`, error);
+      return null;
+    }
+  }
+}
@@ -2,16 +2,19 @@ import { FallbackAnalysisChain } from './base.js';
 import { GitHubReleasesStrategy } from './GitHubReleasesStrategy.js';
 import { GitCommitAnalysisStrategy } from './GitCommitAnalysisStrategy.js';
 import { NpmDiffStrategy } from './NpmDiffStrategy.js';
+import { DockerActionsStrategy } from './DockerActionsStrategy.js';
 
 export function createDefaultAnalysisChain(): FallbackAnalysisChain {
   const chain = new FallbackAnalysisChain();
-  
+
   // Add strategies in priority order
+  // Docker images and actions first: official images such as `node` share names with npm packages
+  chain.addStrategy(new DockerActionsStrategy());
   chain.addStrategy(new NpmDiffStrategy());
   chain.addStrategy(new GitHubReleasesStrategy());
   chain.addStrategy(new GitCommitAnalysisStrategy());
-  
+
   return chain;
 }
 
-export * from './base.js';
\ No newline at end of file
+export * from './base.js';
@@ -1,12 +1,19 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
-import { resolve } from 'path';
-import { homedir } from 'os';
-import { CLIOptions, AnalysisResult, RiskAssessment } from './types/index.js';
+import ora, { Ora } from 'ora';
+import { CLIOptions, AnalysisResult, GroupedAnalysisResult, PackageUpdate, RiskAssessment } from './types/index.js';
 import { runDoctorCheck } from './lib/doctor.js';
-import { loadConfig } from './lib/config.js';
+import { runReportsList, runReportsShow, runReportsDiff } from './lib/reports-command.js';
+import { runCacheStats, runCachePrune, runCacheClear } from './lib/cache-command.js';
+import { runCosts } from './lib/costs-command.js';
+import { runEval } from './lib/eval-command.js';
+import { runFix } from './lib/fix-command.js';
+import { getCacheNamespaces, setDefaultCacheDir } from './lib/cache-store.js';
+import { setupBundleForCli } from './lib/offline-bundle.js';
+import { loadConfig, type Config } from './lib/config.js';
+import { getLLMProvider, getLLMProviderNames } from './lib/llm-providers.js';
+import { evaluatePolicyForAll, isAutoMergeAllowed, type PolicyEvaluation } from './lib/policy.js';
 import { getEnvironmentConfig } from './lib/env-config.js';
 import { getErrorMessage } from './analyzers/utils.js';
 import { loggers } from './lib/logger.js';
@@ -14,19 +21,14 @@ import { logSection, logListItem, logProgress, logWarningMessage, logError, logS
 import {
   extractPackageInformation,
   checkShouldSkipPatchUpdate,
-  findAppropriateAnalyzer,
-  fetchChangelogAndKnowledge,
-  fetchCodeDifference,
-  analyzeDependencyUsageStep,
-  analyzePackageUsageStep,
-  extractBreakingChangesStep,
-  performLLMAnalysis,
-  convertUsageAnalysisToApiUsages,
-  performDeepAnalysisStep,
-  generateAnalysisResult,
+  logTaskTimings,
   generateAndDisplayReport,
   handlePRPosting,
+  applyPolicyStep,
+  getPolicySubjects,
 } from './lib/analysis-steps.js';
+import { aggregateRiskAssessments, createFailedAnalysisResult } from './lib/grouped-analysis.js';
+import { createPerformanceOptimizer, createOptimizedAnalysisFlow, ANALYSIS_RESULT_TASK } from './lib/performance-optimizer.js';
 
 // Import new analyzer system
 import './analyzers/index.js';
@@ -46,6 +48,112 @@ program
     await runDoctorCheck();
   });
 
+// Saved report archive
+const reportsCommand = program
+  .command('reports')
+  .description('Browse saved analysis reports')
+  .option('--dir <path>', 'Report store directory (default: $RENOVATE_SAFETY_REPORT_DIR or ~/.renovate-safety-reports)');
+
+reportsCommand
+  .command('list')
+  .description('List saved reports')
+  .option('-p, --pr <number>', 'Only reports for this PR', parseInt)
+  .option('--repo <owner/name>', 'Only reports for this repository')
+  .option('--json', 'Output as JSON', false)
+  .action(async (options) => {
+    await runCommandAction(() => runReportsList({ ...reportsCommand.opts(), ...options }));
+  });
+
+reportsCommand
+  .command('show [id]')
+  .description('Show a saved report (by id or head SHA prefix; latest for --pr when omitted)')
+  .option('-p, --pr <number>', 'PR number', parseInt)
+  .option('--repo <owner/name>', 'Repository')
+  .option('--json', 'Output the JSON report instead of Markdown', false)
+  .action(async (id, options) => {
+    await runCommandAction(() => runReportsShow(id, { ...reportsCommand.opts(), ...options }));
+  });
+
+reportsCommand
+  .command('diff [from] [to]')
+  .description('Compare two saved reports (the two latest for --pr when ids are omitted)')
+  .option('-p, --pr <number>', 'PR number', parseInt)
+  .option('--repo <owner/name>', 'Repository')
+  .option('--json', 'Output as JSON', false)
+  .action(async (from, to, options) => {
+    await runCommandAction(() => runReportsDiff(from, to, { ...reportsCommand.opts(), ...options }));
+  });
+
+// LLM spend of saved agent analyses
+program
+  .command('costs')
+  .description('Aggregate LLM spend of saved agent analyses for chargeback')
+  .option('--group-by <dimensions>', 'Comma-separated grouping: repo, package, agent, model', 'repo')
+  .option('--repo <owner/name>', 'Only runs for this repository')
+  .option('-p, --pr <number>', 'Only runs for this PR', parseInt)
+  .option('--since <date>', 'Only runs saved on or after this date')
+  .option('--format <format>', 'Output format: table|csv|json', 'table')
+  .option('--out <file>', 'Write the CSV or JSON export to a file instead of stdout')
+  .option('--dir <path>', 'Report store directory (default: $RENOVATE_SAFETY_REPORT_DIR or ~/.renovate-safety-reports)')
+  .action(async (options) => {
+    await runCommandAction(() => runCosts(options));
+  });
+
+// Detection accuracy over the golden fixture corpus
+program
+  .command('eval')
+  .description('Measure breaking-change detection accuracy on recorded fixtures against a baseline')
+  .option('--fixtures <dir>', 'Fixture directory (default: data/eval/fixtures)')
+  .option('--baseline <file>', 'Baseline file (default: data/eval/baseline.json)')
+  .option('--update-baseline', 'Store the results as the new baseline instead of failing on regressions', false)
+  .option('--json', 'Output as JSON', false)
+  .action(async (options) => {
+    await runCommandAction(() => runEval(options));
+  });
+
+// Codemods for the breaking changes of a PR
+program
+  .command('fix')
+  .description('Apply the codemods of the updated packages to their usages and show the diff')
+  .requiredOption('-p, --pr <number>', 'PR number to fix', parseInt)
+  .option('--dry-run', 'Only show the diff, leave the files unchanged', false)
+  .option('--commit', 'Commit the rewritten files to the checked-out PR branch and push it', false)
+  .option('--cache-dir <path>', 'Cache directory (default: $RENOVATE_SAFETY_CACHE_DIR or ~/.renovate-safety-cache)')
+  .action(async (options) => {
+    await runCommandAction(() => runFix(options));
+  });
+
+// Shared cache
+const cacheCommand = program
+  .command('cache')
+  .description('Inspect and manage the shared cache')
+  .option('--cache-dir <path>', 'Cache directory (default: $RENOVATE_SAFETY_CACHE_DIR or ~/.renovate-safety-cache)');
+
+cacheCommand
+  .command('stats')
+  .description('Show entries, expired entries and size per namespace')
+  .option('--namespace <name>', `Only this namespace (${getCacheNamespaces().join('|')})`)
+  .option('--json', 'Output as JSON', false)
+  .action(async (options) => {
+    await runCommandAction(() => runCacheStats({ ...cacheCommand.opts(), ...options }));
+  });
+
+cacheCommand
+  .command('prune')
+  .description('Remove expired entries')
+  .option('--namespace <name>', `Only this namespace (${getCacheNamespaces().join('|')})`)
+  .action(async (options) => {
+    await runCommandAction(() => runCachePrune({ ...cacheCommand.opts(), ...options }));
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Remove all entries')
+  .option('--namespace <name>', `Only this namespace (${getCacheNamespaces().join('|')})`)
+  .action(async (options) => {
+    await runCommandAction(() => runCacheClear({ ...cacheCommand.opts(), ...options }));
+  });
+
 // Main analysis command
 program
   .command('analyze', { isDefault: true })
@@ -54,40 +162,89 @@ program
   .option('--from <version>', 'From version (manual override)')
   .option('--to <version>', 'To version (manual override)')
   .option('--package <name>', 'Package name (manual override)')
-  .option('--post <mode>', 'Post mode: always (default), update (overwrite existing), never', 'always')
+  .option('--post <mode>', 'Post mode: always (default), update (overwrite existing), check (GitHub check run), never', 'always')
   .option('--no-llm', 'Skip LLM summarization')
-  .option('--llm <provider>', 'LLM provider (claude-cli|anthropic|openai)', /^(claude-cli|anthropic|openai)$/i)
-  .option('--cache-dir <path>', 'Cache directory', resolve(homedir(), '.renovate-safety-cache'))
+  .option('--llm <provider>', 'LLM provider: claude-cli, anthropic, openai or one from the llm config section')
+  .option('--cache-dir <path>', 'Cache directory (default: $RENOVATE_SAFETY_CACHE_DIR or ~/.renovate-safety-cache)')
   .option('--json', 'Output as JSON instead of Markdown', false)
   .option('--force', 'Force analysis even for patch updates', false)
   .option('--language <lang>', 'Language for AI analysis (en|ja)', /^(en|ja)$/i, getEnvironmentConfig().language)
   .option('--deep', 'Perform deep code analysis', false)
+  .option('--typecheck', 'Typecheck the project against the target version and report new type errors as breaking changes', false)
+  .option('--library-health', 'Grade npm packages on their maintenance and popularity (GitHub signals need GITHUB_TOKEN)', false)
+  .option('--max-parallel <n>', 'Maximum analysis tasks run concurrently per package', parseInt, 4)
+  .option('--offline <dir>', 'Replay network responses from a bundle or .json cassette recorded by "prefetch" (implies --post never)')
   .action(async (options) => {
     await analyzeCommand(options);
   });
 
+// Offline bundle recording
+program
+  .command('prefetch')
+  .description('Record the network responses an analysis of a PR needs into a bundle for --offline')
+  .requiredOption('-p, --pr <number>', 'PR number to prefetch', parseInt)
+  .requiredOption('--out <dir>', 'Bundle directory, or a .json file for a single-file cassette (created if missing; existing recordings are kept)')
+  .option('--no-llm', 'Skip LLM summarization')
+  .option('--llm <provider>', 'LLM provider: claude-cli, anthropic, openai or one from the llm config section')
+  .option('--force', 'Force analysis even for patch updates', false)
+  .option('--language <lang>', 'Language for AI analysis (en|ja)', /^(en|ja)$/i, getEnvironmentConfig().language)
+  .option('--deep', 'Perform deep code analysis', false)
+  .option('--typecheck', 'Also record the typecheck against the target version', false)
+  .option('--agent', 'Also record the agent workflow (renovate-safety-agent analyze --offline)', false)
+  .action(async (options) => {
+    await runCommandAction(() => prefetchCommand(options));
+  });
+
 // Legacy support - if no subcommand provided, treat as analyze
 const args = process.argv.slice(2);
-if (args.length > 0 && !['doctor', 'analyze'].includes(args[0]) && !args[0].startsWith('-')) {
+if (args.length > 0 && !['doctor', 'analyze', 'reports', 'costs', 'eval', 'fix', 'cache', 'prefetch'].includes(args[0]) && !args[0].startsWith('-')) {
   // If first arg is not a subcommand or option, prepend 'analyze'
   process.argv.splice(2, 0, 'analyze');
 }
 
 program.parse(process.argv);
 
+async function runCommandAction(action: () => Promise<void>) {
+  try {
+    await action();
+  } catch (error) {
+    logError('Error:', error);
+    process.exit(1);
+  }
+}
+
 async function analyzeCommand(options: CLIOptions) {
   // Load config from files and environment
-  const config = await loadConfig();
-  
-  // Merge config with CLI options (CLI options take precedence)
-  if (!options.language && config.language) {
-    options.language = config.language;
+  let config: Config;
+  try {
+    config = await loadConfig();
+    mergeConfigOptions(options, config);
+  } catch (error) {
+    logError('Error:', error);
+    process.exit(1);
   }
-  if (!options.llm && config.llmProvider) {
-    options.llm = config.llmProvider;
+  
+  if (options.offline) {
+    if (!options.pr) {
+      logError('Error: --offline needs --pr <number>, the PR recorded with "renovate-safety prefetch"');
+      process.exit(1);
+    }
+    try {
+      // Read everything from the bundle: a throwaway cache, and nothing is posted to the PR
+      const { cacheDir } = await setupBundleForCli(options.offline, 'replay');
+      options.cacheDir = cacheDir;
+      options.post = 'never';
+    } catch (error) {
+      logError('Error:', error);
+      process.exit(1);
+    }
+    loggers.info(chalk.gray(`- Offline mode: replaying ${options.offline}`));
   }
-  if (!options.cacheDir && config.cacheDir) {
-    options.cacheDir = config.cacheDir;
+  setDefaultCacheDir(options.cacheDir);
+  
+  if (options.maxParallel !== undefined && (!Number.isInteger(options.maxParallel) || options.maxParallel < 1)) {
+    logError('Error: --max-parallel must be a positive integer');
+    process.exit(1);
   }
   
   loggers.info(chalk.gray(`- Language setting: ${options.language || 'en'}`));
@@ -117,6 +274,50 @@ async function analyzeCommand(options: CLIOptions) {
 }
 
 
+// Merge config with CLI options (CLI options take precedence)
+function mergeConfigOptions(options: CLIOptions, config: Config) {
+  if (!options.language && config.language) {
+    options.language = config.language;
+  }
+  if (!options.llm && config.llmProvider) {
+    options.llm = config.llmProvider;
+  }
+  if (options.llm && !getLLMProvider(options.llm)) {
+    throw new Error(`Unknown LLM provider "${options.llm}". Use one of: ${getLLMProviderNames().join(', ')}`);
+  }
+  if (!options.cacheDir && config.cacheDir) {
+    options.cacheDir = config.cacheDir;
+  }
+  if (config.policy) {
+    options.policy = config.policy;
+  }
+}
+
+async function prefetchCommand(options: CLIOptions & { pr: number; out: string; agent: boolean }) {
+  mergeConfigOptions(options, await loadConfig());
+  
+  // Record against a throwaway cache so every response the analysis needs reaches the bundle
+  const { bundle, cacheDir } = await setupBundleForCli(options.out, 'record', options.pr);
+  setDefaultCacheDir(cacheDir);
+  logSection(`Prefetching PR #${options.pr} into ${bundle.dir}`, '📦');
+  
+  await analyzeSinglePR({ ...options, cacheDir, post: 'never', json: false }, false);
+  
+  if (options.agent) {
+    const { analyzeRenovatePR } = await import('./mastra/workflows/analyze-renovate-pr.js');
+    const spinner = ora('Recording agent workflow').start();
+    await analyzeRenovatePR({
+      prNumber: options.pr,
+      postMode: 'never',
+      format: 'markdown',
+      language: options.language || 'en',
+      threshold: 1,
+      concurrency: 3,
+    });
+    spinner.succeed('Recorded agent workflow');
+  }
+}
+
 export function generateRecommendation(riskAssessment: RiskAssessment, breakingCount: number, usageCount: number, language: 'en' | 'ja' = 'en'): string {
   const isJa = language === 'ja';
   switch (riskAssessment.level) {
@@ -171,7 +372,7 @@ async function analyzeAllRenovatePRs(options: CLIOptions) {
     
     // Analyze each PR
     let hasReviewRequired = false;
-    const results: Array<{ pr: any; result: AnalysisResult }> = [];
+    const results: Array<{ pr: any; result: AnalysisResult | GroupedAnalysisResult }> = [];
     
     for (let i = 0; i < prs.length; i++) {
       const pr = prs[i];
@@ -182,7 +383,8 @@ async function analyzeAllRenovatePRs(options: CLIOptions) {
         const result = await analyzeSinglePR({ ...options, pr: pr.number }, false);
         results.push({ pr, result });
         
-        if (result.riskAssessment.level === 'high' || result.riskAssessment.level === 'critical') {
+        const policyEvaluation = options.policy ? evaluatePolicyForAll(options.policy, getPolicySubjects(result)) : null;
+        if (requiresReview(result, policyEvaluation)) {
           hasReviewRequired = true;
         }
       } catch (error) {
@@ -191,7 +393,7 @@ async function analyzeAllRenovatePRs(options: CLIOptions) {
         
         // Provide helpful message for common issues
         if (errorMsg.includes('Could not extract package information')) {
-          logWarningMessage('ℹ️  This might be a non-JavaScript package. Currently only npm packages are fully supported.');
+          logWarningMessage('ℹ️  This might be an unsupported package type. Supported: npm, PyPI, Go modules, Cargo, Maven/Gradle, RubyGems, Composer, Docker images and GitHub Actions.');
         } else if (errorMsg.includes('Invalid Version')) {
           logWarningMessage('ℹ️  Version format not recognized. This tool expects semver-compatible versions.');
         }
@@ -221,63 +423,25 @@ async function analyzeAllRenovatePRs(options: CLIOptions) {
   }
 }
 
-async function analyzeSinglePR(options: CLIOptions, exitOnComplete: boolean = true): Promise<AnalysisResult> {
+async function analyzeSinglePR(options: CLIOptions, exitOnComplete: boolean = true): Promise<AnalysisResult | GroupedAnalysisResult> {
   let spinner = ora('Starting renovate-safety analysis').start();
   
   try {
-    // Step 1: Extract package information
-    const packageUpdate = await extractPackageInformation(spinner, options, exitOnComplete);
+    // Step 1: Extract package information (grouped PRs yield one update per package)
+    const packageUpdates = await extractPackageInformation(spinner, options, exitOnComplete);
+    
+    if (packageUpdates.length > 1) {
+      return await analyzeGroupedPR(spinner, packageUpdates, options, exitOnComplete);
+    }
+    
+    const [packageUpdate] = packageUpdates;
     
     // Check if we should skip patch updates
     const skipResult = await checkShouldSkipPatchUpdate(packageUpdate, options, exitOnComplete);
     if (skipResult) return skipResult;
     
-    // Step 2: Find appropriate analyzer
-    const analyzer = await findAppropriateAnalyzer(spinner, packageUpdate);
-    
-    // Step 3: Fetch changelog/diff using analyzer or fallback
-    const { changelogDiff, knowledgeBasedBreaking } = await fetchChangelogAndKnowledge(spinner, analyzer, packageUpdate, options);
-    
-    // Step 4: Fetch code diff from GitHub
-    const codeDiff = await fetchCodeDifference(spinner, packageUpdate);
-    
-    // Step 5: Analyze dependency usage
-    const dependencyUsage = await analyzeDependencyUsageStep(spinner, packageUpdate);
-    
-    // Step 6: Analyze package usage with new analyzer
-    const usageAnalysis = await analyzePackageUsageStep(spinner, analyzer, packageUpdate);
-    
-    // Step 7: Extract breaking changes
-    const breakingChanges = await extractBreakingChangesStep(spinner, changelogDiff, codeDiff, knowledgeBasedBreaking);
-    
-    // Step 8: Enhanced LLM analysis
-    const llmSummary = await performLLMAnalysis(spinner, options, {
-      packageUpdate,
-      changelogDiff,
-      codeDiff,
-      dependencyUsage,
-      breakingChanges,
-      knowledgeBasedBreaking,
-    });
-    
-    // Step 9: Convert usage analysis to API usages for compatibility
-    const apiUsages = convertUsageAnalysisToApiUsages(usageAnalysis, packageUpdate);
-    
-    // Step 10: Deep analysis (optional)
-    const deepAnalysis = await performDeepAnalysisStep(spinner, options, packageUpdate, breakingChanges);
-    
-    // Step 11: Enhanced risk assessment and result generation
-    const analysisResult = await generateAnalysisResult({
-      packageUpdate,
-      changelogDiff,
-      codeDiff,
-      dependencyUsage,
-      breakingChanges,
-      llmSummary,
-      apiUsages,
-      deepAnalysis,
-      usageAnalysis,
-    }, options);
+    // Steps 2-11: Analyze the package
+    const analysisResult = await analyzePackageUpdate(spinner, packageUpdate, options);
     
     // Generate and display report
     await generateAndDisplayReport(analysisResult, options);
@@ -285,8 +449,11 @@ async function analyzeSinglePR(options: CLIOptions, exitOnComplete: boolean = tr
     // Handle PR posting
     await handlePRPosting(spinner, options, analysisResult);
     
+    // Evaluate the merge policy, if configured
+    const policyEvaluation = await applyPolicyStep(options, analysisResult);
+    
     if (exitOnComplete) {
-      process.exit(analysisResult.riskAssessment.level === 'high' || analysisResult.riskAssessment.level === 'critical' ? 1 : 0);
+      process.exit(requiresReview(analysisResult, policyEvaluation) ? 1 : 0);
     }
     
     return analysisResult;
@@ -299,4 +466,72 @@ async function analyzeSinglePR(options: CLIOptions, exitOnComplete: boolean = tr
   }
 }
 
+/**
+ * Whether the analysis should fail the run: the policy decides when one is configured,
+ * otherwise any high or critical risk does
+ */
+function requiresReview(result: AnalysisResult | GroupedAnalysisResult, policyEvaluation: PolicyEvaluation | null): boolean {
+  if (policyEvaluation) {
+    return !isAutoMergeAllowed(policyEvaluation.action);
+  }
+  return result.riskAssessment.level === 'high' || result.riskAssessment.level === 'critical';
+}
+
+async function analyzeGroupedPR(spinner: Ora, packageUpdates: PackageUpdate[], options: CLIOptions, exitOnComplete: boolean): Promise<GroupedAnalysisResult> {
+  const packages: AnalysisResult[] = [];
+  
+  for (let i = 0; i < packageUpdates.length; i++) {
+    const packageUpdate = packageUpdates[i];
+    logProgress(i + 1, packageUpdates.length, `Analyzing ${packageUpdate.name}: ${packageUpdate.fromVersion} → ${packageUpdate.toVersion}`);
+    
+    try {
+      const skipResult = await checkShouldSkipPatchUpdate(packageUpdate, options, false);
+      packages.push(skipResult ?? await analyzePackageUpdate(spinner, packageUpdate, options));
+    } catch (error) {
+      // One failing package should not hide the rest of the group
+      const errorMsg = getErrorMessage(error);
+      logError(`Failed to analyze ${packageUpdate.name}: ${errorMsg}`);
+      packages.push(createFailedAnalysisResult(packageUpdate, errorMsg));
+    }
+  }
+  
+  const riskAssessment = aggregateRiskAssessments(packages);
+  const groupedResult: GroupedAnalysisResult = {
+    packages,
+    riskAssessment,
+    recommendation: generateRecommendation(
+      riskAssessment,
+      packages.reduce((sum, result) => sum + result.breakingChanges.length, 0),
+      packages.reduce((sum, result) => sum + result.apiUsages.length, 0),
+      options.language || 'en'
+    ),
+  };
+  
+  await generateAndDisplayReport(groupedResult, options);
+  await handlePRPosting(spinner, options, groupedResult);
+  const policyEvaluation = await applyPolicyStep(options, groupedResult);
+  
+  if (exitOnComplete) {
+    process.exit(requiresReview(groupedResult, policyEvaluation) ? 1 : 0);
+  }
+  
+  return groupedResult;
+}
+
+async function analyzePackageUpdate(spinner: Ora, packageUpdate: PackageUpdate, options: CLIOptions): Promise<AnalysisResult> {
+  // Steps 2-11 run as a task graph: independent steps run concurrently, dependents get their results
+  const { parallelExecutor } = createPerformanceOptimizer(options.cacheDir);
+  const { results, timings } = await parallelExecutor.executeGraph(
+    createOptimizedAnalysisFlow(spinner, packageUpdate, options),
+    { maxConcurrency: options.maxParallel }
+  );
+  
+  // --json output must stay parseable
+  if (!options.json) {
+    logTaskTimings(packageUpdate, timings);
+  }
+  
+  return results.get(ANALYSIS_RESULT_TASK) as AnalysisResult;
+}
+
 // Entry point handled by commander
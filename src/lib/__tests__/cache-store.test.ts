@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { CacheStore, setCacheLookupListener } from '../cache-store.js';
+
+describe('CacheStore', () => {
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should keep namespaces apart and persist entries to disk', async () => {
+    await new CacheStore(cacheDir).set('changelog', 'lodash@1->2', { content: 'notes' });
+
+    const store = new CacheStore(cacheDir);
+    expect(await store.get('changelog', 'lodash@1->2')).toEqual({ content: 'notes' });
+    expect(await store.get('diff', 'lodash@1->2')).toBeNull();
+  });
+
+  it('should expire entries by namespace TTL while immutable namespaces never expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = new CacheStore(cacheDir);
+    await store.set('registry', 'npm-view:react', { name: 'react' });
+    await store.set('diff', 'npm-diff:react@17->18', 'diff');
+
+    vi.setSystemTime(Date.now() + 7 * 60 * 60 * 1000);
+
+    expect(await store.get('registry', 'npm-view:react')).toBeNull();
+    expect(await store.get('diff', 'npm-diff:react@17->18')).toBe('diff');
+  });
+
+  it('should report, prune and clear per namespace', async () => {
+    const store = new CacheStore(cacheDir);
+    await store.set('llm', 'summary:a', 'a');
+    await store.set('llm', 'summary:b', 'b', -1);
+    await store.set('changelog', 'changelog:c', 'c');
+
+    const [llmStats] = await store.stats(['llm']);
+    expect(llmStats).toMatchObject({ namespace: 'llm', entries: 2, expired: 1 });
+
+    expect(await store.prune()).toBe(1);
+    expect(await store.clear(['llm'])).toBe(1);
+
+    const stats = await store.stats();
+    expect(stats.find((stat) => stat.namespace === 'llm')?.entries).toBe(0);
+    expect(stats.find((stat) => stat.namespace === 'changelog')?.entries).toBe(1);
+  });
+
+  it('should report hits and misses to the lookup listener', async () => {
+    const store = new CacheStore(cacheDir);
+    const listener = vi.fn();
+    setCacheLookupListener(listener);
+
+    const compute = vi.fn().mockResolvedValue('value');
+    await store.getOrSet('registry', 'key', compute);
+    await store.getOrSet('registry', 'key', compute);
+    setCacheLookupListener(undefined);
+
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls).toEqual([[false], [true]]);
+  });
+});
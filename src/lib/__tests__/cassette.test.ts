@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { insertCassette, ejectCassette, getCassetteMode, type CassetteFile } from '../cassette.js';
+import { withOfflineBundle, resetOfflineBundle } from '../offline-bundle.js';
+import { httpGet } from '../http-client.js';
+import { secureNpmExec } from '../secure-exec.js';
+import { createGitHubClient } from '../github-client.js';
+
+describe('cassettes', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-cassette-'));
+    file = path.join(dir, 'cassettes', 'lodash.json');
+  });
+
+  afterEach(async () => {
+    resetOfflineBundle();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should record HTTP, GitHub API and exec responses into one file and replay them', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (input: string | URL | Request) =>
+        String(input instanceof Request ? input.url : input).includes('api.github.com')
+          ? Response.json({ title: 'Update dependency lodash to v4.17.21' })
+          : new Response(JSON.stringify({ version: '4.17.21' }), {
+              headers: { 'content-type': 'application/json', 'set-cookie': 'session=abc' },
+            })
+      )
+    );
+
+    await insertCassette(file, 'record');
+    await httpGet('https://registry.npmjs.org/lodash/4.17.21');
+    await createGitHubClient('ghp_recording').pulls.get({
+      owner: 'acme',
+      repo: 'app',
+      pull_number: 1,
+    });
+    await withOfflineBundle('exec', 'npm view lodash version --json', async () => ({
+      stdout: '"4.17.21"',
+      stderr: '',
+      failed: false,
+      exitCode: 0,
+      success: true,
+    }));
+    ejectCassette();
+
+    const cassette = JSON.parse(await fs.readFile(file, 'utf-8')) as CassetteFile;
+    expect(cassette.entries.map((entry) => `${entry.kind} ${entry.key}`)).toEqual([
+      'exec npm view lodash version --json',
+      'http GET https://api.github.com/repos/acme/app/pulls/1 application/vnd.github.v3+json',
+      'http GET https://registry.npmjs.org/lodash/4.17.21',
+    ]);
+    expect(JSON.stringify(cassette)).not.toContain('session=abc');
+
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('network is unreachable')));
+    await insertCassette(file, 'replay');
+
+    expect(await httpGet('https://registry.npmjs.org/lodash/4.17.21')).toEqual({
+      data: { version: '4.17.21' },
+      ok: true,
+      status: 200,
+    });
+    const { data } = await createGitHubClient().pulls.get({
+      owner: 'acme',
+      repo: 'app',
+      pull_number: 1,
+    });
+    expect(data.title).toBe('Update dependency lodash to v4.17.21');
+    expect((await secureNpmExec('view', ['lodash', 'version', '--json'])).stdout).toBe('"4.17.21"');
+  });
+
+  it('should fail clearly on a missing cassette or request', async () => {
+    await expect(insertCassette(file, 'replay')).rejects.toThrow(/No cassette found/);
+
+    await insertCassette(file, 'record');
+    ejectCassette();
+    const cassette = await insertCassette(file, 'replay');
+
+    await expect(secureNpmExec('view', ['react', 'version'])).rejects.toThrow(
+      /Cassette .*lodash\.json has no recorded exec response for "npm view react version"/
+    );
+    expect(cassette.getMisses()).toEqual(['exec npm view react version']);
+  });
+
+  it('should replay unless RENOVATE_SAFETY_CASSETTE=record', () => {
+    expect(getCassetteMode()).toBe('replay');
+    vi.stubEnv('RENOVATE_SAFETY_CASSETTE', 'record');
+    expect(getCassetteMode()).toBe('record');
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  publishCheckRun,
+  buildCheckAnnotations,
+  getCheckConclusion,
+  type CheckAnnotation,
+  type CheckRunClient,
+} from '../check-run.js';
+import { createFailedAnalysisResult } from '../grouped-analysis.js';
+import type { AnalysisResult } from '../../types/index.js';
+
+function createStubClient() {
+  const stub = {
+    pulls: { get: vi.fn().mockResolvedValue({ data: { head: { sha: 'abc1234' } } }) },
+    checks: {
+      create: vi
+        .fn()
+        .mockResolvedValue({ data: { id: 42, html_url: 'https://github.com/check/42' } }),
+      update: vi.fn().mockResolvedValue({ data: {} }),
+    },
+  };
+  return { stub, client: stub as unknown as CheckRunClient };
+}
+
+function createResult(overrides: Partial<AnalysisResult>): AnalysisResult {
+  return {
+    ...createFailedAnalysisResult(
+      { name: 'lodash', fromVersion: '3.10.1', toVersion: '4.0.0' },
+      ''
+    ),
+    ...overrides,
+  };
+}
+
+describe('getCheckConclusion', () => {
+  it('should map risk levels to check conclusions', () => {
+    expect(getCheckConclusion('safe')).toBe('success');
+    expect(getCheckConclusion('low')).toBe('success');
+    expect(getCheckConclusion('medium')).toBe('neutral');
+    expect(getCheckConclusion('unknown')).toBe('neutral');
+    expect(getCheckConclusion('critical')).toBe('failure');
+  });
+});
+
+describe('buildCheckAnnotations', () => {
+  it('should annotate usages of packages with breaking changes', () => {
+    const result = createResult({
+      breakingChanges: [{ line: 'Removed _.pluck', severity: 'removal' }],
+      apiUsages: [
+        { filePath: '/repo/src/a.ts', line: 3, apiName: 'pluck' },
+        { filePath: '/repo/src/a.ts', line: 3, apiName: 'pluck' },
+        { file: 'src/b.ts', line: 10, apiName: 'map' },
+        { filePath: '/elsewhere/c.ts', line: 1, apiName: 'map' },
+      ],
+      riskAssessment: {
+        level: 'high',
+        factors: [],
+        estimatedEffort: 'moderate',
+        testingScope: 'integration',
+      },
+    });
+
+    const annotations = buildCheckAnnotations(result, '/repo');
+
+    expect(annotations.map((a) => `${a.path}:${a.start_line}`)).toEqual([
+      'src/a.ts:3',
+      'src/b.ts:10',
+    ]);
+    expect(annotations[0].annotation_level).toBe('failure');
+    expect(annotations[0].message).toContain('Removed _.pluck');
+  });
+
+  it('should annotate type errors at their location', () => {
+    const result = createResult({
+      breakingChanges: [
+        {
+          line: "`parse`: TS2345 Argument of type 'number' is not assignable to parameter of type 'string'.",
+          severity: 'breaking',
+          source: 'typecheck',
+          location: { file: 'src/a.ts', line: 4, column: 7 },
+          confidence: 'high',
+        },
+      ],
+      riskAssessment: {
+        level: 'medium',
+        factors: [],
+        estimatedEffort: 'minimal',
+        testingScope: 'unit',
+      },
+    });
+
+    expect(buildCheckAnnotations(result, '/repo')).toEqual([
+      {
+        path: 'src/a.ts',
+        start_line: 4,
+        end_line: 4,
+        annotation_level: 'failure',
+        title: expect.stringMatching(/^Type error with /),
+        message: result.breakingChanges[0].line,
+      },
+    ]);
+  });
+
+  it('should skip packages without breaking changes', () => {
+    const result = createResult({ apiUsages: [{ file: 'src/a.ts', line: 1, apiName: 'map' }] });
+
+    expect(buildCheckAnnotations(result, '/repo')).toEqual([]);
+  });
+});
+
+describe('publishCheckRun', () => {
+  it('should create a completed check run on the PR head commit', async () => {
+    const { stub, client } = createStubClient();
+
+    const checkRun = await publishCheckRun(
+      {
+        prNumber: 7,
+        riskLevel: 'high',
+        report: '# Report',
+        repository: { owner: 'acme', name: 'app' },
+      },
+      client
+    );
+
+    expect(stub.pulls.get).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', pull_number: 7 });
+    expect(stub.checks.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        owner: 'acme',
+        repo: 'app',
+        name: 'renovate-safety',
+        head_sha: 'abc1234',
+        status: 'completed',
+        conclusion: 'failure',
+        output: { title: 'Risk: high', summary: '# Report', annotations: [] },
+      })
+    );
+    expect(stub.checks.update).not.toHaveBeenCalled();
+    expect(checkRun).toEqual({
+      id: 42,
+      url: 'https://github.com/check/42',
+      conclusion: 'failure',
+      annotations: 0,
+    });
+  });
+
+  it('should send annotations in batches of 50', async () => {
+    const { stub, client } = createStubClient();
+    const annotations: CheckAnnotation[] = Array.from({ length: 120 }, (_, i) => ({
+      path: 'src/a.ts',
+      start_line: i + 1,
+      end_line: i + 1,
+      annotation_level: 'warning',
+      title: 'map',
+      message: 'breaking',
+    }));
+
+    await publishCheckRun(
+      {
+        prNumber: 7,
+        riskLevel: 'low',
+        report: '# Report',
+        repository: { owner: 'acme', name: 'app' },
+        headSha: 'def5678',
+        annotations,
+      },
+      client
+    );
+
+    expect(stub.pulls.get).not.toHaveBeenCalled();
+    expect(stub.checks.create.mock.calls[0][0].output.annotations).toHaveLength(50);
+    expect(stub.checks.update).toHaveBeenCalledTimes(2);
+    expect(stub.checks.update.mock.calls[1][0]).toMatchObject({ check_run_id: 42 });
+    expect(stub.checks.update.mock.calls[1][0].output.annotations).toHaveLength(20);
+  });
+});
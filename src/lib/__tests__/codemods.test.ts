@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { Project } from 'ts-morph';
+import {
+  loadCodemodPacks,
+  selectCodemods,
+  applyCodemods,
+  PROJECT_CODEMODS_DIR,
+  type CodemodRule,
+} from '../codemods.js';
+import { createUnifiedDiff } from '../utils/unified-diff.js';
+import type { APIUsage } from '../../types/index.js';
+
+describe('codemod packs', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-codemods-'));
+    await fs.mkdir(path.join(dir, PROJECT_CODEMODS_DIR), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writePack(name: string, pack: unknown): Promise<void> {
+    await fs.writeFile(path.join(dir, PROJECT_CODEMODS_DIR, name), JSON.stringify(pack));
+  }
+
+  it('should load the built-in packs followed by the project packs', async () => {
+    await writePack('acme.json', {
+      name: 'acme-sdk',
+      codemods: [
+        {
+          id: 'acme-connect',
+          package: '@acme/*',
+          versions: '>=3',
+          description: 'connect() was renamed to open()',
+          transform: { kind: 'rename', from: 'connect', to: 'open' },
+        },
+      ],
+    });
+
+    const packs = await loadCodemodPacks(dir);
+
+    expect(packs.map((pack) => `${pack.source} ${pack.name}`)).toEqual([
+      'builtin lodash',
+      'builtin react-dom',
+      'project acme-sdk',
+    ]);
+    expect(selectCodemods(packs, '@acme/sdk', '3.0.0').map((codemod) => codemod.id)).toEqual([
+      'acme-connect',
+    ]);
+    expect(selectCodemods(packs, '@acme/sdk', '2.4.0')).toEqual([]);
+    expect(selectCodemods(packs, 'react-dom', '18.2.0').map((codemod) => codemod.id)).toEqual([
+      'react-dom-create-root',
+      'react-dom-hydrate-root',
+    ]);
+    expect(selectCodemods(packs, 'lodash', '3.10.1')).toEqual([]);
+  });
+
+  it('should reject invalid packs', async () => {
+    await writePack('broken.json', {
+      name: 'broken',
+      codemods: [
+        {
+          id: 'broken',
+          package: 'lodash',
+          versions: 'next major',
+          description: 'Broken codemod',
+          transform: { kind: 'rename', from: 'pluck', to: 'map()' },
+        },
+      ],
+    });
+
+    await expect(loadCodemodPacks(dir)).rejects.toThrow(
+      'Invalid codemod pack broken.json: codemods.0.versions: invalid semver range; codemods.0.transform.to: must be an identifier'
+    );
+  });
+});
+
+describe('applyCodemods', () => {
+  const project = new Project({ useInMemoryFileSystem: true, compilerOptions: { allowJs: true } });
+
+  function usagesOf(source: string, apiName: string): APIUsage[] {
+    return source
+      .split('\n')
+      .flatMap((line, index) =>
+        new RegExp(`\\b${apiName}\\b`).test(line)
+          ? [{ file: 'app.ts', line: index + 1, apiName }]
+          : []
+      );
+  }
+
+  it('should rename imports and member accesses on usage lines only', () => {
+    const source = [
+      "import _, { pluck, indexBy as byId } from 'lodash';",
+      '',
+      "const names = pluck(users, 'name');",
+      "const ids = _.pluck(users, 'id');",
+      "const lookup = byId(users, 'id');",
+      'const other = { pluck: () => [] }.pluck();',
+    ].join('\n');
+    const sourceFile = project.createSourceFile('app.ts', source, { overwrite: true });
+    const codemods: CodemodRule[] = [
+      {
+        id: 'lodash-pluck',
+        package: 'lodash',
+        versions: '>=4.0.0',
+        description: 'pluck became map',
+        transform: { kind: 'rename', from: 'pluck', to: 'map' },
+      },
+      {
+        id: 'lodash-index-by',
+        package: 'lodash',
+        versions: '>=4.0.0',
+        description: 'indexBy became keyBy',
+        transform: { kind: 'rename', from: 'indexBy', to: 'keyBy' },
+      },
+    ];
+    const usages = [
+      ...usagesOf(source, 'pluck').filter((usage) => usage.line !== 6),
+      ...usagesOf(source, 'indexBy'),
+    ];
+
+    const edits = applyCodemods(sourceFile, codemods, usages);
+
+    expect(sourceFile.getFullText()).toBe(
+      [
+        "import _, { map, keyBy as byId } from 'lodash';",
+        '',
+        "const names = map(users, 'name');",
+        "const ids = _.map(users, 'id');",
+        "const lookup = byId(users, 'id');",
+        'const other = { pluck: () => [] }.pluck();',
+      ].join('\n')
+    );
+    expect(edits.map((edit) => `${edit.codemod}:${edit.line}`)).toEqual([
+      'lodash-pluck:4',
+      'lodash-pluck:3',
+      'lodash-pluck:1',
+      'lodash-index-by:1',
+    ]);
+  });
+
+  it('should leave locals that shadow a renamed export alone', () => {
+    const source = [
+      "const _ = require('lodash');",
+      'const contains = _.contains(list, x);',
+      'console.log(contains, other.contains(x));',
+    ].join('\n');
+    const sourceFile = project.createSourceFile('app.js', source, { overwrite: true });
+    const codemod: CodemodRule = {
+      id: 'lodash-contains',
+      package: 'lodash',
+      versions: '>=4.0.0',
+      description: 'contains became includes',
+      transform: { kind: 'rename', from: 'contains', to: 'includes' },
+    };
+
+    const edits = applyCodemods(sourceFile, [codemod], usagesOf(source, 'contains'));
+
+    expect(sourceFile.getFullText()).toBe(
+      [
+        "const _ = require('lodash');",
+        'const contains = _.includes(list, x);',
+        'console.log(contains, other.contains(x));',
+      ].join('\n')
+    );
+    expect(edits.map((edit) => edit.line)).toEqual([2]);
+  });
+
+  it('should replace calls with the template and add the imports it needs', () => {
+    const source = [
+      "import ReactDOM from 'react-dom';",
+      "import { App } from './App';",
+      '',
+      "ReactDOM.render(<App />, document.getElementById('root'));",
+      'other.render(<App />);',
+    ].join('\n');
+    const sourceFile = project.createSourceFile('index.tsx', source, { overwrite: true });
+    const codemod: CodemodRule = {
+      id: 'react-dom-create-root',
+      package: 'react-dom',
+      versions: '>=18.0.0',
+      description: 'createRoot',
+      transform: {
+        kind: 'replace-call',
+        name: 'render',
+        object: 'ReactDOM',
+        template: 'createRoot($2).render($1)',
+        imports: [{ name: 'createRoot', from: 'react-dom/client' }],
+      },
+    };
+
+    const edits = applyCodemods(sourceFile, [codemod], usagesOf(source, 'render'));
+
+    expect(sourceFile.getFullText()).toBe(
+      [
+        "import ReactDOM from 'react-dom';",
+        "import { App } from './App';",
+        "import { createRoot } from 'react-dom/client';",
+        '',
+        "createRoot(document.getElementById('root')).render(<App />);",
+        'other.render(<App />);',
+      ].join('\n')
+    );
+    expect(edits).toHaveLength(1);
+    expect(edits[0]).toMatchObject({
+      line: 4,
+      before: "ReactDOM.render(<App />, document.getElementById('root'))",
+    });
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('should print hunks with three lines of context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n') + '\n';
+    const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k'].join('\n') + '\n';
+
+    expect(createUnifiedDiff('src/app.ts', before, after)).toBe(
+      [
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,5 +1,5 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        ' d',
+        ' e',
+        '@@ -8,3 +8,4 @@',
+        ' h',
+        ' i',
+        ' j',
+        '+k',
+        '',
+      ].join('\n')
+    );
+    expect(createUnifiedDiff('src/app.ts', before, before)).toBe('');
+  });
+});
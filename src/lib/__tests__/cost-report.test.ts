@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateCosts, formatCostReportCsv, parseCostDimensions } from '../cost-report.js';
+import type { StoredReport } from '../report-store.js';
+import type { AgentExecution, ExecutionStats } from '../../mastra/tools/execution-tracker.js';
+
+function storedReport(
+  id: string,
+  repository: string,
+  agents: Partial<AgentExecution>[]
+): StoredReport {
+  return {
+    id,
+    repository,
+    prNumber: 1,
+    headSha: 'abc1234',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    overallRisk: 'low',
+    markdownPath: `${id}.md`,
+    jsonPath: `${id}.json`,
+    dependencies: [],
+    data: null,
+    markdown: '',
+    executionStats: {
+      agents: agents.map((agent) => ({
+        agentName: 'ReleaseNotesAgent',
+        startTime: new Date(0),
+        success: true,
+        ...agent,
+      })),
+    } as ExecutionStats,
+  };
+}
+
+describe('cost report', () => {
+  const reports = [
+    storedReport('run-1', 'acme/web', [
+      {
+        packageName: 'lodash',
+        model: 'gpt-4o-mini',
+        inputTokens: 1000,
+        outputTokens: 500,
+        totalTokens: 1500,
+        estimatedCost: 0.01,
+      },
+      {
+        agentName: 'CodeImpactAgent',
+        packageName: 'lodash',
+        model: 'gpt-4o-mini',
+        totalTokens: 1000,
+        estimatedCost: 0.02,
+      },
+    ]),
+    storedReport('run-2', 'acme/api', [
+      { packageName: 'react', model: 'gpt-4o', totalTokens: 2000, estimatedCost: 0.05 },
+    ]),
+    storedReport('run-3', 'acme/web', []),
+  ];
+
+  it('should sum usage per group and count distinct runs, most expensive first', () => {
+    const report = aggregateCosts(reports, ['repo']);
+
+    expect(report.totals).toMatchObject({ runs: 2, calls: 3, totalTokens: 4500 });
+    expect(report.totals.cost).toBeCloseTo(0.08);
+    expect(report.rows).toEqual([
+      expect.objectContaining({ repo: 'acme/api', runs: 1, calls: 1, cost: 0.05 }),
+      expect.objectContaining({ repo: 'acme/web', runs: 1, calls: 2, inputTokens: 1000 }),
+    ]);
+  });
+
+  it('should group by several dimensions and price calls saved without a cost', () => {
+    const legacy = storedReport('run-4', 'acme/web', [{ model: 'gpt-4o', totalTokens: 1000 }]);
+    const report = aggregateCosts([...reports, legacy], ['package', 'model']);
+
+    const unattributed = report.rows.find((row) => row.package === '(none)');
+    expect(unattributed).toMatchObject({ model: 'gpt-4o', calls: 1 });
+    // 700 input and 300 output tokens at the default gpt-4o price
+    expect(unattributed?.cost).toBeCloseTo(0.00475);
+    expect(report.rows.find((row) => row.package === 'lodash')).toMatchObject({
+      model: 'gpt-4o-mini',
+      calls: 2,
+    });
+  });
+
+  it('should export CSV with one line per group', () => {
+    const csv = formatCostReportCsv(aggregateCosts(reports, ['repo', 'agent']));
+
+    expect(csv.split('\n')).toEqual([
+      'repo,agent,runs,calls,input_tokens,output_tokens,total_tokens,cost_usd',
+      'acme/api,ReleaseNotesAgent,1,1,0,0,2000,0.050000',
+      'acme/web,CodeImpactAgent,1,1,0,0,1000,0.020000',
+      'acme/web,ReleaseNotesAgent,1,1,1000,500,1500,0.010000',
+      '',
+    ]);
+  });
+
+  it('should reject unknown dimensions', () => {
+    expect(parseCostDimensions('repo, model,repo')).toEqual(['repo', 'model']);
+    expect(() => parseCostDimensions('team')).toThrow(/Invalid --group-by "team"/);
+  });
+});
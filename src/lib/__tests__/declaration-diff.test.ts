@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import pacote from 'pacote';
+import { compareDeclarations, fetchDeclarationDiff, findTypesEntry } from '../declaration-diff.js';
+import { summarizeApiDiff } from '../api-diff-summary.js';
+import { setDefaultCacheDir } from '../cache-store.js';
+
+vi.mock('pacote', () => ({
+  default: { extract: vi.fn() },
+}));
+
+describe('declaration diff', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-declarations-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeFiles(version: string, files: Record<string, string>): Promise<string> {
+    const packageDir = path.join(dir, version);
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(packageDir, name)), { recursive: true });
+      await fs.writeFile(path.join(packageDir, name), content);
+    }
+    return packageDir;
+  }
+
+  it('should classify export and signature changes', async () => {
+    await writeFiles('1.0.0', {
+      'index.d.ts': [
+        'export declare function parse(input: string | number, options?: ParseOptions): Node;',
+        'export declare function format(node: Node): string;',
+        "export declare function on(event: 'data', listener: (chunk: string) => void): void;",
+        "export declare function on(event: 'end', listener: () => void): void;",
+        'export declare function connect(url: string): Promise<void>;',
+        'export declare function legacy(): void;',
+        'export declare class Client { constructor(url: string); }',
+        'export interface ParseOptions { strict?: boolean }',
+        'export interface Node { type: string }',
+        "export { helper } from './helper';",
+      ].join('\n'),
+      'helper.d.ts': 'export declare function helper(a: number): string;',
+    });
+    await writeFiles('2.0.0', {
+      'index.d.ts': [
+        'export declare function parse(input: string, options?: ParseOptions): Node;',
+        'export declare function format(node: Node, indent: number): string;',
+        "export declare function on(event: 'data', listener: (chunk: string) => void): void;",
+        'export declare function connect(url: string | URL): void;',
+        'export declare class Client { constructor(url: string, options: { timeout: number }); }',
+        'export declare function create(): Client;',
+        'export interface ParseOptions { strict?: boolean }',
+        'export interface Node { type: string }',
+        "export { helper } from './helper';",
+      ].join('\n'),
+      'helper.d.ts': "export declare function helper(a: number): 'ok' | 'error';",
+    });
+
+    const changes = compareDeclarations(
+      path.join(dir, '1.0.0/index.d.ts'),
+      path.join(dir, '2.0.0/index.d.ts')
+    );
+
+    expect(changes).toEqual([
+      {
+        kind: 'narrowed-parameter',
+        name: 'parse',
+        classification: 'breaking',
+        detail: 'input: string | number → string',
+      },
+      {
+        kind: 'new-required-parameter',
+        name: 'format',
+        classification: 'breaking',
+        detail: 'indent: number',
+      },
+      {
+        kind: 'removed-overload',
+        name: 'on',
+        classification: 'breaking',
+        detail: '(event: "end", listener: () => void): void',
+      },
+      {
+        kind: 'widened-parameter',
+        name: 'connect',
+        classification: 'compatible',
+        detail: 'url: string → string | URL',
+      },
+      {
+        kind: 'changed-return-type',
+        name: 'connect',
+        classification: 'breaking',
+        detail: 'Promise<void> → void',
+      },
+      { kind: 'removed-export', name: 'legacy', classification: 'breaking' },
+      {
+        kind: 'new-required-parameter',
+        name: 'new Client',
+        classification: 'breaking',
+        detail: 'options: { timeout: number; }',
+      },
+      {
+        kind: 'changed-return-type',
+        name: 'helper',
+        classification: 'compatible',
+        detail: 'string → "ok" | "error"',
+      },
+      { kind: 'added-export', name: 'create', classification: 'compatible' },
+    ]);
+  });
+
+  it('should compare the members of export = namespaces', async () => {
+    const namespace = (members: string) =>
+      `declare function _(value: string): void;\ndeclare namespace _ { ${members} }\nexport = _;\n`;
+    await writeFiles('3.10.1', {
+      'index.d.ts': namespace('function pluck(items: object[], key: string): unknown[];'),
+    });
+    await writeFiles('4.0.0', {
+      'index.d.ts': namespace('function map(items: object[]): unknown[];'),
+    });
+
+    expect(
+      compareDeclarations(path.join(dir, '3.10.1/index.d.ts'), path.join(dir, '4.0.0/index.d.ts'))
+    ).toEqual([
+      { kind: 'removed-export', name: 'pluck', classification: 'breaking' },
+      { kind: 'added-export', name: 'map', classification: 'compatible' },
+    ]);
+  });
+
+  it('should find the declaration entry of a package', async () => {
+    const typed = await writeFiles('typed', {
+      'package.json': JSON.stringify({ main: 'dist/index.js', types: 'types/main.d.ts' }),
+      'types/main.d.ts': 'export {};',
+    });
+    const exported = await writeFiles('exported', {
+      'package.json': JSON.stringify({ exports: { '.': { types: './lib/api.d.ts' } } }),
+      'lib/api.d.ts': 'export {};',
+    });
+    const beside = await writeFiles('beside', {
+      'package.json': JSON.stringify({ main: './dist/index.cjs' }),
+      'dist/index.d.ts': 'export {};',
+    });
+    const untyped = await writeFiles('untyped', {
+      'package.json': JSON.stringify({ main: 'index.js' }),
+    });
+
+    expect(await findTypesEntry(typed)).toBe(path.join(typed, 'types/main.d.ts'));
+    expect(await findTypesEntry(exported)).toBe(path.join(exported, 'lib/api.d.ts'));
+    expect(await findTypesEntry(beside)).toBe(path.join(beside, 'dist/index.d.ts'));
+    expect(await findTypesEntry(untyped)).toBeNull();
+  });
+
+  it('should cache that a version has no type declarations', async () => {
+    setDefaultCacheDir(path.join(dir, 'cache'));
+    vi.mocked(pacote.extract).mockImplementation(async (_spec, dest) => {
+      await fs.mkdir(dest as string, { recursive: true });
+      await fs.writeFile(path.join(dest as string, 'package.json'), '{"main":"index.js"}');
+    });
+    const packageUpdate = { name: 'untyped', fromVersion: '1.0.0', toVersion: '2.0.0' };
+
+    try {
+      expect(await fetchDeclarationDiff(packageUpdate)).toBeNull();
+      expect(await fetchDeclarationDiff(packageUpdate)).toBeNull();
+    } finally {
+      setDefaultCacheDir(undefined);
+    }
+    expect(pacote.extract).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replace the regex bullets with the declaration changes', async () => {
+    const codeDiff = {
+      content: [
+        '### package.json',
+        '```diff',
+        '-    "node": ">=16"',
+        '+    "node": ">=18"',
+        '```',
+        '### src/index.ts',
+        '```diff',
+        '-export function legacy() {}',
+        '```',
+      ].join('\n'),
+      source: 'github-compare' as const,
+      filesChanged: 2,
+      additions: 1,
+      deletions: 2,
+      fromTag: 'v1.0.0',
+      toTag: 'v2.0.0',
+    };
+
+    expect((await summarizeApiDiff(codeDiff)).bullets).toEqual([
+      'Runtime requirement: Node.js >=16 → >=18',
+      'Public API removals: legacy',
+    ]);
+
+    const { bullets } = await summarizeApiDiff(codeDiff, 'en', {
+      fromVersion: '1.0.0',
+      toVersion: '2.0.0',
+      fromEntry: 'index.d.ts',
+      toEntry: 'index.d.ts',
+      changes: [
+        { kind: 'added-export', name: 'create', classification: 'compatible' },
+        { kind: 'removed-export', name: 'legacy', classification: 'breaking' },
+        { kind: 'removed-export', name: 'destroy', classification: 'breaking' },
+        {
+          kind: 'removed-overload',
+          name: 'on',
+          classification: 'breaking',
+          detail: '(event: "end"): void',
+        },
+        {
+          kind: 'narrowed-parameter',
+          name: 'parse',
+          classification: 'breaking',
+          detail: 'input: string | number → string',
+        },
+      ],
+    });
+
+    expect(bullets).toEqual([
+      'Runtime requirement: Node.js >=16 → >=18',
+      'Removed exports (breaking): legacy, destroy',
+      'Removed overloads (breaking): on(event: "end"): void',
+      'Narrowed parameter types (breaking): parse (input: string | number → string)',
+      'Added exports (compatible): create',
+    ]);
+  });
+});
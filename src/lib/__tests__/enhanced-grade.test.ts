@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { assessEnhancedRisk } from '../enhanced-grade.js';
+import { assessEnhancedRisk, applyTypecheckResult } from '../enhanced-grade.js';
 import type { PackageUpdate, BreakingChange } from '../../types/index.js';
+import type { LibraryHealth } from '../library-intelligence.js';
 
 describe('Enhanced Risk Assessment', () => {
   const mockPackageUpdate: PackageUpdate = {
@@ -187,6 +188,115 @@ describe('Enhanced Risk Assessment', () => {
     });
   });
 
+  describe('Library health', () => {
+    const minorUpdate: PackageUpdate = {
+      name: 'test-package',
+      fromVersion: '1.0.0',
+      toVersion: '1.1.0',
+    };
+    const maintenance: NonNullable<LibraryHealth['maintenance']> = {
+      lastUpdated: '2025-01-01T00:00:00Z',
+      releaseFrequency: 'active',
+      releasesLastYear: 14,
+      maintainerResponse: 'good',
+      openIssues: 10,
+      closedIssues: 20,
+      openPullRequests: 2,
+      busFactor: 4,
+      communityHealth: 'good',
+      funding: false,
+      sponsors: [],
+    };
+
+    it('should raise the risk of unmaintained packages', async () => {
+      const maintained = await assessEnhancedRisk(minorUpdate, [], null, null, true, true, {
+        maintenance,
+        popularity: null,
+      });
+      const unmaintained = await assessEnhancedRisk(minorUpdate, [], null, null, true, true, {
+        maintenance: {
+          ...maintenance,
+          archived: true,
+          lastCommit: '2021-03-01T00:00:00Z',
+          busFactor: 1,
+          issueTrend: 'worsening',
+        },
+        popularity: null,
+      });
+
+      expect(maintained.level).toBe('low');
+      expect(unmaintained.level).toBe('medium');
+      expect(unmaintained.factors).toEqual(
+        expect.arrayContaining([
+          'Repository is archived',
+          'No commits since 2021-03-01',
+          'Single maintainer (bus factor 1)',
+          'Issue backlog is growing',
+        ])
+      );
+    });
+
+    it('should count downloads and stars as community signals', async () => {
+      const result = await assessEnhancedRisk(minorUpdate, [], null, null, true, true, {
+        maintenance: null,
+        popularity: {
+          downloads: { daily: 400_000, weekly: 2_500_000, monthly: 10_000_000 },
+          githubStars: 4_000,
+          dependentRepos: 0,
+          dependentPackages: 0,
+          trendingScore: 0,
+        },
+      });
+
+      expect(result.detailedFactors.confidence.communitySignals).toBe(70);
+      expect(result.factors).toContain('Widely used (2,500,000 weekly downloads)');
+      expect(result.level).toBe('low');
+    });
+
+    it('should not penalize packages without health data', async () => {
+      const withoutHealth = await assessEnhancedRisk(minorUpdate, [], null, null, true, true);
+      const unknownHealth = await assessEnhancedRisk(minorUpdate, [], null, null, true, true, {
+        maintenance: null,
+        popularity: null,
+      });
+
+      expect(unknownHealth.level).toBe(withoutHealth.level);
+      expect(unknownHealth.factors).toEqual(withoutHealth.factors);
+    });
+  });
+
+  describe('Typecheck', () => {
+    const typesPatch = { name: '@types/node', fromVersion: '20.1.0', toVersion: '20.1.1' };
+
+    it('should rate new type errors high even for @types patches', async () => {
+      const typecheck = {
+        version: '20.1.1',
+        filesChecked: 12,
+        newErrors: [
+          {
+            file: 'src/server.ts',
+            line: 8,
+            column: 3,
+            code: 2339,
+            message: "Property 'listen' does not exist on type 'Server'.",
+          },
+        ],
+        fixedErrors: 0,
+      };
+      const assessment = await assessEnhancedRisk(typesPatch, [], null, null, true, true);
+
+      const passing = applyTypecheckResult(assessment, { ...typecheck, newErrors: [] });
+      const failing = applyTypecheckResult(assessment, typecheck);
+
+      expect(passing.level).toBe('safe');
+      expect(passing.factors).toContain('Project still typechecks with the target version');
+      expect(failing.level).toBe('high');
+      expect(failing.factors).toContain('1 new type errors with the target version');
+      expect(failing.mitigationSteps).toContain('Prepare rollback plan in case of issues');
+      expect(failing.confidence).toBeGreaterThan(assessment.confidence);
+    });
+  });
+
   describe('Lockfile-only changes', () => {
     it('should reduce risk for lockfile-only changes', async () => {
       // Create a modified version of assessEnhancedRisk for testing with lockfile-only
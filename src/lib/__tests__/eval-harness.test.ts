@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import {
+  loadEvalFixtures,
+  evaluateFixture,
+  runEvaluation,
+  toEvalBaseline,
+  compareWithBaseline,
+  type EvalBaseline,
+  type EvalFixture,
+} from '../eval-harness.js';
+import { readJsonFile } from '../file-helpers.js';
+
+const corpusDir = path.resolve(__dirname, '../../../data/eval');
+
+function fixture(overrides: Partial<EvalFixture> = {}): EvalFixture {
+  return {
+    id: 'p-limit-5',
+    package: { name: 'p-limit', fromVersion: '4.0.0', toVersion: '5.0.0' },
+    changelog: {
+      source: 'changelog',
+      content: '### Breaking\n\n- Require Node.js 18\n- Fixed incompatible typings\n',
+    },
+    publicEntryHints: [],
+    apiUsages: [],
+    expected: { breakingChanges: ['Node\\.?js.*18', 'activeCount'], riskLevel: 'low' },
+    ...overrides,
+  };
+}
+
+describe('detection eval harness', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-eval-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should match detections to labels and grade the risk', async () => {
+    const result = await evaluateFixture(fixture());
+
+    expect(result.foundLabels).toEqual(['Node\\.?js.*18']);
+    expect(result.missedLabels).toEqual(['activeCount']);
+    expect(result.detections.map((detection) => detection.label)).toEqual([
+      'Node\\.?js.*18',
+      undefined,
+    ]);
+    expect(result.predictedRisk).toBe('low');
+
+    const report = await runEvaluation([fixture()]);
+    expect(report.metrics).toMatchObject({ precision: 0.5, recall: 0.5 });
+    expect(report.risk.counts[report.risk.levels.indexOf('low')]).toEqual([0, 1, 0, 0, 0]);
+  });
+
+  it('should report lost labels, extra false positives and risk misses against a baseline', async () => {
+    const baseline: EvalBaseline = {
+      createdAt: '2025-01-01T00:00:00.000Z',
+      metrics: { precision: 1, recall: 1, f1: 1, riskAccuracy: 1 },
+      fixtures: {
+        'p-limit-5': {
+          foundLabels: ['Node\\.?js.*18', 'activeCount'],
+          falsePositives: 0,
+          predictedRisk: 'low',
+        },
+      },
+    };
+
+    const report = await runEvaluation([fixture(), fixture({ id: 'new-fixture' })]);
+    const comparison = compareWithBaseline(report, baseline);
+
+    expect(comparison.regressions).toEqual([
+      'p-limit-5: no longer detects "activeCount"',
+      'p-limit-5: 1 more false positives',
+    ]);
+    expect(comparison.added).toEqual(['new-fixture']);
+    expect(comparison.deltas.recall).toBeCloseTo(-0.5);
+
+    expect(compareWithBaseline(report, toEvalBaseline(report)).regressions).toEqual([]);
+  });
+
+  it('should reject invalid fixtures', async () => {
+    await fs.writeFile(
+      path.join(dir, 'broken.json'),
+      JSON.stringify({ ...fixture(), expected: { breakingChanges: ['('], riskLevel: 'severe' } })
+    );
+
+    await expect(loadEvalFixtures(dir)).rejects.toThrow(
+      /Invalid eval fixture broken\.json: expected\.breakingChanges\.0: invalid regular expression; expected\.riskLevel/
+    );
+  });
+
+  it('should keep the golden corpus at or above its baseline', async () => {
+    const report = await runEvaluation(await loadEvalFixtures(path.join(corpusDir, 'fixtures')));
+    const baseline = await readJsonFile<EvalBaseline>(path.join(corpusDir, 'baseline.json'));
+
+    expect(baseline).not.toBeNull();
+    expect(compareWithBaseline(report, baseline as EvalBaseline)).toMatchObject({
+      regressions: [],
+      added: [],
+    });
+  });
+});
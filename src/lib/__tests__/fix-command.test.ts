@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { runFix } from '../fix-command.js';
+import { loadConfig } from '../config.js';
+import { extractPackageUpdates } from '../pr.js';
+import { scanAPIUsage } from '../scan.js';
+import { createPerformanceOptimizer, getTaskResult } from '../performance-optimizer.js';
+import { PROJECT_CODEMODS_DIR } from '../codemods.js';
+import type { APIUsage } from '../../types/index.js';
+
+vi.mock('../config.js', () => ({
+  loadConfig: vi.fn(),
+}));
+
+vi.mock('../pr.js', () => ({
+  extractPackageUpdates: vi.fn(),
+  getPRBranch: vi.fn(),
+}));
+
+vi.mock('../scan.js', () => ({
+  scanAPIUsage: vi.fn(),
+}));
+
+vi.mock('../performance-optimizer.js', () => ({
+  createOptimizedAnalysisFlow: vi.fn(() => []),
+  createPerformanceOptimizer: vi.fn(),
+  getTaskResult: vi.fn(),
+}));
+
+function renamePack(packageName: string, from: string, to: string) {
+  return {
+    name: packageName,
+    codemods: [
+      {
+        id: `${packageName}-${from}`,
+        package: packageName,
+        description: `${from}() was renamed to ${to}()`,
+        transform: { kind: 'rename', from, to },
+      },
+    ],
+  };
+}
+
+describe('runFix', () => {
+  let dir: string;
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = process.cwd();
+    dir = await fs.realpath(await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-fix-')));
+    process.chdir(dir);
+
+    vi.mocked(loadConfig).mockResolvedValue({ cacheDir: path.join(dir, 'cache') });
+    vi.mocked(createPerformanceOptimizer).mockReturnValue({
+      parallelExecutor: {
+        executeGraph: async () => ({ results: new Map(), timings: [] }),
+      },
+    } as unknown as ReturnType<typeof createPerformanceOptimizer>);
+    vi.mocked(getTaskResult).mockReturnValue([]);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(async () => {
+    process.chdir(cwd);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep the rewrites of every package that touches a file', async () => {
+    await fs.mkdir(PROJECT_CODEMODS_DIR, { recursive: true });
+    await fs.writeFile(
+      path.join(PROJECT_CODEMODS_DIR, 'acme.json'),
+      JSON.stringify(renamePack('acme', 'connect', 'open'))
+    );
+    await fs.writeFile(
+      path.join(PROJECT_CODEMODS_DIR, 'widget.json'),
+      JSON.stringify(renamePack('widget', 'draw', 'render'))
+    );
+    const file = path.join(dir, 'app.ts');
+    await fs.writeFile(
+      file,
+      [
+        "import { connect } from 'acme';",
+        "import { draw } from 'widget';",
+        '',
+        'connect();',
+        'draw();',
+        '',
+      ].join('\n')
+    );
+
+    const usage = (line: number, apiName: string): APIUsage => ({ file, line, apiName });
+    vi.mocked(extractPackageUpdates).mockResolvedValue([
+      { name: 'acme', fromVersion: '1.0.0', toVersion: '2.0.0' },
+      { name: 'widget', fromVersion: '1.0.0', toVersion: '2.0.0' },
+    ]);
+    vi.mocked(scanAPIUsage)
+      .mockResolvedValueOnce([usage(1, 'connect'), usage(4, 'connect')])
+      .mockResolvedValueOnce([usage(2, 'draw'), usage(5, 'draw')])
+      .mockResolvedValue([]);
+
+    await runFix({ pr: 1 });
+
+    expect(await fs.readFile(file, 'utf8')).toBe(
+      [
+        "import { open } from 'acme';",
+        "import { render } from 'widget';",
+        '',
+        'open();',
+        'render();',
+        '',
+      ].join('\n')
+    );
+    const diffs = vi.mocked(process.stdout.write).mock.calls.map(([chunk]) => String(chunk));
+    expect(diffs).toHaveLength(2);
+    // The second diff starts from the first package's rewrite, like the file on disk
+    expect(diffs[1]).toContain(" import { open } from 'acme';");
+    expect(diffs[1]).not.toContain('connect');
+  });
+});
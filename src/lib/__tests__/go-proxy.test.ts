@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fetch from 'node-fetch';
+import { fetchGoModuleInfo, listGoModuleVersions } from '../go-proxy.js';
+
+vi.mock('node-fetch', () => ({ default: vi.fn() }));
+
+const mockFetch = vi.mocked(fetch);
+
+function respond(body: string) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => JSON.parse(body),
+    text: async () => body,
+  } as unknown as Awaited<ReturnType<typeof fetch>>;
+}
+
+describe('go proxy with a custom GOPROXY host', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should query the configured proxy instead of rejecting its host', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond('{"Version":"v1.2.0","Time":"2024-05-01T00:00:00Z"}'))
+      .mockResolvedValueOnce(respond('v1.0.0\nv1.2.0\n'));
+
+    const info = await fetchGoModuleInfo(
+      'github.com/acme/widget',
+      '1.2.0',
+      'https://goproxy.corp.example/'
+    );
+    const versions = await listGoModuleVersions(
+      'github.com/acme/widget',
+      'https://goproxy.corp.example'
+    );
+
+    expect(info).toEqual({ Version: 'v1.2.0', Time: '2024-05-01T00:00:00Z' });
+    expect(versions).toEqual(['v1.0.0', 'v1.2.0']);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://goproxy.corp.example/github.com/acme/widget/@v/v1.2.0.info',
+      'https://goproxy.corp.example/github.com/acme/widget/@v/list',
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateRiskAssessments,
+  createFailedAnalysisResult,
+  isGroupedResult,
+} from '../grouped-analysis.js';
+import type { AnalysisResult, RiskAssessment } from '../../types/index.js';
+
+function resultFor(name: string, riskAssessment: RiskAssessment): AnalysisResult {
+  return {
+    ...createFailedAnalysisResult({ name, fromVersion: '1.0.0', toVersion: '2.0.0' }, 'n/a'),
+    riskAssessment,
+  };
+}
+
+describe('aggregateRiskAssessments', () => {
+  it('should take the riskiest level, effort and testing scope', () => {
+    const aggregate = aggregateRiskAssessments([
+      resultFor('a', {
+        level: 'low',
+        factors: ['Minor update'],
+        estimatedEffort: 'minimal',
+        testingScope: 'full regression',
+      }),
+      resultFor('b', {
+        level: 'high',
+        factors: ['Major version jump'],
+        estimatedEffort: 'significant',
+        testingScope: 'unit',
+      }),
+    ]);
+
+    expect(aggregate).toEqual({
+      level: 'high',
+      factors: ['1 of 2 packages need review', 'b: Major version jump'],
+      estimatedEffort: 'significant',
+      testingScope: 'full regression',
+    });
+  });
+
+  it('should rank unknown above low but below medium', () => {
+    const unknown = createFailedAnalysisResult(
+      { name: 'c', fromVersion: '1.0.0', toVersion: '2.0.0' },
+      'timeout'
+    );
+    const low = resultFor('a', {
+      level: 'low',
+      factors: [],
+      estimatedEffort: 'minimal',
+      testingScope: 'unit',
+    });
+    const medium = resultFor('b', {
+      level: 'medium',
+      factors: [],
+      estimatedEffort: 'moderate',
+      testingScope: 'integration',
+    });
+
+    expect(aggregateRiskAssessments([low, unknown]).level).toBe('unknown');
+    expect(aggregateRiskAssessments([unknown, medium]).level).toBe('medium');
+  });
+
+  it('should tell grouped results apart', () => {
+    const single = createFailedAnalysisResult(
+      { name: 'a', fromVersion: '1', toVersion: '2' },
+      'n/a'
+    );
+
+    expect(isGroupedResult(single)).toBe(false);
+    expect(
+      isGroupedResult({
+        packages: [single],
+        riskAssessment: single.riskAssessment,
+        recommendation: '',
+      })
+    ).toBe(true);
+  });
+});
@@ -1,6 +1,163 @@
-import { describe, it, expect } from 'vitest';
-import { gatherLibraryIntelligence } from '../library-intelligence.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { gatherLibraryIntelligence, gatherLibraryHealth } from '../library-intelligence.js';
 import { FALLBACK_VALUES } from '../constants.js';
+import { secureNpmExec } from '../secure-exec.js';
+import { getGitHubClient, hasGitHubToken } from '../github-client.js';
+import { httpGet } from '../http-client.js';
+import { getCacheStore, setDefaultCacheDir } from '../cache-store.js';
+
+vi.mock('../secure-exec.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../secure-exec.js')>()),
+  secureNpmExec: vi.fn(),
+}));
+
+vi.mock('../github-client.js', () => ({
+  getGitHubClient: vi.fn(),
+  hasGitHubToken: vi.fn(),
+}));
+
+vi.mock('../http-client.js', () => ({
+  httpGet: vi.fn(),
+}));
+
+const execResult = (stdout: string) => ({
+  stdout,
+  stderr: '',
+  failed: false,
+  exitCode: 0,
+  success: true,
+});
+
+const octokit = {
+  repos: {
+    get: vi.fn(),
+    listReleases: vi.fn(),
+    listCommits: vi.fn(),
+    listContributors: vi.fn(),
+    getCommunityProfileMetrics: vi.fn(),
+    getContent: vi.fn(),
+  },
+  issues: { listForRepo: vi.fn() },
+  pulls: { list: vi.fn() },
+};
+
+let cacheDir: string;
+
+beforeEach(async () => {
+  cacheDir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-library-intelligence-'));
+  setDefaultCacheDir(cacheDir);
+  vi.mocked(secureNpmExec).mockResolvedValue({
+    ...execResult(''),
+    failed: true,
+    exitCode: 1,
+    success: false,
+  });
+  vi.mocked(httpGet).mockResolvedValue({ data: null, ok: false, status: 404 });
+  vi.mocked(getGitHubClient).mockReturnValue(
+    octokit as unknown as ReturnType<typeof getGitHubClient>
+  );
+  vi.mocked(hasGitHubToken).mockReturnValue(true);
+  octokit.repos.get.mockRejectedValue(new Error('Not Found'));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  setDefaultCacheDir(undefined);
+  await fs.rm(cacheDir, { recursive: true, force: true });
+});
+
+/**
+ * acme-widget as published on npm and hosted at github.com/acme/widget, seen on 2025-06-01
+ */
+function mockAcmeWidget(): void {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2025-06-01T00:00:00Z'));
+
+  vi.mocked(secureNpmExec).mockImplementation(async (_command, args) => {
+    if (args[1] === 'repository.url') {
+      return execResult(JSON.stringify('git+https://github.com/acme/widget.git'));
+    }
+    if (args[1] === 'time') {
+      return execResult(
+        JSON.stringify({
+          created: '2023-01-10T00:00:00Z',
+          modified: '2025-05-01T00:00:00Z',
+          '1.0.0': '2023-01-10T00:00:00Z',
+          '1.1.0': '2024-09-01T00:00:00Z',
+          '1.2.0': '2025-01-15T00:00:00Z',
+          '2.0.0-beta.1': '2025-04-01T00:00:00Z',
+          '2.0.0': '2025-05-01T00:00:00Z',
+        })
+      );
+    }
+    if (args[0] === '--json') {
+      return execResult('{}');
+    }
+    return { ...execResult(''), failed: true, exitCode: 1, success: false };
+  });
+
+  const day = (offset: number) => ({ day: `2025-05-${String(offset + 1).padStart(2, '0')}` });
+  vi.mocked(httpGet).mockResolvedValue({
+    ok: true,
+    status: 200,
+    data: {
+      downloads: Array.from({ length: 30 }, (_, index) => {
+        if (index < 7) return { ...day(index), downloads: 1000 };
+        if (index >= 23) return { ...day(index), downloads: 1500 };
+        return { ...day(index), downloads: 1200 };
+      }),
+    },
+  });
+
+  octokit.repos.get.mockResolvedValue({
+    data: {
+      stargazers_count: 12000,
+      forks_count: 800,
+      open_issues_count: 45,
+      archived: false,
+      pushed_at: '2025-05-30T10:00:00Z',
+    },
+  });
+  octokit.repos.listReleases.mockResolvedValue({ data: [] });
+  octokit.repos.listCommits.mockResolvedValue({
+    data: [{ commit: { committer: { date: '2025-05-30T10:00:00Z' } } }],
+  });
+  octokit.repos.listContributors.mockResolvedValue({
+    data: [{ contributions: 600 }, { contributions: 300 }, { contributions: 100 }],
+  });
+  octokit.issues.listForRepo.mockResolvedValue({
+    data: [
+      { created_at: '2025-05-01T00:00:00Z', closed_at: '2025-05-02T00:00:00Z' },
+      { created_at: '2025-05-10T00:00:00Z', closed_at: '2025-05-13T00:00:00Z' },
+      { created_at: '2025-05-12T00:00:00Z', closed_at: null },
+      { created_at: '2025-05-20T00:00:00Z', closed_at: null },
+      { created_at: '2025-05-25T00:00:00Z', closed_at: null },
+      { created_at: '2025-05-28T00:00:00Z', closed_at: null },
+      { created_at: '2025-05-29T00:00:00Z', closed_at: null, pull_request: {} },
+    ],
+  });
+  octokit.pulls.list.mockResolvedValue({ data: Array.from({ length: 5 }, () => ({})) });
+  octokit.repos.getCommunityProfileMetrics.mockResolvedValue({
+    data: { health_percentage: 85, files: { code_of_conduct: null } },
+  });
+  octokit.repos.getContent.mockImplementation(async ({ path: dir }: { path: string }) => {
+    const entry = (name: string, type = 'file') => ({
+      name,
+      path: dir ? `${dir}/${name}` : name,
+      type,
+      html_url: `https://github.com/acme/widget/blob/main/${dir ? `${dir}/` : ''}${name}`,
+    });
+    const listings: Record<string, unknown[]> = {
+      '': [entry('README.md'), entry('SECURITY.md'), entry('docs', 'dir')],
+      '.github': [entry('FUNDING.yml')],
+      docs: [entry('upgrading-from-0.x.md'), entry('migrating-to-v2.md')],
+    };
+    return { data: listings[dir] ?? [] };
+  });
+}
 
 describe('Library Intelligence', () => {
   describe('gatherLibraryIntelligence', () => {
@@ -38,4 +195,86 @@ describe('Library Intelligence', () => {
       expect(result).toHaveProperty('migrationIntelligence');
     });
   });
-});
\ No newline at end of file
+
+  describe('gatherLibraryHealth', () => {
+    it('should derive maintenance and popularity from the registry and GitHub', async () => {
+      mockAcmeWidget();
+
+      const health = await gatherLibraryHealth('acme-widget');
+
+      expect(health.maintenance).toEqual({
+        lastUpdated: '2025-05-01T00:00:00Z',
+        lastCommit: '2025-05-30T10:00:00Z',
+        releaseFrequency: 'moderate',
+        releasesLastYear: 4,
+        maintainerResponse: 'good',
+        openIssues: 40,
+        closedIssues: 2,
+        openPullRequests: 5,
+        issueTrend: 'worsening',
+        busFactor: 1,
+        archived: false,
+        communityHealth: 'excellent',
+        funding: true,
+        sponsors: [],
+      });
+      expect(health.popularity).toEqual({
+        downloads: { daily: 1500, weekly: 10500, monthly: 36700 },
+        githubStars: 12000,
+        githubForks: 800,
+        dependentRepos: 0,
+        dependentPackages: 0,
+        trendingScore: 50,
+      });
+      expect(octokit.repos.get).toHaveBeenCalledTimes(1);
+      expect(httpGet).toHaveBeenCalledWith(
+        'https://api.npmjs.org/downloads/range/last-month/acme-widget'
+      );
+    });
+
+    it('should read only the registry without a GitHub token', async () => {
+      mockAcmeWidget();
+      vi.mocked(hasGitHubToken).mockReturnValue(false);
+
+      const health = await gatherLibraryHealth('acme-widget');
+
+      expect(health.maintenance).toMatchObject({
+        releaseFrequency: 'moderate',
+        releasesLastYear: 4,
+      });
+      expect(health.maintenance?.busFactor).toBeUndefined();
+      expect(health.popularity).toMatchObject({ downloads: { weekly: 10500 } });
+      expect(health.popularity?.githubStars).toBeUndefined();
+      expect(octokit.repos.get).not.toHaveBeenCalled();
+    });
+
+    it('should cache the health of a package', async () => {
+      mockAcmeWidget();
+
+      const health = await gatherLibraryHealth('acme-widget');
+
+      expect(await getCacheStore().get('registry', 'library-health:github:acme-widget')).toEqual(
+        health
+      );
+    });
+
+    it('should report no signals instead of defaults when nothing is known', async () => {
+      const health = await gatherLibraryHealth('acme-unpublished');
+
+      expect(health).toEqual({ maintenance: null, popularity: null });
+      expect(octokit.repos.get).not.toHaveBeenCalled();
+    });
+
+    it('should find the security policy and the guide for the target major', async () => {
+      mockAcmeWidget();
+
+      const result = await gatherLibraryIntelligence('acme-widget', '1.2.0', '2.0.0');
+
+      expect(result.securityInfo.securityPolicy).toBe(true);
+      expect(result.securityInfo.codeOfConduct).toBe(false);
+      expect(result.migrationIntelligence.migrationGuide).toBe(
+        'https://github.com/acme/widget/blob/main/docs/migrating-to-v2.md'
+      );
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  parseLLMConfig,
+  setLLMConfig,
+  getFallbackOrder,
+  getProviderCandidates,
+  getProviderClientApiKey,
+  getLLMProvider,
+  resolveAgentModel,
+} from '../llm-providers.js';
+
+const ollama = {
+  type: 'openai-compatible',
+  baseURL: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+};
+
+describe('LLM provider registry', () => {
+  afterEach(() => {
+    setLLMConfig(undefined);
+    vi.unstubAllEnvs();
+  });
+
+  it('should append configured providers to the built-in order unless fallbackOrder is set', () => {
+    setLLMConfig(parseLLMConfig({ providers: { ollama } }));
+    expect(getFallbackOrder().map((provider) => provider.name)).toEqual([
+      'claude-cli',
+      'anthropic',
+      'openai',
+      'ollama',
+    ]);
+
+    setLLMConfig(parseLLMConfig({ providers: { ollama }, fallbackOrder: ['ollama', 'openai'] }));
+    expect(getFallbackOrder().map((provider) => provider.name)).toEqual(['ollama', 'openai']);
+    expect(getProviderCandidates('openai').map((provider) => provider.name)).toEqual([
+      'openai',
+      'ollama',
+    ]);
+  });
+
+  it('should reject unknown provider references and incomplete compatible providers', () => {
+    expect(() => parseLLMConfig({ fallbackOrder: ['ollama'] })).toThrow(
+      /Invalid llm in \.renovate-safety\.json: fallbackOrder\.0: unknown provider "ollama"/
+    );
+    expect(() =>
+      parseLLMConfig({ providers: { vllm: { type: 'openai-compatible', model: 'qwen' } } })
+    ).toThrow(/providers\.vllm: openai-compatible providers need a baseURL/);
+    expect(() => parseLLMConfig({ agents: { CodeImpactAgent: { provider: 'nope' } } })).toThrow(
+      /agents\.CodeImpactAgent\.provider: unknown provider "nope"/
+    );
+  });
+
+  it('should resolve agent models from overrides and compatible servers without keys', () => {
+    setLLMConfig(
+      parseLLMConfig({
+        providers: { ollama },
+        fallbackOrder: ['ollama'],
+        agents: {
+          CodeImpactAgent: { model: 'qwen2.5-coder' },
+          ReleaseNotesAgent: { provider: 'anthropic' },
+        },
+      })
+    );
+
+    expect(resolveAgentModel('CodeImpactAgent', 'gpt-4o-mini')).toMatchObject({
+      provider: { name: 'ollama', baseURL: 'http://localhost:11434/v1' },
+      modelId: 'qwen2.5-coder',
+    });
+    expect(resolveAgentModel('LibraryOverviewAgent', 'gpt-4o-mini').modelId).toBe('llama3.1');
+    expect(() => resolveAgentModel('ReleaseNotesAgent', 'gpt-4o-mini')).toThrow(
+      /cannot run ReleaseNotesAgent/
+    );
+
+    const provider = getLLMProvider('ollama');
+    expect(provider && getProviderClientApiKey(provider)).toBe('not-needed');
+  });
+
+  it('should read provider keys from apiKeyEnv', () => {
+    setLLMConfig(
+      parseLLMConfig({
+        providers: {
+          proxy: {
+            type: 'openai-compatible',
+            baseURL: 'https://llm.example.com/v1',
+            model: 'gpt-4o',
+            apiKeyEnv: 'LLM_PROXY_KEY',
+          },
+        },
+        fallbackOrder: ['proxy'],
+      })
+    );
+
+    expect(() => resolveAgentModel('CodeImpactAgent', 'gpt-4o-mini')).toThrow(/No LLM provider/);
+
+    vi.stubEnv('LLM_PROXY_KEY', 'proxy-secret');
+    const { provider } = resolveAgentModel('CodeImpactAgent', 'gpt-4o-mini');
+    expect(getProviderClientApiKey(provider)).toBe('proxy-secret');
+  });
+});
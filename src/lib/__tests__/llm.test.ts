@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { summarizeWithLLM } from '../llm.js';
+import { secureSystemExec } from '../secure-exec.js';
+import { isProviderAvailable } from '../llm-providers.js';
+
+vi.mock('../secure-exec.js', () => ({
+  secureSystemExec: vi.fn(),
+}));
+
+vi.mock('../llm-providers.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../llm-providers.js')>()),
+  isProviderAvailable: vi.fn(),
+}));
+
+const packageUpdate = { name: 'lodash', fromVersion: '3.10.1', toVersion: '4.0.0' };
+const changelogDiff = { content: '## 4.0.0\n- Removed `_.contains`', source: 'npm' as const };
+
+function mockAnswers(answers: string[]) {
+  for (const stdout of answers) {
+    vi.mocked(secureSystemExec).mockResolvedValueOnce({
+      success: true,
+      failed: false,
+      stdout,
+      stderr: '',
+    });
+  }
+}
+
+describe('summarizeWithLLM', () => {
+  beforeEach(() => {
+    vi.mocked(isProviderAvailable).mockResolvedValue(true);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should send an answer that does not match the schema back for repair', async () => {
+    mockAnswers([
+      '{"summary":"Drops _.contains","language":"english","breakingChanges":[]}',
+      '{"summary":"Drops _.contains","language":"en","breakingChanges":["_.contains removed"]}',
+    ]);
+
+    const summary = await summarizeWithLLM(packageUpdate, changelogDiff, [], 'claude-cli');
+
+    expect(summary).toEqual({
+      summary: 'Drops _.contains',
+      language: 'en',
+      breakingChanges: ['_.contains removed'],
+    });
+    const repairPrompt = vi.mocked(secureSystemExec).mock.calls[1][1][1];
+    expect(repairPrompt).toContain('Your previous response:');
+    expect(repairPrompt).toContain('- language: Invalid enum value');
+  });
+
+  it('should give up when no answer matches the schema', async () => {
+    mockAnswers(['No JSON here', 'Still none', 'Nothing']);
+
+    expect(await summarizeWithLLM(packageUpdate, changelogDiff, [], 'claude-cli')).toBeNull();
+    expect(secureSystemExec).toHaveBeenCalledTimes(3);
+  });
+});
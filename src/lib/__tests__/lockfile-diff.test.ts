@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { parseLockfileDiff, isLockfile } from '../lockfile-diff.js';
+
+function fileDiff(file: string, lines: string[]): string {
+  return [
+    `diff --git a/${file} b/${file}`,
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    '@@ -1,9 +1,9 @@',
+    ...lines,
+  ].join('\n');
+}
+
+describe('parseLockfileDiff', () => {
+  it('should read top-level package-lock.json entries only', () => {
+    const diff = fileDiff('package-lock.json', [
+      '     "node_modules/@babel/core": {',
+      '-      "version": "7.23.9",',
+      '+      "version": "7.24.0",',
+      '     "node_modules/foo/node_modules/semver": {',
+      '-      "version": "6.3.0",',
+      '+      "version": "6.3.1",',
+    ]);
+
+    expect(parseLockfileDiff(diff)).toEqual([
+      { name: '@babel/core', fromVersion: '7.23.9', toVersion: '7.24.0' },
+    ]);
+  });
+
+  it('should follow yarn.lock entries whose range changed', () => {
+    const diff = fileDiff('yarn.lock', [
+      '-lodash@^4.17.20:',
+      '-  version "4.17.20"',
+      '+lodash@^4.17.21:',
+      '+  version "4.17.21"',
+      '   resolved "https://registry.yarnpkg.com/lodash/-/lodash-4.17.21.tgz"',
+    ]);
+
+    expect(parseLockfileDiff(diff)).toEqual([
+      { name: 'lodash', fromVersion: '4.17.20', toVersion: '4.17.21' },
+    ]);
+  });
+
+  it('should pair replaced pnpm-lock.yaml and Gemfile.lock entries', () => {
+    const diff = [
+      fileDiff('pnpm-lock.yaml', [
+        "-  '@types/node@20.11.4':",
+        "+  '@types/node@20.11.5':",
+        '     resolution: {integrity: sha512-abc}',
+      ]),
+      fileDiff('Gemfile.lock', [
+        '-    rails (7.0.8)',
+        '+    rails (7.1.3)',
+        '       actionpack (= 7.1.3)',
+      ]),
+    ].join('\n');
+
+    expect(parseLockfileDiff(diff)).toEqual([
+      { name: '@types/node', fromVersion: '20.11.4', toVersion: '20.11.5' },
+      { name: 'rails', fromVersion: '7.0.8', toVersion: '7.1.3' },
+    ]);
+  });
+
+  it('should read composer.lock and Cargo.lock versions', () => {
+    const diff = [
+      fileDiff('composer.lock', [
+        '             "name": "guzzlehttp/guzzle",',
+        '-            "version": "7.8.0",',
+        '+            "version": "7.8.1",',
+      ]),
+      fileDiff('Cargo.lock', [' name = "serde"', '-version = "1.0.195"', '+version = "1.0.196"']),
+    ].join('\n');
+
+    expect(parseLockfileDiff(diff)).toEqual([
+      { name: 'guzzlehttp/guzzle', fromVersion: '7.8.0', toVersion: '7.8.1' },
+      { name: 'serde', fromVersion: '1.0.195', toVersion: '1.0.196' },
+    ]);
+  });
+
+  it('should ignore files that are not lockfiles', () => {
+    const diff = fileDiff('package.json', ['-    "lodash": "4.17.20"', '+    "lodash": "4.17.21"']);
+
+    expect(parseLockfileDiff(diff)).toEqual([]);
+    expect(isLockfile('apps/web/pnpm-lock.yaml')).toBe(true);
+    expect(isLockfile('package.json')).toBe(false);
+  });
+});
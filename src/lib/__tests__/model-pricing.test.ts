@@ -0,0 +1,34 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  parseModelPricing,
+  setModelPricing,
+  getModelPrice,
+  calculateTokenCost,
+} from '../model-pricing.js';
+
+describe('model pricing', () => {
+  afterEach(() => {
+    setModelPricing(undefined);
+  });
+
+  it('should apply configured prices on top of the defaults', () => {
+    setModelPricing(
+      parseModelPricing({
+        'GPT-4o-mini': { inputPrice: 0.001, outputPrice: 0.002 },
+        'proxy/claude': { inputPrice: 0.003, outputPrice: 0.015 },
+      })
+    );
+
+    expect(calculateTokenCost('gpt-4o-mini', 1000, 1000)).toBeCloseTo(0.003);
+    expect(getModelPrice('proxy/claude')).toEqual({ inputPrice: 0.003, outputPrice: 0.015 });
+    expect(getModelPrice('gpt-4o')).toEqual({ inputPrice: 0.0025, outputPrice: 0.01 });
+    expect(getModelPrice('unknown-model')).toEqual(getModelPrice(undefined));
+  });
+
+  it('should reject invalid pricing with the offending path', () => {
+    expect(() => parseModelPricing({ 'gpt-4o': { inputPrice: -1, outputPrice: 0.01 } })).toThrow(
+      /Invalid modelPricing in \.renovate-safety\.json: gpt-4o\.inputPrice/
+    );
+    expect(() => parseModelPricing({ 'gpt-4o': { input: 0.1 } })).toThrow(/modelPricing/);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import {
+  OfflineBundle,
+  bundleFetch,
+  resetOfflineBundle,
+  startBundleRecording,
+  useOfflineBundle,
+  withOfflineBundle,
+} from '../offline-bundle.js';
+import { httpGet } from '../http-client.js';
+import { secureNpmExec } from '../secure-exec.js';
+import { createGitHubClient } from '../github-client.js';
+
+describe('offline bundle', () => {
+  let bundleDir: string;
+
+  beforeEach(async () => {
+    bundleDir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-bundle-'));
+  });
+
+  afterEach(async () => {
+    resetOfflineBundle();
+    vi.unstubAllGlobals();
+    await fs.rm(bundleDir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded values and fail clearly on a miss', async () => {
+    await startBundleRecording(bundleDir, 12);
+    const compute = vi.fn().mockResolvedValue({ name: 'lodash' });
+    await withOfflineBundle('registry', 'pacote-manifest:lodash', compute);
+
+    const bundle = await useOfflineBundle(bundleDir);
+    expect(await withOfflineBundle('registry', 'pacote-manifest:lodash', compute)).toEqual({
+      name: 'lodash',
+    });
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    await expect(withOfflineBundle('registry', 'pacote-manifest:react', compute)).rejects.toThrow(
+      /has no recorded registry response for "pacote-manifest:react".*renovate-safety prefetch/
+    );
+    expect(bundle.getMisses()).toEqual(['registry pacote-manifest:react']);
+  });
+
+  it('should record fetch responses, including errors, and replay them without the network', async () => {
+    const networkFetch = vi.fn(async (input: string) =>
+      input.endsWith('/missing')
+        ? new Response('Not Found', { status: 404, statusText: 'Not Found' })
+        : Response.json({ version: '4.17.21' })
+    );
+    vi.stubGlobal('fetch', networkFetch);
+
+    await startBundleRecording(bundleDir);
+    await bundleFetch('https://registry.example/lodash');
+    await bundleFetch('https://registry.example/missing');
+
+    await useOfflineBundle(bundleDir);
+    const found = await bundleFetch('https://registry.example/lodash');
+    const missing = await bundleFetch('https://registry.example/missing');
+
+    expect(networkFetch).toHaveBeenCalledTimes(2);
+    expect(await found.json()).toEqual({ version: '4.17.21' });
+    expect(found.headers.get('content-type')).toContain('application/json');
+    expect(missing.status).toBe(404);
+    await expect(
+      bundleFetch('https://registry.example/lodash', { headers: { accept: 'text/plain' } })
+    ).rejects.toThrow(/no recorded http response/);
+  });
+
+  it('should serve httpGet and network commands from the bundle', async () => {
+    const recorder = new OfflineBundle(bundleDir, 'record');
+    await recorder.writeManifest();
+    await recorder.resolve('http', 'GET https://pypi.org/pypi/requests/2.31.0/json', async () => ({
+      url: 'https://pypi.org/pypi/requests/2.31.0/json',
+      status: 200,
+      statusText: 'OK',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ info: { name: 'requests' } }),
+    }));
+    await recorder.resolve('exec', 'npm view lodash version --json', async () => ({
+      stdout: '"4.17.21"',
+      stderr: '',
+      failed: false,
+      exitCode: 0,
+      success: true,
+    }));
+
+    await useOfflineBundle(bundleDir);
+
+    const response = await httpGet('https://pypi.org/pypi/requests/2.31.0/json');
+    expect(response).toEqual({ data: { info: { name: 'requests' } }, ok: true, status: 200 });
+
+    const result = await secureNpmExec('view', ['lodash', 'version', '--json']);
+    expect(result.stdout).toBe('"4.17.21"');
+  });
+
+  it('should replay GitHub API requests made through createGitHubClient', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => Response.json({ title: 'Update dependency lodash to v4.17.21' }))
+    );
+    await startBundleRecording(bundleDir);
+    await createGitHubClient('ghp_recording').pulls.get({
+      owner: 'acme',
+      repo: 'app',
+      pull_number: 1,
+    });
+
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('network is unreachable')));
+    await useOfflineBundle(bundleDir);
+    const { data } = await createGitHubClient().pulls.get({
+      owner: 'acme',
+      repo: 'app',
+      pull_number: 1,
+    });
+
+    expect(data.title).toBe('Update dependency lodash to v4.17.21');
+  });
+
+  it('should require a manifest and keep every prefetched PR in it', async () => {
+    await expect(useOfflineBundle(bundleDir)).rejects.toThrow(/No offline bundle found/);
+
+    await startBundleRecording(bundleDir, 7);
+    const bundle = await startBundleRecording(bundleDir, 3);
+
+    expect((await bundle.readManifest())?.prs).toEqual([3, 7]);
+  });
+});
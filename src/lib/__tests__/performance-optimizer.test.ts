@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPerformanceOptimizer,
+  getTaskResult,
+  type DependentTask,
+} from '../performance-optimizer.js';
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function createTask(
+  id: string,
+  dependencies: string[],
+  execute: DependentTask<unknown>['execute']
+): DependentTask<unknown> {
+  return { id, name: id, priority: 'medium', dependencies, execute };
+}
+
+describe('ParallelExecutor.executeGraph', () => {
+  const { parallelExecutor } = createPerformanceOptimizer('/tmp/renovate-safety-test');
+
+  it('should pass dependency results to dependent tasks', async () => {
+    const { results, timings } = await parallelExecutor.executeGraph([
+      createTask('sum', ['a', 'b'], async (done) => {
+        return getTaskResult<number>(done, 'a') + getTaskResult<number>(done, 'b');
+      }),
+      createTask('a', [], async () => 1),
+      createTask('b', [], async () => null),
+    ]);
+
+    expect(results.get('sum')).toBe(1);
+    expect(results.get('b')).toBeNull();
+    expect(timings.map((timing) => timing.id)).toEqual(['sum', 'a', 'b']);
+    expect(timings.every((timing) => timing.status === 'completed')).toBe(true);
+  });
+
+  it('should run independent tasks concurrently up to maxConcurrency', async () => {
+    let running = 0;
+    let peak = 0;
+    const track = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(20);
+      running--;
+    };
+
+    await parallelExecutor.executeGraph(
+      ['a', 'b', 'c', 'd'].map((id) => createTask(id, [], track)),
+      { maxConcurrency: 2 }
+    );
+    expect(peak).toBe(2);
+
+    peak = 0;
+    await parallelExecutor.executeGraph(
+      ['a', 'b', 'c', 'd'].map((id) => createTask(id, [], track)),
+      { maxConcurrency: 4 }
+    );
+    expect(peak).toBe(4);
+  });
+
+  it('should reject on the first failure without starting dependents', async () => {
+    let dependentRan = false;
+
+    await expect(
+      parallelExecutor.executeGraph([
+        createTask('fails', [], async () => {
+          throw new Error('boom');
+        }),
+        createTask('dependent', ['fails'], async () => {
+          dependentRan = true;
+        }),
+      ])
+    ).rejects.toThrow('boom');
+    expect(dependentRan).toBe(false);
+  });
+
+  it('should let running tasks settle before rejecting', async () => {
+    let siblingSettled = false;
+
+    await expect(
+      parallelExecutor.executeGraph([
+        createTask('fails', [], async () => {
+          throw new Error('boom');
+        }),
+        createTask('sibling', [], async () => {
+          await delay(20);
+          siblingSettled = true;
+        }),
+      ])
+    ).rejects.toThrow('boom');
+    expect(siblingSettled).toBe(true);
+  });
+
+  it('should reject circular and unknown dependencies', async () => {
+    await expect(
+      parallelExecutor.executeGraph([
+        createTask('a', ['b'], async () => 1),
+        createTask('b', ['a'], async () => 2),
+      ])
+    ).rejects.toThrow(/Circular dependency/);
+
+    await expect(
+      parallelExecutor.executeGraph([createTask('a', ['missing'], async () => 1)])
+    ).rejects.toThrow(/unknown tasks: missing/);
+  });
+});
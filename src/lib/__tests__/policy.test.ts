@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parsePolicy,
+  evaluatePolicy,
+  evaluatePolicyForAll,
+  matchesPackagePattern,
+  isAutoMergeAllowed,
+  type PolicySubject,
+} from '../policy.js';
+
+const policy = parsePolicy({
+  rules: [
+    {
+      name: 'block-react-major',
+      match: { packages: ['react*'], updateTypes: ['major'] },
+      action: 'block',
+    },
+    {
+      name: 'dev-patches',
+      match: {
+        dependencyTypes: ['dev'],
+        updateTypes: ['patch', 'minor'],
+        riskLevels: ['safe', 'low'],
+      },
+      action: 'approve',
+    },
+    { match: { packages: ['@types/*'] }, action: 'label', labels: ['types'] },
+  ],
+});
+
+function subject(overrides: Partial<PolicySubject>): PolicySubject {
+  return {
+    name: 'lodash',
+    fromVersion: '4.17.20',
+    toVersion: '4.17.21',
+    dependencyType: 'prod',
+    riskLevel: 'low',
+    ...overrides,
+  };
+}
+
+describe('evaluatePolicy', () => {
+  it('should apply the first matching rule', () => {
+    const decision = evaluatePolicy(
+      policy,
+      subject({
+        name: 'react-dom',
+        fromVersion: '17.0.2',
+        toVersion: '18.2.0',
+        dependencyType: 'dev',
+      })
+    );
+
+    expect(decision.action).toBe('block');
+    expect(decision.ruleName).toBe('block-react-major');
+  });
+
+  it('should match dependency type, update type and risk level together', () => {
+    expect(evaluatePolicy(policy, subject({ dependencyType: 'dev' })).ruleName).toBe('dev-patches');
+    expect(
+      evaluatePolicy(policy, subject({ dependencyType: 'dev', riskLevel: 'high' })).ruleName
+    ).toBe('default');
+    expect(evaluatePolicy(policy, subject({ dependencyType: undefined })).ruleName).toBe('default');
+  });
+
+  it('should name unnamed rules by index and only return labels for label actions', () => {
+    const decision = evaluatePolicy(policy, subject({ name: '@types/node' }));
+
+    expect(decision.ruleName).toBe('rules[2]');
+    expect(decision.labels).toEqual(['types']);
+  });
+
+  it('should fall back to the default action', () => {
+    const decision = evaluatePolicy(policy, subject({}));
+
+    expect(decision.action).toBe('require-review');
+    expect(decision.ruleName).toBe('default');
+  });
+});
+
+describe('evaluatePolicyForAll', () => {
+  it('should pick the most restrictive action across dependencies', () => {
+    const evaluation = evaluatePolicyForAll(policy, [
+      subject({ name: '@types/node' }),
+      subject({ dependencyType: 'dev' }),
+    ]);
+
+    expect(evaluation.action).toBe('label');
+    expect(isAutoMergeAllowed(evaluation.action)).toBe(true);
+
+    const blocked = evaluatePolicyForAll(policy, [
+      subject({ dependencyType: 'dev' }),
+      subject({ name: 'react', fromVersion: '17.0.0', toVersion: '18.0.0' }),
+    ]);
+    expect(blocked.action).toBe('block');
+    expect(isAutoMergeAllowed(blocked.action)).toBe(false);
+  });
+});
+
+describe('parsePolicy', () => {
+  it('should reject unknown actions', () => {
+    expect(() => parsePolicy({ rules: [{ action: 'merge' }] })).toThrow(
+      /Invalid policy in \.renovate-safety\.json: rules\.0\.action/
+    );
+  });
+});
+
+describe('matchesPackagePattern', () => {
+  it('should support * and ? globs and escape other characters', () => {
+    expect(matchesPackagePattern('@babel/core', '@babel/*')).toBe(true);
+    expect(matchesPackagePattern('vue2', 'vue?')).toBe(true);
+    expect(matchesPackagePattern('lodashXes', 'lodash.es')).toBe(false);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { extractPackageInfo, extractPackageUpdates } from '../pr.js';
+import { secureSystemExec } from '../secure-exec.js';
+import type { CLIOptions } from '../../types/index.js';
+
+vi.mock('../env-config.js', () => ({
+  getEnvironmentConfig: () => ({}),
+}));
+
+vi.mock('../secure-exec.js', () => ({
+  secureSystemExec: vi.fn(),
+}));
+
+const options: CLIOptions = {
+  pr: 42,
+  noLlm: true,
+  cacheDir: '.cache',
+  json: false,
+  force: false,
+  deep: false,
+};
+
+function mockPR(title: string, body: string, headRefName = 'renovate/some-branch') {
+  vi.mocked(secureSystemExec).mockResolvedValue({
+    success: true,
+    failed: false,
+    stdout: JSON.stringify({ title, body, headRefName }),
+    stderr: '',
+  });
+}
+
+describe('extractPackageInfo', () => {
+  beforeEach(() => {
+    vi.mocked(secureSystemExec).mockReset();
+  });
+
+  it('should parse npm-style Renovate PRs', async () => {
+    mockPR(
+      'Update dependency @types/node to v20.11.5',
+      '| Package | Change |\n|---|---|\n| [@types/node](https://example.com) | `20.11.4` -> `20.11.5` |'
+    );
+
+    expect(await extractPackageInfo(options)).toEqual({
+      name: '@types/node',
+      fromVersion: '20.11.4',
+      toVersion: '20.11.5',
+    });
+  });
+
+  it('should parse Maven coordinates with non-semver versions', async () => {
+    mockPR(
+      'Update dependency org.hibernate:hibernate-core to v5.6.15.Final',
+      '| Package | Change |\n|---|---|\n| [org.hibernate:hibernate-core](https://hibernate.org/orm) | `5.6.14.Final` -> `5.6.15.Final` |'
+    );
+
+    expect(await extractPackageInfo(options)).toEqual({
+      name: 'org.hibernate:hibernate-core',
+      fromVersion: '5.6.14.Final',
+      toVersion: '5.6.15.Final',
+    });
+  });
+
+  it('should parse Gradle tables with type and update columns', async () => {
+    mockPR(
+      'chore(deps): update dependency com.google.guava:guava to v33',
+      '| Package | Type | Update | Change |\n|---|---|---|---|\n| com.google.guava:guava | dependencies | major | `32.1.3-jre` -> `33.0.0-jre` |'
+    );
+
+    expect(await extractPackageInfo(options)).toEqual({
+      name: 'com.google.guava:guava',
+      fromVersion: '32.1.3-jre',
+      toVersion: '33.0.0-jre',
+    });
+  });
+
+  it('should keep Docker tags verbatim', async () => {
+    mockPR(
+      'Update node Docker tag to v20',
+      '| Package | Type | Update | Change |\n|---|---|---|---|\n| node | final | major | `18-alpine` -> `20-alpine` |'
+    );
+
+    expect(await extractPackageInfo(options)).toEqual({
+      name: 'node',
+      fromVersion: '18-alpine',
+      toVersion: '20-alpine',
+    });
+  });
+
+  it('should parse GitHub Actions updates', async () => {
+    mockPR(
+      'chore(deps): update actions/checkout action to v4',
+      '| Package | Type | Update | Change |\n|---|---|---|---|\n| [actions/checkout](https://github.com/actions/checkout) | action | major | `v3` -> `v4` |'
+    );
+
+    expect(await extractPackageInfo(options)).toEqual({
+      name: 'actions/checkout',
+      fromVersion: 'v3',
+      toVersion: 'v4',
+    });
+  });
+
+  describe('Composer packages', () => {
+    const composerBody =
+      '| Package | Type | Update | Change |\n|---|---|---|---|\n| [phpunit/phpunit](https://phpunit.de/) ([source](https://github.com/sebastianbergmann/phpunit)) | require-dev | major | `^10.5` -> `^11.0` |';
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = await mkdtemp(join(tmpdir(), 'pr-composer-'));
+      vi.spyOn(process, 'cwd').mockReturnValue(projectDir);
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    it('should strip bumped Composer constraints', async () => {
+      await writeFile(
+        join(projectDir, 'composer.json'),
+        JSON.stringify({ 'require-dev': { 'phpunit/phpunit': '^10.5' } })
+      );
+      mockPR('Update dependency phpunit/phpunit to v11', composerBody);
+
+      expect(await extractPackageInfo(options)).toEqual({
+        name: 'phpunit/phpunit',
+        fromVersion: '10.5',
+        toVersion: '11.0',
+      });
+    });
+
+    it('should read packages only in composer.lock as Composer packages', async () => {
+      await writeFile(join(projectDir, 'composer.json'), JSON.stringify({ require: {} }));
+      await writeFile(
+        join(projectDir, 'composer.lock'),
+        JSON.stringify({ 'packages-dev': [{ name: 'phpunit/phpunit', version: '10.5.0' }] })
+      );
+      mockPR('Update dependency phpunit/phpunit to v11', composerBody);
+
+      expect(await extractPackageInfo(options)).toMatchObject({
+        fromVersion: '10.5',
+        toVersion: '11.0',
+      });
+    });
+
+    it('should not treat owner/name packages outside composer.json as Composer packages', async () => {
+      mockPR('Update dependency phpunit/phpunit to v11', composerBody);
+
+      await expect(extractPackageInfo(options)).rejects.toThrow(
+        'Could not extract package information'
+      );
+    });
+  });
+});
+
+describe('extractPackageUpdates', () => {
+  const groupedBody = [
+    '| Package | Change | Age |',
+    '|---|---|---|',
+    '| [eslint](https://eslint.org) ([source](https://github.com/eslint/eslint)) | [`^8.56.0` -> `^8.57.0`](https://renovatebot.com/diffs/npm/eslint/8.56.0/8.57.0) | age |',
+    '| [vitest](https://vitest.dev) | [`1.2.0` -> `1.3.1`](https://renovatebot.com/diffs/npm/vitest/1.2.0/1.3.1) | age |',
+    '| node | `18-alpine` -> `18.19-alpine` | age |',
+  ].join('\n');
+
+  const lockfileDiff = [
+    'diff --git a/package-lock.json b/package-lock.json',
+    '--- a/package-lock.json',
+    '+++ b/package-lock.json',
+    '@@ -10,7 +10,7 @@',
+    '     "node_modules/eslint": {',
+    '-      "version": "8.56.0",',
+    '+      "version": "8.57.1",',
+  ].join('\n');
+
+  beforeEach(() => {
+    vi.mocked(secureSystemExec).mockReset();
+  });
+
+  function mockGroupedPR(diff: string) {
+    vi.mocked(secureSystemExec).mockImplementation((_command, args) =>
+      Promise.resolve({
+        success: true,
+        failed: false,
+        stdout:
+          args[1] === 'diff'
+            ? diff
+            : JSON.stringify({
+                title: 'Update all non-major dependencies',
+                body: groupedBody,
+                headRefName: 'renovate/all-minor-patch',
+              }),
+        stderr: '',
+      })
+    );
+  }
+
+  it('should return one update per dependency table row', async () => {
+    mockGroupedPR('');
+
+    expect(await extractPackageUpdates(options)).toEqual([
+      { name: 'eslint', fromVersion: '8.56.0', toVersion: '8.57.0' },
+      { name: 'vitest', fromVersion: '1.2.0', toVersion: '1.3.1' },
+      { name: 'node', fromVersion: '18-alpine', toVersion: '18.19-alpine' },
+    ]);
+  });
+
+  it('should prefer the exact versions from the lockfile diff', async () => {
+    mockGroupedPR(lockfileDiff);
+
+    const updates = await extractPackageUpdates(options);
+
+    expect(updates[0]).toEqual({ name: 'eslint', fromVersion: '8.56.0', toVersion: '8.57.1' });
+    expect(secureSystemExec).toHaveBeenCalledWith('gh', ['pr', 'diff', '42']);
+  });
+
+  it('should keep single-package PRs on the title-based extraction', async () => {
+    mockPR(
+      'Update dependency @types/node to v20.11.5',
+      '| Package | Change |\n|---|---|\n| [@types/node](https://example.com) | `20.11.4` -> `20.11.5` |'
+    );
+
+    expect(await extractPackageUpdates(options)).toEqual([
+      { name: '@types/node', fromVersion: '20.11.4', toVersion: '20.11.5' },
+    ]);
+  });
+
+  it('should use the manual override as the only update', async () => {
+    expect(
+      await extractPackageUpdates({ ...options, package: 'lodash', from: '4.17.20', to: '4.17.21' })
+    ).toEqual([{ name: 'lodash', fromVersion: '4.17.20', toVersion: '4.17.21' }]);
+    expect(secureSystemExec).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  saveReportToStore,
+  listStoredReports,
+  loadStoredReport,
+  readStoredReport,
+  diffStoredReports,
+  type SaveReportInput,
+} from '../report-store.js';
+
+const baseInput: SaveReportInput = {
+  repository: { owner: 'acme', name: 'web' },
+  prNumber: 42,
+  headSha: 'abc1234def5678',
+  overallRisk: 'low',
+  markdown: '# Report\n',
+  dependencies: [
+    {
+      name: 'lodash',
+      fromVersion: '4.17.20',
+      toVersion: '4.17.21',
+      riskLevel: 'low',
+      breakingChanges: 0,
+      usages: 3,
+    },
+    {
+      name: 'left-pad',
+      fromVersion: '1.0.0',
+      toVersion: '1.1.0',
+      riskLevel: 'safe',
+      breakingChanges: 0,
+      usages: 0,
+    },
+  ],
+  data: { assessments: [] },
+};
+
+describe('report store', () => {
+  let reportDir: string;
+
+  beforeEach(async () => {
+    reportDir = await mkdtemp(join(tmpdir(), 'report-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(reportDir, { recursive: true, force: true });
+  });
+
+  it('should write markdown and JSON keyed by repo, PR and head SHA', async () => {
+    const entry = await saveReportToStore(baseInput, reportDir);
+
+    expect(entry.markdownPath).toContain(join(reportDir, 'acme', 'web', 'pr-42'));
+    expect(entry.id).toMatch(/^\d{4}-\d{2}-\d{2}T.*-abc1234$/);
+    expect(await readFile(entry.markdownPath, 'utf-8')).toBe('# Report\n');
+    expect(JSON.parse(await readFile(entry.jsonPath, 'utf-8'))).toMatchObject({
+      repository: 'acme/web',
+      prNumber: 42,
+      headSha: 'abc1234def5678',
+      overallRisk: 'low',
+    });
+  });
+
+  it('should list, filter and load stored reports', async () => {
+    await saveReportToStore(baseInput, reportDir);
+    await saveReportToStore({ ...baseInput, prNumber: 7, headSha: 'fff0000' }, reportDir);
+
+    expect(await listStoredReports({}, reportDir)).toHaveLength(2);
+    expect(await listStoredReports({ prNumber: 7 }, reportDir)).toEqual([
+      expect.objectContaining({ prNumber: 7, headSha: 'fff0000' }),
+    ]);
+    expect(await listStoredReports({ repository: 'acme/api' }, reportDir)).toEqual([]);
+
+    const report = await loadStoredReport('fff0', {}, reportDir);
+    expect(report).toMatchObject({ prNumber: 7, markdown: '# Report\n' });
+    expect(await loadStoredReport('0000000', {}, reportDir)).toBeNull();
+  });
+
+  it('should diff two reports of the same PR', async () => {
+    const first = await saveReportToStore(baseInput, reportDir);
+    const second = await saveReportToStore(
+      {
+        ...baseInput,
+        headSha: '9999999',
+        overallRisk: 'medium',
+        dependencies: [
+          { ...baseInput.dependencies[0], toVersion: '4.18.0', riskLevel: 'medium' },
+          {
+            name: 'chalk',
+            fromVersion: '4.1.2',
+            toVersion: '5.3.0',
+            riskLevel: 'low',
+            breakingChanges: 1,
+            usages: 0,
+          },
+        ],
+      },
+      reportDir
+    );
+
+    const from = await readStoredReport(first);
+    const to = await readStoredReport(second);
+    if (!from || !to) throw new Error('reports not readable');
+
+    const diff = diffStoredReports(from, to);
+
+    expect(diff.overallRisk).toEqual({ from: 'low', to: 'medium' });
+    expect(diff.changed).toEqual([
+      expect.objectContaining({
+        name: 'lodash',
+        from: expect.objectContaining({ riskLevel: 'low' }),
+        to: expect.objectContaining({ riskLevel: 'medium', toVersion: '4.18.0' }),
+      }),
+    ]);
+    expect(diff.added.map((dep) => dep.name)).toEqual(['chalk']);
+    expect(diff.removed.map((dep) => dep.name)).toEqual(['left-pad']);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import pacote from 'pacote';
+import {
+  compareTypecheck,
+  toTypecheckBreakingChanges,
+  typecheckAgainstVersion,
+} from '../typecheck.js';
+import { resetOfflineBundle, startBundleRecording, useOfflineBundle } from '../offline-bundle.js';
+
+vi.mock('pacote', () => ({
+  default: { extract: vi.fn() },
+}));
+
+describe('typecheck against the target version', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-typecheck-test-'));
+  });
+
+  afterEach(async () => {
+    resetOfflineBundle();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeFiles(root: string, files: Record<string, string>): Promise<void> {
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(root, name)), { recursive: true });
+      await fs.writeFile(path.join(root, name), content);
+    }
+  }
+
+  it('should report the errors the target version introduces at the package symbols', async () => {
+    const project = path.join(dir, 'project');
+    await writeFiles(project, {
+      'tsconfig.json': JSON.stringify({
+        compilerOptions: {
+          strict: true,
+          module: 'commonjs',
+          moduleResolution: 'node',
+          noEmit: true,
+        },
+        include: ['src'],
+      }),
+      'node_modules/acme/package.json': JSON.stringify({ name: 'acme', types: 'index.d.ts' }),
+      'node_modules/acme/index.d.ts': [
+        'export declare function parse(input: string | number): Node;',
+        'export declare function legacy(): void;',
+        'export declare class Client { connect(): void; }',
+        'export interface Node { type: string }',
+      ].join('\n'),
+      'src/app.ts': [
+        "import { parse, legacy, Client } from 'acme';",
+        '',
+        "const count: number = 'many';",
+        'parse(42);',
+        'legacy();',
+        'const client = new Client();',
+        'client.connect();',
+        'client.open();',
+        'parse(String(count));',
+      ].join('\n'),
+    });
+    const overlay = path.join(dir, 'overlay');
+    await writeFiles(overlay, {
+      'node_modules/acme/package.json': JSON.stringify({ name: 'acme', types: 'lib/index.d.ts' }),
+      'node_modules/acme/lib/index.d.ts': [
+        "export { Node } from './node';",
+        'export declare function parse(input: string): Node;',
+        'export declare class Client { open(): void; }',
+      ].join('\n'),
+      'node_modules/acme/lib/node.d.ts': 'export interface Node { type: string }',
+    });
+
+    const result = compareTypecheck(path.join(project, 'tsconfig.json'), {
+      packageName: 'acme',
+      root: overlay,
+    });
+
+    expect(result).toEqual({
+      filesChecked: 1,
+      newErrors: [
+        {
+          file: path.join('src', 'app.ts'),
+          line: 1,
+          column: 17,
+          code: 2305,
+          message: `Module '"acme"' has no exported member 'legacy'.`,
+          symbol: 'legacy',
+        },
+        {
+          file: path.join('src', 'app.ts'),
+          line: 4,
+          column: 7,
+          code: 2345,
+          message: "Argument of type 'number' is not assignable to parameter of type 'string'.",
+          symbol: 'parse',
+        },
+        {
+          file: path.join('src', 'app.ts'),
+          line: 7,
+          column: 8,
+          code: 2339,
+          message: "Property 'connect' does not exist on type 'Client'.",
+          symbol: 'client.connect',
+        },
+      ],
+      fixedErrors: 1,
+    });
+    expect(toTypecheckBreakingChanges({ version: '2.0.0', ...result })[2]).toEqual({
+      line: "`client.connect`: TS2339 Property 'connect' does not exist on type 'Client'.",
+      severity: 'breaking',
+      source: 'typecheck',
+      location: { file: path.join('src', 'app.ts'), line: 7, column: 8 },
+      confidence: 'high',
+    });
+  });
+
+  it('should typecheck against the target version of an @types package', async () => {
+    const project = path.join(dir, 'project');
+    await writeFiles(project, {
+      'tsconfig.json': JSON.stringify({
+        compilerOptions: { strict: true, module: 'commonjs', moduleResolution: 'node' },
+        include: ['src'],
+      }),
+      'node_modules/acme/package.json': JSON.stringify({ name: 'acme', main: 'index.js' }),
+      'node_modules/acme/index.js': 'exports.a = () => {};',
+      'node_modules/@types/acme/package.json': JSON.stringify({ name: '@types/acme' }),
+      'node_modules/@types/acme/index.d.ts': [
+        'export declare function a(x: number): void;',
+        'declare global { const acmeVersion: number; }',
+      ].join('\n'),
+      'src/app.ts': [
+        "import { a } from 'acme';",
+        '',
+        'a(1);',
+        'const version: number = acmeVersion;',
+      ].join('\n'),
+    });
+    const overlay = path.join(dir, 'overlay');
+    await writeFiles(overlay, {
+      'node_modules/@types/acme/package.json': JSON.stringify({ name: '@types/acme' }),
+      'node_modules/@types/acme/index.d.ts': [
+        'export declare function a(x: string): void;',
+        'declare global { const acmeVersion: string; }',
+      ].join('\n'),
+    });
+
+    const result = compareTypecheck(path.join(project, 'tsconfig.json'), {
+      packageName: '@types/acme',
+      root: overlay,
+    });
+
+    expect(result.newErrors.map(({ line, code, symbol }) => ({ line, code, symbol }))).toEqual([
+      { line: 3, code: 2345, symbol: 'a' },
+      { line: 4, code: 2322, symbol: undefined },
+    ]);
+  });
+
+  it('should not fetch the target version when replaying an offline bundle', async () => {
+    const project = path.join(dir, 'project');
+    await writeFiles(project, { 'tsconfig.json': '{}' });
+    const bundleDir = path.join(dir, 'bundle');
+    await startBundleRecording(bundleDir);
+    await useOfflineBundle(bundleDir);
+
+    await expect(
+      typecheckAgainstVersion({ name: 'acme', fromVersion: '1.0.0', toVersion: '2.0.0' }, project)
+    ).rejects.toThrow('no recorded registry response for "typecheck:acme@2.0.0"');
+    expect(pacote.extract).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import {
+  loadUsageRulePacks,
+  selectUsageRules,
+  createUsageRuleMatcher,
+  PROJECT_USAGE_RULES_DIR,
+  type UsageRule,
+  type UsageRuleSelector,
+} from '../usage-rules.js';
+
+describe('usage rule packs', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-usage-rules-'));
+    await fs.mkdir(path.join(dir, PROJECT_USAGE_RULES_DIR), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writePack(name: string, pack: unknown): Promise<void> {
+    await fs.writeFile(path.join(dir, PROJECT_USAGE_RULES_DIR, name), JSON.stringify(pack));
+  }
+
+  it('should load the built-in packs followed by the project packs', async () => {
+    await writePack('acme.json', {
+      name: 'acme-sdk',
+      rules: [
+        {
+          id: 'acme-connect',
+          package: '@acme/sdk',
+          versions: '>=3',
+          selector: { kind: 'call', name: 'connect', object: 'client' },
+          riskLevel: 'high',
+          message: 'Calls client.connect(), which now returns a promise',
+        },
+      ],
+    });
+
+    const packs = await loadUsageRulePacks(dir);
+
+    expect(packs.map((pack) => `${pack.source} ${pack.name}`)).toEqual([
+      'builtin p-limit',
+      'builtin react',
+      'project acme-sdk',
+    ]);
+    expect(selectUsageRules(packs, '@acme/sdk', '3.1.0').map((rule) => rule.id)).toEqual([
+      'acme-connect',
+    ]);
+    expect(selectUsageRules(packs, '@acme/sdk', '2.9.0')).toEqual([]);
+    expect(selectUsageRules(packs, 'react-dom', '17.0.2').map((rule) => rule.id)).toEqual([
+      'react-legacy-lifecycles',
+    ]);
+    expect(selectUsageRules(packs, 'p-limit').map((rule) => rule.id)).toEqual([
+      'p-limit-active-count',
+      'p-limit-pending-count',
+      'p-limit-create-limit',
+    ]);
+  });
+
+  it('should reject invalid packs', async () => {
+    await writePack('broken.json', {
+      name: 'broken',
+      rules: [
+        {
+          id: 'both',
+          package: 'lodash',
+          versions: 'next major',
+          pattern: '(',
+          riskLevel: 'severe',
+          message: 'Broken rule',
+        },
+      ],
+    });
+
+    await expect(loadUsageRulePacks(dir)).rejects.toThrow(
+      /Invalid usage rule pack broken\.json: rules\.0\.versions: invalid semver range; rules\.0\.pattern: invalid regular expression; rules\.0\.riskLevel/
+    );
+
+    await writePack('broken.json', {
+      name: 'broken',
+      rules: [{ id: 'none', package: 'lodash', riskLevel: 'low', message: 'No matcher' }],
+    });
+    await expect(loadUsageRulePacks(dir)).rejects.toThrow(
+      'Invalid usage rule pack broken.json: rules.0: set exactly one of pattern or selector'
+    );
+  });
+
+  it('should match selectors against the syntax tree rather than the text', () => {
+    const matches = createUsageRuleMatcher(
+      [
+        "import ReactDOM, { createRoot } from 'react-dom';",
+        '// ReactDOM.render() is gone in React 19',
+        "const root = createRoot(document.getElementById('root'));",
+        'root.render(app);',
+      ].join('\n')
+    );
+    const rule = (selector: UsageRuleSelector): UsageRule => ({
+      id: 'rule',
+      package: 'react-dom',
+      versions: '*',
+      selector,
+      riskLevel: 'medium',
+      message: 'Selector',
+      recommendations: [],
+    });
+
+    expect(matches(rule({ kind: 'call', name: 'render', object: 'ReactDOM' }))).toBe(false);
+    expect(matches(rule({ kind: 'call', name: 'render', object: 'root' }))).toBe(true);
+    expect(matches(rule({ kind: 'call', name: 'createRoot' }))).toBe(true);
+    expect(matches(rule({ kind: 'import', name: 'createRoot' }))).toBe(true);
+    expect(matches(rule({ kind: 'property-access', name: 'render' }))).toBe(true);
+    expect(
+      matches({
+        ...rule({ kind: 'import', name: 'x' }),
+        selector: undefined,
+        pattern: 'ReactDOM\\.render',
+      })
+    ).toBe(true);
+  });
+});
@@ -100,6 +100,15 @@ describe('validateUrl', () => {
     expect(() => validateUrl('https://example.com/test')).toThrow('Untrusted host');
   });
 
+  it('should accept the hosts of configured registries', () => {
+    expect(validateUrl('https://goproxy.corp.example/mod/@v/list', ['goproxy.corp.example'])).toBe(
+      'https://goproxy.corp.example/mod/@v/list'
+    );
+    expect(() => validateUrl('https://evil.com/payload', ['goproxy.corp.example'])).toThrow(
+      'Untrusted host'
+    );
+  });
+
   it('should reject invalid URLs', () => {
     expect(() => validateUrl('not a url')).toThrow('Invalid URL');
     expect(() => validateUrl(SECURITY_TEST_DATA.JAVASCRIPT_SCHEME_URL)).toThrow('Invalid URL');
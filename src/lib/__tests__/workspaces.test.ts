@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import {
+  findWorkspaces,
+  parsePnpmWorkspace,
+  assessWorkspaceImpact,
+  formatWorkspaceImpactSummary,
+} from '../workspaces.js';
+import type { UsageAnalysis, UsageLocation } from '../../analyzers/base.js';
+
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(data, null, 2));
+}
+
+function usage(locations: Partial<UsageLocation>[]): UsageAnalysis {
+  const full = locations.map(
+    (location): UsageLocation => ({
+      file: 'index.ts',
+      line: 1,
+      column: 0,
+      type: 'import',
+      code: "import _ from 'lodash'",
+      context: 'production',
+      ...location,
+    })
+  );
+  return {
+    locations: full,
+    totalUsageCount: full.length,
+    productionUsageCount: full.filter((location) => location.context === 'production').length,
+    testUsageCount: 0,
+    configUsageCount: 0,
+    criticalPaths: [],
+    hasDynamicImports: false,
+  };
+}
+
+describe('workspaces', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-workspaces-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read the packages list of pnpm-workspace.yaml', () => {
+    expect(
+      parsePnpmWorkspace(
+        [
+          '# workspace',
+          'packages:',
+          "  - 'apps/*'",
+          '  - "packages/**" # libraries',
+          "  - '!**/fixtures/**'",
+          'catalog:',
+          '  - ignored',
+        ].join('\n')
+      )
+    ).toEqual(['apps/*', 'packages/**', '!**/fixtures/**']);
+    expect(parsePnpmWorkspace("packages: ['apps/*', libs/*]\n")).toEqual(['apps/*', 'libs/*']);
+    expect(parsePnpmWorkspace('packages: [apps/*\n')).toEqual([]);
+  });
+
+  it('should resolve pnpm and npm workspace globs to packages', async () => {
+    await fs.writeFile(
+      path.join(dir, 'pnpm-workspace.yaml'),
+      "packages:\n  - 'apps/*'\n  - 'packages/*'\n  - '!packages/legacy'\n"
+    );
+    await writeJson(path.join(dir, 'apps/web/package.json'), { name: '@acme/web' });
+    await writeJson(path.join(dir, 'packages/ui/package.json'), { name: '@acme/ui' });
+    await writeJson(path.join(dir, 'packages/legacy/package.json'), { name: '@acme/legacy' });
+
+    const pnpm = await findWorkspaces(dir);
+    expect(pnpm?.manager).toBe('pnpm');
+    expect(pnpm?.packages.map((pkg) => `${pkg.name} ${pkg.path}`)).toEqual([
+      '@acme/web apps/web',
+      '@acme/ui packages/ui',
+    ]);
+
+    await fs.rm(path.join(dir, 'pnpm-workspace.yaml'));
+    await writeJson(path.join(dir, 'package.json'), { workspaces: { packages: ['packages/*'] } });
+    const npm = await findWorkspaces(dir);
+    expect(npm?.manager).toBe('npm');
+    expect(npm?.packages.map((pkg) => pkg.name)).toEqual(['@acme/legacy', '@acme/ui']);
+
+    await writeJson(path.join(dir, 'package.json'), { name: 'single-package' });
+    expect(await findWorkspaces(dir)).toBeNull();
+  });
+
+  it('should grade each package that declares or imports the dependency', () => {
+    const workspaces = {
+      manager: 'yarn' as const,
+      packages: [
+        { name: '@acme/web', path: 'apps/web', manifest: { dependencies: { lodash: '^4.17.0' } } },
+        { name: '@acme/api', path: 'apps/api', manifest: { dependencies: { lodash: '^4.0.0' } } },
+        { name: '@acme/ui', path: 'packages/ui', manifest: { devDependencies: { lodash: '^4' } } },
+        { name: '@acme/cli', path: 'packages/cli', manifest: {} },
+        { name: '@acme/docs', path: 'packages/docs', manifest: {} },
+      ],
+    };
+    const usageAnalysis = usage([
+      { file: 'apps/web/src/merge.ts', code: 'merge(defaults, options)' },
+      { file: 'apps/api/src/index.ts' },
+      { file: 'packages/cli/src/run.test.ts', context: 'test' },
+      { file: 'scripts/release.ts' },
+    ]);
+
+    const impact = assessWorkspaceImpact('lodash', workspaces, usageAnalysis, ['merge', 'pick']);
+
+    expect(formatWorkspaceImpactSummary(impact)).toBe('4 of 5 packages affected');
+    expect(impact.affected).toEqual([
+      {
+        name: '@acme/web',
+        path: 'apps/web',
+        dependencyType: 'dependencies',
+        versionRange: '^4.17.0',
+        usageCount: 1,
+        productionUsageCount: 1,
+        changedApis: ['merge'],
+        riskLevel: 'high',
+        reason: 'Uses changed APIs: merge',
+      },
+      expect.objectContaining({ name: '@acme/api', riskLevel: 'medium', changedApis: [] }),
+      expect.objectContaining({
+        name: '@acme/cli',
+        dependencyType: undefined,
+        riskLevel: 'low',
+        reason: 'Used only in tests, build or configuration files',
+      }),
+      expect.objectContaining({
+        name: '@acme/ui',
+        riskLevel: 'low',
+        reason: 'Declared in devDependencies but not imported',
+      }),
+    ]);
+  });
+});
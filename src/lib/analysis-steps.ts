@@ -2,48 +2,82 @@ import ora, { Ora } from 'ora';
 import {
   CLIOptions,
   AnalysisResult,
+  GroupedAnalysisResult,
   DeepAnalysisResult,
   PackageUpdate,
   ChangelogDiff,
   CodeDiff,
+  DeclarationDiff,
+  TypecheckResult,
   DependencyUsage,
   BreakingChange,
   LLMSummary,
   APIUsage,
+  WorkspaceImpact,
 } from '../types/index.js';
-import { extractPackageInfo } from './pr.js';
+import { extractPackageUpdates } from './pr.js';
 import { extractBreakingChanges } from './breaking.js';
 import { summarizeApiDiff } from './api-diff-summary.js';
 import { enhancedLLMAnalysis } from './llm.js';
 import { fetchCodeDiff } from './github-diff.js';
 import { analyzeDependencyUsage } from './dependency-tree.js';
+import {
+  findWorkspaces,
+  assessWorkspaceImpact,
+  formatWorkspaceImpactSummary,
+} from './workspaces.js';
 import { performDeepAnalysis } from './deep-analysis.js';
-import { assessEnhancedRisk } from './enhanced-grade.js';
-import { generateEnhancedReport } from './enhanced-report.js';
-import { postToPR } from './post.js';
+import { gatherLibraryHealth, type LibraryHealth } from './library-intelligence.js';
+import { fetchDeclarationDiff } from './declaration-diff.js';
+import { typecheckAgainstVersion, toTypecheckBreakingChanges } from './typecheck.js';
+import { assessEnhancedRisk, applyTypecheckResult } from './enhanced-grade.js';
+import { generateEnhancedReport, generateGroupedReport } from './enhanced-report.js';
+import { isGroupedResult } from './grouped-analysis.js';
+import { getCacheDir } from './cache-store.js';
+import { hasGitHubToken } from './github-client.js';
+import {
+  evaluatePolicyForAll,
+  formatPolicyDecision,
+  toPolicyDependencyType,
+  type PolicyEvaluation,
+  type PolicySubject,
+} from './policy.js';
+import { postToPR, addLabelsToPR } from './post.js';
+import { publishCheckRun, buildCheckAnnotations } from './check-run.js';
 import { packageKnowledgeBase } from './package-knowledge.js';
-import { analyzerRegistry, UsageAnalysis } from '../analyzers/base.js';
+import { analyzerRegistry, UsageAnalysis, type PackageAnalyzer } from '../analyzers/base.js';
+import { NpmAnalyzer } from '../analyzers/npm/NpmAnalyzer.js';
 import { createDefaultAnalysisChain } from '../analyzers/strategies/index.js';
-import { logSection, logListItem } from './logger-extended.js';
+import { logSection, logListItem, logWarningMessage, logTable } from './logger-extended.js';
+import type { TaskTiming } from './performance-optimizer.js';
+import { getErrorMessage } from '../analyzers/utils.js';
 
 export async function extractPackageInformation(
   spinner: Ora,
   options: CLIOptions,
   exitOnComplete: boolean
-) {
+): Promise<PackageUpdate[]> {
   spinner.text = 'Extracting package information...';
-  const packageUpdate = await extractPackageInfo(options);
+  const packageUpdates = await extractPackageUpdates(options);
 
-  if (!packageUpdate) {
+  if (packageUpdates.length === 0) {
     spinner.fail('Could not determine package information');
     if (exitOnComplete) process.exit(1);
     throw new Error('Could not determine package information');
   }
 
-  spinner.succeed(
-    `Analyzing ${packageUpdate.name}: ${packageUpdate.fromVersion} → ${packageUpdate.toVersion}`
-  );
-  return packageUpdate;
+  if (packageUpdates.length === 1) {
+    const [packageUpdate] = packageUpdates;
+    spinner.succeed(
+      `Analyzing ${packageUpdate.name}: ${packageUpdate.fromVersion} → ${packageUpdate.toVersion}`
+    );
+  } else {
+    spinner.succeed(`Analyzing grouped update of ${packageUpdates.length} packages`);
+    packageUpdates.forEach((update) => {
+      logListItem(`${update.name}: ${update.fromVersion} → ${update.toVersion}`);
+    });
+  }
+  return packageUpdates;
 }
 
 export async function checkShouldSkipPatchUpdate(
@@ -51,8 +85,6 @@ export async function checkShouldSkipPatchUpdate(
   options: CLIOptions,
   exitOnComplete: boolean
 ) {
-  const { logWarningMessage } = await import('./logger-extended.js');
-
   if (!options.force && (await isPatchUpdate(packageUpdate.fromVersion, packageUpdate.toVersion))) {
     logWarningMessage('Skipping patch update (use --force to analyze)');
     if (exitOnComplete) process.exit(0);
@@ -108,7 +140,10 @@ export async function fetchChangelogAndKnowledge(
     const analyzerWithFetch = analyzer as {
       fetchChangelog: (pkg: PackageUpdate, cacheDir: string) => Promise<ChangelogDiff | null>;
     };
-    changelogDiff = await analyzerWithFetch.fetchChangelog(packageUpdate, options.cacheDir);
+    changelogDiff = await analyzerWithFetch.fetchChangelog(
+      packageUpdate,
+      getCacheDir(options.cacheDir)
+    );
   }
 
   // Try package knowledge base
@@ -202,6 +237,130 @@ export async function analyzePackageUsageStep(
   return usageAnalysis;
 }
 
+export async function analyzeWorkspaceImpactStep(
+  _spinner: Ora,
+  packageUpdate: PackageUpdate,
+  usageAnalysis: UsageAnalysis | null,
+  breakingChanges: BreakingChange[]
+): Promise<WorkspaceImpact | undefined> {
+  const workspaces = await findWorkspaces();
+  if (!workspaces) return undefined;
+
+  const workspaceSpinner = ora('Analyzing workspace packages...').start();
+  const workspaceImpact = assessWorkspaceImpact(
+    packageUpdate.name,
+    workspaces,
+    usageAnalysis,
+    extractBreakingApiNames(breakingChanges)
+  );
+  workspaceSpinner.succeed(
+    `Workspace analysis: ${formatWorkspaceImpactSummary(workspaceImpact)} (${workspaces.manager} workspaces)`
+  );
+
+  return workspaceImpact;
+}
+
+/**
+ * Type declarations of both versions of an npm package compared with the TypeScript compiler
+ */
+export async function compareDeclarationsStep(
+  _spinner: Ora,
+  analyzer: unknown,
+  packageUpdate: PackageUpdate
+): Promise<DeclarationDiff | undefined> {
+  if (!(analyzer instanceof NpmAnalyzer)) return undefined;
+
+  const declarationSpinner = ora('Comparing type declarations...').start();
+  try {
+    const declarationDiff = await fetchDeclarationDiff(packageUpdate);
+    if (!declarationDiff) {
+      declarationSpinner.warn('Type declarations not available');
+      return undefined;
+    }
+
+    const breaking = declarationDiff.changes.filter(
+      (change) => change.classification === 'breaking'
+    ).length;
+    declarationSpinner.succeed(
+      `Type declarations: ${breaking} breaking, ${declarationDiff.changes.length - breaking} compatible changes`
+    );
+    return declarationDiff;
+  } catch (error) {
+    declarationSpinner.warn(`Type declarations could not be compared: ${getErrorMessage(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * --typecheck: the project compiled against the target version of an npm package
+ */
+export async function typecheckStep(
+  _spinner: Ora,
+  options: CLIOptions,
+  analyzer: unknown,
+  packageUpdate: PackageUpdate
+): Promise<TypecheckResult | undefined> {
+  if (!options.typecheck || !(analyzer instanceof NpmAnalyzer)) return undefined;
+
+  const typecheckSpinner = ora(
+    `Typechecking the project against ${packageUpdate.name}@${packageUpdate.toVersion}...`
+  ).start();
+  try {
+    const typecheck = await typecheckAgainstVersion(packageUpdate);
+    if (!typecheck) {
+      typecheckSpinner.warn(
+        'Typecheck skipped: no tsconfig.json or the target version has no type declarations'
+      );
+      return undefined;
+    }
+
+    const summary = `${typecheck.filesChecked} files checked with ${packageUpdate.toVersion}`;
+    if (typecheck.newErrors.length > 0) {
+      typecheckSpinner.warn(`Typecheck: ${typecheck.newErrors.length} new errors (${summary})`);
+    } else {
+      typecheckSpinner.succeed(`Typecheck: no new errors (${summary})`);
+    }
+    return typecheck;
+  } catch (error) {
+    typecheckSpinner.warn(`Typecheck failed: ${getErrorMessage(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * --library-health: maintenance and popularity signals of npm packages from the registry and,
+ * when a GitHub token is set, from GitHub
+ */
+export async function gatherLibraryHealthStep(
+  _spinner: Ora,
+  options: CLIOptions,
+  analyzer: PackageAnalyzer | null,
+  packageUpdate: PackageUpdate
+): Promise<LibraryHealth | undefined> {
+  if (!options.libraryHealth || !(analyzer instanceof NpmAnalyzer)) return undefined;
+
+  const healthSpinner = ora('Checking package maintenance and popularity...').start();
+  // Unauthenticated GitHub requests run out after a few packages, so only the registry is read
+  const github = hasGitHubToken();
+  const libraryHealth = await gatherLibraryHealth(packageUpdate.name, { github });
+  const { maintenance, popularity } = libraryHealth;
+
+  if (!maintenance && !popularity) {
+    healthSpinner.warn('Maintenance and popularity data not available');
+    return undefined;
+  }
+
+  const summary = [
+    maintenance && `${maintenance.releaseFrequency} releases`,
+    maintenance?.busFactor && `bus factor ${maintenance.busFactor}`,
+    popularity && `${popularity.downloads.weekly.toLocaleString('en-US')} weekly downloads`,
+    !github && 'registry only, no GitHub token',
+  ].filter(Boolean);
+  healthSpinner.succeed(`Library health: ${summary.join(', ')}`);
+
+  return libraryHealth;
+}
+
 export async function extractBreakingChangesStep(
   _spinner: Ora,
   changelogDiff: ChangelogDiff | null,
@@ -317,17 +476,7 @@ export async function performDeepAnalysisStep(
   let deepAnalysis: DeepAnalysisResult | undefined = undefined;
   if (options.deep) {
     spinner = ora('Performing deep code analysis...').start();
-    const breakingAPINames = breakingChanges
-      .map((bc) => {
-        const regex = /`([a-zA-Z_$][a-zA-Z0-9_$]*)`/g;
-        const matches: string[] = [];
-        let match;
-        while ((match = regex.exec(bc.line)) !== null) {
-          matches.push(match[0]);
-        }
-        return matches.map((m) => m.slice(1, -1));
-      })
-      .flat();
+    const breakingAPINames = extractBreakingApiNames(breakingChanges);
 
     deepAnalysis = await performDeepAnalysis(packageUpdate, breakingAPINames);
 
@@ -339,31 +488,60 @@ export async function performDeepAnalysisStep(
   return deepAnalysis;
 }
 
+/**
+ * Identifiers a breaking change names in backticks, e.g. "`merge` was removed"
+ */
+export function extractBreakingApiNames(breakingChanges: BreakingChange[]): string[] {
+  const names = breakingChanges.flatMap((bc) =>
+    [...bc.line.matchAll(/`([a-zA-Z_$][a-zA-Z0-9_$]*)`/g)].map((match) => match[1])
+  );
+  return [...new Set(names)];
+}
+
 type AnalysisResultParams = {
   packageUpdate: PackageUpdate;
   changelogDiff: ChangelogDiff | null;
   codeDiff: CodeDiff | null;
+  declarationDiff?: DeclarationDiff;
   dependencyUsage: DependencyUsage | null;
   breakingChanges: BreakingChange[];
   llmSummary: LLMSummary | null;
   apiUsages: APIUsage[];
   deepAnalysis: DeepAnalysisResult | undefined;
   usageAnalysis: UsageAnalysis | null;
+  workspaceImpact?: WorkspaceImpact;
+  libraryHealth?: LibraryHealth;
+  typecheck?: TypecheckResult;
 };
 
 export async function generateAnalysisResult(
   params: AnalysisResultParams,
   options: CLIOptions
 ): Promise<AnalysisResult> {
+  // Type errors found by --typecheck are breaking changes of their own
+  const breakingChanges = params.typecheck
+    ? [...params.breakingChanges, ...toTypecheckBreakingChanges(params.typecheck)]
+    : params.breakingChanges;
+
   // Enhanced risk assessment
-  const riskAssessment = await assessEnhancedRisk(
+  const assessment = await assessEnhancedRisk(
     params.packageUpdate,
-    params.breakingChanges,
+    breakingChanges,
     params.usageAnalysis,
     params.llmSummary,
     Boolean(params.changelogDiff),
-    Boolean(params.codeDiff)
+    Boolean(params.codeDiff),
+    params.libraryHealth
   );
+  const riskAssessment = params.typecheck
+    ? applyTypecheckResult(assessment, params.typecheck)
+    : assessment;
+
+  if (params.workspaceImpact) {
+    riskAssessment.factors.push(
+      `Workspaces: ${formatWorkspaceImpactSummary(params.workspaceImpact)}`
+    );
+  }
 
   // Get migration steps from knowledge base
   const migrationSteps = await packageKnowledgeBase.getMigrationSteps(
@@ -385,15 +563,18 @@ export async function generateAnalysisResult(
     package: params.packageUpdate,
     changelogDiff: params.changelogDiff,
     codeDiff: params.codeDiff,
+    declarationDiff: params.declarationDiff,
     dependencyUsage: params.dependencyUsage,
-    breakingChanges: params.breakingChanges,
+    breakingChanges,
     llmSummary: params.llmSummary,
     apiUsages: params.apiUsages,
     deepAnalysis: params.deepAnalysis,
+    workspaceImpact: params.workspaceImpact,
+    typecheck: params.typecheck,
     riskAssessment,
     recommendation: generateRecommendation(
       riskAssessment,
-      params.breakingChanges.length,
+      breakingChanges.length,
       params.apiUsages.length,
       options.language || 'en'
     ),
@@ -401,14 +582,10 @@ export async function generateAnalysisResult(
 }
 
 export async function generateAndDisplayReport(
-  analysisResult: AnalysisResult,
+  analysisResult: AnalysisResult | GroupedAnalysisResult,
   options: CLIOptions
 ) {
-  const report = await generateEnhancedReport(
-    analysisResult,
-    options.json ? 'json' : 'markdown',
-    options.language || 'en'
-  );
+  const report = await renderReport(analysisResult, options);
 
   console.log('\n' + report);
   return report;
@@ -417,16 +594,29 @@ export async function generateAndDisplayReport(
 export async function handlePRPosting(
   spinner: Ora,
   options: CLIOptions,
-  analysisResult: AnalysisResult
+  analysisResult: AnalysisResult | GroupedAnalysisResult
 ) {
+  if (options.pr && options.post === 'check') {
+    // The check summary is always markdown, even when the console report is JSON
+    const report = await renderReport(analysisResult, { ...options, json: false });
+
+    spinner = ora('Creating GitHub check run...').start();
+    const checkRun = await publishCheckRun({
+      prNumber: options.pr,
+      riskLevel: analysisResult.riskAssessment.level,
+      report,
+      annotations: buildCheckAnnotations(analysisResult),
+    });
+    spinner.succeed(
+      `Created check run (${checkRun.conclusion}, ${checkRun.annotations} annotations)${checkRun.url ? `: ${checkRun.url}` : ''}`
+    );
+    return;
+  }
+
   if (options.pr && options.post !== 'never') {
     const { findExistingComment, updateComment } = await import('./post.js');
 
-    const report = await generateEnhancedReport(
-      analysisResult,
-      options.json ? 'json' : 'markdown',
-      options.language || 'en'
-    );
+    const report = await renderReport(analysisResult, options);
 
     spinner = ora('Checking for existing comment...').start();
     const existingCommentId = await findExistingComment(options.pr);
@@ -447,6 +637,65 @@ export async function handlePRPosting(
   }
 }
 
+/**
+ * Evaluate the configured policy, print which rule fired for each dependency and apply
+ * the labels of matching "label" rules when posting to the PR
+ */
+export async function applyPolicyStep(
+  options: CLIOptions,
+  analysisResult: AnalysisResult | GroupedAnalysisResult
+): Promise<PolicyEvaluation | null> {
+  if (!options.policy) {
+    return null;
+  }
+
+  const evaluation = evaluatePolicyForAll(options.policy, getPolicySubjects(analysisResult));
+
+  logSection('Policy decisions:', '📜');
+  evaluation.decisions.forEach((decision) => {
+    logListItem(formatPolicyDecision(decision));
+  });
+  logListItem(`Result: ${evaluation.action}`);
+
+  const labels = [...new Set(evaluation.decisions.flatMap((decision) => decision.labels))];
+  if (options.pr && options.post !== 'never' && labels.length > 0) {
+    try {
+      await addLabelsToPR(options.pr, labels);
+      logListItem(`Added labels: ${labels.join(', ')}`);
+    } catch (error) {
+      logWarningMessage('Failed to add policy labels', getErrorMessage(error));
+    }
+  }
+
+  return evaluation;
+}
+
+export function getPolicySubjects(
+  analysisResult: AnalysisResult | GroupedAnalysisResult
+): PolicySubject[] {
+  const results = isGroupedResult(analysisResult) ? analysisResult.packages : [analysisResult];
+
+  return results.map((result) => ({
+    name: result.package.name,
+    fromVersion: result.package.fromVersion,
+    toVersion: result.package.toVersion,
+    dependencyType: toPolicyDependencyType(result.dependencyUsage?.usageType),
+    riskLevel: result.riskAssessment.level,
+  }));
+}
+
+async function renderReport(
+  analysisResult: AnalysisResult | GroupedAnalysisResult,
+  options: CLIOptions
+): Promise<string> {
+  const format = options.json ? 'json' : 'markdown';
+  const language = options.language || 'en';
+
+  return isGroupedResult(analysisResult)
+    ? generateGroupedReport(analysisResult, format, language)
+    : generateEnhancedReport(analysisResult, format, language);
+}
+
 async function isPatchUpdate(fromVersion: string, toVersion: string): Promise<boolean> {
   const semver = await import('semver');
 
@@ -469,3 +718,22 @@ async function isPatchUpdate(fromVersion: string, toVersion: string): Promise<bo
     return false;
   }
 }
+
+/**
+ * Per-task durations of one package analysis, in pipeline order
+ */
+export function logTaskTimings(packageUpdate: PackageUpdate, timings: TaskTiming[]): void {
+  if (timings.length === 0) return;
+
+  const start = Math.min(...timings.map((timing) => timing.startedAt));
+  logSection(`Task timings for ${packageUpdate.name}:`, '⏱️');
+  logTable(
+    ['Task', 'Start', 'Duration', 'Status'],
+    timings.map((timing) => [
+      timing.name,
+      `+${timing.startedAt - start}ms`,
+      `${timing.duration}ms`,
+      timing.status,
+    ])
+  );
+}
@@ -1,4 +1,5 @@
 import type { CodeDiff } from './github-diff.js';
+import type { DeclarationChange, DeclarationDiff } from '../types/index.js';
 import {
   extractExportedNamesFromLine,
   extractFunctionSignature,
@@ -27,11 +28,93 @@ type EngineVersions = {
   nodeNew: string | null;
 };
 
+type DeclarationChangeGroup = {
+  kind: DeclarationChange['kind'];
+  classification: DeclarationChange['classification'];
+  en: string;
+  ja: string;
+};
+
+/** Bullet order of the declaration changes: breaking changes first */
+const DECLARATION_CHANGE_GROUPS: DeclarationChangeGroup[] = [
+  {
+    kind: 'removed-export',
+    classification: 'breaking',
+    en: 'Removed exports',
+    ja: '削除されたエクスポート',
+  },
+  {
+    kind: 'removed-overload',
+    classification: 'breaking',
+    en: 'Removed overloads',
+    ja: '削除されたオーバーロード',
+  },
+  {
+    kind: 'new-required-parameter',
+    classification: 'breaking',
+    en: 'New required parameters',
+    ja: '新しい必須パラメータ',
+  },
+  {
+    kind: 'narrowed-parameter',
+    classification: 'breaking',
+    en: 'Narrowed parameter types',
+    ja: '狭められたパラメータ型',
+  },
+  {
+    kind: 'removed-parameter',
+    classification: 'breaking',
+    en: 'Removed parameters',
+    ja: '削除されたパラメータ',
+  },
+  {
+    kind: 'changed-return-type',
+    classification: 'breaking',
+    en: 'Changed return types',
+    ja: '変更された戻り値の型',
+  },
+  {
+    kind: 'added-export',
+    classification: 'compatible',
+    en: 'Added exports',
+    ja: '追加されたエクスポート',
+  },
+  {
+    kind: 'added-overload',
+    classification: 'compatible',
+    en: 'Added overloads',
+    ja: '追加されたオーバーロード',
+  },
+  {
+    kind: 'new-optional-parameter',
+    classification: 'compatible',
+    en: 'New optional parameters',
+    ja: '新しい省略可能なパラメータ',
+  },
+  {
+    kind: 'widened-parameter',
+    classification: 'compatible',
+    en: 'Widened parameter types',
+    ja: '広げられたパラメータ型',
+  },
+  {
+    kind: 'changed-return-type',
+    classification: 'compatible',
+    en: 'Narrowed return types',
+    ja: '狭められた戻り値の型',
+  },
+];
+
+/**
+ * Summary bullets of a code diff. The declaration diff, when the package ships type
+ * declarations, replaces the export and signature lines matched in the code diff
+ */
 export async function summarizeApiDiff(
-  codeDiff: CodeDiff,
-  language: 'en' | 'ja' = 'en'
+  codeDiff: CodeDiff | null,
+  language: 'en' | 'ja' = 'en',
+  declarationDiff?: DeclarationDiff | null
 ): Promise<ApiDiffSummary> {
-  const lines = codeDiff.content.split('\n');
+  const lines = codeDiff?.content.split('\n') ?? [];
   const state: DiffParseState = { inDiff: false, currentFile: '' };
   const data: ExportsAndSignatures = {
     addedExports: new Set<string>(),
@@ -42,7 +125,35 @@ export async function summarizeApiDiff(
   const engines: EngineVersions = { nodeOld: null, nodeNew: null };
 
   parseDiffLines(lines, state, data, engines);
-  return generateApiDiffSummary(data, engines, language);
+  return generateApiDiffSummary(data, engines, language, declarationDiff);
+}
+
+function generateDeclarationBullets(diff: DeclarationDiff, language: 'en' | 'ja'): string[] {
+  const bullets: string[] = [];
+
+  for (const group of DECLARATION_CHANGE_GROUPS) {
+    const changes = diff.changes.filter(
+      (change) => change.kind === group.kind && change.classification === group.classification
+    );
+    if (changes.length === 0) continue;
+
+    const list = summarizeList(changes.map(formatDeclarationChange), language);
+    const label =
+      language === 'ja'
+        ? `${group.ja}${group.classification === 'breaking' ? '（破壊的）' : '（互換）'}`
+        : `${group.en} (${group.classification})`;
+    bullets.push(`${label}: ${list}`);
+  }
+
+  return bullets;
+}
+
+function formatDeclarationChange(change: DeclarationChange): string {
+  if (!change.detail) return change.name;
+  // Overload details are whole signatures: name(params): type
+  return change.kind.endsWith('overload')
+    ? `${change.name}${change.detail}`
+    : `${change.name} (${change.detail})`;
 }
 
 function parseDiffLines(
@@ -128,7 +239,8 @@ function processSignatureLine(line: string, data: ExportsAndSignatures): void {
 function generateApiDiffSummary(
   data: ExportsAndSignatures,
   engines: EngineVersions,
-  language: 'en' | 'ja'
+  language: 'en' | 'ja',
+  declarationDiff?: DeclarationDiff | null
 ): ApiDiffSummary {
   const bullets: string[] = [];
   let enginesDiff: { from: string; to: string } | undefined;
@@ -143,6 +255,11 @@ function generateApiDiffSummary(
     );
   }
 
+  if (declarationDiff) {
+    bullets.push(...generateDeclarationBullets(declarationDiff, language));
+    return { bullets, enginesDiff };
+  }
+
   // API removals
   const trueRemoved = findTrueRemovals(data);
   if (trueRemoved.length > 0) {
@@ -0,0 +1,82 @@
+import {
+  getCacheStore,
+  getCacheDir,
+  getCacheNamespaces,
+  isCacheNamespace,
+  type CacheNamespace,
+} from './cache-store.js';
+import { logSection, logTable, logKeyValue, logSuccess } from './logger-extended.js';
+
+export type CacheCommandOptions = {
+  namespace?: string;
+  cacheDir?: string;
+  json?: boolean;
+};
+
+/**
+ * `cache stats`: entries, expired entries and size per namespace
+ */
+export async function runCacheStats(options: CacheCommandOptions): Promise<void> {
+  const stats = await getCacheStore(options.cacheDir).stats(resolveNamespaces(options.namespace));
+
+  if (options.json) {
+    console.log(JSON.stringify(stats, null, 2));
+    return;
+  }
+
+  logSection('Cache', '🗄️');
+  logKeyValue('Directory', getCacheDir(options.cacheDir));
+  logTable(
+    ['Namespace', 'Entries', 'Expired', 'Size', 'TTL'],
+    stats.map((stat) => [
+      stat.namespace,
+      String(stat.entries),
+      String(stat.expired),
+      formatBytes(stat.bytes),
+      formatTtl(stat.ttl),
+    ])
+  );
+}
+
+/**
+ * `cache prune`: remove expired entries
+ */
+export async function runCachePrune(options: CacheCommandOptions): Promise<void> {
+  const removed = await getCacheStore(options.cacheDir).prune(resolveNamespaces(options.namespace));
+  logSuccess(`Removed ${removed} expired cache ${removed === 1 ? 'entry' : 'entries'}`);
+}
+
+/**
+ * `cache clear`: remove every entry, or every entry of --namespace
+ */
+export async function runCacheClear(options: CacheCommandOptions): Promise<void> {
+  const removed = await getCacheStore(options.cacheDir).clear(resolveNamespaces(options.namespace));
+  logSuccess(`Removed ${removed} cache ${removed === 1 ? 'entry' : 'entries'}`);
+}
+
+function resolveNamespaces(namespace: string | undefined): CacheNamespace[] {
+  if (!namespace) {
+    return getCacheNamespaces();
+  }
+
+  if (!isCacheNamespace(namespace)) {
+    throw new Error(
+      `Unknown cache namespace "${namespace}". Expected one of: ${getCacheNamespaces().join(', ')}`
+    );
+  }
+
+  return [namespace];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatTtl(ttl: number | null): string {
+  if (ttl === null) return 'never expires';
+
+  const hours = ttl / (60 * 60 * 1000);
+  return hours >= 24 ? `${Math.round(hours / 24)}d` : `${Math.round(hours)}h`;
+}
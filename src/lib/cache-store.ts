@@ -0,0 +1,280 @@
+/**
+ * Shared content-addressed cache
+ * Every cached value lives in <cacheDir>/store/<namespace>/<sha256 of key>.json together with
+ * its original key and expiry, so each namespace can have its own TTL and be pruned or cleared
+ * on its own
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { homedir } from 'os';
+import { generateCacheKey } from './cache-utils.js';
+import { getEnvironmentConfig } from './env-config.js';
+import { readJsonFile, ensureDirectory } from './file-helpers.js';
+import { loggers } from './logger.js';
+
+export const DEFAULT_CACHE_DIR = path.join(homedir(), '.renovate-safety-cache');
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Default TTL per namespace in milliseconds; null never expires
+ */
+export const CACHE_NAMESPACES = {
+  /** Registry metadata such as repository URLs changes rarely, but can change */
+  registry: 6 * HOUR,
+  /** Changelogs between two published versions do not change */
+  changelog: null,
+  /** Code diffs between two published versions do not change */
+  diff: null,
+  /** LLM summaries, keyed by provider, model and prompt hash */
+  llm: 30 * 24 * HOUR,
+  /** Ad-hoc values cached through the performance optimizer's SmartCache */
+  performance: HOUR,
+} satisfies Record<string, number | null>;
+
+export type CacheNamespace = keyof typeof CACHE_NAMESPACES;
+
+export type CacheEntry<T> = {
+  key: string;
+  namespace: CacheNamespace;
+  createdAt: number;
+  expiresAt: number | null;
+  value: T;
+};
+
+/**
+ * Called for every lookup with whether it was a hit, e.g. to count them in execution stats
+ */
+export type CacheLookupListener = (hit: boolean) => void;
+
+export type CacheNamespaceStats = {
+  namespace: CacheNamespace;
+  entries: number;
+  expired: number;
+  bytes: number;
+  ttl: number | null;
+};
+
+export function isCacheNamespace(value: string): value is CacheNamespace {
+  return Object.hasOwn(CACHE_NAMESPACES, value);
+}
+
+export function getCacheNamespaces(): CacheNamespace[] {
+  return Object.keys(CACHE_NAMESPACES) as CacheNamespace[];
+}
+
+export class CacheStore {
+  private readonly rootDir: string;
+  private readonly memoryCache = new Map<string, CacheEntry<unknown>>();
+
+  constructor(cacheDir: string) {
+    this.rootDir = path.join(cacheDir, 'store');
+  }
+
+  /**
+   * Cached value for the key, or null when missing or expired
+   * Hits and misses are reported to the lookup listener
+   */
+  async get<T>(namespace: CacheNamespace, key: string): Promise<T | null> {
+    const entry = await this.readEntry<T>(namespace, key);
+    lookupListener?.(entry !== null);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Store a value; ttl defaults to the namespace TTL, null never expires
+   */
+  async set<T>(
+    namespace: CacheNamespace,
+    key: string,
+    value: T,
+    ttl: number | null = CACHE_NAMESPACES[namespace]
+  ): Promise<void> {
+    const createdAt = Date.now();
+    const entry: CacheEntry<T> = {
+      key,
+      namespace,
+      createdAt,
+      expiresAt: ttl === null ? null : createdAt + ttl,
+      value,
+    };
+    const file = this.getEntryPath(namespace, key);
+
+    this.memoryCache.set(file, entry);
+
+    try {
+      await ensureDirectory(path.dirname(file));
+      await fs.writeFile(file, JSON.stringify(entry, null, 2));
+    } catch (error) {
+      loggers.debug(`Failed to write ${namespace} cache entry:`, error);
+    }
+  }
+
+  /**
+   * Return the cached value, or compute and cache it; null results are not cached
+   */
+  async getOrSet<T>(
+    namespace: CacheNamespace,
+    key: string,
+    compute: () => Promise<T | null>
+  ): Promise<T | null> {
+    const cached = await this.get<T>(namespace, key);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const value = await compute();
+    if (value !== null) {
+      await this.set(namespace, key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Remove entries whose original key contains the pattern
+   */
+  async invalidate(namespace: CacheNamespace, pattern: string): Promise<number> {
+    return this.removeEntries([namespace], (entry) => entry?.key.includes(pattern) ?? false);
+  }
+
+  async stats(namespaces: CacheNamespace[] = getCacheNamespaces()): Promise<CacheNamespaceStats[]> {
+    const now = Date.now();
+
+    return Promise.all(
+      namespaces.map(async (namespace) => {
+        const stats: CacheNamespaceStats = {
+          namespace,
+          entries: 0,
+          expired: 0,
+          bytes: 0,
+          ttl: CACHE_NAMESPACES[namespace],
+        };
+
+        for (const file of await this.listEntryFiles(namespace)) {
+          const stat = await fs.stat(file).catch(() => null);
+          if (!stat) continue;
+
+          const entry = await readJsonFile<CacheEntry<unknown>>(file);
+          stats.entries++;
+          stats.bytes += stat.size;
+          if (!entry || isExpired(entry, now)) {
+            stats.expired++;
+          }
+        }
+
+        return stats;
+      })
+    );
+  }
+
+  /**
+   * Remove expired and unreadable entries
+   */
+  async prune(namespaces: CacheNamespace[] = getCacheNamespaces()): Promise<number> {
+    const now = Date.now();
+    return this.removeEntries(namespaces, (entry) => !entry || isExpired(entry, now));
+  }
+
+  async clear(namespaces: CacheNamespace[] = getCacheNamespaces()): Promise<number> {
+    return this.removeEntries(namespaces, () => true);
+  }
+
+  private async readEntry<T>(
+    namespace: CacheNamespace,
+    key: string
+  ): Promise<CacheEntry<T> | null> {
+    const file = this.getEntryPath(namespace, key);
+    const entry =
+      (this.memoryCache.get(file) as CacheEntry<T> | undefined) ??
+      (await readJsonFile<CacheEntry<T>>(file));
+
+    if (!entry || entry.key !== key) {
+      return null;
+    }
+
+    if (isExpired(entry, Date.now())) {
+      this.memoryCache.delete(file);
+      await fs.unlink(file).catch(() => {});
+      return null;
+    }
+
+    this.memoryCache.set(file, entry);
+    return entry;
+  }
+
+  private async removeEntries(
+    namespaces: CacheNamespace[],
+    shouldRemove: (entry: CacheEntry<unknown> | null) => boolean
+  ): Promise<number> {
+    let removed = 0;
+
+    for (const namespace of namespaces) {
+      for (const file of await this.listEntryFiles(namespace)) {
+        if (!shouldRemove(await readJsonFile<CacheEntry<unknown>>(file))) continue;
+
+        this.memoryCache.delete(file);
+        await fs.unlink(file).then(
+          () => removed++,
+          () => {}
+        );
+      }
+    }
+
+    return removed;
+  }
+
+  private async listEntryFiles(namespace: CacheNamespace): Promise<string[]> {
+    const dir = path.join(this.rootDir, namespace);
+    try {
+      const files = await fs.readdir(dir);
+      return files.filter((file) => file.endsWith('.json')).map((file) => path.join(dir, file));
+    } catch {
+      return [];
+    }
+  }
+
+  private getEntryPath(namespace: CacheNamespace, key: string): string {
+    return path.join(this.rootDir, namespace, `${generateCacheKey(key)}.json`);
+  }
+}
+
+const stores = new Map<string, CacheStore>();
+let defaultCacheDir: string | undefined;
+let lookupListener: CacheLookupListener | undefined;
+
+/**
+ * Listener told about the hits and misses of every store; undefined removes it
+ */
+export function setCacheLookupListener(listener: CacheLookupListener | undefined): void {
+  lookupListener = listener;
+}
+
+/**
+ * Directory used when callers do not pass one: --cache-dir, then RENOVATE_SAFETY_CACHE_DIR,
+ * then ~/.renovate-safety-cache
+ */
+export function setDefaultCacheDir(cacheDir: string | undefined): void {
+  defaultCacheDir = cacheDir;
+}
+
+export function getCacheDir(cacheDir?: string): string {
+  return cacheDir || defaultCacheDir || getEnvironmentConfig().cacheDir || DEFAULT_CACHE_DIR;
+}
+
+/**
+ * Shared store for a cache directory; one instance per directory so the memory layer is shared
+ */
+export function getCacheStore(cacheDir?: string): CacheStore {
+  const dir = path.resolve(getCacheDir(cacheDir));
+  let store = stores.get(dir);
+  if (!store) {
+    store = new CacheStore(dir);
+    stores.set(dir, store);
+  }
+  return store;
+}
+
+function isExpired(entry: CacheEntry<unknown>, now: number): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= now;
+}
@@ -0,0 +1,146 @@
+/**
+ * Cassettes
+ * An offline bundle kept in a single JSON file, meant to be committed next to tests. Record a
+ * real analysis once (`renovate-safety prefetch --pr <number> --out <file>.json`), then replay its
+ * HTTP (httpGet, Octokit, LLM SDKs), exec (network commands of secureSystemExec/secureNpmExec)
+ * and registry lookups without network access
+ */
+
+import * as fs from 'fs/promises';
+import { mkdirSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import {
+  OfflineBundle,
+  activateOfflineBundle,
+  getActiveBundle,
+  resetOfflineBundle,
+  type BundleEntry,
+  type BundleKind,
+  type BundleMode,
+  type RecordedResponse,
+} from './offline-bundle.js';
+
+const CASSETTE_VERSION = 1;
+
+/** Set to `record` to re-record the cassettes tests insert; they replay otherwise */
+export const CASSETTE_MODE_ENV = 'RENOVATE_SAFETY_CASSETTE';
+
+/** Response headers that are session state rather than part of the recorded response */
+const SCRUBBED_HEADERS = new Set(['set-cookie']);
+
+export type CassetteFile = {
+  version: number;
+  recordedAt: string;
+  entries: BundleEntry<unknown>[];
+};
+
+export class Cassette extends OfflineBundle {
+  private readonly entries = new Map<string, BundleEntry<unknown>>();
+
+  constructor(
+    readonly file: string,
+    mode: BundleMode
+  ) {
+    super(file, mode);
+  }
+
+  /**
+   * Read the cassette file; a missing file is only allowed when recording
+   */
+  async load(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.file, 'utf-8');
+    } catch {
+      if (this.mode === 'record') return;
+      throw new Error(
+        `No cassette found at ${this.file}. Record it with ${CASSETTE_MODE_ENV}=record or ` +
+          `\`renovate-safety prefetch --pr <number> --out ${this.file}\``
+      );
+    }
+
+    const cassette = JSON.parse(content) as CassetteFile;
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(
+        `Cassette ${this.file} has version ${cassette.version}, expected ${CASSETTE_VERSION}. Re-record it`
+      );
+    }
+    for (const entry of cassette.entries) {
+      this.entries.set(toEntryId(entry.kind, entry.key), entry);
+    }
+  }
+
+  /**
+   * Write the recorded entries, sorted so re-recording an unchanged analysis gives no diff
+   */
+  flush(): void {
+    if (this.mode !== 'record') return;
+
+    const entries = [...this.entries.values()].sort(
+      (a, b) => a.kind.localeCompare(b.kind) || a.key.localeCompare(b.key)
+    );
+    const cassette: CassetteFile = {
+      version: CASSETTE_VERSION,
+      recordedAt: new Date().toISOString(),
+      entries,
+    };
+
+    // Synchronous so it also runs from process exit handlers
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    writeFileSync(this.file, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+  }
+
+  protected async readEntry<T>(kind: BundleKind, key: string): Promise<BundleEntry<T> | null> {
+    return (this.entries.get(toEntryId(kind, key)) as BundleEntry<T> | undefined) ?? null;
+  }
+
+  protected async writeEntry<T>(entry: BundleEntry<T>): Promise<void> {
+    this.entries.set(toEntryId(entry.kind, entry.key), scrubEntry(entry));
+  }
+
+  protected describeMiss(kind: BundleKind, key: string): string {
+    return (
+      `Cassette ${this.file} has no recorded ${kind} response for "${key}". ` +
+      `Re-record it with ${CASSETTE_MODE_ENV}=record.`
+    );
+  }
+}
+
+export function getCassetteMode(): BundleMode {
+  return process.env[CASSETTE_MODE_ENV] === 'record' ? 'record' : 'replay';
+}
+
+/**
+ * Open a cassette and route every network request through it until ejectCassette()
+ */
+export async function insertCassette(
+  file: string,
+  mode: BundleMode = getCassetteMode()
+): Promise<Cassette> {
+  const cassette = new Cassette(path.resolve(file), mode);
+  await cassette.load();
+  activateOfflineBundle(cassette);
+  return cassette;
+}
+
+/**
+ * Save the active cassette when recording and stop routing requests through it
+ */
+export function ejectCassette(): void {
+  getActiveBundle()?.flush();
+  resetOfflineBundle();
+}
+
+function toEntryId(kind: BundleKind, key: string): string {
+  return `${kind} ${key}`;
+}
+
+function scrubEntry<T>(entry: BundleEntry<T>): BundleEntry<T> {
+  if (entry.kind !== 'http') return entry;
+
+  const response = entry.value as RecordedResponse;
+  const headers = Object.fromEntries(
+    Object.entries(response.headers).filter(([name]) => !SCRUBBED_HEADERS.has(name))
+  );
+  return { ...entry, value: { ...response, headers } as T };
+}
@@ -1,14 +1,15 @@
 import pacote from 'pacote';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { generatePackageCacheKey } from './cache-utils.js';
+import { getCacheStore } from './cache-store.js';
 import { loggers } from './logger.js';
 import semver from 'semver';
 import type { PackageUpdate, ChangelogDiff } from '../types/index.js';
 import { httpGet } from './http-client.js';
-import { fileExists, readJsonFile, ensureDirectory } from './file-helpers.js';
+import { fileExists } from './file-helpers.js';
 import { getGitHubClient } from './github-client.js';
 import { executeInParallel } from './parallel-helpers.js';
+import { withOfflineBundle } from './offline-bundle.js';
 
 export async function fetchChangelogDiff(
   packageUpdate: PackageUpdate,
@@ -55,17 +56,7 @@ async function getCachedChangelog(
   packageUpdate: PackageUpdate,
   cacheDir: string
 ): Promise<ChangelogDiff | null> {
-  try {
-    const cacheKey = getCacheKey(packageUpdate);
-    const cachePath = path.join(cacheDir, `${cacheKey}.json`);
-
-    const exists = await fileExists(cachePath);
-    if (!exists) return null;
-
-    return await readJsonFile<ChangelogDiff>(cachePath);
-  } catch {
-    return null;
-  }
+  return getCacheStore(cacheDir).get<ChangelogDiff>('changelog', getCacheKey(packageUpdate));
 }
 
 async function cacheChangelog(
@@ -73,30 +64,32 @@ async function cacheChangelog(
   changelog: ChangelogDiff,
   cacheDir: string
 ): Promise<void> {
-  try {
-    await ensureDirectory(cacheDir);
-
-    const cacheKey = getCacheKey(packageUpdate);
-    const cachePath = path.join(cacheDir, `${cacheKey}.json`);
-
-    await fs.writeFile(cachePath, JSON.stringify(changelog, null, 2));
-  } catch (error) {
-    loggers.genericFailed('cache changelog', error);
-  }
+  await getCacheStore(cacheDir).set('changelog', getCacheKey(packageUpdate), changelog);
 }
 
 function getCacheKey(packageUpdate: PackageUpdate): string {
-  return generatePackageCacheKey(packageUpdate);
+  return `changelog:${packageUpdate.name}@${packageUpdate.fromVersion}->${packageUpdate.toVersion}`;
 }
 
 async function fetchFromGitHubReleases(
   packageUpdate: PackageUpdate
 ): Promise<ChangelogDiff | null> {
-  try {
-    // Extract GitHub info from package
-    const githubInfo = await getGitHubInfo(packageUpdate.name);
-    if (!githubInfo) return null;
+  // Extract GitHub info from package
+  const githubInfo = await getGitHubInfo(packageUpdate.name);
+  if (!githubInfo) return null;
+
+  return fetchGitHubReleaseNotes(githubInfo, packageUpdate);
+}
 
+/**
+ * Fetch release notes for a known GitHub repository within the update's version range
+ * Used by analyzers whose registries point directly at a repository (Go modules, crates, ...)
+ */
+export async function fetchGitHubReleaseNotes(
+  githubInfo: { owner: string; repo: string },
+  packageUpdate: PackageUpdate
+): Promise<ChangelogDiff | null> {
+  try {
     const octokit = getGitHubClient();
 
     // Fetch releases
@@ -144,55 +137,78 @@ async function fetchFromGitHubReleases(
 }
 
 async function fetchFromNpmRegistry(packageUpdate: PackageUpdate): Promise<ChangelogDiff | null> {
+  const { name, fromVersion, toVersion } = packageUpdate;
+
   try {
-    // Fetch both versions - we only use the to version for extraction
-    await executeInParallel(
-      [
-        () => pacote.manifest(`${packageUpdate.name}@${packageUpdate.fromVersion}`),
-        () => pacote.manifest(`${packageUpdate.name}@${packageUpdate.toVersion}`),
-      ],
-      { concurrency: 2 }
+    // The tarball is extracted to disk, so offline bundles record the extracted sections
+    return await withOfflineBundle(
+      'registry',
+      `npm-changelog:${name}@${fromVersion}->${toVersion}`,
+      () => extractChangelogFromTarball(packageUpdate)
     );
+  } catch (error) {
+    loggers.debug('Failed to fetch from npm:', error);
+    return null;
+  }
+}
 
-    // Extract tarball and look for changelog
-    const tempDir = await fs.mkdtemp(path.join(process.cwd(), '.tmp-'));
+async function extractChangelogFromTarball(
+  packageUpdate: PackageUpdate
+): Promise<ChangelogDiff | null> {
+  // Fetch both versions - we only use the to version for extraction
+  await executeInParallel(
+    [
+      () => pacote.manifest(`${packageUpdate.name}@${packageUpdate.fromVersion}`),
+      () => pacote.manifest(`${packageUpdate.name}@${packageUpdate.toVersion}`),
+    ],
+    { concurrency: 2 }
+  );
+
+  // Extract tarball and look for changelog
+  const tempDir = await fs.mkdtemp(path.join(process.cwd(), '.tmp-'));
 
-    try {
-      // Extract to version
-      await pacote.extract(`${packageUpdate.name}@${packageUpdate.toVersion}`, tempDir);
+  try {
+    // Extract to version
+    await pacote.extract(`${packageUpdate.name}@${packageUpdate.toVersion}`, tempDir);
 
-      // Look for changelog files
-      const changelogPath = await findChangelogFile(tempDir);
-      if (!changelogPath) return null;
+    // Look for changelog files
+    const changelogPath = await findChangelogFile(tempDir);
+    if (!changelogPath) return null;
 
-      const fullContent = await fs.readFile(changelogPath, 'utf-8');
+    const fullContent = await fs.readFile(changelogPath, 'utf-8');
 
-      // Extract relevant sections
-      const relevantContent = extractRelevantSections(
-        fullContent,
-        packageUpdate.fromVersion,
-        packageUpdate.toVersion
-      );
+    // Extract relevant sections
+    const relevantContent = extractRelevantSections(
+      fullContent,
+      packageUpdate.fromVersion,
+      packageUpdate.toVersion
+    );
 
-      return relevantContent
-        ? {
-            content: relevantContent,
-            source: 'npm',
-          }
-        : null;
-    } finally {
-      // Cleanup
-      await fs.rm(tempDir, { recursive: true, force: true });
-    }
-  } catch (error) {
-    loggers.debug('Failed to fetch from npm:', error);
-    return null;
+    return relevantContent
+      ? {
+          content: relevantContent,
+          source: 'npm',
+        }
+      : null;
+  } finally {
+    // Cleanup
+    await fs.rm(tempDir, { recursive: true, force: true });
   }
 }
 
 async function getGitHubInfo(packageName: string): Promise<{ owner: string; repo: string } | null> {
+  return getCacheStore().getOrSet('registry', `github-repo:${packageName}`, () =>
+    findGitHubInfo(packageName)
+  );
+}
+
+async function findGitHubInfo(
+  packageName: string
+): Promise<{ owner: string; repo: string } | null> {
   try {
-    const manifest = await pacote.manifest(packageName);
+    const manifest = await withOfflineBundle('registry', `pacote-manifest:${packageName}`, () =>
+      pacote.manifest(packageName)
+    );
 
     if (manifest.repository && typeof manifest.repository === 'object' && manifest.repository.url) {
       const repoRegex = /github\.com[:/]([^/]+)\/([^/.]+)/;
@@ -266,7 +282,11 @@ async function findChangelogFile(dir: string): Promise<string | null> {
   return null;
 }
 
-function extractRelevantSections(
+/**
+ * Extract the sections of a changelog file for versions in (fromVersion, toVersion]
+ * Assumes newest-first ordering with markdown version headers
+ */
+export function extractRelevantSections(
   content: string,
   fromVersion: string,
   toVersion: string
@@ -277,8 +297,8 @@ function extractRelevantSections(
   let foundAnyVersion = false;
 
   for (const line of lines) {
-    // Check if this is a version header
-    const versionRegex = /^#+\s*v?(\d+\.\d+\.\d+)/;
+    // Check if this is a version header: "## 1.2.3", "## [1.2.3] - date", RDoc "=== 1.2.3"
+    const versionRegex = /^(?:#+|=+)\s*\[?v?(\d+\.\d+\.\d+)/;
     const versionMatch = versionRegex.exec(line);
     if (versionMatch) {
       const version = normalizeVersion(versionMatch[1]);
@@ -0,0 +1,203 @@
+/**
+ * GitHub Check Run output
+ * Publishes the analysis as a check on the PR head commit instead of a comment, so branch
+ * protection can require it before merging
+ */
+
+import * as path from 'path';
+import type { Octokit } from '@octokit/rest';
+import { getGitHubClient } from './github-client.js';
+import { getRepoInfo } from './pr.js';
+import { isGroupedResult } from './grouped-analysis.js';
+import type { AnalysisResult, GroupedAnalysisResult, RiskLevel } from '../types/index.js';
+
+export const CHECK_RUN_NAME = 'renovate-safety';
+
+// GitHub API limits for a single create/update request
+const MAX_SUMMARY_LENGTH = 65535;
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+export type CheckConclusion = 'success' | 'neutral' | 'failure';
+
+export type CheckAnnotation = {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  title: string;
+  message: string;
+};
+
+/**
+ * The parts of Octokit used to publish a check, so tests can pass a stub
+ */
+export type CheckRunClient = {
+  pulls: Pick<Octokit['pulls'], 'get'>;
+  checks: Pick<Octokit['checks'], 'create' | 'update'>;
+};
+
+export type CheckRunInput = {
+  prNumber: number;
+  riskLevel: RiskLevel;
+  report: string;
+  annotations?: CheckAnnotation[];
+  /** Defaults to the origin remote of the current repository */
+  repository?: { owner: string; name: string };
+  /** Defaults to the PR's current head commit */
+  headSha?: string;
+};
+
+export type PublishedCheckRun = {
+  id: number;
+  url: string | null;
+  conclusion: CheckConclusion;
+  annotations: number;
+};
+
+/**
+ * Map a risk level to a check conclusion: high and critical fail the check,
+ * medium and unknown need a human look, safe and low pass
+ */
+export function getCheckConclusion(level: RiskLevel): CheckConclusion {
+  switch (level) {
+    case 'safe':
+    case 'low':
+      return 'success';
+    case 'high':
+    case 'critical':
+      return 'failure';
+    default:
+      return 'neutral';
+  }
+}
+
+/**
+ * One annotation per API usage of a package that has breaking changes
+ * Usages outside the working directory are skipped because GitHub cannot place them
+ */
+export function buildCheckAnnotations(
+  analysisResult: AnalysisResult | GroupedAnalysisResult,
+  cwd: string = process.cwd()
+): CheckAnnotation[] {
+  const results = isGroupedResult(analysisResult) ? analysisResult.packages : [analysisResult];
+  const annotations = new Map<string, CheckAnnotation>();
+
+  for (const result of results) {
+    if (result.breakingChanges.length === 0) continue;
+
+    const { name, fromVersion, toVersion } = result.package;
+    const level =
+      getCheckConclusion(result.riskAssessment.level) === 'failure' ? 'failure' : 'warning';
+    const changes = result.breakingChanges.slice(0, 3).map((change) => `- ${change.line}`);
+
+    // Type errors from --typecheck point at the exact line that no longer compiles
+    for (const change of result.breakingChanges) {
+      const file = toRepositoryPath(change.location?.file, cwd);
+      if (!file || !change.location) continue;
+
+      const key = `${file}:${change.location.line}:${change.line}`;
+      if (annotations.has(key)) continue;
+
+      annotations.set(key, {
+        path: file,
+        start_line: change.location.line,
+        end_line: change.location.line,
+        annotation_level: 'failure',
+        title: `Type error with ${name} ${toVersion}`,
+        message: change.line,
+      });
+    }
+
+    for (const usage of result.apiUsages) {
+      const file = toRepositoryPath(usage.filePath ?? usage.file, cwd);
+      if (!file || usage.line < 1) continue;
+
+      const key = `${file}:${usage.line}:${usage.apiName}`;
+      if (annotations.has(key)) continue;
+
+      annotations.set(key, {
+        path: file,
+        start_line: usage.line,
+        end_line: usage.line,
+        annotation_level: level,
+        title: `${usage.apiName} (${name} ${fromVersion} → ${toVersion})`,
+        message: [
+          `${name} ${toVersion} has breaking changes that may affect this usage:`,
+          ...changes,
+        ].join('\n'),
+      });
+    }
+  }
+
+  return [...annotations.values()];
+}
+
+/**
+ * Create a completed check run on the PR head commit
+ * Annotations beyond the per-request limit are appended with follow-up updates
+ */
+export async function publishCheckRun(
+  input: CheckRunInput,
+  client: CheckRunClient = getGitHubClient()
+): Promise<PublishedCheckRun> {
+  const [owner, repo] = input.repository
+    ? [input.repository.owner, input.repository.name]
+    : await getRepoInfo();
+
+  const headSha =
+    input.headSha ??
+    (await client.pulls.get({ owner, repo, pull_number: input.prNumber })).data.head.sha;
+
+  const conclusion = getCheckConclusion(input.riskLevel);
+  const annotations = input.annotations ?? [];
+  const output = {
+    title: `Risk: ${input.riskLevel}`,
+    summary: truncateSummary(input.report),
+  };
+
+  const { data } = await client.checks.create({
+    owner,
+    repo,
+    name: CHECK_RUN_NAME,
+    head_sha: headSha,
+    status: 'completed',
+    conclusion,
+    output: { ...output, annotations: annotations.slice(0, MAX_ANNOTATIONS_PER_REQUEST) },
+  });
+
+  for (
+    let offset = MAX_ANNOTATIONS_PER_REQUEST;
+    offset < annotations.length;
+    offset += MAX_ANNOTATIONS_PER_REQUEST
+  ) {
+    await client.checks.update({
+      owner,
+      repo,
+      check_run_id: data.id,
+      output: {
+        ...output,
+        annotations: annotations.slice(offset, offset + MAX_ANNOTATIONS_PER_REQUEST),
+      },
+    });
+  }
+
+  return { id: data.id, url: data.html_url, conclusion, annotations: annotations.length };
+}
+
+function toRepositoryPath(file: string | undefined, cwd: string): string | null {
+  if (!file) return null;
+
+  const relative = path.isAbsolute(file) ? path.relative(cwd, file) : path.normalize(file);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+
+  return relative.split(path.sep).join('/');
+}
+
+function truncateSummary(report: string): string {
+  if (report.length <= MAX_SUMMARY_LENGTH) {
+    return report;
+  }
+
+  const notice = '\n\n_Report truncated to fit the GitHub check summary limit._';
+  return report.slice(0, MAX_SUMMARY_LENGTH - notice.length) + notice;
+}
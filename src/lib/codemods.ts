@@ -0,0 +1,344 @@
+/**
+ * Codemod packs
+ * Rewrites for the breaking changes of a package, kept as data like usage rule packs. Built-in
+ * packs live in data/codemods, project packs in .renovate-safety/codemods of the analyzed
+ * project. Transforms run with ts-morph and only touch the usage locations of scanAPIUsage
+ */
+
+import { basename, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import semver from 'semver';
+import { z } from 'zod';
+import { Node, SyntaxKind, type Identifier, type SourceFile } from 'ts-morph';
+import { getFiles } from './glob-helpers.js';
+import { readJsonFile } from './file-helpers.js';
+import { matchesPackage } from './usage-rules.js';
+import type { APIUsage } from '../types/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const BUILTIN_CODEMODS_DIR = join(__dirname, '../../data/codemods');
+export const PROJECT_CODEMODS_DIR = join('.renovate-safety', 'codemods');
+
+const identifier = z.string().regex(/^[A-Za-z_$][\w$]*$/, 'must be an identifier');
+
+const transformSchema = z.discriminatedUnion('kind', [
+  z
+    .object({
+      /** Rename an export: import specifiers, references and member accesses */
+      kind: z.literal('rename'),
+      from: identifier,
+      to: identifier,
+    })
+    .strict(),
+  z
+    .object({
+      /**
+       * Replace calls with a template: $object is the receiver, $args every argument and
+       * $1-$9 a single one, e.g. "createRoot($2).render($1)"
+       */
+      kind: z.literal('replace-call'),
+      name: identifier,
+      /** Receiver of the call, e.g. ReactDOM for ReactDOM.render(); omitted for plain calls */
+      object: z.string().min(1).optional(),
+      template: z.string().min(1),
+      /** Named imports the template needs */
+      imports: z
+        .array(z.object({ name: identifier, from: z.string().min(1) }).strict())
+        .default([]),
+    })
+    .strict(),
+]);
+
+const codemodSchema = z
+  .object({
+    id: z.string().min(1),
+    /** Package name; a trailing * matches every package with that prefix */
+    package: z.string().min(1),
+    /** Versions being updated to that the codemod applies to */
+    versions: z
+      .string()
+      .refine((range) => semver.validRange(range) !== null, 'invalid semver range')
+      .default('*'),
+    description: z.string().min(1),
+    transform: transformSchema,
+  })
+  .strict();
+
+const packSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    codemods: z.array(codemodSchema),
+  })
+  .strict();
+
+export type CodemodTransform = z.infer<typeof transformSchema>;
+export type CodemodRule = z.infer<typeof codemodSchema>;
+export type CodemodPack = z.infer<typeof packSchema> & {
+  source: 'builtin' | 'project';
+  file: string;
+};
+
+export type CodemodEdit = {
+  codemod: string;
+  line: number;
+  before: string;
+  after: string;
+};
+
+/**
+ * Built-in packs followed by the packs of the project; an invalid pack is an error rather
+ * than silently ignored
+ */
+export async function loadCodemodPacks(projectDir = process.cwd()): Promise<CodemodPack[]> {
+  return [
+    ...(await loadPackDirectory(BUILTIN_CODEMODS_DIR, 'builtin')),
+    ...(await loadPackDirectory(join(projectDir, PROJECT_CODEMODS_DIR), 'project')),
+  ];
+}
+
+async function loadPackDirectory(
+  dir: string,
+  source: CodemodPack['source']
+): Promise<CodemodPack[]> {
+  const files = await getFiles('*.json', { cwd: dir, absolute: true });
+  const packs: CodemodPack[] = [];
+
+  for (const file of files.sort()) {
+    packs.push(parseCodemodPack(await readJsonFile(file), file, source));
+  }
+
+  return packs;
+}
+
+export function parseCodemodPack(
+  data: unknown,
+  file: string,
+  source: CodemodPack['source']
+): CodemodPack {
+  const result = packSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid codemod pack ${basename(file)}: ${issues}`);
+  }
+  return { ...result.data, source, file };
+}
+
+/**
+ * Codemods of every pack for the package and the version it is updated to
+ */
+export function selectCodemods(
+  packs: CodemodPack[],
+  packageName: string,
+  toVersion?: string
+): CodemodRule[] {
+  const version = toVersion ? semver.coerce(toVersion) : null;
+
+  return packs
+    .flatMap((pack) => pack.codemods)
+    .filter(
+      (codemod) =>
+        matchesPackage(codemod.package, packageName) &&
+        (!version || semver.satisfies(version, codemod.versions))
+    );
+}
+
+/**
+ * API a codemod rewrites, matched against the apiName of usages
+ */
+export function getCodemodApi(codemod: CodemodRule): string {
+  return codemod.transform.kind === 'rename' ? codemod.transform.from : codemod.transform.name;
+}
+
+/**
+ * Apply the codemods to the usages found in one file; nodes on other lines are left alone.
+ * Returns the edits made, one per rewritten node
+ */
+export function applyCodemods(
+  sourceFile: SourceFile,
+  codemods: CodemodRule[],
+  usages: APIUsage[]
+): CodemodEdit[] {
+  const edits: CodemodEdit[] = [];
+
+  for (const codemod of codemods) {
+    const api = getCodemodApi(codemod);
+    const lines = new Set(usages.filter((usage) => usage.apiName === api).map((u) => u.line));
+    if (lines.size === 0) continue;
+
+    const { transform } = codemod;
+    const applied =
+      transform.kind === 'rename'
+        ? applyRename(sourceFile, transform, lines, codemod.package)
+        : applyReplaceCall(sourceFile, transform, lines);
+
+    edits.push(...applied.map((edit) => ({ codemod: codemod.id, ...edit })));
+  }
+
+  return edits;
+}
+
+function applyRename(
+  sourceFile: SourceFile,
+  transform: Extract<CodemodTransform, { kind: 'rename' }>,
+  lines: Set<number>,
+  packagePattern: string
+): Omit<CodemodEdit, 'codemod'>[] {
+  const targets = sourceFile
+    .getDescendantsOfKind(SyntaxKind.Identifier)
+    .filter(
+      (node) =>
+        node.getText() === transform.from &&
+        lines.has(node.getStartLineNumber()) &&
+        refersToPackageExport(node, packagePattern)
+    )
+    .reverse();
+
+  return targets.map((node) => {
+    const line = node.getStartLineNumber();
+    const parent = node.getParent();
+    const before = parent?.getText() ?? node.getText();
+
+    // Only the imported name changes, an alias keeps its local name
+    if (Node.isImportSpecifier(parent) && parent.getNameNode() === node) {
+      const alreadyImported = parent
+        .getImportDeclaration()
+        .getNamedImports()
+        .some((specifier) => specifier.getName() === transform.to && !specifier.getAliasNode());
+
+      if (alreadyImported && !parent.getAliasNode()) {
+        parent.remove();
+        return { line, before, after: '' };
+      }
+      parent.setName(transform.to);
+    } else {
+      node.replaceWithText(transform.to);
+    }
+
+    return { line, before, after: before.replace(transform.from, transform.to) };
+  });
+}
+
+/**
+ * The identifier names an export of the package: an import specifier of it, a reference to
+ * such an import, or a member of its default, namespace or require() binding. Locals that
+ * happen to share the name are left alone
+ */
+function refersToPackageExport(node: Identifier, packagePattern: string): boolean {
+  const parent = node.getParent();
+
+  if (Node.isImportSpecifier(parent)) {
+    return isPackageModule(parent.getImportDeclaration().getModuleSpecifierValue(), packagePattern);
+  }
+  if (Node.isPropertyAccessExpression(parent)) {
+    return (
+      parent.getNameNode() === node && isPackageBinding(parent.getExpression(), packagePattern)
+    );
+  }
+  return isPackageBinding(node, packagePattern);
+}
+
+function isPackageBinding(node: Node, packagePattern: string): boolean {
+  if (!Node.isIdentifier(node)) return false;
+
+  return (node.getSymbol()?.getDeclarations() ?? []).some((declaration) => {
+    const importDeclaration = declaration.getFirstAncestorByKind(SyntaxKind.ImportDeclaration);
+    if (importDeclaration) {
+      return isPackageModule(importDeclaration.getModuleSpecifierValue(), packagePattern);
+    }
+
+    // const _ = require('lodash')
+    const initializer = Node.isVariableDeclaration(declaration)
+      ? declaration.getInitializer()
+      : undefined;
+    const [specifier] = Node.isCallExpression(initializer) ? initializer.getArguments() : [];
+    return (
+      Node.isCallExpression(initializer) &&
+      initializer.getExpression().getText() === 'require' &&
+      Node.isStringLiteral(specifier) &&
+      isPackageModule(specifier.getLiteralValue(), packagePattern)
+    );
+  });
+}
+
+/**
+ * The module specifier is the package or one of its subpaths, e.g. lodash/fp
+ */
+function isPackageModule(specifier: string, packagePattern: string): boolean {
+  const segments = specifier.split('/');
+  const packageName = segments.slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+  return matchesPackage(packagePattern, packageName);
+}
+
+function applyReplaceCall(
+  sourceFile: SourceFile,
+  transform: Extract<CodemodTransform, { kind: 'replace-call' }>,
+  lines: Set<number>
+): Omit<CodemodEdit, 'codemod'>[] {
+  const calls = sourceFile
+    .getDescendantsOfKind(SyntaxKind.CallExpression)
+    .filter((call) => {
+      const callee = call.getExpression();
+      const nameNode = Node.isPropertyAccessExpression(callee) ? callee.getNameNode() : callee;
+      const object = Node.isPropertyAccessExpression(callee)
+        ? callee.getExpression().getText()
+        : undefined;
+
+      return (
+        nameNode.getText() === transform.name &&
+        object === transform.object &&
+        lines.has(nameNode.getStartLineNumber())
+      );
+    })
+    // Innermost calls first, so rewriting one never invalidates another
+    .reverse();
+
+  const edits = calls.map((call) => {
+    const callee = call.getExpression();
+    const args = call.getArguments().map((arg) => arg.getText());
+    const before = call.getText();
+    const after = transform.template
+      .replace(
+        /\$object/g,
+        Node.isPropertyAccessExpression(callee) ? callee.getExpression().getText() : ''
+      )
+      .replace(/\$args/g, args.join(', '))
+      .replace(/\$([1-9])/g, (_, index: string) => args[Number(index) - 1] ?? 'undefined');
+
+    const line = call.getStartLineNumber();
+    call.replaceWithText(after);
+    return { line, before, after };
+  });
+
+  if (edits.length > 0) {
+    for (const { name, from } of transform.imports) {
+      ensureNamedImport(sourceFile, name, from);
+    }
+  }
+
+  return edits;
+}
+
+function ensureNamedImport(sourceFile: SourceFile, name: string, moduleSpecifier: string): void {
+  const declaration = sourceFile.getImportDeclaration(
+    (decl) => decl.getModuleSpecifierValue() === moduleSpecifier && !decl.isTypeOnly()
+  );
+
+  if (!declaration) {
+    // After the existing imports, quoted like them
+    const imports = sourceFile.getImportDeclarations();
+    const quote = imports[0]?.getModuleSpecifier().getText().charAt(0) ?? "'";
+    sourceFile.insertStatements(
+      imports.length > 0 ? imports[imports.length - 1].getChildIndex() + 1 : 0,
+      `import { ${name} } from ${quote}${moduleSpecifier}${quote};`
+    );
+    return;
+  }
+
+  if (!declaration.getNamedImports().some((specifier) => specifier.getName() === name)) {
+    declaration.addNamedImport(name);
+  }
+}
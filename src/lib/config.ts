@@ -3,11 +3,17 @@ import * as path from 'path';
 import { homedir } from 'os';
 import { safeJsonParse, isConfigObject } from './safe-json.js';
 import { getEnvironmentConfig } from './env-config.js';
+import { parsePolicy, type PolicyConfig } from './policy.js';
+import { parseModelPricing, type ModelPricing } from './model-pricing.js';
+import { parseLLMConfig, setLLMConfig, type LLMConfig } from './llm-providers.js';
 
 export type Config = {
   language?: 'en' | 'ja';
-  llmProvider?: 'claude-cli' | 'anthropic' | 'openai';
+  llmProvider?: string;
   cacheDir?: string;
+  policy?: PolicyConfig;
+  modelPricing?: ModelPricing;
+  llm?: LLMConfig;
 };
 
 export async function loadConfig(): Promise<Config> {
@@ -50,5 +56,20 @@ export async function loadConfig(): Promise<Config> {
     config.cacheDir = envConfig.cacheDir;
   }
 
+  // Policy rules come from the file as-is; validate them before anything acts on them
+  if (config.policy !== undefined) {
+    config.policy = parsePolicy(config.policy);
+  }
+
+  if (config.modelPricing !== undefined) {
+    config.modelPricing = parseModelPricing(config.modelPricing);
+  }
+
+  if (config.llm !== undefined) {
+    config.llm = parseLLMConfig(config.llm);
+  }
+  // Providers are shared module state so the agents can resolve their models lazily
+  setLLMConfig(config.llm);
+
   return config;
 }
@@ -0,0 +1,145 @@
+/**
+ * LLM spend across saved analyses
+ * Aggregates the agent usage persisted with each stored report by repository, package, agent
+ * and model, for charging LLM spend back to the teams that own the repositories
+ */
+
+import type { StoredReport } from './report-store.js';
+import { estimateAgentCost } from '../mastra/tools/execution-tracker.js';
+
+export const COST_DIMENSIONS = ['repo', 'package', 'agent', 'model'] as const;
+
+export type CostDimension = (typeof COST_DIMENSIONS)[number];
+
+/** Package and model columns for calls that were not attributed to one */
+export const UNATTRIBUTED = '(none)';
+
+export type CostUsage = {
+  runs: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+};
+
+export type CostRow = Partial<Record<CostDimension, string>> & CostUsage;
+
+export type CostReport = {
+  groupBy: CostDimension[];
+  totals: CostUsage;
+  rows: CostRow[];
+};
+
+/**
+ * Parse a comma-separated --group-by value such as "repo,model"
+ */
+export function parseCostDimensions(value: string): CostDimension[] {
+  const dimensions = value
+    .split(',')
+    .map((dimension) => dimension.trim())
+    .filter(Boolean);
+
+  const invalid = dimensions.filter(
+    (dimension) => !(COST_DIMENSIONS as readonly string[]).includes(dimension)
+  );
+  if (invalid.length > 0 || dimensions.length === 0) {
+    throw new Error(
+      `Invalid --group-by "${value}". Use a comma-separated list of: ${COST_DIMENSIONS.join(', ')}`
+    );
+  }
+
+  return [...new Set(dimensions)] as CostDimension[];
+}
+
+/**
+ * Sum agent calls per group, most expensive first. Calls use the cost recorded when their
+ * run finished; runs saved before per-call costs were recorded are priced with current pricing
+ */
+export function aggregateCosts(reports: StoredReport[], groupBy: CostDimension[]): CostReport {
+  const groups = new Map<string, { row: CostRow; runIds: Set<string> }>();
+  const totals: CostUsage = emptyUsage();
+  const runIds = new Set<string>();
+
+  for (const report of reports) {
+    for (const agent of report.executionStats?.agents ?? []) {
+      const values: Record<CostDimension, string> = {
+        repo: report.repository,
+        package: agent.packageName || UNATTRIBUTED,
+        agent: agent.agentName,
+        model: agent.model || UNATTRIBUTED,
+      };
+      const key = groupBy.map((dimension) => values[dimension]).join('\0');
+
+      let group = groups.get(key);
+      if (!group) {
+        const row: CostRow = emptyUsage();
+        groupBy.forEach((dimension) => (row[dimension] = values[dimension]));
+        group = { row, runIds: new Set() };
+        groups.set(key, group);
+      }
+
+      const usage = {
+        inputTokens: agent.inputTokens || 0,
+        outputTokens: agent.outputTokens || 0,
+        totalTokens: agent.totalTokens || (agent.inputTokens || 0) + (agent.outputTokens || 0),
+        cost: agent.estimatedCost ?? estimateAgentCost(agent),
+      };
+      addUsage(group.row, usage);
+      addUsage(totals, usage);
+      group.runIds.add(report.id);
+      runIds.add(report.id);
+    }
+  }
+
+  const rows = [...groups.values()].map(({ row, runIds: ids }) => ({ ...row, runs: ids.size }));
+  totals.runs = runIds.size;
+
+  return {
+    groupBy,
+    totals,
+    rows: rows.sort((a, b) => b.cost - a.cost),
+  };
+}
+
+/**
+ * CSV with one line per group; costs in USD
+ */
+export function formatCostReportCsv(report: CostReport): string {
+  const header = [
+    ...report.groupBy,
+    'runs',
+    'calls',
+    'input_tokens',
+    'output_tokens',
+    'total_tokens',
+    'cost_usd',
+  ];
+  const lines = report.rows.map((row) => [
+    ...report.groupBy.map((dimension) => row[dimension] ?? ''),
+    String(row.runs),
+    String(row.calls),
+    String(row.inputTokens),
+    String(row.outputTokens),
+    String(row.totalTokens),
+    row.cost.toFixed(6),
+  ]);
+
+  return [header, ...lines].map((line) => line.map(toCsvField).join(',')).join('\n') + '\n';
+}
+
+function toCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function emptyUsage(): CostUsage {
+  return { runs: 0, calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function addUsage(target: CostUsage, usage: Omit<CostUsage, 'runs' | 'calls'>): void {
+  target.calls++;
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.totalTokens += usage.totalTokens;
+  target.cost += usage.cost;
+}
@@ -0,0 +1,115 @@
+import * as fs from 'fs/promises';
+import {
+  listStoredReports,
+  readStoredReport,
+  getReportDir,
+  type StoredReport,
+} from './report-store.js';
+import {
+  aggregateCosts,
+  formatCostReportCsv,
+  parseCostDimensions,
+  type CostReport,
+} from './cost-report.js';
+import { loadConfig } from './config.js';
+import { setModelPricing } from './model-pricing.js';
+import {
+  logSection,
+  logTable,
+  logKeyValue,
+  logSuccess,
+  logWarningMessage,
+} from './logger-extended.js';
+
+const COST_FORMATS = ['table', 'csv', 'json'] as const;
+
+export type CostsCommandOptions = {
+  repo?: string;
+  pr?: number;
+  since?: string;
+  groupBy?: string;
+  format?: string;
+  out?: string;
+  dir?: string;
+};
+
+/**
+ * `costs`: LLM spend of the saved agent analyses, grouped by --group-by
+ */
+export async function runCosts(options: CostsCommandOptions): Promise<void> {
+  const groupBy = parseCostDimensions(options.groupBy || 'repo');
+  const format = options.format || 'table';
+  if (!(COST_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Invalid --format "${format}". Use one of: ${COST_FORMATS.join(', ')}`);
+  }
+
+  // Prices runs that were saved before each call recorded its own cost
+  setModelPricing((await loadConfig()).modelPricing);
+  const report = aggregateCosts(await loadReports(options), groupBy);
+
+  if (format === 'table') {
+    printCostReport(report, options);
+    return;
+  }
+
+  const output =
+    format === 'csv' ? formatCostReportCsv(report) : JSON.stringify(report, null, 2) + '\n';
+
+  if (options.out) {
+    await fs.writeFile(options.out, output, 'utf-8');
+    logSuccess(`Wrote ${report.rows.length} cost rows to ${options.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+async function loadReports(options: CostsCommandOptions): Promise<StoredReport[]> {
+  const since = options.since ? parseSince(options.since) : undefined;
+  const entries = (
+    await listStoredReports({ repository: options.repo, prNumber: options.pr }, options.dir)
+  ).filter((entry) => !since || entry.createdAt >= since);
+
+  const reports = await Promise.all(entries.map((entry) => readStoredReport(entry)));
+  return reports.filter((report): report is StoredReport => report !== null);
+}
+
+function parseSince(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid --since "${value}". Use a date such as 2025-01-31`);
+  }
+  return date.toISOString();
+}
+
+function printCostReport(report: CostReport, options: CostsCommandOptions): void {
+  if (report.totals.runs === 0) {
+    logWarningMessage(
+      `No saved agent analyses with execution stats found in ${getReportDir(options.dir)}`
+    );
+    return;
+  }
+
+  logSection('LLM costs', '💸');
+  logKeyValue('Runs', report.totals.runs);
+  logKeyValue('Agent calls', report.totals.calls);
+  logKeyValue('Tokens', report.totals.totalTokens.toLocaleString());
+  logKeyValue('Estimated cost', formatCost(report.totals.cost));
+  logTable(
+    [...report.groupBy.map(toHeader), 'Runs', 'Calls', 'Tokens', 'Cost'],
+    report.rows.map((row) => [
+      ...report.groupBy.map((dimension) => row[dimension] ?? ''),
+      String(row.runs),
+      String(row.calls),
+      row.totalTokens.toLocaleString(),
+      formatCost(row.cost),
+    ])
+  );
+}
+
+function toHeader(dimension: string): string {
+  return dimension.charAt(0).toUpperCase() + dimension.slice(1);
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
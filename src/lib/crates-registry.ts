@@ -0,0 +1,208 @@
+/**
+ * crates.io registry operations
+ * Reads version lists and feature tables from a sparse index
+ * (https://doc.rust-lang.org/cargo/reference/registry-index.html) and crate
+ * metadata from a crates.io-compatible web API, so mirrors and local stand-ins work too
+ */
+
+import semver from 'semver';
+import { httpGet, httpGetText } from './http-client.js';
+import { getEnvironmentConfig } from './env-config.js';
+import { validateCrateName, escapeForUrl } from './validation.js';
+import { loggers } from './logger.js';
+
+export const DEFAULT_CRATES_INDEX = 'https://index.crates.io';
+export const DEFAULT_CRATES_API = 'https://crates.io';
+
+export type CrateIndexDependency = {
+  name: string;
+  req: string;
+  features?: string[];
+  optional?: boolean;
+  default_features?: boolean;
+  kind?: 'normal' | 'dev' | 'build';
+  package?: string;
+};
+
+/**
+ * One line of a sparse index file
+ */
+export type CrateIndexEntry = {
+  name: string;
+  vers: string;
+  deps: CrateIndexDependency[];
+  features: Record<string, string[]>;
+  features2?: Record<string, string[]>;
+  yanked: boolean;
+  rust_version?: string;
+};
+
+export type CrateApiResponse = {
+  crate: {
+    name: string;
+    description?: string | null;
+    homepage?: string | null;
+    repository?: string | null;
+    documentation?: string | null;
+  };
+  versions?: Array<{
+    num: string;
+    created_at?: string;
+    yanked?: boolean;
+    license?: string | null;
+  }>;
+};
+
+export type CratesRegistryOptions = {
+  indexUrl?: string;
+  apiUrl?: string;
+};
+
+function getIndexUrl(options: CratesRegistryOptions): string {
+  const base = options.indexUrl || getEnvironmentConfig().cratesIndexUrl || DEFAULT_CRATES_INDEX;
+  return base.replace(/^sparse\+/, '').replace(/\/+$/, '');
+}
+
+function getApiUrl(options: CratesRegistryOptions): string {
+  const base = options.apiUrl || getEnvironmentConfig().cratesApiUrl || DEFAULT_CRATES_API;
+  return base.replace(/\/+$/, '');
+}
+
+/**
+ * Compute the sparse index path for a crate name
+ * 1 and 2 character names live in "1/" and "2/", 3 character names in "3/{first}",
+ * everything else in "{chars 0-1}/{chars 2-3}"
+ */
+export function getCrateIndexPath(crateName: string): string {
+  const name = crateName.toLowerCase();
+
+  if (name.length <= 2) {
+    return `${name.length}/${name}`;
+  }
+
+  if (name.length === 3) {
+    return `3/${name[0]}/${name}`;
+  }
+
+  return `${name.slice(0, 2)}/${name.slice(2, 4)}/${name}`;
+}
+
+/**
+ * Fetch every published version of a crate from the sparse index
+ */
+export async function fetchCrateIndex(
+  crateName: string,
+  options: CratesRegistryOptions = {}
+): Promise<CrateIndexEntry[]> {
+  const safeName = validateCrateName(crateName);
+  const baseUrl = getIndexUrl(options);
+  const response = await httpGetText(`${baseUrl}/${getCrateIndexPath(safeName)}`, { baseUrl });
+
+  if (!response.ok || !response.data) {
+    loggers.debug(`Crate index lookup failed for ${crateName}:`, response.error);
+    return [];
+  }
+
+  const entries: CrateIndexEntry[] = [];
+  for (const line of response.data.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as CrateIndexEntry);
+    } catch {
+      loggers.debug(`Skipping malformed index line for ${crateName}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Fetch crate-level metadata (description, repository, per-version publish dates)
+ */
+export async function fetchCrateApiData(
+  crateName: string,
+  options: CratesRegistryOptions = {}
+): Promise<CrateApiResponse | null> {
+  const safeName = validateCrateName(crateName);
+  const baseUrl = getApiUrl(options);
+  const response = await httpGet<CrateApiResponse>(
+    `${baseUrl}/api/v1/crates/${escapeForUrl(safeName)}`,
+    { headers: { 'User-Agent': 'renovate-safety' }, baseUrl }
+  );
+
+  if (!response.ok || !response.data) {
+    loggers.debug(`Crate API lookup failed for ${crateName}:`, response.error);
+    return null;
+  }
+
+  return response.data;
+}
+
+/**
+ * Find the index entry for an exact version
+ */
+export function findCrateVersion(
+  entries: CrateIndexEntry[],
+  version: string
+): CrateIndexEntry | undefined {
+  const normalized = version.replace(/^v/, '');
+  return entries.find((entry) => entry.vers === normalized);
+}
+
+/**
+ * Versions published after fromVersion up to and including toVersion, ascending
+ */
+export function getCrateVersionsInRange(
+  entries: CrateIndexEntry[],
+  fromVersion: string,
+  toVersion: string
+): CrateIndexEntry[] {
+  return entries
+    .filter(
+      (entry) =>
+        semver.valid(entry.vers) !== null &&
+        semver.gt(entry.vers, fromVersion) &&
+        semver.lte(entry.vers, toVersion)
+    )
+    .sort((a, b) => semver.compare(a.vers, b.vers));
+}
+
+/**
+ * All feature names a version exposes, including the implicit features Cargo
+ * creates for optional dependencies that are not referenced via "dep:"
+ */
+export function getCrateFeatureNames(entry: CrateIndexEntry): Set<string> {
+  const explicit = { ...entry.features, ...entry.features2 };
+  const names = new Set(Object.keys(explicit));
+
+  const referencedWithDepPrefix = new Set(
+    Object.values(explicit)
+      .flat()
+      .filter((value) => value.startsWith('dep:'))
+      .map((value) => value.slice(4))
+  );
+
+  for (const dep of entry.deps) {
+    if (dep.optional && !referencedWithDepPrefix.has(dep.name)) {
+      names.add(dep.name);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Features present in the old version that no longer exist in the new one
+ */
+export function diffCrateFeatures(
+  fromEntry: CrateIndexEntry,
+  toEntry: CrateIndexEntry
+): { removed: string[]; added: string[] } {
+  const fromFeatures = getCrateFeatureNames(fromEntry);
+  const toFeatures = getCrateFeatureNames(toEntry);
+
+  return {
+    removed: [...fromFeatures].filter((name) => !toFeatures.has(name)).sort(),
+    added: [...toFeatures].filter((name) => !fromFeatures.has(name)).sort(),
+  };
+}
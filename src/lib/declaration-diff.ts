@@ -0,0 +1,362 @@
+/**
+ * Declaration-level API diff
+ * Loads the `types`/`typings` entry of two published versions into one TypeScript program and
+ * compares their exports with the type checker, so parameter and return types are compared by
+ * assignability rather than by text
+ */
+
+import pacote from 'pacote';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import {
+  Node,
+  Project,
+  TypeFormatFlags,
+  type Signature,
+  type SourceFile,
+  type Type,
+  type TypeChecker,
+} from 'ts-morph';
+import { getCacheStore } from './cache-store.js';
+import { withOfflineBundle } from './offline-bundle.js';
+import { readJsonFile, fileExists } from './file-helpers.js';
+import type { DeclarationChange, DeclarationDiff, PackageUpdate } from '../types/index.js';
+
+type Parameter = {
+  name: string;
+  type: Type;
+  optional: boolean;
+  rest: boolean;
+};
+
+type PackageJsonTypes = {
+  types?: string;
+  typings?: string;
+  main?: string;
+  exports?: unknown;
+};
+
+/** Cached for versions without type declarations, since the cache does not keep null */
+type UntypedDeclarations = { typed: false };
+
+/**
+ * Declaration diff of two published versions; null when either has no type declarations.
+ * Cached without expiry, published versions never change
+ */
+export async function fetchDeclarationDiff(
+  packageUpdate: PackageUpdate
+): Promise<DeclarationDiff | null> {
+  const { name, fromVersion, toVersion } = packageUpdate;
+  const key = `declaration-diff:${name}@${fromVersion}->${toVersion}`;
+
+  // The tarballs are extracted to disk, so offline bundles record the diff itself
+  const cached = await getCacheStore().getOrSet<DeclarationDiff | UntypedDeclarations>(
+    'diff',
+    key,
+    async () =>
+      (await withOfflineBundle('registry', key, () =>
+        diffPublishedDeclarations(packageUpdate)
+      )) ?? { typed: false }
+  );
+  return cached && 'changes' in cached ? cached : null;
+}
+
+async function diffPublishedDeclarations(
+  packageUpdate: PackageUpdate
+): Promise<DeclarationDiff | null> {
+  const { name, fromVersion, toVersion } = packageUpdate;
+  const tempDir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-types-'));
+
+  try {
+    const fromDir = path.join(tempDir, 'from');
+    const toDir = path.join(tempDir, 'to');
+    await Promise.all([
+      pacote.extract(`${name}@${fromVersion}`, fromDir),
+      pacote.extract(`${name}@${toVersion}`, toDir),
+    ]);
+
+    const [fromEntry, toEntry] = await Promise.all([
+      findTypesEntry(fromDir),
+      findTypesEntry(toDir),
+    ]);
+    if (!fromEntry || !toEntry) return null;
+
+    return {
+      fromVersion,
+      toVersion,
+      fromEntry: path.relative(fromDir, fromEntry),
+      toEntry: path.relative(toDir, toEntry),
+      changes: compareDeclarations(fromEntry, toEntry),
+    };
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Declaration file a package publishes: `types`/`typings`, the `types` condition of the
+ * root export, then the .d.ts next to `main` or index.d.ts
+ */
+export async function findTypesEntry(packageDir: string): Promise<string | null> {
+  const packageJson = await readJsonFile<PackageJsonTypes>(path.join(packageDir, 'package.json'));
+  const main = packageJson?.main?.replace(/\.(c|m)?js$/, '');
+
+  const candidates = [
+    packageJson?.types,
+    packageJson?.typings,
+    getRootExportTypes(packageJson?.exports),
+    main && `${main}.d.ts`,
+    main && path.join(main, 'index.d.ts'),
+    'index.d.ts',
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const file = path.resolve(packageDir, candidate);
+    if (file.startsWith(packageDir) && (await fileExists(file))) {
+      return file;
+    }
+  }
+
+  return null;
+}
+
+function getRootExportTypes(exports: unknown): string | undefined {
+  if (!exports || typeof exports !== 'object') return undefined;
+
+  const root = '.' in exports ? (exports as Record<string, unknown>)['.'] : exports;
+  if (root && typeof root === 'object' && 'types' in root) {
+    const { types } = root as { types: unknown };
+    return typeof types === 'string' ? types : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Changes between the exports of two declaration entry files
+ */
+export function compareDeclarations(fromEntry: string, toEntry: string): DeclarationChange[] {
+  const project = new Project({
+    compilerOptions: { strict: true, skipLibCheck: true, noEmit: true },
+    skipAddingFilesFromTsConfig: true,
+  });
+  const fromFile = project.addSourceFileAtPath(fromEntry);
+  const toFile = project.addSourceFileAtPath(toEntry);
+  project.resolveSourceFileDependencies();
+
+  const checker = project.getTypeChecker();
+  const before = getExportedApis(checker, fromFile);
+  const after = getExportedApis(checker, toFile);
+  const changes: DeclarationChange[] = [];
+
+  for (const [name, previous] of before) {
+    const next = after.get(name);
+    if (!next) {
+      changes.push({ kind: 'removed-export', name, classification: 'breaking' });
+      continue;
+    }
+
+    changes.push(
+      ...compareSignatures(checker, name, previous.getCallSignatures(), next.getCallSignatures()),
+      ...compareSignatures(
+        checker,
+        `new ${name}`,
+        previous.getConstructSignatures(),
+        next.getConstructSignatures()
+      )
+    );
+  }
+
+  for (const name of after.keys()) {
+    if (!before.has(name)) {
+      changes.push({ kind: 'added-export', name, classification: 'compatible' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Type of every export by name; type-only exports have no call or construct signatures
+ */
+function getExportedApis(checker: TypeChecker, sourceFile: SourceFile): Map<string, Type> {
+  const apis = new Map<string, Type>();
+  const moduleSymbol = sourceFile.getSymbol();
+  if (!moduleSymbol) return apis;
+
+  for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+    const resolved = (symbol.isAlias() && symbol.getAliasedSymbol()) || symbol;
+    const node = resolved.getDeclarations()[0] ?? sourceFile;
+    apis.set(symbol.getName(), checker.getTypeOfSymbolAtLocation(resolved, node));
+  }
+
+  return apis;
+}
+
+/**
+ * Every previous overload must still be callable: it is matched with the new signature that
+ * breaks the fewest of its calls, and reported removed when the overload count dropped and
+ * no new signature accepts its calls
+ */
+function compareSignatures(
+  checker: TypeChecker,
+  name: string,
+  before: Signature[],
+  after: Signature[]
+): DeclarationChange[] {
+  if (before.length === 0) return [];
+
+  const changes: DeclarationChange[] = [];
+  const matched = new Set<Signature>();
+
+  for (const previous of before) {
+    const best = after
+      .map((next) => ({ next, changes: compareSignature(checker, name, previous, next) }))
+      .sort(
+        (a, b) =>
+          countBreaking(a.changes) - countBreaking(b.changes) || a.changes.length - b.changes.length
+      )[0];
+
+    if (!best || (after.length < before.length && countBreaking(best.changes) > 0)) {
+      changes.push({
+        kind: 'removed-overload',
+        name,
+        classification: 'breaking',
+        detail: formatSignature(checker, previous),
+      });
+      continue;
+    }
+
+    matched.add(best.next);
+    changes.push(...best.changes);
+  }
+
+  if (after.length > before.length) {
+    for (const next of after.filter((signature) => !matched.has(signature))) {
+      changes.push({
+        kind: 'added-overload',
+        name,
+        classification: 'compatible',
+        detail: formatSignature(checker, next),
+      });
+    }
+  }
+
+  return changes;
+}
+
+function compareSignature(
+  checker: TypeChecker,
+  name: string,
+  previous: Signature,
+  next: Signature
+): DeclarationChange[] {
+  const changes: DeclarationChange[] = [];
+  const previousParameters = getParameters(checker, previous);
+  const nextParameters = getParameters(checker, next);
+  const enclosing = next.getDeclaration();
+
+  nextParameters.forEach((parameter, index) => {
+    const old = previousParameters[index];
+    if (!old) {
+      const required = !parameter.optional && !parameter.rest;
+      changes.push({
+        kind: required ? 'new-required-parameter' : 'new-optional-parameter',
+        name,
+        classification: required ? 'breaking' : 'compatible',
+        detail: `${parameter.name}: ${formatType(parameter.type, enclosing)}`,
+      });
+      return;
+    }
+
+    if (old.optional && !parameter.optional && !parameter.rest) {
+      changes.push({
+        kind: 'new-required-parameter',
+        name,
+        classification: 'breaking',
+        detail: `${parameter.name} is no longer optional`,
+      });
+    }
+
+    // A rest parameter and a single one have incomparable types
+    if (old.rest !== parameter.rest) return;
+
+    const detail = `${parameter.name}: ${formatType(old.type, enclosing)} → ${formatType(parameter.type, enclosing)}`;
+    if (!isAssignable(checker, old.type, parameter.type)) {
+      changes.push({ kind: 'narrowed-parameter', name, classification: 'breaking', detail });
+    } else if (!isAssignable(checker, parameter.type, old.type)) {
+      changes.push({ kind: 'widened-parameter', name, classification: 'compatible', detail });
+    }
+  });
+
+  for (const old of previousParameters.slice(nextParameters.length)) {
+    // Calls that pass the argument no longer compile
+    if (!nextParameters.some((parameter) => parameter.rest)) {
+      changes.push({
+        kind: 'removed-parameter',
+        name,
+        classification: 'breaking',
+        detail: `${old.name}: ${formatType(old.type, previous.getDeclaration())}`,
+      });
+    }
+  }
+
+  const previousReturn = previous.getReturnType();
+  const nextReturn = next.getReturnType();
+  if (!isAssignable(checker, nextReturn, previousReturn)) {
+    changes.push({
+      kind: 'changed-return-type',
+      name,
+      classification: 'breaking',
+      detail: `${formatType(previousReturn, enclosing)} → ${formatType(nextReturn, enclosing)}`,
+    });
+  } else if (!isAssignable(checker, previousReturn, nextReturn)) {
+    // Narrower return types still satisfy every caller
+    changes.push({
+      kind: 'changed-return-type',
+      name,
+      classification: 'compatible',
+      detail: `${formatType(previousReturn, enclosing)} → ${formatType(nextReturn, enclosing)}`,
+    });
+  }
+
+  return changes;
+}
+
+function getParameters(checker: TypeChecker, signature: Signature): Parameter[] {
+  return signature.getParameters().map((symbol) => {
+    const declaration = symbol.getValueDeclaration() ?? signature.getDeclaration();
+    const isParameter = Node.isParameterDeclaration(declaration);
+
+    return {
+      name: symbol.getName(),
+      type: checker.getTypeOfSymbolAtLocation(symbol, declaration),
+      optional: isParameter && (declaration.hasQuestionToken() || declaration.hasInitializer()),
+      rest: isParameter && declaration.isRestParameter(),
+    };
+  });
+}
+
+function isAssignable(checker: TypeChecker, source: Type, target: Type): boolean {
+  return checker.compilerObject.isTypeAssignableTo(source.compilerType, target.compilerType);
+}
+
+function countBreaking(changes: DeclarationChange[]): number {
+  return changes.filter((change) => change.classification === 'breaking').length;
+}
+
+function formatType(type: Type, enclosing: Node): string {
+  return type.getText(
+    enclosing,
+    TypeFormatFlags.NoTruncation | TypeFormatFlags.UseAliasDefinedOutsideCurrentScope
+  );
+}
+
+function formatSignature(checker: TypeChecker, signature: Signature): string {
+  return checker.compilerObject.signatureToString(
+    signature.compilerSignature,
+    signature.getDeclaration().compilerNode,
+    TypeFormatFlags.NoTruncation | TypeFormatFlags.UseAliasDefinedOutsideCurrentScope
+  );
+}
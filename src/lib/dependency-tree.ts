@@ -3,6 +3,7 @@ import * as path from 'path';
 import { secureNpmExec, secureSystemExec } from './secure-exec.js';
 import { validatePackageName } from './validation.js';
 import { readJsonFile } from './file-helpers.js';
+import type { ComposerManifest, ComposerLock } from './packagist.js';
 import type { DependencyUsage, DependentInfo } from '../types/index.js';
 
 export type DependencyImpact = {
@@ -13,6 +14,10 @@ export type DependencyImpact = {
 
 export async function analyzeDependencyUsage(packageName: string): Promise<DependencyUsage | null> {
   try {
+    // Composer packages ("vendor/package") are declared in composer.json, not package.json
+    const composerResult = await analyzeWithComposer(packageName);
+    if (composerResult) return composerResult;
+
     // Try npm first, then yarn
     const npmResult = await analyzeWithNpm(packageName);
     if (npmResult) return npmResult;
@@ -83,6 +88,53 @@ async function analyzeWithYarn(packageName: string): Promise<DependencyUsage | n
   }
 }
 
+async function analyzeWithComposer(packageName: string): Promise<DependencyUsage | null> {
+  const manifest = await readJsonFile<ComposerManifest>(path.join(process.cwd(), 'composer.json'));
+  if (!manifest) return null;
+
+  const lock = await readJsonFile<ComposerLock>(path.join(process.cwd(), 'composer.lock'));
+  const lockedPackages = [...(lock?.packages ?? []), ...(lock?.['packages-dev'] ?? [])];
+  const rootName = manifest.name || 'root';
+
+  let directType: DependencyUsage['usageType'] | null = null;
+  if (manifest.require?.[packageName]) {
+    directType = 'dependencies';
+  } else if (manifest['require-dev']?.[packageName]) {
+    directType = 'devDependencies';
+  }
+  const requiredBy = lockedPackages.filter((entry) => entry.require?.[packageName]);
+
+  if (!directType && requiredBy.length === 0) {
+    return lockedPackages.some((entry) => entry.name === packageName)
+      ? { packageName, dependents: [], isDirect: false, usageType: 'dependencies' }
+      : null;
+  }
+
+  const dependents: DependentInfo[] = requiredBy.map((entry) => ({
+    name: entry.name,
+    version: entry.require?.[packageName] ?? '*',
+    path: [rootName, entry.name],
+    type: 'transitive',
+  }));
+
+  if (directType) {
+    const constraints = directType === 'dependencies' ? manifest.require : manifest['require-dev'];
+    dependents.unshift({
+      name: rootName,
+      version: constraints?.[packageName] ?? '*',
+      path: [rootName],
+      type: 'direct',
+    });
+  }
+
+  return {
+    packageName,
+    dependents,
+    isDirect: directType !== null,
+    usageType: directType ?? 'dependencies',
+  };
+}
+
 async function analyzePackageJson(packageName: string): Promise<DependencyUsage | null> {
   try {
     const packageJsonPath = path.join(process.cwd(), 'package.json');
@@ -0,0 +1,325 @@
+/**
+ * Docker image registry operations
+ * Tag metadata comes from the Docker Hub API (https://docs.docker.com/docker-hub/api/latest/);
+ * images on other registries are compared by tag name only
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { httpGet } from './http-client.js';
+import { getEnvironmentConfig } from './env-config.js';
+import { getFiles } from './glob-helpers.js';
+import { validateDockerImageName, escapeForUrl } from './validation.js';
+import { loggers } from './logger.js';
+
+export const DEFAULT_DOCKER_HUB_API = 'https://hub.docker.com';
+
+export type DockerImageName = {
+  registry: string;
+  namespace: string;
+  repository: string;
+};
+
+export type DockerHubImage = {
+  architecture: string;
+  os: string;
+  variant?: string | null;
+  size?: number;
+  digest?: string;
+};
+
+export type DockerHubTag = {
+  name: string;
+  last_updated?: string;
+  full_size?: number;
+  digest?: string;
+  images?: DockerHubImage[];
+};
+
+export type DockerHubRepository = {
+  name: string;
+  namespace: string;
+  description?: string | null;
+  last_updated?: string;
+  pull_count?: number;
+  star_count?: number;
+};
+
+/**
+ * What changed between two tags of the same image
+ */
+export type DockerImageTagComparison = {
+  removedPlatforms: string[];
+  addedPlatforms: string[];
+  variantChange?: { from: string | null; to: string | null };
+  majorVersionChange?: { from: number; to: number };
+  sizeChange?: { from: number; to: number };
+};
+
+/**
+ * A FROM line (Dockerfile) or image: key (Compose file) referencing an image
+ */
+export type DockerImageReference = {
+  file: string;
+  line: number;
+  code: string;
+  kind: 'dockerfile' | 'compose';
+  tag?: string;
+};
+
+const DOCKER_HUB_REGISTRY = 'docker.io';
+
+const IMAGE_FILE_PATTERNS = [
+  '**/Dockerfile',
+  '**/Dockerfile.*',
+  '**/*.Dockerfile',
+  '**/*.dockerfile',
+  '**/docker-compose*.yml',
+  '**/docker-compose*.yaml',
+  '**/compose.yml',
+  '**/compose.yaml',
+];
+
+function getApiUrl(apiUrl?: string): string {
+  const base = apiUrl || getEnvironmentConfig().dockerHubApiUrl || DEFAULT_DOCKER_HUB_API;
+  return base.replace(/\/+$/, '');
+}
+
+/**
+ * Split an image name into registry, namespace and repository
+ * Official Docker Hub images ("node") live in the "library" namespace
+ */
+export function parseImageName(imageName: string): DockerImageName {
+  const segments = validateDockerImageName(imageName).split('/');
+  const hasRegistry =
+    segments.length > 1 &&
+    (segments[0].includes('.') || segments[0].includes(':') || segments[0] === 'localhost');
+
+  const registry = hasRegistry ? segments[0] : DOCKER_HUB_REGISTRY;
+  const isDockerHub = registry === DOCKER_HUB_REGISTRY || registry === 'index.docker.io';
+  const path = hasRegistry ? segments.slice(1) : segments;
+  const repository = path[path.length - 1];
+  const namespace = path.slice(0, -1).join('/') || (isDockerHub ? 'library' : '');
+
+  return {
+    registry: isDockerHub ? DOCKER_HUB_REGISTRY : registry,
+    namespace,
+    repository,
+  };
+}
+
+/**
+ * Canonical "registry/namespace/repository" form, so "node" and "docker.io/library/node" compare equal
+ */
+export function getCanonicalImageName(imageName: string): string {
+  const { registry, namespace, repository } = parseImageName(imageName);
+  return [registry, namespace, repository].filter(Boolean).join('/');
+}
+
+export function isDockerHubImage(imageName: string): boolean {
+  return parseImageName(imageName).registry === DOCKER_HUB_REGISTRY;
+}
+
+/**
+ * Split a tag such as "20.11-alpine3.19" into its version and variant parts
+ */
+export function parseImageTag(tag: string): { version: string | null; variant: string | null } {
+  const match = /^v?(\d+(?:\.\d+)*)(?:-(.+))?$/.exec(tag);
+  if (!match) {
+    return { version: null, variant: tag };
+  }
+
+  return { version: match[1], variant: match[2] ?? null };
+}
+
+/**
+ * Fetch Docker Hub metadata for one tag of an image
+ */
+export async function fetchDockerHubTag(
+  imageName: string,
+  tag: string,
+  apiUrl?: string
+): Promise<DockerHubTag | null> {
+  const { registry, namespace, repository } = parseImageName(imageName);
+  if (registry !== DOCKER_HUB_REGISTRY) {
+    return null;
+  }
+
+  const response = await httpGet<DockerHubTag>(
+    `${getApiUrl(apiUrl)}/v2/repositories/${namespace}/${repository}/tags/${escapeForUrl(tag)}`
+  );
+
+  if (!response.ok || !response.data) {
+    loggers.debug(`Docker Hub tag lookup failed for ${imageName}:${tag}:`, response.error);
+    return null;
+  }
+
+  return response.data;
+}
+
+/**
+ * Fetch Docker Hub repository metadata (description, pull count)
+ */
+export async function fetchDockerHubRepository(
+  imageName: string,
+  apiUrl?: string
+): Promise<DockerHubRepository | null> {
+  const { registry, namespace, repository } = parseImageName(imageName);
+  if (registry !== DOCKER_HUB_REGISTRY) {
+    return null;
+  }
+
+  const response = await httpGet<DockerHubRepository>(
+    `${getApiUrl(apiUrl)}/v2/repositories/${namespace}/${repository}`
+  );
+
+  if (!response.ok || !response.data) {
+    loggers.debug(`Docker Hub repository lookup failed for ${imageName}:`, response.error);
+    return null;
+  }
+
+  return response.data;
+}
+
+/**
+ * Compare two tags by name and, when available, by their published platforms and sizes
+ */
+export function compareImageTags(
+  fromTag: string,
+  toTag: string,
+  fromInfo?: DockerHubTag | null,
+  toInfo?: DockerHubTag | null
+): DockerImageTagComparison {
+  const comparison: DockerImageTagComparison = { removedPlatforms: [], addedPlatforms: [] };
+  const from = parseImageTag(fromTag);
+  const to = parseImageTag(toTag);
+
+  if (from.variant !== to.variant) {
+    comparison.variantChange = { from: from.variant, to: to.variant };
+  }
+
+  const fromMajor = from.version ? parseInt(from.version, 10) : NaN;
+  const toMajor = to.version ? parseInt(to.version, 10) : NaN;
+  if (!isNaN(fromMajor) && !isNaN(toMajor) && fromMajor !== toMajor) {
+    comparison.majorVersionChange = { from: fromMajor, to: toMajor };
+  }
+
+  if (fromInfo?.images && toInfo?.images) {
+    const fromPlatforms = getPlatforms(fromInfo.images);
+    const toPlatforms = getPlatforms(toInfo.images);
+    comparison.removedPlatforms = fromPlatforms.filter((p) => !toPlatforms.includes(p));
+    comparison.addedPlatforms = toPlatforms.filter((p) => !fromPlatforms.includes(p));
+  }
+
+  if (fromInfo?.full_size && toInfo?.full_size) {
+    comparison.sizeChange = { from: fromInfo.full_size, to: toInfo.full_size };
+  }
+
+  return comparison;
+}
+
+/**
+ * Render a tag comparison as changelog lines understood by extractBreakingChanges
+ */
+export function describeImageTagComparison(
+  imageName: string,
+  comparison: DockerImageTagComparison,
+  toTag: string
+): string[] {
+  const lines: string[] = [];
+
+  comparison.removedPlatforms.forEach((platform) =>
+    lines.push(`BREAKING: Platform ${platform} is no longer published for ${imageName}:${toTag}`)
+  );
+  if (comparison.majorVersionChange) {
+    lines.push(
+      `⚠️ Image major version changed from ${comparison.majorVersionChange.from} to ${comparison.majorVersionChange.to}`
+    );
+  }
+  if (comparison.variantChange) {
+    lines.push(
+      `⚠️ Base image variant changed from ${comparison.variantChange.from ?? 'default'} to ${comparison.variantChange.to ?? 'default'}`
+    );
+  }
+  if (comparison.addedPlatforms.length > 0) {
+    lines.push(`New platforms: ${comparison.addedPlatforms.join(', ')}`);
+  }
+  if (comparison.sizeChange) {
+    lines.push(
+      `Compressed size: ${formatMegabytes(comparison.sizeChange.from)} -> ${formatMegabytes(comparison.sizeChange.to)}`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Find FROM lines and Compose image: keys that reference an image
+ */
+export async function findDockerImageReferences(
+  projectPath: string,
+  imageName: string
+): Promise<DockerImageReference[]> {
+  const canonicalName = getCanonicalImageName(imageName);
+  const references: DockerImageReference[] = [];
+  const files = await getFiles(IMAGE_FILE_PATTERNS, { cwd: projectPath, includeTests: true });
+
+  for (const file of files) {
+    const kind = /compose[^/]*\.ya?ml$/.test(file) ? 'compose' : 'dockerfile';
+    const pattern =
+      kind === 'dockerfile'
+        ? /^\s*FROM\s+(?:--platform=\S+\s+)?(\S+)/i
+        : /^\s*image:\s*['"]?([^'"\s]+)/;
+    const lines = (await readFile(join(projectPath, file), 'utf-8')).split('\n');
+
+    lines.forEach((line, index) => {
+      const match = pattern.exec(line);
+      if (!match) return;
+
+      const { name, tag } = splitImageReference(match[1]);
+      if (!name || !isSameImage(name, canonicalName)) return;
+
+      references.push({ file, line: index + 1, code: line.trim(), kind, tag });
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Split "name[:tag][@digest]" into name and tag
+ */
+function splitImageReference(reference: string): { name: string; tag?: string } {
+  const withoutDigest = reference.split('@')[0];
+  const lastSlash = withoutDigest.lastIndexOf('/');
+  const tagSeparator = withoutDigest.indexOf(':', lastSlash + 1);
+
+  if (tagSeparator === -1) {
+    return { name: withoutDigest };
+  }
+
+  return {
+    name: withoutDigest.slice(0, tagSeparator),
+    tag: withoutDigest.slice(tagSeparator + 1),
+  };
+}
+
+function isSameImage(name: string, canonicalName: string): boolean {
+  try {
+    return getCanonicalImageName(name) === canonicalName;
+  } catch {
+    // Build args ("${BASE_IMAGE}") and stage names are not image names
+    return false;
+  }
+}
+
+function getPlatforms(images: DockerHubImage[]): string[] {
+  const platforms = images
+    .filter((image) => image.os !== 'unknown')
+    .map((image) => [image.os, image.architecture, image.variant].filter(Boolean).join('/'));
+  return [...new Set(platforms)].sort();
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -1,9 +1,22 @@
 import chalk from 'chalk';
 import { getEnvironmentConfig } from './env-config.js';
 import * as fs from 'fs/promises';
+import * as path from 'path';
 import { secureSystemExec } from './secure-exec.js';
 import { getSourceFiles } from './glob-helpers.js';
 import { loggers } from './logger.js';
+import { loadConfig } from './config.js';
+import { loadUsageRulePacks, PROJECT_USAGE_RULES_DIR, type UsageRulePack } from './usage-rules.js';
+import { loadCodemodPacks, PROJECT_CODEMODS_DIR, type CodemodPack } from './codemods.js';
+import {
+  BUILTIN_PROVIDERS,
+  getAgentProvider,
+  getFallbackOrder,
+  getLLMProvider,
+  getLLMProviderNames,
+  hasProviderCredentials,
+  type LLMProvider,
+} from './llm-providers.js';
 import {
   logSection,
   logSeparator,
@@ -34,6 +47,7 @@ export async function runDoctorCheck(): Promise<void> {
   checks.push(await checkClaudeCLI());
   checks.push(await checkAnthropicAPI());
   checks.push(await checkOpenAIAPI());
+  checks.push(...(await checkConfiguredLLMProviders()));
 
   // Check 4: Node.js version
   checks.push(await checkNodeVersion());
@@ -41,6 +55,12 @@ export async function runDoctorCheck(): Promise<void> {
   // Check 5: TypeScript/JavaScript files
   checks.push(await checkSourceFiles());
 
+  // Check 6: Usage rule packs
+  checks.push(...(await checkUsageRulePacks()));
+
+  // Check 7: Codemod packs
+  checks.push(...(await checkCodemodPacks()));
+
   // Display results
   displayResults(checks);
 
@@ -277,6 +297,92 @@ async function checkOpenAIAPI(): Promise<HealthCheck> {
   }
 }
 
+async function checkConfiguredLLMProviders(): Promise<HealthCheck[]> {
+  try {
+    await loadConfig();
+  } catch (error) {
+    return [
+      {
+        name: 'LLM Providers',
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid configuration',
+        suggestion: 'Fix the llm section of .renovate-safety.json',
+      },
+    ];
+  }
+
+  const custom = getLLMProviderNames()
+    .filter((name) => !(name in BUILTIN_PROVIDERS))
+    .map((name) => getLLMProvider(name))
+    .filter((provider): provider is LLMProvider => Boolean(provider));
+
+  const checks = await Promise.all(custom.map(checkCustomLLMProvider));
+  return [...checks, checkLLMFallbackOrder()];
+}
+
+async function checkCustomLLMProvider(provider: LLMProvider): Promise<HealthCheck> {
+  const name = `LLM Provider "${provider.name}" (${provider.type})`;
+
+  if (!hasProviderCredentials(provider)) {
+    return {
+      name,
+      status: 'warning',
+      message: 'No API key found',
+      suggestion: provider.apiKeyEnv
+        ? `Set ${provider.apiKeyEnv} environment variable`
+        : 'Set apiKeyEnv for this provider in .renovate-safety.json',
+    };
+  }
+
+  if (provider.type !== 'openai-compatible' || !provider.baseURL) {
+    return { name, status: 'ok', message: 'API key configured' };
+  }
+
+  // Local servers are often just not started; listing the models is cheap and needs no key
+  try {
+    const response = await fetch(`${provider.baseURL.replace(/\/$/, '')}/models`, {
+      signal: globalThis.AbortSignal.timeout(3000),
+    });
+    return response.ok
+      ? { name, status: 'ok', message: `Reachable at ${provider.baseURL}` }
+      : {
+          name,
+          status: 'warning',
+          message: `${provider.baseURL} answered HTTP ${response.status}`,
+          suggestion: 'Check the baseURL and API key of this provider',
+        };
+  } catch {
+    return {
+      name,
+      status: 'warning',
+      message: `Not reachable at ${provider.baseURL}`,
+      suggestion: 'Start the server or fix the baseURL in .renovate-safety.json',
+    };
+  }
+}
+
+function checkLLMFallbackOrder(): HealthCheck {
+  const order = getFallbackOrder()
+    .map((provider) => provider.name)
+    .join(' → ');
+  const agentProvider = getAgentProvider();
+
+  if (!agentProvider) {
+    return {
+      name: 'LLM Fallback Order',
+      status: 'warning',
+      message: `${order}; no provider for the Mastra agents`,
+      suggestion: 'Set OPENAI_API_KEY or configure an openai-compatible provider for the agents',
+    };
+  }
+
+  return {
+    name: 'LLM Fallback Order',
+    status: 'ok',
+    message: `${order}; agents use ${agentProvider.name}`,
+  };
+}
+
 async function checkNodeVersion(): Promise<HealthCheck> {
   const version = process.version;
   const majorVersion = parseInt(version.slice(1).split('.')[0]);
@@ -340,6 +446,58 @@ async function checkSourceFiles(): Promise<HealthCheck> {
   }
 }
 
+async function checkUsageRulePacks(): Promise<HealthCheck[]> {
+  let packs: UsageRulePack[];
+  try {
+    packs = await loadUsageRulePacks();
+  } catch (error) {
+    return [
+      {
+        name: 'Usage Rule Packs',
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid rule pack',
+        suggestion: `Fix the rule pack in ${PROJECT_USAGE_RULES_DIR}`,
+      },
+    ];
+  }
+
+  return packs.map((pack) => {
+    const packages = [...new Set(pack.rules.map((rule) => rule.package))].join(', ');
+    const source = pack.source === 'builtin' ? 'built-in' : path.relative(process.cwd(), pack.file);
+    return {
+      name: `Usage Rules "${pack.name}"`,
+      status: 'ok',
+      message: `${pack.rules.length} rules for ${packages} (${source})`,
+    };
+  });
+}
+
+async function checkCodemodPacks(): Promise<HealthCheck[]> {
+  let packs: CodemodPack[];
+  try {
+    packs = await loadCodemodPacks();
+  } catch (error) {
+    return [
+      {
+        name: 'Codemod Packs',
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid codemod pack',
+        suggestion: `Fix the codemod pack in ${PROJECT_CODEMODS_DIR}`,
+      },
+    ];
+  }
+
+  return packs.map((pack) => {
+    const packages = [...new Set(pack.codemods.map((codemod) => codemod.package))].join(', ');
+    const source = pack.source === 'builtin' ? 'built-in' : path.relative(process.cwd(), pack.file);
+    return {
+      name: `Codemods "${pack.name}"`,
+      status: 'ok',
+      message: `${pack.codemods.length} codemods for ${packages} (${source})`,
+    };
+  });
+}
+
 function displayResults(checks: HealthCheck[]): void {
   for (const check of checks) {
     const icon = getStatusIcon(check.status);
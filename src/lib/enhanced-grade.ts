@@ -1,5 +1,12 @@
-import type { PackageUpdate, RiskAssessment, BreakingChange, LLMSummary } from '../types/index.js';
+import type {
+  PackageUpdate,
+  RiskAssessment,
+  BreakingChange,
+  LLMSummary,
+  TypecheckResult,
+} from '../types/index.js';
 import type { UsageAnalysis } from '../analyzers/base.js';
+import type { LibraryHealth, PopularityMetrics } from './library-intelligence.js';
 import {
   analyzeVersionJump,
   determineDiffDepth,
@@ -9,6 +16,8 @@ import {
   VersionJump,
 } from './risk-assessment-utils.js';
 
+const ROLLBACK_STEP = 'Prepare rollback plan in case of issues';
+
 export type RiskFactors = {
   versionJump: VersionJump;
   usage: {
@@ -20,6 +29,8 @@ export type RiskFactors = {
     changelogAvailable: boolean;
     diffAnalysisDepth: 'full' | 'partial' | 'none';
     communitySignals: number;
+    /** New type errors with the target version; undefined without --typecheck */
+    typecheckErrors?: number;
   };
   packageSpecific: {
     breakingChangePatterns: string[];
@@ -29,6 +40,7 @@ export type RiskFactors = {
     isDevDependency?: boolean;
     isLockfileOnly?: boolean;
   };
+  libraryHealth?: LibraryHealth;
 };
 
 export type EnhancedRiskAssessment = RiskAssessment & {
@@ -43,7 +55,8 @@ export async function assessEnhancedRisk(
   usageAnalysis: UsageAnalysis | null,
   llmSummary: LLMSummary | null,
   hasChangelog: boolean,
-  hasDiff: boolean
+  hasDiff: boolean,
+  libraryHealth?: LibraryHealth
 ): Promise<EnhancedRiskAssessment> {
   const factors = calculateRiskFactors(
     packageUpdate,
@@ -51,7 +64,8 @@ export async function assessEnhancedRisk(
     usageAnalysis,
     llmSummary,
     hasChangelog,
-    hasDiff
+    hasDiff,
+    libraryHealth
   );
 
   const riskScore = calculateRiskScore(factors);
@@ -68,13 +82,50 @@ export async function assessEnhancedRisk(
   };
 }
 
+/**
+ * Fold the result of --typecheck into an assessment. The compiler checked the project itself,
+ * and code that no longer compiles needs changes whatever the score says, @types/* included
+ */
+export function applyTypecheckResult(
+  assessment: EnhancedRiskAssessment,
+  typecheck: TypecheckResult
+): EnhancedRiskAssessment {
+  const typecheckErrors = typecheck.newErrors.length;
+  const factors: RiskFactors = {
+    ...assessment.detailedFactors,
+    confidence: { ...assessment.detailedFactors.confidence, typecheckErrors },
+  };
+  const level = typecheckErrors > 0 && assessment.level !== 'critical' ? 'high' : assessment.level;
+
+  return {
+    ...assessment,
+    level,
+    factors: [
+      ...assessment.factors,
+      typecheckErrors > 0
+        ? `${typecheckErrors} new type errors with the target version`
+        : 'Project still typechecks with the target version',
+    ],
+    estimatedEffort: estimateEffort(factors, level),
+    testingScope: determineTestingScope(factors, level),
+    confidence: Math.min(assessment.confidence + 0.3, 1),
+    detailedFactors: factors,
+    // Raised to high, which comes with a rollback plan
+    mitigationSteps:
+      level === assessment.level
+        ? assessment.mitigationSteps
+        : [...(assessment.mitigationSteps ?? []), ROLLBACK_STEP],
+  };
+}
+
 function calculateRiskFactors(
   packageUpdate: PackageUpdate,
   breakingChanges: BreakingChange[],
   usageAnalysis: UsageAnalysis | null,
   _llmSummary: LLMSummary | null,
   hasChangelog: boolean,
-  hasDiff: boolean
+  hasDiff: boolean,
+  libraryHealth?: LibraryHealth
 ): RiskFactors {
   // Version jump analysis
   const versionJump = analyzeVersionJump(packageUpdate.fromVersion, packageUpdate.toVersion);
@@ -90,7 +141,7 @@ function calculateRiskFactors(
   const confidence = {
     changelogAvailable: hasChangelog,
     diffAnalysisDepth: determineDiffDepth(hasChangelog, hasDiff),
-    communitySignals: 0, // Could be enhanced with GitHub stars, issues, etc.
+    communitySignals: scoreCommunitySignals(libraryHealth?.popularity ?? null),
   };
 
   // Package-specific analysis
@@ -105,7 +156,22 @@ function calculateRiskFactors(
     isLockfileOnly: false, // Will be enhanced when we have access to file changes
   };
 
-  return { versionJump, usage, confidence, packageSpecific };
+  return { versionJump, usage, confidence, packageSpecific, libraryHealth };
+}
+
+/**
+ * 0-100 from weekly downloads and GitHub stars; problems with widely used releases surface
+ * quickly
+ */
+function scoreCommunitySignals(popularity: PopularityMetrics | null): number {
+  if (!popularity) return 0;
+
+  const downloads = popularity.downloads.weekly;
+  const stars = popularity.githubStars ?? 0;
+  const downloadScore = downloads >= 1_000_000 ? 50 : Math.min(downloads / 20_000, 50);
+  const starScore = stars >= 10_000 ? 50 : Math.min(stars / 200, 50);
+
+  return Math.round(downloadScore + starScore);
 }
 
 // analyzeVersionJump is now imported from risk-assessment-utils.ts
@@ -156,7 +222,35 @@ function estimateTestCoverage(usageAnalysis: UsageAnalysis | null): number {
 
 function calculateRiskScore(factors: RiskFactors): number {
   // Use the shared base calculation
-  return calculateBaseRiskScore(factors);
+  return (
+    calculateBaseRiskScore(factors) +
+    calculateMaintenanceRiskScore(factors) -
+    (factors.confidence.communitySignals / 100) * 3
+  );
+}
+
+/**
+ * Unmaintained packages (0-20 points): fixes for regressions of the update may never ship
+ */
+function calculateMaintenanceRiskScore(factors: RiskFactors): number {
+  const maintenance = factors.libraryHealth?.maintenance;
+  if (!maintenance) return 0;
+
+  let score = 0;
+
+  if (maintenance.archived) score += 10;
+  else if (maintenance.releaseFrequency === 'inactive') score += 8;
+  else if (maintenance.releaseFrequency === 'slow') score += 3;
+
+  if (isStale(maintenance.lastCommit)) score += 4;
+  if (maintenance.busFactor === 1) score += 3;
+  if (maintenance.issueTrend === 'worsening') score += 3;
+
+  return Math.min(score, 20);
+}
+
+function isStale(date: string | undefined): boolean {
+  return date !== undefined && Date.now() - Date.parse(date) > 365 * 24 * 60 * 60 * 1000;
 }
 
 function determineRiskLevel(score: number, factors: RiskFactors): RiskAssessment['level'] {
@@ -228,6 +322,7 @@ function calculateConfidence(factors: RiskFactors): number {
   else if (factors.confidence.diffAnalysisDepth === 'partial') confidence += 0.2;
 
   if (factors.usage.testCoverage > 50) confidence += 0.2;
+  if (factors.confidence.communitySignals >= 50) confidence += 0.1;
 
   return Math.min(confidence, 1);
 }
@@ -281,6 +376,44 @@ function generateRiskFactorDescriptions(factors: RiskFactors, _level: string): s
     descriptions.push(`Low test coverage (${Math.round(factors.usage.testCoverage)}%)`);
   }
 
+  descriptions.push(...describeLibraryHealth(factors.libraryHealth));
+
+  return descriptions;
+}
+
+function describeLibraryHealth(libraryHealth: LibraryHealth | undefined): string[] {
+  const descriptions: string[] = [];
+  const maintenance = libraryHealth?.maintenance;
+  const popularity = libraryHealth?.popularity;
+
+  if (maintenance?.archived) {
+    descriptions.push('Repository is archived');
+  } else if (maintenance?.releaseFrequency === 'inactive') {
+    descriptions.push('No releases in the last year');
+  } else if (maintenance?.releaseFrequency === 'slow') {
+    descriptions.push(
+      `Infrequent releases (${maintenance.releasesLastYear ?? 0} in the last year)`
+    );
+  }
+
+  if (isStale(maintenance?.lastCommit)) {
+    descriptions.push(`No commits since ${maintenance?.lastCommit?.slice(0, 10)}`);
+  }
+
+  if (maintenance?.busFactor === 1) {
+    descriptions.push('Single maintainer (bus factor 1)');
+  }
+
+  if (maintenance?.issueTrend === 'worsening') {
+    descriptions.push('Issue backlog is growing');
+  }
+
+  if (popularity && popularity.downloads.weekly >= 1_000_000) {
+    descriptions.push(
+      `Widely used (${popularity.downloads.weekly.toLocaleString('en-US')} weekly downloads)`
+    );
+  }
+
   return descriptions;
 }
 
@@ -355,7 +488,7 @@ function generateMitigationSteps(
 
   // Rollback plan
   if (level === 'high' || level === 'critical') {
-    steps.push('Prepare rollback plan in case of issues');
+    steps.push(ROLLBACK_STEP);
   }
 
   return steps;
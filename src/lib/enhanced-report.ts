@@ -1,9 +1,11 @@
 import type {
   AnalysisResult,
+  GroupedAnalysisResult,
   BreakingChange,
   DependencyUsage,
   DependentInfo,
   APIUsage,
+  WorkspaceImpact,
 } from '../types/index.js';
 import { packageKnowledgeBase } from './package-knowledge.js';
 import {
@@ -68,6 +70,60 @@ export async function generateEnhancedReport(
   return report;
 }
 
+/**
+ * Combined report for a grouped PR: an overview table, then each package's full report
+ * (with headings demoted one level) in a collapsible section
+ */
+export async function generateGroupedReport(
+  result: GroupedAnalysisResult,
+  format: 'markdown' | 'json',
+  language: 'en' | 'ja' = 'en'
+): Promise<string> {
+  if (format === 'json') {
+    return JSON.stringify(result, null, 2);
+  }
+
+  const isJa = language === 'ja';
+  const level = result.riskAssessment.level;
+  let report = isJa
+    ? '# renovate-safety 解析レポート\n\n'
+    : '# Renovate Safety Analysis Report\n\n';
+
+  report += isJa
+    ? `## ${getRiskEmoji(level)} 総合リスク評価: ${level.toUpperCase()}\n`
+    : `## ${getRiskEmoji(level)} Overall Risk Assessment: ${level.toUpperCase()}\n`;
+  report += isJa
+    ? `このPRは ${result.packages.length} 個のパッケージを更新します。\n\n`
+    : `This PR updates ${result.packages.length} packages.\n\n`;
+
+  report += isJa
+    ? '| パッケージ | バージョン | リスク | 破壊的変更 | 利用箇所 |\n'
+    : '| Package | Version | Risk | Breaking Changes | Usages |\n';
+  report += '|---|---|---|---|---|\n';
+  for (const pkg of result.packages) {
+    report += `| \`${pkg.package.name}\` | ${pkg.package.fromVersion} → ${pkg.package.toVersion} | ${getRiskEmoji(pkg.riskAssessment.level)} ${pkg.riskAssessment.level} | ${pkg.breakingChanges.length} | ${pkg.apiUsages.length} |\n`;
+  }
+  report += '\n';
+
+  report += isJa ? '### 💡 サマリ\n' : '### 💡 Summary\n';
+  report += result.recommendation + '\n\n';
+
+  for (const pkg of result.packages) {
+    const packageReport = await generateEnhancedReport(pkg, 'markdown', language);
+    const body = packageReport
+      .replace(/^# .*\n\n/, '')
+      .replace(/---\n[^\n]*$/, '')
+      .replace(/^(#{1,5}) /gm, '#$1 ');
+
+    report += `<details>\n<summary>${getRiskEmoji(pkg.riskAssessment.level)} <code>${pkg.package.name}</code> ${pkg.package.fromVersion} → ${pkg.package.toVersion} (${pkg.riskAssessment.level})</summary>\n\n`;
+    report += `${body.trim()}\n\n</details>\n\n`;
+  }
+
+  report += generateFooter(isJa);
+
+  return report;
+}
+
 function getRiskEmoji(level: string): string {
   const emojis = {
     safe: '✅',
@@ -209,7 +265,11 @@ function formatBreakingChange(change: BreakingChange | string): string {
     .replace(/\s+/g, ' ')
     .trim();
 
-  return change.source ? `${text} (Source: ${change.source})` : text;
+  const located = change.location
+    ? `${text} at \`${change.location.file}:${change.location.line}\``
+    : text;
+
+  return change.source ? `${located} (Source: ${change.source})` : located;
 }
 
 function groupBy<T>(array: T[], key: keyof T): Record<string, T[]> {
@@ -457,10 +517,14 @@ async function generateFunctionalChangesSection(
   result: AnalysisResult,
   isJa: boolean
 ): Promise<string> {
-  if (!result.codeDiff) return '';
+  if (!result.codeDiff && !result.declarationDiff) return '';
 
   try {
-    const { bullets } = await summarizeApiDiff(result.codeDiff, isJa ? 'ja' : 'en');
+    const { bullets } = await summarizeApiDiff(
+      result.codeDiff,
+      isJa ? 'ja' : 'en',
+      result.declarationDiff
+    );
     if (bullets.length > 0) {
       let report = isJa
         ? '### 🔎 機能レベルの変更（要点）\n'
@@ -529,18 +593,49 @@ function generateDependencyUsageSection(result: AnalysisResult, isJa: boolean):
   report += `${typeLabel}: ${typeValue}\n`;
   report += `${isJa ? '- **カテゴリ**' : '- **Category**'}: ${result.dependencyUsage.usageType}\n`;
   const impactLabel = isJa ? '- **影響範囲**' : '- **Impact**';
-  const impactValue = isJa
-    ? `${result.dependencyUsage.dependents.length} パッケージに影響`
-    : `Affects ${result.dependencyUsage.dependents.length} packages`;
+  let impactValue: string;
+  if (result.workspaceImpact) {
+    const { affected, totalPackages } = result.workspaceImpact;
+    impactValue = isJa
+      ? `${totalPackages} パッケージ中 ${affected.length} パッケージに影響`
+      : `${affected.length} of ${totalPackages} packages affected`;
+  } else {
+    impactValue = isJa
+      ? `${result.dependencyUsage.dependents.length} パッケージに影響`
+      : `Affects ${result.dependencyUsage.dependents.length} packages`;
+  }
   report += `${impactLabel}: ${impactValue}\n\n`;
 
-  if (!result.dependencyUsage.isDirect) {
+  if (result.workspaceImpact && result.workspaceImpact.affected.length > 0) {
+    report += generateWorkspaceImpactTable(result.workspaceImpact, isJa);
+  } else if (!result.dependencyUsage.isDirect) {
     report += generateTransitiveDependencyDetails(result.dependencyUsage);
   }
 
   return report;
 }
 
+function generateWorkspaceImpactTable(workspaceImpact: WorkspaceImpact, isJa: boolean): string {
+  let report = isJa
+    ? '| パッケージ | 宣言 | 利用箇所 | 変更API | リスク |\n'
+    : '| Package | Declared | Usages | Changed APIs | Risk |\n';
+  report += '|---------|----------|--------|--------------|------|\n';
+
+  for (const pkg of workspaceImpact.affected) {
+    const notDeclared = isJa ? '未宣言' : 'not declared';
+    const declared = pkg.dependencyType
+      ? `${pkg.dependencyType} \`${pkg.versionRange}\``
+      : notDeclared;
+    const usages = isJa
+      ? `${pkg.usageCount} (本番 ${pkg.productionUsageCount})`
+      : `${pkg.usageCount} (${pkg.productionUsageCount} production)`;
+    const changedApis = pkg.changedApis.map((api) => `\`${api}\``).join(', ') || '-';
+    report += `| \`${pkg.name}\` (${pkg.path}) | ${declared} | ${usages} | ${changedApis} | ${getRiskEmoji(pkg.riskLevel)} ${pkg.riskLevel} |\n`;
+  }
+
+  return report + '\n';
+}
+
 function generateTransitiveDependencyDetails(dependencyUsage: DependencyUsage): string {
   const paths = dependencyUsage.dependents.slice(0, 5);
   const dependencyType = paths[0].type === 'direct' ? 'Direct' : 'Transitive';
@@ -13,8 +13,19 @@ export type EnvironmentConfig = {
 
   // Application Configuration
   language: 'en' | 'ja';
-  llmProvider?: 'claude-cli' | 'anthropic' | 'openai';
+  /** Provider name from the LLM provider registry */
+  llmProvider?: string;
   cacheDir?: string;
+  reportDir?: string;
+
+  // Package registries
+  goProxy?: string;
+  cratesIndexUrl?: string;
+  cratesApiUrl?: string;
+  mavenRepositoryUrl?: string;
+  rubygemsApiUrl?: string;
+  dockerHubApiUrl?: string;
+  packagistUrl?: string;
 
   // Debug Configuration
   debug: boolean;
@@ -44,12 +55,29 @@ export function loadEnvironmentConfig(): EnvironmentConfig {
 
     // Configuration - with validation
     language: getEnvVarEnum('RENOVATE_SAFETY_LANGUAGE', ['en', 'ja'] as const) || 'en',
-    llmProvider: getEnvVarEnum('RENOVATE_SAFETY_LLM_PROVIDER', [
-      'claude-cli',
-      'anthropic',
-      'openai',
-    ] as const),
+    llmProvider: getEnvVar('RENOVATE_SAFETY_LLM_PROVIDER', (value) => value.length > 0),
     cacheDir: getEnvVar('RENOVATE_SAFETY_CACHE_DIR', (value) => value.length > 0),
+    reportDir: getEnvVar('RENOVATE_SAFETY_REPORT_DIR', (value) => value.length > 0),
+
+    // Registries - GOPROXY may be a comma/pipe separated list; keep the first URL entry
+    goProxy: getEnvVar('GOPROXY')
+      ?.split(/[,|]/)
+      .find((entry) => /^https?:\/\//.test(entry.trim()))
+      ?.trim(),
+    cratesIndexUrl: getEnvVar('RENOVATE_SAFETY_CRATES_INDEX', (value) =>
+      /^(?:sparse\+)?https?:\/\//.test(value)
+    )?.replace(/^sparse\+/, ''),
+    cratesApiUrl: getEnvVar('RENOVATE_SAFETY_CRATES_API', (value) => /^https?:\/\//.test(value)),
+    mavenRepositoryUrl: getEnvVar('RENOVATE_SAFETY_MAVEN_REPOSITORY', (value) =>
+      /^https?:\/\//.test(value)
+    ),
+    rubygemsApiUrl: getEnvVar('RENOVATE_SAFETY_RUBYGEMS_API', (value) =>
+      /^https?:\/\//.test(value)
+    ),
+    dockerHubApiUrl: getEnvVar('RENOVATE_SAFETY_DOCKER_HUB_API', (value) =>
+      /^https?:\/\//.test(value)
+    ),
+    packagistUrl: getEnvVar('RENOVATE_SAFETY_PACKAGIST_URL', (value) => /^https?:\/\//.test(value)),
 
     // Debug flags
     debug: Boolean(getEnvVar('DEBUG')),
@@ -96,6 +124,14 @@ export function getSafeConfig(): Omit<
     language: config.language,
     llmProvider: config.llmProvider,
     cacheDir: config.cacheDir,
+    reportDir: config.reportDir,
+    goProxy: config.goProxy,
+    cratesIndexUrl: config.cratesIndexUrl,
+    cratesApiUrl: config.cratesApiUrl,
+    mavenRepositoryUrl: config.mavenRepositoryUrl,
+    rubygemsApiUrl: config.rubygemsApiUrl,
+    dockerHubApiUrl: config.dockerHubApiUrl,
+    packagistUrl: config.packagistUrl,
     debug: config.debug,
     verbose: config.verbose,
   };
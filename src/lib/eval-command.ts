@@ -0,0 +1,168 @@
+import { join, dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  loadEvalFixtures,
+  runEvaluation,
+  toEvalBaseline,
+  compareWithBaseline,
+  countFalsePositives,
+  type EvalBaseline,
+  type EvalComparison,
+  type EvalMetrics,
+  type EvalReport,
+} from './eval-harness.js';
+import { readJsonFile, writeJsonFile } from './file-helpers.js';
+import {
+  logSection,
+  logTable,
+  logKeyValue,
+  logListItem,
+  logSuccess,
+  logWarningMessage,
+} from './logger-extended.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_EVAL_DIR = join(__dirname, '../../data/eval');
+
+export type EvalCommandOptions = {
+  fixtures?: string;
+  baseline?: string;
+  updateBaseline?: boolean;
+  json?: boolean;
+};
+
+/**
+ * `eval`: detection accuracy over the golden fixture corpus, compared with the stored baseline.
+ * Fails when a fixture regressed unless --update-baseline accepts the new results
+ */
+export async function runEval(options: EvalCommandOptions): Promise<void> {
+  const fixturesDir = resolve(options.fixtures || join(DEFAULT_EVAL_DIR, 'fixtures'));
+  const baselinePath = resolve(options.baseline || join(DEFAULT_EVAL_DIR, 'baseline.json'));
+
+  const fixtures = await loadEvalFixtures(fixturesDir);
+  if (fixtures.length === 0) {
+    throw new Error(`No eval fixtures found in ${fixturesDir}`);
+  }
+
+  const report = await runEvaluation(fixtures);
+  const baseline = await readJsonFile<EvalBaseline>(baselinePath);
+  const comparison = baseline ? compareWithBaseline(report, baseline) : null;
+
+  if (options.json) {
+    process.stdout.write(JSON.stringify({ ...report, baseline: comparison }, null, 2) + '\n');
+  } else {
+    printEvalReport(report);
+    printComparison(comparison, baselinePath);
+  }
+
+  if (options.updateBaseline) {
+    await writeJsonFile(baselinePath, toEvalBaseline(report));
+    if (!options.json) {
+      logSuccess(`Wrote baseline for ${fixtures.length} fixtures to ${baselinePath}`);
+    }
+    return;
+  }
+
+  if (comparison && comparison.regressions.length > 0) {
+    throw new Error(
+      `${comparison.regressions.length} regressions against ${baselinePath}. ` +
+        'Fix them or accept the new results with --update-baseline'
+    );
+  }
+}
+
+function printEvalReport(report: EvalReport): void {
+  logSection(`Detection accuracy (${report.fixtures.length} fixtures)`, '🎯');
+  logKeyValue('Precision', formatRatio(report.metrics.precision));
+  logKeyValue('Recall', formatRatio(report.metrics.recall));
+  logKeyValue('F1', formatRatio(report.metrics.f1));
+  logKeyValue('Risk accuracy', formatRatio(report.risk.accuracy));
+
+  console.log('');
+  logTable(
+    ['Stage', 'Detections', 'Correct', 'Labels found', 'Precision', 'Recall'],
+    [
+      toStageRow('all', report.metrics),
+      ...Object.entries(report.byStage).map(([stage, metrics]) => toStageRow(stage, metrics)),
+    ]
+  );
+
+  logSection('Risk level confusion matrix (rows: expected, columns: predicted)', '🧮');
+  logTable(
+    ['', ...report.risk.levels],
+    report.risk.levels.map((level, row) => [
+      level,
+      ...report.risk.counts[row].map((count) => String(count)),
+    ])
+  );
+
+  const misses = report.fixtures.filter(
+    (result) =>
+      result.missedLabels.length > 0 ||
+      countFalsePositives(result) > 0 ||
+      result.predictedRisk !== result.expectedRisk
+  );
+  if (misses.length === 0) {
+    return;
+  }
+
+  logSection('Fixture misses', '🔍');
+  for (const result of misses) {
+    logListItem(`${result.id} (${result.packageName})`);
+    for (const label of result.missedLabels) {
+      logListItem(`missed: ${label}`, 2);
+    }
+    for (const detection of result.detections.filter((d) => !d.label)) {
+      logListItem(`false positive [${detection.stage}]: ${detection.text}`, 2);
+    }
+    if (result.predictedRisk !== result.expectedRisk) {
+      logListItem(`risk: ${result.predictedRisk}, expected ${result.expectedRisk}`, 2);
+    }
+  }
+}
+
+function printComparison(comparison: EvalComparison | null, baselinePath: string): void {
+  if (!comparison) {
+    logWarningMessage(
+      `No baseline at ${baselinePath}`,
+      'Run with --update-baseline to store these results'
+    );
+    return;
+  }
+
+  logSection('Against baseline', '📊');
+  logKeyValue('Precision', formatDelta(comparison.deltas.precision));
+  logKeyValue('Recall', formatDelta(comparison.deltas.recall));
+  logKeyValue('F1', formatDelta(comparison.deltas.f1));
+  logKeyValue('Risk accuracy', formatDelta(comparison.deltas.riskAccuracy));
+
+  for (const regression of comparison.regressions) {
+    logListItem(`❌ ${regression}`);
+  }
+  for (const improvement of comparison.improvements) {
+    logListItem(`✅ ${improvement}`);
+  }
+  for (const id of comparison.added) {
+    logListItem(`🆕 ${id}: not in the baseline`);
+  }
+}
+
+function toStageRow(stage: string, metrics: EvalMetrics): string[] {
+  return [
+    stage,
+    String(metrics.detections),
+    String(metrics.correctDetections),
+    `${metrics.foundLabels}/${metrics.labels}`,
+    formatRatio(metrics.precision),
+    formatRatio(metrics.recall),
+  ];
+}
+
+function formatRatio(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(value: number): string {
+  const points = (value * 100).toFixed(1);
+  return value > 0 ? `+${points} pt` : `${points} pt`;
+}
@@ -0,0 +1,354 @@
+/**
+ * Detection evaluation
+ * Replays the recorded changelogs and npm diffs of a golden fixture corpus through the breaking
+ * change detection (BREAKING_PATTERNS and BreakingChangeAnalyzer) and risk grading, and scores
+ * the detections against the expected labels. Fixtures hold every input, so nothing is fetched
+ */
+
+import { basename } from 'path';
+import { z } from 'zod';
+import { extractBreakingChanges } from './breaking.js';
+import { assessRisk } from './grade.js';
+import { getFiles } from './glob-helpers.js';
+import { readJsonFile } from './file-helpers.js';
+import { BreakingChangeAnalyzer } from '../mastra/tools/breaking-change-analyzer.js';
+import { parseDiff } from '../mastra/tools/npm-diff.js';
+import type { BreakingChange, RiskLevel } from '../types/index.js';
+
+export const EVAL_RISK_LEVELS = ['safe', 'low', 'medium', 'high', 'critical'] as const;
+
+/** Detection stages: changelog patterns (src/lib/breaking.ts) and the npm diff analyzer */
+export type EvalStage = 'changelog' | 'npm-diff';
+
+const fixtureSchema = z
+  .object({
+    id: z.string().min(1),
+    description: z.string().optional(),
+    package: z.object({
+      name: z.string().min(1),
+      fromVersion: z.string().min(1),
+      toVersion: z.string().min(1),
+    }),
+    changelog: z
+      .object({ content: z.string(), source: z.string().default('changelog') })
+      .optional(),
+    /** Raw `npm diff` output */
+    npmDiff: z.string().optional(),
+    enginesDiff: z.object({ from: z.string(), to: z.string() }).optional(),
+    /** main/module/types/exports paths of both package.json files */
+    publicEntryHints: z.array(z.string()).default([]),
+    apiUsages: z
+      .array(z.object({ file: z.string(), line: z.number().int(), apiName: z.string() }))
+      .default([]),
+    expected: z.object({
+      /** Case-insensitive regular expressions; each must match at least one detection */
+      breakingChanges: z.array(
+        z.string().min(1).refine(isValidPattern, 'invalid regular expression')
+      ),
+      riskLevel: z.enum(EVAL_RISK_LEVELS),
+    }),
+  })
+  .strict();
+
+export type EvalFixture = z.infer<typeof fixtureSchema>;
+
+export type EvalDetection = {
+  stage: EvalStage;
+  text: string;
+  severity: BreakingChange['severity'];
+  /** Expected label this detection matches; unmatched detections are false positives */
+  label?: string;
+};
+
+export type FixtureResult = {
+  id: string;
+  packageName: string;
+  detections: EvalDetection[];
+  foundLabels: string[];
+  missedLabels: string[];
+  expectedRisk: RiskLevel;
+  predictedRisk: RiskLevel;
+};
+
+export type EvalMetrics = {
+  detections: number;
+  correctDetections: number;
+  labels: number;
+  foundLabels: number;
+  precision: number;
+  recall: number;
+  f1: number;
+};
+
+export type RiskConfusionMatrix = {
+  levels: RiskLevel[];
+  /** counts[expected][predicted], indexed like levels */
+  counts: number[][];
+  accuracy: number;
+};
+
+export type EvalReport = {
+  fixtures: FixtureResult[];
+  metrics: EvalMetrics;
+  byStage: Record<EvalStage, EvalMetrics>;
+  risk: RiskConfusionMatrix;
+};
+
+export type EvalBaseline = {
+  createdAt: string;
+  metrics: { precision: number; recall: number; f1: number; riskAccuracy: number };
+  fixtures: Record<
+    string,
+    { foundLabels: string[]; falsePositives: number; predictedRisk: RiskLevel }
+  >;
+};
+
+export type EvalComparison = {
+  deltas: EvalBaseline['metrics'];
+  regressions: string[];
+  improvements: string[];
+  /** Fixtures without a baseline entry */
+  added: string[];
+};
+
+/**
+ * Read every *.json fixture in the directory, sorted by id
+ */
+export async function loadEvalFixtures(dir: string): Promise<EvalFixture[]> {
+  const files = await getFiles('*.json', { cwd: dir, absolute: true });
+  const fixtures: EvalFixture[] = [];
+
+  for (const file of files.sort()) {
+    const result = fixtureSchema.safeParse(await readJsonFile(file));
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid eval fixture ${basename(file)}: ${issues}`);
+    }
+    if (fixtures.some((fixture) => fixture.id === result.data.id)) {
+      throw new Error(`Invalid eval fixture ${basename(file)}: duplicate id "${result.data.id}"`);
+    }
+    fixtures.push(result.data);
+  }
+
+  return fixtures.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Run the detection pipeline over one fixture and match the detections to its labels
+ */
+export async function evaluateFixture(fixture: EvalFixture): Promise<FixtureResult> {
+  const { name, fromVersion, toVersion } = fixture.package;
+
+  const changelogChanges = fixture.changelog
+    ? extractBreakingChanges(
+        fixture.changelog.content,
+        fixture.enginesDiff,
+        fixture.changelog.source
+      )
+    : [];
+  const diffChanges = fixture.npmDiff
+    ? new BreakingChangeAnalyzer()
+        .analyze(parseDiff(fixture.npmDiff), name, fromVersion, toVersion, {
+          publicEntryHints: fixture.publicEntryHints,
+        })
+        .map(
+          (change): BreakingChange => ({
+            line: change.text,
+            severity: change.severity === 'warning' ? 'warning' : 'breaking',
+            source: change.source,
+          })
+        )
+    : [];
+
+  const detections: EvalDetection[] = [
+    ...changelogChanges.map((change) => toDetection('changelog', change, fixture)),
+    ...diffChanges.map((change) => toDetection('npm-diff', change, fixture)),
+  ];
+  const foundLabels = fixture.expected.breakingChanges.filter((label) =>
+    detections.some((detection) => detection.label === label)
+  );
+
+  const risk = await assessRisk(
+    [...changelogChanges, ...diffChanges],
+    fixture.apiUsages,
+    null,
+    fixture.package,
+    Boolean(fixture.changelog)
+  );
+
+  return {
+    id: fixture.id,
+    packageName: name,
+    detections,
+    foundLabels,
+    missedLabels: fixture.expected.breakingChanges.filter((label) => !foundLabels.includes(label)),
+    expectedRisk: fixture.expected.riskLevel,
+    predictedRisk: risk.level,
+  };
+}
+
+function toDetection(
+  stage: EvalStage,
+  change: BreakingChange,
+  fixture: EvalFixture
+): EvalDetection {
+  const text = change.line.replace(/\s+/g, ' ');
+  const label = fixture.expected.breakingChanges.find((pattern) =>
+    new RegExp(pattern, 'i').test(text)
+  );
+  return { stage, text: change.line, severity: change.severity, label };
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function runEvaluation(fixtures: EvalFixture[]): Promise<EvalReport> {
+  const results: FixtureResult[] = [];
+  for (const fixture of fixtures) {
+    results.push(await evaluateFixture(fixture));
+  }
+
+  return {
+    fixtures: results,
+    metrics: computeMetrics(results),
+    byStage: {
+      changelog: computeMetrics(results, 'changelog'),
+      'npm-diff': computeMetrics(results, 'npm-diff'),
+    },
+    risk: computeRiskConfusion(results),
+  };
+}
+
+/**
+ * Precision over detections, recall over expected labels; a stage's recall counts the labels
+ * that stage found on its own
+ */
+function computeMetrics(results: FixtureResult[], stage?: EvalStage): EvalMetrics {
+  let detections = 0;
+  let correctDetections = 0;
+  let labels = 0;
+  let foundLabels = 0;
+
+  for (const result of results) {
+    const stageDetections = result.detections.filter(
+      (detection) => !stage || detection.stage === stage
+    );
+    detections += stageDetections.length;
+    correctDetections += stageDetections.filter((detection) => detection.label).length;
+    labels += result.foundLabels.length + result.missedLabels.length;
+    foundLabels += new Set(stageDetections.map((detection) => detection.label).filter(Boolean))
+      .size;
+  }
+
+  // Nothing to find and nothing reported is a perfect score, not a division by zero
+  const precision = detections === 0 ? 1 : correctDetections / detections;
+  const recall = labels === 0 ? 1 : foundLabels / labels;
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+
+  return { detections, correctDetections, labels, foundLabels, precision, recall, f1 };
+}
+
+function computeRiskConfusion(results: FixtureResult[]): RiskConfusionMatrix {
+  const levels: RiskLevel[] = [...EVAL_RISK_LEVELS];
+  for (const result of results) {
+    if (!levels.includes(result.predictedRisk)) {
+      levels.push(result.predictedRisk);
+    }
+  }
+
+  const counts = levels.map(() => levels.map(() => 0));
+  for (const result of results) {
+    counts[levels.indexOf(result.expectedRisk)][levels.indexOf(result.predictedRisk)]++;
+  }
+
+  const correct = results.filter((result) => result.expectedRisk === result.predictedRisk).length;
+  return { levels, counts, accuracy: results.length === 0 ? 1 : correct / results.length };
+}
+
+export function toEvalBaseline(report: EvalReport): EvalBaseline {
+  return {
+    createdAt: new Date().toISOString(),
+    metrics: {
+      precision: report.metrics.precision,
+      recall: report.metrics.recall,
+      f1: report.metrics.f1,
+      riskAccuracy: report.risk.accuracy,
+    },
+    fixtures: Object.fromEntries(
+      report.fixtures.map((result) => [
+        result.id,
+        {
+          foundLabels: result.foundLabels,
+          falsePositives: countFalsePositives(result),
+          predictedRisk: result.predictedRisk,
+        },
+      ])
+    ),
+  };
+}
+
+/**
+ * Per-fixture changes against the baseline: lost labels, extra false positives and risk levels
+ * that stopped (or started) matching the expected level
+ */
+export function compareWithBaseline(report: EvalReport, baseline: EvalBaseline): EvalComparison {
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  const added: string[] = [];
+
+  for (const result of report.fixtures) {
+    const previous = baseline.fixtures[result.id];
+    if (!previous) {
+      added.push(result.id);
+      continue;
+    }
+
+    for (const label of result.missedLabels.filter((l) => previous.foundLabels.includes(l))) {
+      regressions.push(`${result.id}: no longer detects "${label}"`);
+    }
+    for (const label of result.foundLabels.filter((l) => !previous.foundLabels.includes(l))) {
+      improvements.push(`${result.id}: now detects "${label}"`);
+    }
+
+    const falsePositiveDelta = countFalsePositives(result) - previous.falsePositives;
+    if (falsePositiveDelta > 0) {
+      regressions.push(`${result.id}: ${falsePositiveDelta} more false positives`);
+    } else if (falsePositiveDelta < 0) {
+      improvements.push(`${result.id}: ${-falsePositiveDelta} fewer false positives`);
+    }
+
+    const wasCorrect = previous.predictedRisk === result.expectedRisk;
+    const isCorrect = result.predictedRisk === result.expectedRisk;
+    if (wasCorrect && !isCorrect) {
+      regressions.push(
+        `${result.id}: risk ${result.predictedRisk}, expected ${result.expectedRisk}`
+      );
+    } else if (!wasCorrect && isCorrect) {
+      improvements.push(`${result.id}: risk now ${result.predictedRisk} as expected`);
+    }
+  }
+
+  return {
+    deltas: {
+      precision: report.metrics.precision - baseline.metrics.precision,
+      recall: report.metrics.recall - baseline.metrics.recall,
+      f1: report.metrics.f1 - baseline.metrics.f1,
+      riskAccuracy: report.risk.accuracy - baseline.metrics.riskAccuracy,
+    },
+    regressions,
+    improvements,
+    added,
+  };
+}
+
+export function countFalsePositives(result: FixtureResult): number {
+  return result.detections.filter((detection) => !detection.label).length;
+}
@@ -0,0 +1,287 @@
+import { writeFile } from 'fs/promises';
+import { relative } from 'path';
+import ora from 'ora';
+import { Project } from 'ts-morph';
+import { loadConfig } from './config.js';
+import { getCacheDir, setDefaultCacheDir } from './cache-store.js';
+import { extractPackageUpdates, getPRBranch } from './pr.js';
+import { scanAPIUsage } from './scan.js';
+import { secureGitExec } from './secure-exec.js';
+import {
+  applyCodemods,
+  getCodemodApi,
+  loadCodemodPacks,
+  selectCodemods,
+  type CodemodRule,
+} from './codemods.js';
+import {
+  createOptimizedAnalysisFlow,
+  createPerformanceOptimizer,
+  getTaskResult,
+} from './performance-optimizer.js';
+import { createUnifiedDiff } from './utils/unified-diff.js';
+import { loggers } from './logger.js';
+import {
+  logSection,
+  logKeyValue,
+  logListItem,
+  logSuccess,
+  logWarningMessage,
+} from './logger-extended.js';
+import type { APIUsage, BreakingChange, CLIOptions, PackageUpdate } from '../types/index.js';
+
+/** Tasks of the analysis flow that produce the breaking changes usages are scanned for */
+const BREAKING_CHANGE_TASKS = ['analyzer', 'changelog', 'code-diff', 'breaking-changes'];
+
+export type FixCommandOptions = {
+  pr: number;
+  cacheDir?: string;
+  dryRun?: boolean;
+  commit?: boolean;
+};
+
+type PackageFix = {
+  packageUpdate: PackageUpdate;
+  codemods: CodemodRule[];
+  usages: APIUsage[];
+  /** Usages an applied transform rewrote */
+  fixed: APIUsage[];
+  /** Rewritten contents by file path relative to the project */
+  rewrites: Map<string, string>;
+};
+
+/**
+ * `fix`: apply the codemods of the updated packages to the usages scanAPIUsage finds, print
+ * the unified diff and re-run the analysis to confirm the usages are resolved. --commit
+ * commits the rewritten files to the checked-out Renovate branch and pushes it
+ */
+export async function runFix(options: FixCommandOptions): Promise<void> {
+  if (options.dryRun && options.commit) {
+    throw new Error('--commit cannot be combined with --dry-run');
+  }
+
+  const config = await loadConfig();
+  const cliOptions: CLIOptions = {
+    pr: options.pr,
+    post: 'never',
+    noLlm: true,
+    cacheDir: getCacheDir(options.cacheDir || config.cacheDir),
+    json: false,
+    force: true,
+    language: config.language,
+    deep: false,
+  };
+  setDefaultCacheDir(cliOptions.cacheDir);
+
+  if (options.commit) {
+    await ensurePRBranchCheckedOut(options.pr);
+  }
+
+  const packs = await loadCodemodPacks();
+  // One project for all packages, so each package's codemods start from the previous rewrites;
+  // allowJs so that JavaScript files get symbols to tell package bindings from locals
+  const project = new Project({
+    skipAddingFilesFromTsConfig: true,
+    compilerOptions: { allowJs: true },
+  });
+  const fixes: PackageFix[] = [];
+
+  for (const packageUpdate of await extractPackageUpdates(cliOptions)) {
+    const label = `${packageUpdate.name} ${packageUpdate.fromVersion} → ${packageUpdate.toVersion}`;
+    const codemods = selectCodemods(packs, packageUpdate.name, packageUpdate.toVersion);
+    if (codemods.length === 0) {
+      loggers.info(`No codemods for ${label}`);
+      continue;
+    }
+
+    logSection(`Fixing ${label}`, '🔧');
+    fixes.push(await applyPackageCodemods(packageUpdate, codemods, project, cliOptions));
+  }
+
+  // Later packages rewrite on top of earlier ones, so the last content of a file is the final one
+  const contents = new Map(fixes.flatMap((fix) => [...fix.rewrites]));
+  const files = [...contents.keys()];
+  if (files.length === 0) {
+    logSuccess('Nothing to fix', 'no usages the codemods cover were found');
+    return;
+  }
+
+  if (options.dryRun) {
+    logWarningMessage(`Dry run: ${files.length} files left unchanged`);
+    return;
+  }
+
+  // Only the rewritten files are committed, so they must not carry other changes
+  if (options.commit) {
+    await ensureFilesUnchanged(files);
+  }
+
+  for (const [file, content] of contents) {
+    await writeFile(file, content);
+  }
+  logSuccess(`Rewrote ${files.length} files`);
+
+  if (options.commit) {
+    const names = fixes.map((fix) => fix.packageUpdate.name).join(', ');
+    await commitFiles(files, `Apply codemods for ${names}`);
+    await pushBranch();
+    logSuccess(`Committed and pushed ${files.length} files`);
+  }
+
+  for (const fix of fixes) {
+    await verifyFix(fix, cliOptions);
+  }
+}
+
+async function applyPackageCodemods(
+  packageUpdate: PackageUpdate,
+  codemods: CodemodRule[],
+  project: Project,
+  cliOptions: CLIOptions
+): Promise<PackageFix> {
+  const usages = await findUsages(packageUpdate, codemods, cliOptions);
+  const apis = new Set(codemods.map(getCodemodApi));
+  const fixable = usages.filter((usage) => apis.has(usage.apiName));
+  logKeyValue('Usages', `${usages.length} (${fixable.length} covered by codemods)`);
+
+  const apiById = new Map(codemods.map((codemod) => [codemod.id, getCodemodApi(codemod)]));
+  const rewrites = new Map<string, string>();
+  const fixed: APIUsage[] = [];
+
+  for (const [file, fileUsages] of groupByFile(fixable)) {
+    const sourceFile = project.getSourceFile(file) ?? project.addSourceFileAtPath(file);
+    const before = sourceFile.getFullText();
+    const edits = applyCodemods(sourceFile, codemods, fileUsages);
+    const after = sourceFile.getFullText();
+    if (edits.length === 0 || after === before) continue;
+
+    const path = relative(process.cwd(), file);
+    process.stdout.write(createUnifiedDiff(path, before, after));
+    rewrites.set(path, after);
+    fixed.push(
+      ...fileUsages.filter((usage) =>
+        edits.some(
+          (edit) => edit.line === usage.line && apiById.get(edit.codemod) === usage.apiName
+        )
+      )
+    );
+  }
+
+  return { packageUpdate, codemods, usages, fixed, rewrites };
+}
+
+/**
+ * Usages of the breaking changes the analysis finds and of the APIs the codemods cover
+ */
+async function findUsages(
+  packageUpdate: PackageUpdate,
+  codemods: CodemodRule[],
+  cliOptions: CLIOptions
+): Promise<APIUsage[]> {
+  const breakingChanges = [
+    ...(await findBreakingChanges(packageUpdate, cliOptions)),
+    ...codemods.map(toBreakingChange),
+  ];
+  return scanAPIUsage(packageUpdate.name, breakingChanges);
+}
+
+/**
+ * Breaking changes of the regular analysis; only the tasks they depend on are run
+ */
+async function findBreakingChanges(
+  packageUpdate: PackageUpdate,
+  cliOptions: CLIOptions
+): Promise<BreakingChange[]> {
+  const spinner = ora(`Analyzing ${packageUpdate.name}`).start();
+  try {
+    const tasks = createOptimizedAnalysisFlow(spinner, packageUpdate, cliOptions).filter((task) =>
+      BREAKING_CHANGE_TASKS.includes(task.id)
+    );
+    const { parallelExecutor } = createPerformanceOptimizer(cliOptions.cacheDir);
+    const { results } = await parallelExecutor.executeGraph(tasks);
+    return getTaskResult<BreakingChange[]>(results, 'breaking-changes');
+  } finally {
+    spinner.stop();
+  }
+}
+
+/**
+ * A codemod documents a breaking change of its own, so its API is scanned even when the
+ * changelog does not name it
+ */
+function toBreakingChange(codemod: CodemodRule): BreakingChange {
+  return {
+    line: `\`${getCodemodApi(codemod)}\`: ${codemod.description}`,
+    severity: 'breaking',
+    source: 'codemod',
+  };
+}
+
+function groupByFile(usages: APIUsage[]): Map<string, APIUsage[]> {
+  const byFile = new Map<string, APIUsage[]>();
+  for (const usage of usages) {
+    const file = usage.file || usage.filePath;
+    if (!file) continue;
+    byFile.set(file, [...(byFile.get(file) ?? []), usage]);
+  }
+  return byFile;
+}
+
+/**
+ * Re-run the analysis after the rewrite: usages the codemods covered should be gone
+ */
+async function verifyFix(
+  { packageUpdate, codemods, usages, fixed }: PackageFix,
+  cliOptions: CLIOptions
+): Promise<void> {
+  const remaining = await findUsages(packageUpdate, codemods, cliOptions);
+
+  logSection(`Verification: ${packageUpdate.name}`, '🔍');
+  if (remaining.length === 0) {
+    logSuccess(`Resolved all ${usages.length} usages`);
+    return;
+  }
+
+  logWarningMessage(
+    `Resolved ${fixed.length} of ${usages.length} usages; ${remaining.length} need manual migration`
+  );
+  for (const usage of remaining) {
+    const file = relative(process.cwd(), usage.file || usage.filePath || '');
+    logListItem(`${file}:${usage.line} ${usage.apiName}`);
+  }
+}
+
+async function ensurePRBranchCheckedOut(prNumber: number): Promise<void> {
+  const branch = await getPRBranch(prNumber);
+  if (!branch) {
+    throw new Error(`Could not determine the branch of PR #${prNumber}`);
+  }
+
+  const current = await secureGitExec(['branch', '--show-current']);
+  if (current.stdout.trim() !== branch) {
+    throw new Error(
+      `--commit needs the branch of PR #${prNumber} checked out: git checkout ${branch}`
+    );
+  }
+}
+
+async function ensureFilesUnchanged(files: string[]): Promise<void> {
+  const status = await secureGitExec(['status', '--porcelain', '--', ...files]);
+  if (status.stdout.trim()) {
+    throw new Error(`Files to fix have uncommitted changes or are untracked:\n${status.stdout}`);
+  }
+}
+
+async function commitFiles(files: string[], message: string): Promise<void> {
+  const result = await secureGitExec(['commit', `--message=${message}`, '--', ...files]);
+  if (!result.success) {
+    throw new Error(`git commit failed: ${result.error || result.stderr}`);
+  }
+}
+
+async function pushBranch(): Promise<void> {
+  const result = await secureGitExec(['push']);
+  if (!result.success) {
+    throw new Error(`git push failed: ${result.error || result.stderr}`);
+  }
+}
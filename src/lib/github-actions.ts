@@ -0,0 +1,304 @@
+/**
+ * GitHub Actions operations
+ * Reads action.yml at a given ref and finds `uses:` references in workflow files,
+ * so action updates can be diffed like any other package
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { load } from 'js-yaml';
+import { httpGetText } from './http-client.js';
+import { getFiles } from './glob-helpers.js';
+import { loggers } from './logger.js';
+import { getErrorMessage } from '../analyzers/utils.js';
+
+export const DEFAULT_RAW_CONTENT_URL = 'https://raw.githubusercontent.com';
+
+export type ActionReference = {
+  owner: string;
+  repo: string;
+  path?: string;
+};
+
+export type ActionInput = {
+  required: boolean;
+  default?: string;
+  deprecationMessage?: string;
+};
+
+/**
+ * The parts of action.yml that make up an action's public interface
+ */
+export type ActionManifest = {
+  name?: string;
+  description?: string;
+  inputs: Record<string, ActionInput>;
+  outputs: string[];
+  runsUsing?: string;
+  runsMain?: string;
+};
+
+export type ActionManifestDiff = {
+  removedInputs: string[];
+  newlyRequiredInputs: string[];
+  deprecatedInputs: Array<{ name: string; message: string }>;
+  removedOutputs: string[];
+  runsUsingChange?: { from: string; to: string };
+};
+
+/**
+ * A `uses:` step in a workflow (or composite action) file, with the inputs it passes
+ */
+export type WorkflowActionUsage = {
+  file: string;
+  line: number;
+  code: string;
+  uses: string;
+  ref: string;
+  inputs: Array<{ name: string; line: number; code: string }>;
+};
+
+const WORKFLOW_FILE_PATTERNS = [
+  '.github/workflows/*.yml',
+  '.github/workflows/*.yaml',
+  '**/action.yml',
+  '**/action.yaml',
+];
+
+/**
+ * Split "owner/repo[/path]" into its parts; returns null for local or docker:// references
+ */
+export function parseActionReference(name: string): ActionReference | null {
+  const match = /^([\w.-]+)\/([\w.-]+)((?:\/[\w.-]+)*)$/.exec(name);
+  if (!match || name.startsWith('.')) {
+    return null;
+  }
+
+  return {
+    owner: match[1],
+    repo: match[2],
+    path: match[3] ? match[3].slice(1) : undefined,
+  };
+}
+
+/**
+ * Candidate git refs for a version: Renovate reports action refs as written ("v4"),
+ * but manual overrides are usually bare versions
+ */
+export function getActionRefCandidates(version: string): string[] {
+  return /^\d/.test(version) ? [`v${version}`, version] : [version];
+}
+
+/**
+ * Fetch and parse action.yml (or action.yaml) at a ref
+ */
+export async function fetchActionManifest(
+  action: ActionReference,
+  version: string,
+  rawContentUrl: string = DEFAULT_RAW_CONTENT_URL
+): Promise<ActionManifest | null> {
+  const base = rawContentUrl.replace(/\/+$/, '');
+  const directory = action.path ? `${action.path}/` : '';
+
+  for (const ref of getActionRefCandidates(version)) {
+    for (const fileName of ['action.yml', 'action.yaml']) {
+      const url = `${base}/${action.owner}/${action.repo}/${encodeURIComponent(ref)}/${directory}${fileName}`;
+      const response = await httpGetText(url);
+      if (response.ok && response.data) {
+        return parseActionManifest(response.data);
+      }
+    }
+  }
+
+  loggers.debug(`No action.yml found for ${action.owner}/${action.repo}@${version}`);
+  return null;
+}
+
+/**
+ * Read the public interface of an action from its action.yml; YAML that does not parse
+ * yields an empty manifest
+ */
+export function parseActionManifest(yaml: string): ActionManifest {
+  const manifest: ActionManifest = { inputs: {}, outputs: [] };
+
+  let document: unknown;
+  try {
+    document = load(yaml);
+  } catch (error) {
+    loggers.debug(`Invalid action.yml: ${getErrorMessage(error)}`);
+    return manifest;
+  }
+  if (!isRecord(document)) return manifest;
+
+  manifest.name = toScalar(document.name);
+  manifest.description = toScalar(document.description);
+
+  for (const [name, input] of Object.entries(toRecord(document.inputs))) {
+    const fields = toRecord(input);
+    manifest.inputs[name] = {
+      required: fields.required === true || fields.required === 'true',
+      ...(fields.default !== undefined && { default: toScalar(fields.default) }),
+      ...(fields.deprecationMessage !== undefined && {
+        deprecationMessage: toScalar(fields.deprecationMessage),
+      }),
+    };
+  }
+
+  manifest.outputs = Object.keys(toRecord(document.outputs));
+
+  const runs = toRecord(document.runs);
+  manifest.runsUsing = toScalar(runs.using);
+  manifest.runsMain = toScalar(runs.main);
+
+  return manifest;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+/**
+ * Scalars as action.yml authors wrote them; `default: true` and `default: 'true'` both read "true"
+ */
+function toScalar(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+/**
+ * Compare the public interface of two action versions
+ */
+export function diffActionManifests(from: ActionManifest, to: ActionManifest): ActionManifestDiff {
+  const isMandatory = (input?: ActionInput) =>
+    Boolean(input?.required && input.default === undefined);
+
+  const diff: ActionManifestDiff = {
+    removedInputs: Object.keys(from.inputs).filter((name) => !(name in to.inputs)),
+    newlyRequiredInputs: Object.keys(to.inputs).filter(
+      (name) => isMandatory(to.inputs[name]) && !isMandatory(from.inputs[name])
+    ),
+    deprecatedInputs: Object.entries(to.inputs)
+      .filter(([name, input]) => input.deprecationMessage && !from.inputs[name]?.deprecationMessage)
+      .map(([name, input]) => ({ name, message: input.deprecationMessage ?? '' })),
+    removedOutputs: from.outputs.filter((name) => !to.outputs.includes(name)),
+  };
+
+  if (from.runsUsing && to.runsUsing && from.runsUsing !== to.runsUsing) {
+    diff.runsUsingChange = { from: from.runsUsing, to: to.runsUsing };
+  }
+
+  return diff;
+}
+
+/**
+ * Render a manifest diff as changelog lines understood by extractBreakingChanges
+ */
+export function describeActionManifestDiff(diff: ActionManifestDiff, toVersion: string): string[] {
+  const lines: string[] = [];
+
+  diff.removedInputs.forEach((name) =>
+    lines.push(`BREAKING: Input \`${name}\` was removed in ${toVersion}`)
+  );
+  diff.newlyRequiredInputs.forEach((name) =>
+    lines.push(`BREAKING: Input \`${name}\` is now required in ${toVersion}`)
+  );
+  diff.removedOutputs.forEach((name) =>
+    lines.push(`BREAKING: Output \`${name}\` was removed in ${toVersion}`)
+  );
+  if (diff.runsUsingChange) {
+    lines.push(
+      `BREAKING: Action runtime (runs.using) changed from ${diff.runsUsingChange.from} to ${diff.runsUsingChange.to}`
+    );
+  }
+  diff.deprecatedInputs.forEach(({ name, message }) =>
+    lines.push(`⚠️ Input \`${name}\` is deprecated: ${message}`)
+  );
+
+  return lines;
+}
+
+/**
+ * Find steps that use an action (or one of its sub-path actions) in workflow files
+ */
+export async function findWorkflowActionUsages(
+  projectPath: string,
+  actionName: string
+): Promise<WorkflowActionUsage[]> {
+  const usages: WorkflowActionUsage[] = [];
+  const files = await getFiles(WORKFLOW_FILE_PATTERNS, { cwd: projectPath, includeTests: true });
+
+  for (const file of files) {
+    const lines = (await readFile(join(projectPath, file), 'utf-8')).split('\n');
+
+    lines.forEach((line, index) => {
+      const match = /^(\s*-?\s*)uses:\s*['"]?([^@'"\s]+)@([^'"\s#]+)/.exec(line);
+      if (!match) return;
+
+      const uses = match[2];
+      if (uses !== actionName && !uses.startsWith(`${actionName}/`)) return;
+
+      usages.push({
+        file,
+        line: index + 1,
+        code: line.trim(),
+        uses,
+        ref: match[3],
+        inputs: findStepInputs(lines, index, match[1].length),
+      });
+    });
+  }
+
+  return usages;
+}
+
+/**
+ * Collect the `with:` entries of the step whose `uses:` key sits at keyIndent
+ */
+function findStepInputs(
+  lines: string[],
+  usesIndex: number,
+  keyIndent: number
+): WorkflowActionUsage['inputs'] {
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const isBlank = (line: string) => !line.trim() || line.trim().startsWith('#');
+
+  // The step may list `with:` before `uses:`, so start from the step's "- " line
+  let start = usesIndex;
+  while (start > 0 && !lines[start].trimStart().startsWith('-')) {
+    const previous = lines[start - 1];
+    if (!isBlank(previous) && indentOf(previous) < keyIndent - 2) break;
+    start--;
+  }
+
+  const inputs: WorkflowActionUsage['inputs'] = [];
+  let inWith = false;
+  let inputIndent: number | null = null;
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    if (isBlank(line)) continue;
+
+    const isStepLine = i === start && line.trimStart().startsWith('-');
+    const indent = isStepLine ? keyIndent : indentOf(line);
+    if (i > start && indent < keyIndent) break;
+
+    const content = isStepLine ? line.trim().replace(/^-\s*/, '') : line.trim();
+    if (indent === keyIndent) {
+      inWith = /^with:\s*$/.test(content);
+      inputIndent = null;
+      continue;
+    }
+
+    const entry = /^['"]?([\w-]+)['"]?\s*:/.exec(content);
+    if (inWith && entry && (inputIndent ??= indent) === indent) {
+      inputs.push({ name: entry[1], line: i + 1, code: content });
+    }
+  }
+
+  return inputs;
+}
@@ -4,6 +4,7 @@
 
 import { Octokit } from '@octokit/rest';
 import { getEnvironmentConfig } from './env-config.js';
+import { bundleFetch } from './offline-bundle.js';
 
 let octokitInstance: Octokit | null = null;
 
@@ -12,16 +13,23 @@ let octokitInstance: Octokit | null = null;
  * @returns Octokit instance
  */
 export function getGitHubClient(): Octokit {
-  if (!octokitInstance) {
-    const config = getEnvironmentConfig();
-    octokitInstance = new Octokit({
-      auth: config.githubToken,
-      userAgent: 'renovate-safety',
-    });
-  }
+  octokitInstance ??= createGitHubClient(getEnvironmentConfig().githubToken);
   return octokitInstance;
 }
 
+/**
+ * Create a GitHub API client for the given token; requests go through the offline bundle
+ * when one is active
+ * @returns Octokit instance
+ */
+export function createGitHubClient(auth?: string): Octokit {
+  return new Octokit({
+    auth,
+    userAgent: 'renovate-safety',
+    request: { fetch: bundleFetch },
+  });
+}
+
 /**
  * Reset the GitHub client instance (useful for testing)
  */
@@ -1,8 +1,11 @@
 import { Octokit } from '@octokit/rest';
 import type { PackageUpdate } from '../types/index.js';
 import { getEnvironmentConfig } from './env-config.js';
+import { createGitHubClient } from './github-client.js';
 import { loggers } from './logger.js';
 import { getPackageRepository, extractGitHubRepo } from './npm-registry.js';
+import { getCacheStore } from './cache-store.js';
+import { withOfflineBundle } from './offline-bundle.js';
 
 export type CodeDiff = {
   content: string;
@@ -14,7 +17,19 @@ export type CodeDiff = {
   toTag: string;
 };
 
+/**
+ * Diff between the release tags of two published versions; cached without expiry
+ */
 export async function fetchCodeDiff(packageUpdate: PackageUpdate): Promise<CodeDiff | null> {
+  const { name, fromVersion, toVersion } = packageUpdate;
+  return getCacheStore().getOrSet(
+    'diff',
+    `github-compare:${name}@${fromVersion}->${toVersion}`,
+    () => fetchCodeDiffFromGitHub(packageUpdate)
+  );
+}
+
+async function fetchCodeDiffFromGitHub(packageUpdate: PackageUpdate): Promise<CodeDiff | null> {
   try {
     // Get GitHub repository info for the package
     const githubInfo = await getGitHubInfo(packageUpdate.name);
@@ -23,10 +38,7 @@ export async function fetchCodeDiff(packageUpdate: PackageUpdate): Promise<CodeD
       return null;
     }
 
-    const config = getEnvironmentConfig();
-    const octokit = new Octokit({
-      auth: config.githubToken,
-    });
+    const octokit = createGitHubClient(getEnvironmentConfig().githubToken);
 
     // Try to find appropriate tags for comparison
     const fromTag = await findClosestTag(octokit, githubInfo, packageUpdate.fromVersion);
@@ -89,7 +101,9 @@ async function getGitHubInfo(packageName: string): Promise<{ owner: string; repo
   try {
     const pacote = await import('pacote');
     try {
-      const manifest = await pacote.manifest(packageName);
+      const manifest = await withOfflineBundle('registry', `pacote-manifest:${packageName}`, () =>
+        pacote.manifest(packageName)
+      );
       if (
         manifest.repository &&
         typeof manifest.repository === 'object' &&
@@ -5,7 +5,8 @@
 import { glob } from 'glob';
 
 export type GlobOptions = {
-  ecosystem?: 'node' | 'python' | 'general';
+  ecosystem?: 'node' | 'python' | 'go' | 'rust' | 'jvm' | 'ruby' | 'php' | 'general';
+  cwd?: string;
   includeTests?: boolean;
   absolute?: boolean;
   additionalIgnore?: string[];
@@ -36,6 +37,11 @@ const COMMON_IGNORE_PATTERNS = {
     '**/.tox/**',
     '**/.mypy_cache/**',
   ],
+  go: ['**/vendor/**', '**/testdata/**'],
+  rust: ['**/target/**'],
+  jvm: ['**/target/**', '**/.gradle/**', '**/out/**'],
+  ruby: ['**/vendor/bundle/**', '**/.bundle/**', '**/log/**'],
+  php: ['**/vendor/**', '**/var/cache/**', '**/storage/framework/**'],
   test: [
     '**/*.test.*',
     '**/*.spec.*',
@@ -57,6 +63,16 @@ function getIgnorePatterns(options: GlobOptions): string[] {
     patterns.push(...COMMON_IGNORE_PATTERNS.node);
   } else if (options.ecosystem === 'python') {
     patterns.push(...COMMON_IGNORE_PATTERNS.python);
+  } else if (options.ecosystem === 'go') {
+    patterns.push(...COMMON_IGNORE_PATTERNS.go);
+  } else if (options.ecosystem === 'rust') {
+    patterns.push(...COMMON_IGNORE_PATTERNS.rust);
+  } else if (options.ecosystem === 'jvm') {
+    patterns.push(...COMMON_IGNORE_PATTERNS.jvm);
+  } else if (options.ecosystem === 'ruby') {
+    patterns.push(...COMMON_IGNORE_PATTERNS.ruby);
+  } else if (options.ecosystem === 'php') {
+    patterns.push(...COMMON_IGNORE_PATTERNS.php);
   }
 
   if (!options.includeTests) {
@@ -86,6 +102,7 @@ export async function getFiles(
     const files = await glob(pattern, {
       ignore: ignorePatterns,
       absolute: options.absolute,
+      cwd: options.cwd,
     });
     allFiles.push(...files);
   }
@@ -98,12 +115,17 @@ export async function getFiles(
  * Get source files for a specific ecosystem
  */
 export async function getSourceFiles(
-  _projectPath: string,
-  ecosystem: 'node' | 'python' | 'general' = 'general'
+  projectPath: string,
+  ecosystem: 'node' | 'python' | 'go' | 'rust' | 'jvm' | 'ruby' | 'php' | 'general' = 'general'
 ): Promise<string[]> {
   const patterns = {
     node: ['**/*.{js,jsx,ts,tsx,mjs,cjs}'],
     python: ['**/*.py', '**/*.pyi'],
+    go: ['**/*.go'],
+    rust: ['**/*.rs'],
+    jvm: ['**/*.java', '**/*.kt'],
+    ruby: ['**/*.rb'],
+    php: ['**/*.php'],
     general: ['**/*.{js,jsx,ts,tsx,py,java,cpp,c,h,go,rs,rb,php}'],
   };
 
@@ -111,6 +133,7 @@ export async function getSourceFiles(
     ecosystem,
     includeTests: false,
     absolute: true,
+    cwd: projectPath,
   });
 }
 
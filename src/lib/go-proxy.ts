@@ -0,0 +1,183 @@
+/**
+ * Go module proxy operations
+ * Implements the GOPROXY protocol (https://go.dev/ref/mod#goproxy-protocol)
+ * so any compatible endpoint - proxy.golang.org, Athens, or a local stand-in - can be used
+ */
+
+import semver from 'semver';
+import { httpGet, httpGetText } from './http-client.js';
+import { getEnvironmentConfig } from './env-config.js';
+import { validateGoModulePath } from './validation.js';
+import { loggers } from './logger.js';
+
+export const DEFAULT_GO_PROXY = 'https://proxy.golang.org';
+
+export type GoModuleInfo = {
+  Version: string;
+  Time?: string;
+  Origin?: {
+    VCS?: string;
+    URL?: string;
+    Ref?: string;
+    Hash?: string;
+  };
+};
+
+/**
+ * Resolve the proxy base URL: explicit argument, then GOPROXY, then the public proxy
+ */
+export function getGoProxyUrl(proxyUrl?: string): string {
+  const base = proxyUrl || getEnvironmentConfig().goProxy || DEFAULT_GO_PROXY;
+  return base.replace(/\/+$/, '');
+}
+
+/**
+ * Escape a module path or version for proxy URLs
+ * Uppercase letters become '!' followed by the lowercase letter
+ */
+export function escapeModulePath(value: string): string {
+  return value.replace(/[A-Z]/g, (char) => `!${char.toLowerCase()}`);
+}
+
+/**
+ * Normalize a version to the canonical Go form (leading 'v')
+ */
+export function toGoVersion(version: string): string {
+  return version.startsWith('v') ? version : `v${version}`;
+}
+
+/**
+ * Split a module path into its base path and /vN major version suffix
+ * e.g. github.com/foo/bar/v3 -> { basePath: github.com/foo/bar, major: 3 }
+ *      gopkg.in/yaml.v3      -> { basePath: gopkg.in/yaml, major: 3 }
+ */
+export function splitMajorVersionSuffix(modulePath: string): {
+  basePath: string;
+  major: number | null;
+} {
+  const slashSuffix = /^(.+)\/v(\d+)$/.exec(modulePath);
+  if (slashSuffix && parseInt(slashSuffix[2], 10) >= 2) {
+    return { basePath: slashSuffix[1], major: parseInt(slashSuffix[2], 10) };
+  }
+
+  const gopkgSuffix = /^(gopkg\.in\/.+)\.v(\d+)$/.exec(modulePath);
+  if (gopkgSuffix) {
+    return { basePath: gopkgSuffix[1], major: parseInt(gopkgSuffix[2], 10) };
+  }
+
+  return { basePath: modulePath, major: null };
+}
+
+/**
+ * Compute the module path that a given version must be published under
+ * Semantic import versioning requires a /vN suffix for v2 and above,
+ * except for pre-module "+incompatible" releases
+ */
+export function modulePathForVersion(modulePath: string, version: string): string {
+  const { basePath } = splitMajorVersionSuffix(modulePath);
+  const goVersion = toGoVersion(version);
+  const parsed = semver.coerce(goVersion);
+
+  if (!parsed || parsed.major < 2 || goVersion.includes('+incompatible')) {
+    return basePath;
+  }
+
+  if (basePath.startsWith('gopkg.in/')) {
+    return `${basePath}.v${parsed.major}`;
+  }
+
+  return `${basePath}/v${parsed.major}`;
+}
+
+/**
+ * Derive a GitHub repository from a module path or origin URL
+ */
+export function extractGoGitHubRepo(
+  modulePath: string,
+  originUrl?: string
+): { owner: string; repo: string } | null {
+  const source = originUrl || modulePath;
+  const match = /github\.com[/:]([\w.-]+)\/([\w.-]+)/.exec(source);
+  if (!match) {
+    return null;
+  }
+
+  return { owner: match[1], repo: match[2].replace(/\.git$/, '') };
+}
+
+/**
+ * Fetch version metadata ($module/@v/$version.info)
+ */
+export async function fetchGoModuleInfo(
+  modulePath: string,
+  version: string,
+  proxyUrl?: string
+): Promise<GoModuleInfo | null> {
+  const safePath = validateGoModulePath(modulePath);
+  const baseUrl = getGoProxyUrl(proxyUrl);
+  const url = `${baseUrl}/${escapeModulePath(safePath)}/@v/${escapeModulePath(toGoVersion(version))}.info`;
+  const response = await httpGet<GoModuleInfo>(url, { baseUrl });
+
+  if (!response.ok || !response.data) {
+    loggers.debug(`Go proxy info lookup failed for ${modulePath}@${version}:`, response.error);
+    return null;
+  }
+
+  return response.data;
+}
+
+/**
+ * Fetch the go.mod file published for a version ($module/@v/$version.mod)
+ */
+export async function fetchGoModFile(
+  modulePath: string,
+  version: string,
+  proxyUrl?: string
+): Promise<string | null> {
+  const safePath = validateGoModulePath(modulePath);
+  const baseUrl = getGoProxyUrl(proxyUrl);
+  const url = `${baseUrl}/${escapeModulePath(safePath)}/@v/${escapeModulePath(toGoVersion(version))}.mod`;
+  const response = await httpGetText(url, { baseUrl });
+
+  return response.ok ? response.data : null;
+}
+
+/**
+ * List the tagged versions known to the proxy ($module/@v/list), sorted ascending
+ */
+export async function listGoModuleVersions(
+  modulePath: string,
+  proxyUrl?: string
+): Promise<string[]> {
+  const safePath = validateGoModulePath(modulePath);
+  const baseUrl = getGoProxyUrl(proxyUrl);
+  const url = `${baseUrl}/${escapeModulePath(safePath)}/@v/list`;
+  const response = await httpGetText(url, { baseUrl });
+
+  if (!response.ok || !response.data) {
+    loggers.debug(`Go proxy version list failed for ${modulePath}:`, response.error);
+    return [];
+  }
+
+  return response.data
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => semver.valid(line) !== null)
+    .sort((a, b) => semver.compare(a, b));
+}
+
+/**
+ * Read the "// Deprecated:" comment attached to a go.mod module directive
+ */
+export function parseGoModDeprecation(goMod: string): string | undefined {
+  const leading = /\/\/\s*Deprecated:\s*([^\n]+)\n\s*module\s/.exec(goMod);
+  const trailing = /^module\s+\S+\s*\/\/\s*Deprecated:\s*([^\n]+)/m.exec(goMod);
+  return (leading?.[1] ?? trailing?.[1])?.trim();
+}
+
+/**
+ * Read the "go 1.xx" directive from a go.mod file
+ */
+export function parseGoDirective(goMod: string): string | undefined {
+  return /^go\s+(\d+\.\d+(?:\.\d+)?)\s*$/m.exec(goMod)?.[1];
+}
@@ -0,0 +1,111 @@
+/**
+ * Aggregation of per-package results for grouped (multi-package) PRs
+ */
+
+import type {
+  AnalysisResult,
+  GroupedAnalysisResult,
+  PackageUpdate,
+  RiskAssessment,
+  RiskLevel,
+} from '../types/index.js';
+
+// 'unknown' needs a human look, so it outranks 'low' but not a detected medium risk
+const RISK_LEVEL_ORDER: RiskLevel[] = ['safe', 'low', 'unknown', 'medium', 'high', 'critical'];
+
+const EFFORT_ORDER: RiskAssessment['estimatedEffort'][] = [
+  'none',
+  'minimal',
+  'unknown',
+  'moderate',
+  'significant',
+];
+
+const TESTING_SCOPE_ORDER: RiskAssessment['testingScope'][] = [
+  'none',
+  'unit',
+  'integration',
+  'full',
+  'full regression',
+  'full regression recommended',
+];
+
+export function isGroupedResult(
+  result: AnalysisResult | GroupedAnalysisResult
+): result is GroupedAnalysisResult {
+  return 'packages' in result;
+}
+
+/**
+ * Combine per-package assessments: the group is as risky as its riskiest package
+ */
+export function aggregateRiskAssessments(results: AnalysisResult[]): RiskAssessment {
+  if (results.length === 0) {
+    return {
+      level: 'unknown',
+      factors: ['No packages were analyzed'],
+      estimatedEffort: 'unknown',
+      testingScope: 'full regression recommended',
+    };
+  }
+
+  const assessments = results.map((result) => result.riskAssessment);
+  const level = highest(
+    assessments.map((assessment) => assessment.level),
+    RISK_LEVEL_ORDER
+  );
+
+  const needsReview = results.filter(
+    (result) =>
+      RISK_LEVEL_ORDER.indexOf(result.riskAssessment.level) >= RISK_LEVEL_ORDER.indexOf('unknown')
+  );
+  const factors = [
+    `${needsReview.length} of ${results.length} packages need review`,
+    ...needsReview.flatMap((result) =>
+      result.riskAssessment.factors.map((factor) => `${result.package.name}: ${factor}`)
+    ),
+  ];
+
+  return {
+    level,
+    factors,
+    estimatedEffort: highest(
+      assessments.map((assessment) => assessment.estimatedEffort),
+      EFFORT_ORDER
+    ),
+    testingScope: highest(
+      assessments.map((assessment) => assessment.testingScope),
+      TESTING_SCOPE_ORDER
+    ),
+  };
+}
+
+/**
+ * Placeholder result for a package whose analysis failed, so one failure does not
+ * hide the rest of the group
+ */
+export function createFailedAnalysisResult(
+  packageUpdate: PackageUpdate,
+  message: string
+): AnalysisResult {
+  return {
+    package: packageUpdate,
+    changelogDiff: null,
+    codeDiff: null,
+    dependencyUsage: null,
+    breakingChanges: [],
+    llmSummary: null,
+    apiUsages: [],
+    riskAssessment: {
+      level: 'unknown',
+      factors: [`Analysis failed: ${message}`],
+      estimatedEffort: 'unknown',
+      testingScope: 'full regression recommended',
+    },
+    recommendation: `Analysis failed: ${message}. Review this update manually.`,
+  };
+}
+
+function highest<T>(values: T[], order: T[]): T {
+  return values.reduce((max, value) => (order.indexOf(value) > order.indexOf(max) ? value : max));
+}
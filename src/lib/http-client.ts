@@ -5,10 +5,13 @@
 
 import { validateUrl, escapeForUrl } from './validation.js';
 import { getErrorMessage } from '../analyzers/utils.js';
+import { getActiveBundle, bundleFetch } from './offline-bundle.js';
 
 export type HttpRequestOptions = {
   headers?: Record<string, string>;
   timeout?: number;
+  /** Configured registry base URL; its host is trusted in addition to the built-in ones */
+  baseUrl?: string;
 };
 
 export type HttpResponse<T = unknown> = {
@@ -24,13 +27,32 @@ export type HttpResponse<T = unknown> = {
 export async function httpGet<T = unknown>(
   url: string,
   options: HttpRequestOptions = {}
+): Promise<HttpResponse<T>> {
+  return request(url, options, async (response) => (await response.json()) as T);
+}
+
+/**
+ * HTTP GET request returning the raw response body
+ * Used for plain-text endpoints such as GOPROXY version lists
+ */
+export async function httpGetText(
+  url: string,
+  options: HttpRequestOptions = {}
+): Promise<HttpResponse<string>> {
+  return request(url, options, (response) => response.text());
+}
+
+async function request<T>(
+  url: string,
+  options: HttpRequestOptions,
+  parseBody: (response: { json(): Promise<unknown>; text(): Promise<string> }) => Promise<T>
 ): Promise<HttpResponse<T>> {
   try {
     // Validate URL
-    validateUrl(url);
+    validateUrl(url, options.baseUrl ? [new URL(options.baseUrl).hostname] : []);
 
-    // Use dynamic import for node-fetch
-    const { default: fetch } = await import('node-fetch');
+    // Use dynamic import for node-fetch; offline bundles record and replay through standard fetch
+    const fetch = getActiveBundle() ? bundleFetch : (await import('node-fetch')).default;
 
     const response = await fetch(url, {
       headers: options.headers,
@@ -45,7 +67,7 @@ export async function httpGet<T = unknown>(
       };
     }
 
-    const data = (await response.json()) as T;
+    const data = await parseBody(response);
     return {
       data,
       ok: true,
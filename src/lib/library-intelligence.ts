@@ -1,5 +1,16 @@
+import { basename } from 'path';
+import semver from 'semver';
 import { secureNpmExec } from './secure-exec.js';
-import { getPackageRawData } from './npm-registry.js';
+import {
+  extractGitHubRepo,
+  getPackageFields,
+  getPackageRawData,
+  getPackageRepository,
+} from './npm-registry.js';
+import { getGitHubClient, hasGitHubToken } from './github-client.js';
+import { httpGet } from './http-client.js';
+import { getCacheStore } from './cache-store.js';
+import { loadCodemodPacks, selectCodemods } from './codemods.js';
 import { validatePackageName } from './validation.js';
 import { safeJsonParse } from './safe-json.js';
 import { loggers } from './logger.js';
@@ -79,11 +90,20 @@ export type AlternativePackage = {
 
 export type MaintenanceInfo = {
   lastUpdated: string;
+  /** Date of the latest commit on the default branch */
+  lastCommit?: string;
   releaseFrequency: 'very-active' | 'active' | 'moderate' | 'slow' | 'inactive';
+  releasesLastYear?: number;
   maintainerResponse: 'excellent' | 'good' | 'average' | 'poor' | 'unknown';
   openIssues: number;
+  /** Issues closed in the last 90 days */
   closedIssues: number;
   openPullRequests: number;
+  /** Issues opened versus closed in the last 90 days */
+  issueTrend?: 'improving' | 'stable' | 'worsening';
+  /** Fewest contributors that account for half of the commits */
+  busFactor?: number;
+  archived?: boolean;
   communityHealth: 'excellent' | 'good' | 'average' | 'poor';
   funding: boolean;
   sponsors: string[];
@@ -207,6 +227,54 @@ export type ConfigChange = {
   migrationInstructions: string;
 };
 
+/**
+ * Maintenance and popularity signals used in risk scoring; each is null when neither the
+ * registry nor GitHub had data, so an unreachable source never counts against a package
+ */
+export type LibraryHealth = {
+  maintenance: MaintenanceInfo | null;
+  popularity: PopularityMetrics | null;
+};
+
+/**
+ * GitHub repository data behind the maintenance, popularity and security signals
+ */
+type GitHubRepoInfo = {
+  stars: number;
+  forks: number;
+  /** GitHub counts open pull requests as issues */
+  openIssuesAndPullRequests: number;
+  /** Capped at 100, the size of one page */
+  openPullRequests: number;
+  archived: boolean;
+  pushedAt?: string;
+  lastCommit?: string;
+  /** Publish dates of GitHub releases, newest first */
+  releaseDates: string[];
+  /** Commits per contributor, highest first */
+  contributions: number[];
+  recentIssues: IssueActivity | null;
+  healthPercentage?: number;
+  hasSecurityPolicy: boolean;
+  hasCodeOfConduct: boolean;
+  hasFunding: boolean;
+  /** Migration and upgrade guides in the repository root and docs/ */
+  migrationGuides: Array<{ path: string; url: string }>;
+};
+
+type IssueActivity = {
+  opened: number;
+  closed: number;
+  /** Days from opening to closing of each closed issue */
+  daysToClose: number[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISSUE_WINDOW_DAYS = 90;
+const NPM_DOWNLOADS_API = 'https://api.npmjs.org/downloads/range/last-month';
+
+const pendingRepoInfo = new Map<string, Promise<GitHubRepoInfo | null>>();
+
 export async function gatherLibraryIntelligence(
   packageName: string,
   fromVersion: string,
@@ -256,6 +324,36 @@ export async function gatherLibraryIntelligence(
   };
 }
 
+/**
+ * Maintenance and popularity of a package from the npm registry and, unless github is false,
+ * its GitHub repository; cached with the registry data
+ */
+export async function gatherLibraryHealth(
+  packageName: string,
+  { github = hasGitHubToken() }: { github?: boolean } = {}
+): Promise<LibraryHealth> {
+  const health = await getCacheStore().getOrSet(
+    'registry',
+    `library-health:${github ? 'github' : 'npm'}:${packageName}`,
+    async () => {
+      const [maintenance, popularity] = await Promise.all([
+        fetchMaintenanceInfo(packageName, github).catch((error: unknown) => {
+          console.debug('Failed to gather maintenance info:', error);
+          return null;
+        }),
+        fetchPopularityMetrics(packageName, github).catch((error: unknown) => {
+          console.debug('Failed to gather popularity metrics:', error);
+          return null;
+        }),
+      ]);
+
+      return maintenance || popularity ? { maintenance, popularity } : null;
+    }
+  );
+
+  return health ?? { maintenance: null, popularity: null };
+}
+
 async function gatherPackageInfo(packageName: string): Promise<PackageInfo> {
   try {
     const safeName = validatePackageName(packageName);
@@ -358,34 +456,59 @@ async function buildEcosystemInfo(packageName: string, stdout: string): Promise<
 
 async function gatherMaintenanceInfo(packageName: string): Promise<MaintenanceInfo> {
   try {
-    const repoInfo = await getGitHubRepoInfo(packageName);
-
-    if (repoInfo) {
-      return buildMaintenanceInfo(repoInfo);
-    }
-
-    return getDefaultMaintenanceInfo();
+    return (await fetchMaintenanceInfo(packageName)) ?? getDefaultMaintenanceInfo();
   } catch (error) {
     console.debug('Failed to gather maintenance info:', error);
     return getDefaultMaintenanceInfo();
   }
 }
 
+async function fetchMaintenanceInfo(
+  packageName: string,
+  github = true
+): Promise<MaintenanceInfo | null> {
+  const safeName = validatePackageName(packageName);
+  const [repoInfo, publishDates] = await Promise.all([
+    github ? getGitHubRepoInfo(safeName) : null,
+    getPublishDates(safeName),
+  ]);
+
+  if (!repoInfo && publishDates.length === 0) {
+    return null;
+  }
+
+  return buildMaintenanceInfo(repoInfo, publishDates);
+}
+
 /**
- * Build MaintenanceInfo from GitHub repository data
+ * Build MaintenanceInfo from npm publish dates and GitHub repository data; GitHub releases
+ * only stand in for the publish dates when the registry has none
  */
-function buildMaintenanceInfo(repoInfo: unknown): MaintenanceInfo {
-  const extractor = createSafeExtractor(repoInfo);
+function buildMaintenanceInfo(
+  repoInfo: GitHubRepoInfo | null,
+  publishDates: string[]
+): MaintenanceInfo {
+  const releaseDates = publishDates.length > 0 ? publishDates : (repoInfo?.releaseDates ?? []);
+  const recentIssues = repoInfo?.recentIssues ?? null;
 
   return {
-    lastUpdated: extractor.getString('updated_at', FALLBACK_VALUES.EMPTY_STRING),
-    releaseFrequency: analyzeReleaseFrequency(repoInfo),
-    maintainerResponse: MAINTAINER_RESPONSES.UNKNOWN,
-    openIssues: extractor.getNumber('open_issues_count', 0),
-    closedIssues: 0, // Would need additional API call
-    openPullRequests: 0, // Would need additional API call
-    communityHealth: COMMUNITY_HEALTH_LEVELS.AVERAGE,
-    funding: extractor.getBoolean('has_funding', false),
+    lastUpdated: releaseDates[0] ?? repoInfo?.pushedAt ?? FALLBACK_VALUES.EMPTY_STRING,
+    lastCommit: repoInfo?.lastCommit,
+    releaseFrequency: analyzeReleaseFrequency(releaseDates),
+    releasesLastYear: countSince(releaseDates, 365),
+    maintainerResponse: recentIssues
+      ? analyzeMaintainerResponse(recentIssues)
+      : MAINTAINER_RESPONSES.UNKNOWN,
+    openIssues: repoInfo
+      ? Math.max(repoInfo.openIssuesAndPullRequests - repoInfo.openPullRequests, 0)
+      : 0,
+    closedIssues: recentIssues?.closed ?? 0,
+    openPullRequests: repoInfo?.openPullRequests ?? 0,
+    issueTrend: recentIssues ? analyzeIssueTrend(recentIssues) : undefined,
+    busFactor: repoInfo ? calculateBusFactor(repoInfo.contributions) : undefined,
+    archived: repoInfo?.archived,
+    communityHealth: analyzeCommunityHealth(repoInfo?.healthPercentage),
+    funding: repoInfo?.hasFunding ?? false,
     sponsors: [],
   };
 }
@@ -417,46 +540,43 @@ async function gatherSecurityInfo(packageName: string): Promise<SecurityInfo> {
 
 async function gatherPopularityMetrics(packageName: string): Promise<PopularityMetrics> {
   try {
-    // Validate package name first
-    const safeName = validatePackageName(packageName);
-
-    // Get package data using centralized utility
-    const packageData = await getPackageRawData(safeName);
-
-    if (!packageData) {
-      return getDefaultPopularityMetrics();
-    }
-
-    // Get GitHub stats if repository is available
-    const githubStats = await getGitHubStats(packageName);
-
-    let githubStars = 0;
-    let githubForks = 0;
-
-    if (githubStats && typeof githubStats === 'object') {
-      const stats = githubStats as Record<string, unknown>;
-      githubStars = typeof stats.stargazers_count === 'number' ? stats.stargazers_count : 0;
-      githubForks = typeof stats.forks_count === 'number' ? stats.forks_count : 0;
-    }
-
-    return {
-      downloads: {
-        daily: 0, // Would need downloads API
-        weekly: 0,
-        monthly: 0,
-      },
-      githubStars,
-      githubForks,
-      dependentRepos: 0, // Would need dependents API
-      dependentPackages: 0,
-      trendingScore: 0,
-    };
+    return (await fetchPopularityMetrics(packageName)) ?? getDefaultPopularityMetrics();
   } catch (error) {
     console.debug('Failed to gather popularity metrics:', error);
     return getDefaultPopularityMetrics();
   }
 }
 
+async function fetchPopularityMetrics(
+  packageName: string,
+  github = true
+): Promise<PopularityMetrics | null> {
+  const safeName = validatePackageName(packageName);
+  const [dailyDownloads, repoInfo] = await Promise.all([
+    getDailyDownloads(safeName),
+    github ? getGitHubRepoInfo(safeName) : null,
+  ]);
+
+  if (dailyDownloads.length === 0 && !repoInfo) {
+    return null;
+  }
+
+  const sum = (counts: number[]) => counts.reduce((total, count) => total + count, 0);
+
+  return {
+    downloads: {
+      daily: dailyDownloads.at(-1) ?? 0,
+      weekly: sum(dailyDownloads.slice(-7)),
+      monthly: sum(dailyDownloads),
+    },
+    githubStars: repoInfo?.stars,
+    githubForks: repoInfo?.forks,
+    dependentRepos: 0, // Would need dependents API
+    dependentPackages: 0,
+    trendingScore: calculateTrendingScore(dailyDownloads),
+  };
+}
+
 async function gatherTechnicalDetails(
   packageName: string,
   version: string
@@ -654,14 +774,276 @@ function getDefaultMigrationIntelligence(
   };
 }
 
-// Placeholder implementations for helper functions
-async function getGitHubRepoInfo(_packageName: string): Promise<unknown> {
-  // Would implement GitHub API calls
-  return null;
+/**
+ * GitHub data of the repository a package links to; cached per package and shared by the
+ * lookups of one analysis
+ */
+async function getGitHubRepoInfo(packageName: string): Promise<GitHubRepoInfo | null> {
+  let pending = pendingRepoInfo.get(packageName);
+
+  if (!pending) {
+    pending = lookupGitHubRepoInfo(packageName).finally(() => pendingRepoInfo.delete(packageName));
+    pendingRepoInfo.set(packageName, pending);
+  }
+
+  return pending;
+}
+
+async function lookupGitHubRepoInfo(packageName: string): Promise<GitHubRepoInfo | null> {
+  const github = extractGitHubRepo((await getPackageRepository(packageName)) ?? undefined);
+  if (!github) {
+    return null;
+  }
+
+  return getCacheStore().getOrSet('registry', `github-repo:${github.owner}/${github.repo}`, () =>
+    fetchGitHubRepoInfo(github.owner, github.repo)
+  );
+}
+
+async function fetchGitHubRepoInfo(owner: string, repo: string): Promise<GitHubRepoInfo | null> {
+  const octokit = getGitHubClient();
+
+  let repository;
+  try {
+    ({ data: repository } = await octokit.repos.get({ owner, repo }));
+  } catch (error) {
+    loggers.debug(`Failed to fetch GitHub repository ${owner}/${repo}:`, error);
+    return null;
+  }
+
+  const since = new Date(Date.now() - ISSUE_WINDOW_DAYS * DAY_MS).toISOString();
+  const [releases, commits, contributors, issues, pulls, community, files] =
+    await Promise.allSettled([
+      octokit.repos.listReleases({ owner, repo, per_page: 100 }),
+      octokit.repos.listCommits({ owner, repo, per_page: 1 }),
+      octokit.repos.listContributors({ owner, repo, per_page: 100 }),
+      // Issues updated in the window cover those opened or closed in it
+      octokit.issues.listForRepo({ owner, repo, state: 'all', since, per_page: 100 }),
+      octokit.pulls.list({ owner, repo, state: 'open', per_page: 100 }),
+      octokit.repos.getCommunityProfileMetrics({ owner, repo }),
+      Promise.all(['', '.github', 'docs'].map((path) => listRepoDirectory(owner, repo, path))),
+    ]);
+
+  const repoFiles = files.status === 'fulfilled' ? files.value.flat() : [];
+  const hasFile = (pattern: RegExp) => repoFiles.some((file) => pattern.test(file.name));
+
+  return {
+    stars: repository.stargazers_count,
+    forks: repository.forks_count,
+    openIssuesAndPullRequests: repository.open_issues_count,
+    openPullRequests: pulls.status === 'fulfilled' ? pulls.value.data.length : 0,
+    archived: repository.archived,
+    pushedAt: repository.pushed_at ?? undefined,
+    lastCommit:
+      commits.status === 'fulfilled'
+        ? (commits.value.data[0]?.commit.committer?.date ?? undefined)
+        : undefined,
+    releaseDates:
+      releases.status === 'fulfilled'
+        ? releases.value.data
+            .flatMap((release) => (release.published_at ? [release.published_at] : []))
+            .sort((a, b) => b.localeCompare(a))
+        : [],
+    contributions:
+      contributors.status === 'fulfilled'
+        ? contributors.value.data
+            .map((contributor) => contributor.contributions)
+            .sort((a, b) => b - a)
+        : [],
+    recentIssues:
+      issues.status === 'fulfilled' ? summarizeIssueActivity(issues.value.data, since) : null,
+    healthPercentage:
+      community.status === 'fulfilled' ? community.value.data.health_percentage : undefined,
+    hasSecurityPolicy: hasFile(/^security(\.md|\.txt)?$/i),
+    hasCodeOfConduct:
+      (community.status === 'fulfilled' && Boolean(community.value.data.files.code_of_conduct)) ||
+      hasFile(/^code_of_conduct(\.md)?$/i),
+    hasFunding: hasFile(/^funding\.ya?ml$/i),
+    migrationGuides: repoFiles
+      .filter(
+        (file) =>
+          /migrat|upgrad/i.test(file.name) && (file.type === 'dir' || /\.mdx?$/i.test(file.name))
+      )
+      .map((file) => ({ path: file.path, url: file.url })),
+  };
+}
+
+/**
+ * Entries of a repository directory; empty when the directory does not exist
+ */
+async function listRepoDirectory(
+  owner: string,
+  repo: string,
+  path: string
+): Promise<Array<{ name: string; path: string; type: string; url: string }>> {
+  try {
+    const { data } = await getGitHubClient().repos.getContent({ owner, repo, path });
+    if (!Array.isArray(data)) {
+      return [];
+    }
+
+    return data.map((entry) => ({
+      name: entry.name,
+      path: entry.path,
+      type: entry.type,
+      url: entry.html_url ?? '',
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function summarizeIssueActivity(
+  issues: Array<{ created_at: string; closed_at: string | null; pull_request?: unknown }>,
+  since: string
+): IssueActivity {
+  const windowStart = Date.parse(since);
+  const plainIssues = issues.filter((issue) => !issue.pull_request);
+  const daysToClose = plainIssues.flatMap((issue) =>
+    issue.closed_at && Date.parse(issue.closed_at) >= windowStart
+      ? [(Date.parse(issue.closed_at) - Date.parse(issue.created_at)) / DAY_MS]
+      : []
+  );
+
+  return {
+    opened: plainIssues.filter((issue) => Date.parse(issue.created_at) >= windowStart).length,
+    closed: daysToClose.length,
+    daysToClose,
+  };
+}
+
+/**
+ * Publish dates of every version in the npm registry, newest first
+ */
+async function getPublishDates(packageName: string): Promise<string[]> {
+  const dates = await getCacheStore().getOrSet(
+    'registry',
+    `npm-publish-dates:${packageName}`,
+    async () => {
+      const time = await getPackageFields(packageName, ['time']);
+      if (!isRecord(time)) {
+        return null;
+      }
+
+      const published = Object.entries(time)
+        .filter(([version, date]) => semver.valid(version) && typeof date === 'string')
+        .map(([, date]) => String(date))
+        .sort((a, b) => b.localeCompare(a));
+
+      return published.length > 0 ? published : null;
+    }
+  );
+
+  return dates ?? [];
+}
+
+/**
+ * Downloads per day over the last month, oldest first
+ */
+async function getDailyDownloads(packageName: string): Promise<number[]> {
+  const downloads = await getCacheStore().getOrSet(
+    'registry',
+    `npm-downloads:${packageName}`,
+    async () => {
+      const response = await httpGet<{ downloads?: Array<{ day: string; downloads: number }> }>(
+        `${NPM_DOWNLOADS_API}/${packageName}`
+      );
+      const days = response.data?.downloads ?? [];
+
+      return days.length > 0 ? days.map((day) => day.downloads) : null;
+    }
+  );
+
+  return downloads ?? [];
 }
 
-function analyzeReleaseFrequency(_repoInfo: unknown): MaintenanceInfo['releaseFrequency'] {
-  return RELEASE_FREQUENCIES.MODERATE;
+/**
+ * Change of the last week's downloads against the first week of the month, in percent
+ */
+function calculateTrendingScore(dailyDownloads: number[]): number {
+  if (dailyDownloads.length < 14) {
+    return 0;
+  }
+
+  const earlier = dailyDownloads.slice(0, 7).reduce((total, count) => total + count, 0);
+  const recent = dailyDownloads.slice(-7).reduce((total, count) => total + count, 0);
+  if (earlier === 0) {
+    return recent > 0 ? 100 : 0;
+  }
+
+  return Math.max(-100, Math.min(100, Math.round(((recent - earlier) / earlier) * 100)));
+}
+
+function analyzeReleaseFrequency(releaseDates: string[]): MaintenanceInfo['releaseFrequency'] {
+  const releasesLastYear = countSince(releaseDates, 365);
+
+  if (releasesLastYear >= 24) return RELEASE_FREQUENCIES.VERY_ACTIVE;
+  if (releasesLastYear >= 12) return RELEASE_FREQUENCIES.ACTIVE;
+  if (releasesLastYear >= 4) return RELEASE_FREQUENCIES.MODERATE;
+  if (releasesLastYear >= 1) return RELEASE_FREQUENCIES.SLOW;
+  return RELEASE_FREQUENCIES.INACTIVE;
+}
+
+/**
+ * Median time to close recent issues; issues opened but none closed is a poor response
+ */
+function analyzeMaintainerResponse(activity: IssueActivity): MaintenanceInfo['maintainerResponse'] {
+  if (activity.daysToClose.length === 0) {
+    return activity.opened > 0 ? MAINTAINER_RESPONSES.POOR : MAINTAINER_RESPONSES.UNKNOWN;
+  }
+
+  const sorted = [...activity.daysToClose].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  if (median <= 2) return MAINTAINER_RESPONSES.EXCELLENT;
+  if (median <= 7) return MAINTAINER_RESPONSES.GOOD;
+  if (median <= 30) return MAINTAINER_RESPONSES.AVERAGE;
+  return MAINTAINER_RESPONSES.POOR;
+}
+
+/**
+ * A backlog grows or shrinks when a quarter more issues are opened than closed or the other
+ * way round; differences of a couple of issues are noise
+ */
+function analyzeIssueTrend(activity: IssueActivity): MaintenanceInfo['issueTrend'] {
+  const { opened, closed } = activity;
+
+  if (Math.abs(opened - closed) < 3) return 'stable';
+  if (closed >= opened * 1.25) return 'improving';
+  if (opened >= closed * 1.25) return 'worsening';
+  return 'stable';
+}
+
+function calculateBusFactor(contributions: number[]): number | undefined {
+  const total = contributions.reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return undefined;
+  }
+
+  let covered = 0;
+  for (const [index, count] of contributions.entries()) {
+    covered += count;
+    if (covered * 2 >= total) {
+      return index + 1;
+    }
+  }
+
+  return contributions.length;
+}
+
+function analyzeCommunityHealth(
+  healthPercentage: number | undefined
+): MaintenanceInfo['communityHealth'] {
+  if (healthPercentage === undefined) return COMMUNITY_HEALTH_LEVELS.AVERAGE;
+  if (healthPercentage >= 80) return COMMUNITY_HEALTH_LEVELS.EXCELLENT;
+  if (healthPercentage >= 60) return COMMUNITY_HEALTH_LEVELS.GOOD;
+  if (healthPercentage >= 40) return COMMUNITY_HEALTH_LEVELS.AVERAGE;
+  return COMMUNITY_HEALTH_LEVELS.POOR;
+}
+
+function countSince(dates: string[], days: number): number {
+  const start = Date.now() - days * DAY_MS;
+  return dates.filter((date) => Date.parse(date) >= start).length;
 }
 
 function extractVulnerabilities(
@@ -675,35 +1057,45 @@ function calculateSecurityScore(vulnerabilities: SecurityVulnerability[]): numbe
   return 100 - vulnerabilities.length * 10;
 }
 
-async function hasSecurityPolicy(_packageName: string): Promise<boolean> {
-  return false;
+async function hasSecurityPolicy(packageName: string): Promise<boolean> {
+  return (await getGitHubRepoInfo(packageName))?.hasSecurityPolicy ?? false;
 }
 
-async function hasCodeOfConduct(_packageName: string): Promise<boolean> {
-  return false;
+async function hasCodeOfConduct(packageName: string): Promise<boolean> {
+  return (await getGitHubRepoInfo(packageName))?.hasCodeOfConduct ?? false;
 }
 
-async function getGitHubStats(_packageName: string): Promise<unknown> {
-  return null;
-}
-
-// Helper functions are now imported from package-helpers.ts
-
+/**
+ * Migration or upgrade guide of the repository, preferring one that names the target major
+ * version, e.g. docs/migrating-to-v5.md
+ */
 async function findMigrationGuide(
-  _packageName: string,
+  packageName: string,
   _fromVersion: string,
-  _toVersion: string
+  toVersion: string
 ): Promise<string | undefined> {
-  // Would search for migration guides in documentation
-  return undefined;
+  const guides = (await getGitHubRepoInfo(packageName))?.migrationGuides ?? [];
+  const major = semver.coerce(toVersion)?.major;
+  const namesMajor = (path: string) =>
+    major !== undefined && new RegExp(`(^|\\D)${major}(\\D|$)`).test(basename(path));
+
+  return (guides.find((guide) => namesMajor(guide.path)) ?? guides[0])?.url;
 }
 
 async function findCodemods(
-  _packageName: string,
+  packageName: string,
   _fromVersion: string,
-  _toVersion: string
+  toVersion: string
 ): Promise<Codemod[]> {
-  return [];
+  const codemods = selectCodemods(await loadCodemodPacks(), packageName, toVersion);
+
+  // Each codemod rewrites every usage of its API, see `renovate-safety fix`
+  return codemods.map((codemod) => ({
+    name: codemod.id,
+    description: codemod.description,
+    command: 'renovate-safety fix --pr <number>',
+    coverage: 100,
+  }));
 }
 
 async function analyzeBreakingChanges(
@@ -0,0 +1,227 @@
+/**
+ * LLM provider registry
+ * One list of providers for the changelog summaries (llm.ts) and the Mastra agents. Besides the
+ * built-in claude-cli, anthropic and openai providers, the `llm` section of .renovate-safety.json
+ * can add OpenAI-compatible servers (Ollama, vLLM, proxies), set the fallback order and
+ * override the provider or model per agent
+ */
+
+import { z } from 'zod';
+import { getEnvVar } from './env-validator.js';
+import { secureSystemExec } from './secure-exec.js';
+
+export const LLM_PROVIDER_TYPES = [
+  'claude-cli',
+  'anthropic',
+  'openai',
+  'openai-compatible',
+] as const;
+
+export type LLMProviderType = (typeof LLM_PROVIDER_TYPES)[number];
+
+const providerSchema = z
+  .object({
+    type: z.enum(LLM_PROVIDER_TYPES),
+    /** API root, e.g. http://localhost:11434/v1 for Ollama */
+    baseURL: z.string().url().optional(),
+    /** Environment variable holding the API key; local servers usually need none */
+    apiKeyEnv: z.string().min(1).optional(),
+    /** Model used unless an agent override names another */
+    model: z.string().min(1).optional(),
+  })
+  .strict()
+  .refine((provider) => provider.type !== 'openai-compatible' || provider.baseURL, {
+    message: 'openai-compatible providers need a baseURL',
+  })
+  .refine((provider) => provider.type !== 'openai-compatible' || provider.model, {
+    message: 'openai-compatible providers need a model',
+  });
+
+const llmConfigSchema = z
+  .object({
+    providers: z.record(providerSchema).default({}),
+    /** Providers tried in this order; unavailable ones are skipped */
+    fallbackOrder: z.array(z.string()).optional(),
+    /** Per-agent overrides keyed by agent name, e.g. CodeImpactAgent */
+    agents: z
+      .record(
+        z.object({ provider: z.string().optional(), model: z.string().min(1).optional() }).strict()
+      )
+      .default({}),
+  })
+  .strict();
+
+export type LLMProviderConfig = z.infer<typeof providerSchema>;
+
+export type LLMConfig = z.infer<typeof llmConfigSchema>;
+
+export type LLMProvider = LLMProviderConfig & { name: string };
+
+/** Provider types the Mastra agents can run on */
+const AGENT_PROVIDER_TYPES: ReadonlySet<LLMProviderType> = new Set(['openai', 'openai-compatible']);
+
+export const BUILTIN_PROVIDERS: Record<string, LLMProviderConfig> = {
+  'claude-cli': { type: 'claude-cli' },
+  anthropic: { type: 'anthropic' },
+  openai: { type: 'openai' },
+};
+
+/** Key variables for providers without apiKeyEnv */
+const DEFAULT_API_KEY_ENV: Partial<Record<LLMProviderType, string>> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+};
+
+const DEFAULT_FALLBACK_ORDER = ['claude-cli', 'anthropic', 'openai'];
+
+/** Placeholder for servers that accept any key; the OpenAI clients refuse an empty one */
+const NO_API_KEY = 'not-needed';
+
+let llmConfig: LLMConfig = { providers: {}, agents: {} };
+
+/**
+ * Validate the `llm` section of a config file; every provider it names must be defined
+ */
+export function parseLLMConfig(raw: unknown): LLMConfig {
+  const result = llmConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'llm'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid llm in .renovate-safety.json: ${issues}`);
+  }
+
+  const config = result.data;
+  const known = new Set([...Object.keys(BUILTIN_PROVIDERS), ...Object.keys(config.providers)]);
+  const references = [
+    ...(config.fallbackOrder ?? []).map((name, index) => [`fallbackOrder.${index}`, name]),
+    ...Object.entries(config.agents).map(([agent, override]) => [
+      `agents.${agent}.provider`,
+      override.provider,
+    ]),
+  ];
+  const unknown = references.filter(([, name]) => name !== undefined && !known.has(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Invalid llm in .renovate-safety.json: ${unknown
+        .map(([where, name]) => `${where}: unknown provider "${name}"`)
+        .join('; ')}`
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Use the configured providers; undefined restores the built-in ones
+ */
+export function setLLMConfig(config: LLMConfig | undefined): void {
+  llmConfig = config ?? { providers: {}, agents: {} };
+}
+
+export function getLLMProvider(name: string): LLMProvider | undefined {
+  const provider = llmConfig.providers[name] ?? BUILTIN_PROVIDERS[name];
+  return provider && { ...provider, name };
+}
+
+export function getLLMProviderNames(): string[] {
+  return [...new Set([...Object.keys(BUILTIN_PROVIDERS), ...Object.keys(llmConfig.providers)])];
+}
+
+/**
+ * Providers in the order they are tried: the configured fallbackOrder, otherwise the
+ * built-in order followed by the configured providers
+ */
+export function getFallbackOrder(): LLMProvider[] {
+  const names = llmConfig.fallbackOrder ?? [
+    ...DEFAULT_FALLBACK_ORDER,
+    ...Object.keys(llmConfig.providers).filter((name) => !DEFAULT_FALLBACK_ORDER.includes(name)),
+  ];
+  return names.map(getLLMProvider).filter((provider): provider is LLMProvider => Boolean(provider));
+}
+
+export function getProviderApiKey(provider: LLMProvider): string | undefined {
+  const name = provider.apiKeyEnv ?? DEFAULT_API_KEY_ENV[provider.type];
+  return name ? getEnvVar(name) : undefined;
+}
+
+/**
+ * API key to send; OpenAI-compatible servers without a key get a placeholder
+ */
+export function getProviderClientApiKey(provider: LLMProvider): string | undefined {
+  const apiKey = getProviderApiKey(provider);
+  return provider.type === 'openai-compatible' ? apiKey || NO_API_KEY : apiKey;
+}
+
+/**
+ * Whether the provider is configured well enough to try; claude-cli is checked separately
+ * because it needs a process to find out
+ */
+export function hasProviderCredentials(provider: LLMProvider): boolean {
+  switch (provider.type) {
+    case 'claude-cli':
+      return true;
+    case 'openai-compatible':
+      return (
+        Boolean(provider.baseURL) && (!provider.apiKeyEnv || Boolean(getProviderApiKey(provider)))
+      );
+    default:
+      return Boolean(getProviderApiKey(provider));
+  }
+}
+
+export async function isProviderAvailable(provider: LLMProvider): Promise<boolean> {
+  if (provider.type !== 'claude-cli') {
+    return hasProviderCredentials(provider);
+  }
+
+  try {
+    const result = await secureSystemExec('claude', ['--version'], { timeout: 5000 });
+    return result.success;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Providers to try in fallback order, starting with the preferred one when given
+ */
+export function getProviderCandidates(preferred?: string): LLMProvider[] {
+  const order = getFallbackOrder();
+  const first = preferred ? getLLMProvider(preferred) : undefined;
+  return first ? [first, ...order.filter((provider) => provider.name !== first.name)] : order;
+}
+
+/**
+ * First provider in fallback order the Mastra agents can use, ignoring per-agent overrides
+ */
+export function getAgentProvider(): LLMProvider | undefined {
+  return getFallbackOrder().find(
+    (provider) => AGENT_PROVIDER_TYPES.has(provider.type) && hasProviderCredentials(provider)
+  );
+}
+
+/**
+ * Provider and model for a Mastra agent: the agent override, otherwise the first provider
+ * in fallback order the agents can use. Throws when none is configured
+ */
+export function resolveAgentModel(
+  agentName: string,
+  defaultModel: string
+): { provider: LLMProvider; modelId: string } {
+  const override = llmConfig.agents[agentName];
+  const provider = override?.provider ? getLLMProvider(override.provider) : getAgentProvider();
+
+  if (!provider) {
+    throw new Error(
+      'No LLM provider for the agents. Set OPENAI_API_KEY or add an openai-compatible provider to the llm section of .renovate-safety.json'
+    );
+  }
+  if (!AGENT_PROVIDER_TYPES.has(provider.type)) {
+    throw new Error(
+      `Provider "${provider.name}" (${provider.type}) cannot run ${agentName}; agents need an openai or openai-compatible provider`
+    );
+  }
+
+  return { provider, modelId: override?.model || provider.model || defaultModel };
+}
@@ -1,10 +1,16 @@
 import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import { generatePackageCacheKey } from './cache-utils.js';
-import { getEnvironmentConfig } from './env-config.js';
+import { generateCacheKey } from './cache-utils.js';
+import { getCacheStore } from './cache-store.js';
 import { secureSystemExec } from './secure-exec.js';
+import { bundleFetch } from './offline-bundle.js';
+import {
+  getProviderApiKey,
+  getProviderCandidates,
+  getProviderClientApiKey,
+  isProviderAvailable,
+  type LLMProvider,
+} from './llm-providers.js';
 import type {
   PackageUpdate,
   ChangelogDiff,
@@ -13,15 +19,31 @@ import type {
   CodeDiff,
   DependencyUsage,
 } from '../types/index.js';
-import { fileExists, readJsonFile, ensureDirectory } from './file-helpers.js';
 import { loggers } from './logger.js';
 import { logError } from './logger-extended.js';
+import {
+  generateStructured,
+  type AgentMessage,
+  type AgentResponse,
+  type StructuredAgent,
+} from '../mastra/services/structured-output.js';
+import { z } from 'zod';
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000;
 
+const ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022';
+const OPENAI_MODEL = 'o3-mini';
+
+const llmSummarySchema = z.object({
+  summary: z.string().min(1),
+  language: z.enum(['en', 'ja']),
+  breakingChanges: z.array(z.string()),
+});
+
 type LLMAnalysisOptions = {
-  provider?: 'claude-cli' | 'anthropic' | 'openai';
+  /** Provider name from the registry; tried first, before the fallback order */
+  provider?: string;
   cacheDir?: string;
   language?: 'en' | 'ja';
 };
@@ -30,17 +52,11 @@ export async function summarizeWithLLM(
   packageUpdate: PackageUpdate,
   changelogDiff: ChangelogDiff,
   breakingChanges: BreakingChange[],
-  provider?: 'claude-cli' | 'anthropic' | 'openai',
+  provider?: string,
   cacheDir?: string
 ): Promise<LLMSummary | null> {
-  // Check cache first
-  if (cacheDir) {
-    const cached = await getCachedSummary(packageUpdate, cacheDir);
-    if (cached) return cached;
-  }
-
   // Determine provider
-  const llmProvider = provider || (await detectProvider());
+  const llmProvider = await detectProvider(getProviderCandidates(provider));
   if (!llmProvider) {
     loggers.warn(
       'No LLM provider available. Install Claude CLI or set ANTHROPIC_API_KEY/OPENAI_API_KEY.'
@@ -51,22 +67,17 @@ export async function summarizeWithLLM(
   try {
     const prompt = buildPrompt(packageUpdate, changelogDiff, breakingChanges);
 
-    let summary: LLMSummary | null = null;
-    switch (llmProvider) {
-      case 'claude-cli':
-        summary = await summarizeWithClaudeCLI(prompt);
-        break;
-      case 'anthropic':
-        summary = await summarizeWithAnthropic(prompt);
-        break;
-      case 'openai':
-        summary = await summarizeWithOpenAI(prompt);
-        break;
+    // Check cache first
+    if (cacheDir) {
+      const cached = await getCachedSummary(llmProvider, prompt, cacheDir);
+      if (cached) return cached;
     }
 
+    const summary = await summarizeWithProvider(llmProvider, prompt);
+
     // Cache the result
     if (summary && cacheDir) {
-      await cacheSummary(packageUpdate, summary, cacheDir);
+      await cacheSummary(llmProvider, prompt, summary, cacheDir);
     }
 
     return summary;
@@ -76,30 +87,52 @@ export async function summarizeWithLLM(
   }
 }
 
-async function detectProvider(): Promise<'claude-cli' | 'anthropic' | 'openai' | null> {
-  // Priority 1: Claude CLI (for Pro/Max users - preferred for best model access)
-  try {
-    const result = await secureSystemExec('claude', ['--version'], { timeout: 5000 });
-    if (result.success) {
-      return 'claude-cli';
+/**
+ * First available provider among the candidates, which start with the preferred one
+ * followed by the configured fallback order
+ */
+async function detectProvider(candidates: LLMProvider[]): Promise<LLMProvider | null> {
+  for (const provider of candidates) {
+    if (await isProviderAvailable(provider)) {
+      return provider;
     }
-  } catch {
-    // Claude CLI not available, continue to next option
   }
 
-  const config = getEnvironmentConfig();
-
-  // Priority 2: Anthropic API
-  if (config.anthropicApiKey) {
-    return 'anthropic';
-  }
+  return null;
+}
 
-  // Priority 3: OpenAI API
-  if (config.openaiApiKey) {
-    return 'openai';
-  }
+/**
+ * Summary from the provider; the answer is validated against the summary schema and sent
+ * back for repair when it does not match
+ */
+async function summarizeWithProvider(
+  provider: LLMProvider,
+  prompt: string
+): Promise<LLMSummary | null> {
+  const { object } = await generateStructured(
+    createSummaryAgent(provider),
+    llmSummarySchema,
+    provider.type === 'claude-cli' ? truncateCLIPrompt(prompt) : prompt
+  );
+  return object;
+}
 
-  return null;
+function createSummaryAgent(provider: LLMProvider): StructuredAgent {
+  return {
+    name: `${provider.name} summary`,
+    generateVNext: (messages) =>
+      withRetries(() => {
+        switch (provider.type) {
+          case 'claude-cli':
+            return completeWithClaudeCLI(messages);
+          case 'anthropic':
+            return completeWithAnthropic(messages, provider);
+          default:
+            // openai and openai-compatible servers share the OpenAI client
+            return completeWithOpenAI(messages, provider);
+        }
+      }),
+  };
 }
 
 function buildPrompt(
@@ -136,200 +169,166 @@ Format your response as JSON:
 }`;
 }
 
-async function summarizeWithClaudeCLI(prompt: string): Promise<LLMSummary | null> {
+function truncateCLIPrompt(prompt: string): string {
   // Test if prompt is too long or contains problematic characters
-  if (prompt.length > 10000) {
-    prompt = prompt.substring(0, 9000) + '\n\n... (truncated for analysis)';
-  }
-
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const result = await secureSystemExec(
-        'claude',
-        ['-p', prompt, '--output-format', 'json', '--max-turns', '1'],
-        {
-          timeout: 30000, // 30 second timeout for Claude CLI stability
-        }
-      );
-
-      if (!result.success) {
-        throw new Error(`Claude CLI failed: ${result.error}`);
-      }
+  return prompt.length > 10000
+    ? prompt.substring(0, 9000) + '\n\n... (truncated for analysis)'
+    : prompt;
+}
 
-      return parseResponse(result.stdout);
-    } catch (error) {
-      if (attempt < MAX_RETRIES - 1) {
-        await sleep(RETRY_DELAY * (attempt + 1));
-        continue;
-      }
-      throw error;
+async function completeWithClaudeCLI(messages: AgentMessage[]): Promise<AgentResponse> {
+  // The CLI takes a single prompt, so a repair request carries the earlier answer inline
+  const prompt = messages
+    .map((message) =>
+      message.role === 'assistant' ? `Your previous response:\n${message.content}` : message.content
+    )
+    .join('\n\n');
+
+  const result = await secureSystemExec(
+    'claude',
+    ['-p', prompt, '--output-format', 'text', '--max-turns', '1'],
+    {
+      timeout: 30000, // 30 second timeout for Claude CLI stability
     }
+  );
+
+  if (!result.success) {
+    throw new Error(`Claude CLI failed: ${result.error}`);
   }
 
-  return null;
+  return { text: result.stdout };
 }
 
-async function summarizeWithAnthropic(prompt: string): Promise<LLMSummary | null> {
-  const config = getEnvironmentConfig();
-  if (!config.anthropicApiKey) {
-    throw new Error('Anthropic API key is not configured');
+async function completeWithAnthropic(
+  messages: AgentMessage[],
+  provider: LLMProvider
+): Promise<AgentResponse> {
+  const apiKey = getProviderApiKey(provider);
+  if (!apiKey) {
+    throw new Error(`API key for LLM provider "${provider.name}" is not configured`);
   }
   const anthropic = new Anthropic({
-    apiKey: config.anthropicApiKey,
+    apiKey,
+    baseURL: provider.baseURL,
+    fetch: bundleFetch,
   });
 
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const response = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        temperature: 0,
-        system:
-          'You are a helpful assistant that analyzes software changelogs. Always respond with valid JSON.',
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      });
-
-      const content = response.content[0];
-      if (content.type === 'text') {
-        return parseResponse(content.text);
-      }
-
-      return null;
-    } catch (error) {
-      if (attempt < MAX_RETRIES - 1) {
-        await sleep(RETRY_DELAY * (attempt + 1));
-        continue;
-      }
-      throw error;
-    }
-  }
+  const response = await anthropic.messages.create({
+    model: getProviderModel(provider),
+    max_tokens: 1000,
+    temperature: 0,
+    system:
+      'You are a helpful assistant that analyzes software changelogs. Always respond with valid JSON.',
+    messages,
+  });
 
-  return null;
+  const content = response.content[0];
+  return {
+    text: content?.type === 'text' ? content.text : '',
+    usage: {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    },
+  };
 }
 
-async function summarizeWithOpenAI(prompt: string): Promise<LLMSummary | null> {
-  const config = getEnvironmentConfig();
-  if (!config.openaiApiKey) {
-    throw new Error('OpenAI API key is not configured');
+async function completeWithOpenAI(
+  messages: AgentMessage[],
+  provider: LLMProvider
+): Promise<AgentResponse> {
+  const apiKey = getProviderClientApiKey(provider);
+  if (!apiKey) {
+    throw new Error(`API key for LLM provider "${provider.name}" is not configured`);
   }
   const openai = new OpenAI({
-    apiKey: config.openaiApiKey,
+    apiKey,
+    baseURL: provider.baseURL,
+    fetch: bundleFetch,
   });
 
   // Check if prompt is in Japanese
-  const isJapanesePrompt = prompt.includes('日本語で');
+  const isJapanesePrompt = messages[0].content.includes('日本語で');
+  const systemPrompt = isJapanesePrompt
+    ? 'あなたはソフトウェアの変更履歴を分析する有用なアシスタントです。常に有効なJSONで応答してください。日本語で回答してください。'
+    : 'You are a helpful assistant that analyzes software changelogs. Always respond with valid JSON.';
+
+  const response = await openai.chat.completions.create({
+    model: getProviderModel(provider),
+    messages: [
+      {
+        role: 'system',
+        content: systemPrompt,
+      },
+      ...messages,
+    ],
+    max_completion_tokens: 1000,
+    response_format: { type: 'json_object' },
+  });
 
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const systemPrompt = isJapanesePrompt
-        ? 'あなたはソフトウェアの変更履歴を分析する有用なアシスタントです。常に有効なJSONで応答してください。日本語で回答してください。'
-        : 'You are a helpful assistant that analyzes software changelogs. Always respond with valid JSON.';
-
-      const response = await openai.chat.completions.create({
-        model: 'o3-mini',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        max_completion_tokens: 1000,
-        response_format: { type: 'json_object' },
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (content) {
-        return parseResponse(content);
-      }
+  return {
+    text: response.choices[0]?.message?.content ?? '',
+    usage: {
+      inputTokens: response.usage?.prompt_tokens,
+      outputTokens: response.usage?.completion_tokens,
+      totalTokens: response.usage?.total_tokens,
+    },
+  };
+}
 
-      return null;
+/**
+ * Retry failed provider calls with a growing delay; the last error is rethrown
+ */
+async function withRetries<T>(execute: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await execute();
     } catch (error) {
-      if (attempt < MAX_RETRIES - 1) {
-        await sleep(RETRY_DELAY * (attempt + 1));
-        continue;
+      if (attempt >= MAX_RETRIES) {
+        throw error;
       }
-      throw error;
-    }
-  }
-
-  return null;
-}
-
-function parseResponse(text: string): LLMSummary | null {
-  try {
-    // Extract JSON from the response (in case there's extra text)
-    const jsonRegex = /\{[\s\S]*\}/;
-    const jsonMatch = jsonRegex.exec(text);
-    if (!jsonMatch) {
-      loggers.warn('No JSON found in LLM response');
-      return null;
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]);
-
-    // Validate the response
-    if (!parsed.summary || !parsed.language || !Array.isArray(parsed.breakingChanges)) {
-      loggers.warn('Invalid LLM response format');
-      return null;
+      await sleep(RETRY_DELAY * attempt);
     }
-
-    return {
-      summary: parsed.summary,
-      language: parsed.language === 'ja' ? 'ja' : 'en',
-      breakingChanges: parsed.breakingChanges.filter((x: unknown) => typeof x === 'string'),
-    };
-  } catch (error) {
-    loggers.warn('Failed to parse LLM response:', error);
-    return null;
   }
 }
 
 async function getCachedSummary(
-  packageUpdate: PackageUpdate,
+  provider: LLMProvider,
+  prompt: string,
   cacheDir: string
 ): Promise<LLMSummary | null> {
-  try {
-    const cacheKey = getSummaryCacheKey(packageUpdate);
-    const cachePath = path.join(cacheDir, 'summaries', `${cacheKey}.json`);
-
-    const exists = await fileExists(cachePath);
-    if (!exists) return null;
-
-    return await readJsonFile<LLMSummary>(cachePath);
-  } catch {
-    return null;
-  }
+  return getCacheStore(cacheDir).get<LLMSummary>('llm', getSummaryCacheKey(provider, prompt));
 }
 
 async function cacheSummary(
-  packageUpdate: PackageUpdate,
+  provider: LLMProvider,
+  prompt: string,
   summary: LLMSummary,
   cacheDir: string
 ): Promise<void> {
-  try {
-    const summaryDir = path.join(cacheDir, 'summaries');
-    await ensureDirectory(summaryDir);
+  await getCacheStore(cacheDir).set('llm', getSummaryCacheKey(provider, prompt), summary);
+}
 
-    const cacheKey = getSummaryCacheKey(packageUpdate);
-    const cachePath = path.join(summaryDir, `${cacheKey}.json`);
+/**
+ * Summaries are keyed by the model that produced them and a hash of the full prompt,
+ * so any change to the inputs or the prompt template misses the cache
+ */
+function getSummaryCacheKey(provider: LLMProvider, prompt: string): string {
+  return `summary:${provider.name}:${getProviderModel(provider)}:${generateCacheKey(prompt)}`;
+}
 
-    await fs.writeFile(cachePath, JSON.stringify(summary, null, 2));
-  } catch (error) {
-    loggers.warn('Failed to cache summary:', error);
+function getProviderModel(provider: LLMProvider): string {
+  if (provider.model) {
+    return provider.model;
   }
-}
 
-function getSummaryCacheKey(packageUpdate: PackageUpdate): string {
-  return generatePackageCacheKey(packageUpdate);
+  switch (provider.type) {
+    case 'anthropic':
+      return ANTHROPIC_MODEL;
+    case 'openai':
+      return OPENAI_MODEL;
+    default:
+      return 'claude-cli-default';
+  }
 }
 
 function sleep(ms: number): Promise<void> {
@@ -347,24 +346,13 @@ export async function enhancedLLMAnalysis(
 ): Promise<LLMSummary | null> {
   const { provider, cacheDir, language = 'en' } = options;
 
-  // Fix invalid provider parameter (likely from CLI parsing issue)
-  let validProvider = provider;
-  if (typeof provider !== 'string' || !['claude-cli', 'anthropic', 'openai'].includes(provider)) {
-    validProvider = undefined;
-  }
-
-  // Check cache first
-  if (cacheDir) {
-    const cached = await getCachedEnhancedSummary(packageUpdate, cacheDir);
-    if (cached) return cached;
-  }
-
-  // Determine provider
-  const llmProvider = validProvider || (await detectProvider());
+  // Providers in the order they are tried; the first available one names the cache entry
+  const candidates = getProviderCandidates(provider);
+  const llmProvider = await detectProvider(candidates);
 
   if (!llmProvider) {
     loggers.warn(
-      'No LLM provider available. Install Claude CLI or set ANTHROPIC_API_KEY/OPENAI_API_KEY.'
+      'No LLM provider available. Install Claude CLI, set ANTHROPIC_API_KEY/OPENAI_API_KEY or configure a provider under llm in .renovate-safety.json.'
     );
     return null;
   }
@@ -379,55 +367,33 @@ export async function enhancedLLMAnalysis(
       language
     );
 
-    let summary: LLMSummary | null = null;
+    // Check cache first
+    if (cacheDir) {
+      const cached = await getCachedSummary(llmProvider, prompt, cacheDir);
+      if (cached) return cached;
+    }
 
-    // Try primary provider first
+    let summary: LLMSummary | null = null;
 
-    try {
-      switch (llmProvider) {
-        case 'claude-cli':
-          summary = await summarizeWithClaudeCLI(prompt);
-          break;
-        case 'anthropic':
-          summary = await summarizeWithAnthropic(prompt);
-          break;
-        case 'openai':
-          summary = await summarizeWithOpenAI(prompt);
-          break;
+    // Try the primary provider first, then the rest of the fallback order
+    const fallbackProviders = candidates.slice(candidates.indexOf(llmProvider) + 1);
+    for (const candidate of [llmProvider, ...fallbackProviders]) {
+      if (candidate !== llmProvider && !(await isProviderAvailable(candidate))) {
+        continue;
       }
-    } catch {
-      // Try fallback providers
-      const fallbackProviders = ['anthropic', 'openai'].filter((p) => p !== llmProvider);
-
-      for (const fallback of fallbackProviders) {
-        const config = getEnvironmentConfig();
-        if (
-          (fallback === 'anthropic' && config.anthropicApiKey) ||
-          (fallback === 'openai' && config.openaiApiKey)
-        ) {
-          try {
-            switch (fallback) {
-              case 'anthropic':
-                summary = await summarizeWithAnthropic(prompt);
-                break;
-              case 'openai':
-                summary = await summarizeWithOpenAI(prompt);
-                break;
-            }
-
-            if (summary) {
-              break;
-            }
-          } catch {
-            // Fallback provider failed, try next
-          }
-        }
+
+      try {
+        summary = await summarizeWithProvider(candidate, prompt);
+        break;
+      } catch {
+        // Provider failed, try the next one
       }
     }
 
     // Cache the result
+    // Fallback results are cached under the requested provider, which is what the next run asks for
     if (summary && cacheDir) {
-      await cacheEnhancedSummary(packageUpdate, summary, cacheDir);
+      await cacheSummary(llmProvider, prompt, summary, cacheDir);
     }
 
     return summary;
@@ -545,42 +511,3 @@ Format your response as JSON:
 
   return sections.join('\n');
 }
-
-async function getCachedEnhancedSummary(
-  packageUpdate: PackageUpdate,
-  cacheDir: string
-): Promise<LLMSummary | null> {
-  try {
-    const cacheKey = getEnhancedSummaryCacheKey(packageUpdate);
-    const cachePath = path.join(cacheDir, 'enhanced-summaries', `${cacheKey}.json`);
-
-    const exists = await fileExists(cachePath);
-    if (!exists) return null;
-
-    return await readJsonFile<LLMSummary>(cachePath);
-  } catch {
-    return null;
-  }
-}
-
-async function cacheEnhancedSummary(
-  packageUpdate: PackageUpdate,
-  summary: LLMSummary,
-  cacheDir: string
-): Promise<void> {
-  try {
-    const summaryDir = path.join(cacheDir, 'enhanced-summaries');
-    await ensureDirectory(summaryDir);
-
-    const cacheKey = getEnhancedSummaryCacheKey(packageUpdate);
-    const cachePath = path.join(summaryDir, `${cacheKey}.json`);
-
-    await fs.writeFile(cachePath, JSON.stringify(summary, null, 2));
-  } catch (error) {
-    loggers.warn('Failed to cache enhanced summary:', error);
-  }
-}
-
-function getEnhancedSummaryCacheKey(packageUpdate: PackageUpdate): string {
-  return generatePackageCacheKey(packageUpdate, 'enhanced');
-}
@@ -0,0 +1,179 @@
+/**
+ * Lockfile diff parsing
+ * Reads the version changes a PR makes to package-lock.json, yarn.lock, pnpm-lock.yaml,
+ * composer.lock, Cargo.lock and Gemfile.lock out of its unified diff
+ */
+
+import { basename } from 'path';
+import type { PackageUpdate } from '../types/index.js';
+
+type LockfileFormat = 'npm' | 'yarn' | 'pnpm' | 'composer' | 'cargo' | 'bundler';
+
+const LOCKFILE_FORMATS: Record<string, LockfileFormat> = {
+  'package-lock.json': 'npm',
+  'npm-shrinkwrap.json': 'npm',
+  'yarn.lock': 'yarn',
+  'pnpm-lock.yaml': 'pnpm',
+  'composer.lock': 'composer',
+  'Cargo.lock': 'cargo',
+  'Gemfile.lock': 'bundler',
+};
+
+/**
+ * A diff line split into its marker (' ', '-', '+') and content
+ */
+type DiffLine = {
+  marker: ' ' | '-' | '+';
+  text: string;
+};
+
+/**
+ * Collect the package version changes recorded in every lockfile touched by a unified diff
+ * Packages changed in several lockfiles are reported once, from the first lockfile seen
+ */
+export function parseLockfileDiff(diff: string): PackageUpdate[] {
+  const updates = new Map<string, PackageUpdate>();
+
+  for (const [file, lines] of splitDiffByFile(diff)) {
+    const format = LOCKFILE_FORMATS[basename(file)];
+    if (!format) continue;
+
+    for (const update of parseLockfileLines(format, lines)) {
+      if (!updates.has(update.name) && update.fromVersion !== update.toVersion) {
+        updates.set(update.name, update);
+      }
+    }
+  }
+
+  return [...updates.values()];
+}
+
+export function isLockfile(file: string): boolean {
+  return basename(file) in LOCKFILE_FORMATS;
+}
+
+function splitDiffByFile(diff: string): Map<string, DiffLine[]> {
+  const files = new Map<string, DiffLine[]>();
+  let current: DiffLine[] | null = null;
+
+  for (const line of diff.split('\n')) {
+    const header = /^diff --git a\/(\S+) b\/(\S+)/.exec(line);
+    if (header) {
+      current = [];
+      files.set(header[2], current);
+      continue;
+    }
+
+    if (!current || line.startsWith('+++') || line.startsWith('---') || line.startsWith('@@')) {
+      continue;
+    }
+
+    const marker = line.charAt(0);
+    if (marker === ' ' || marker === '-' || marker === '+') {
+      current.push({ marker, text: line.slice(1) });
+    }
+  }
+
+  return files;
+}
+
+function parseLockfileLines(format: LockfileFormat, lines: DiffLine[]): PackageUpdate[] {
+  switch (format) {
+    case 'npm':
+      // "node_modules/foo": { ... "version": "1.0.0"
+      return parseVersionedBlocks(
+        lines,
+        /^\s*"((?:[^"]*\/)?node_modules\/(@[^/"]+\/[^/"]+|[^@/"][^/"]*))"\s*:\s*\{/,
+        /^\s*"version"\s*:\s*"([^"]+)"/,
+        (match) => (match[1] === `node_modules/${match[2]}` ? match[2] : null)
+      );
+    case 'yarn':
+      // "foo@^1.0.0", foo@^1.1.0:  /  version "1.0.0" (classic) or version: 1.0.0 (berry)
+      return parseVersionedBlocks(
+        lines,
+        /^"?(@?[^@\s"]+)@[^\n]*:\s*$/,
+        /^\s+version:?\s+"?([^"\s]+)"?/
+      );
+    case 'composer':
+      // "name": "vendor/package", ... "version": "v1.0.0"
+      return parseVersionedBlocks(
+        lines,
+        /^\s*"name"\s*:\s*"([^"]+\/[^"]+)"/,
+        /^\s*"version"\s*:\s*"v?([^"]+)"/
+      );
+    case 'cargo':
+      // name = "serde" / version = "1.0.0"
+      return parseVersionedBlocks(lines, /^name\s*=\s*"([^"]+)"/, /^version\s*=\s*"([^"]+)"/);
+    case 'pnpm':
+      // /foo@1.0.0: (lockfile v6) or foo@1.0.0: (v9) package keys
+      return parseReplacedEntries(lines, /^\s{2}'?\/?(@?[^@\s'/]+(?:\/[^@\s']+)?)@([^(:'\s]+)/);
+    case 'bundler':
+      // "    rails (7.0.8)" under GEM specs
+      return parseReplacedEntries(lines, /^\s{4}([\w.-]+) \(([^)\s]+)\)$/);
+  }
+}
+
+/**
+ * Formats where a package header line is followed by its version line: the header may be
+ * unchanged context or itself replaced (yarn ranges), the version line is what changes
+ */
+function parseVersionedBlocks(
+  lines: DiffLine[],
+  headerPattern: RegExp,
+  versionPattern: RegExp,
+  getName: (match: RegExpExecArray) => string | null = (match) => match[1]
+): PackageUpdate[] {
+  const updates: PackageUpdate[] = [];
+  let name: string | null = null;
+  let fromVersion: string | null = null;
+
+  for (const { marker, text } of lines) {
+    const header = headerPattern.exec(text);
+    if (header) {
+      // A replaced header shows up as a removed and an added line for the same package
+      const headerName = getName(header);
+      if (marker === ' ' || headerName !== name) {
+        name = headerName;
+        fromVersion = null;
+      }
+      continue;
+    }
+
+    const version = versionPattern.exec(text);
+    if (!version || !name) continue;
+
+    if (marker === '-') {
+      fromVersion = version[1];
+    } else if (marker === '+' && fromVersion) {
+      updates.push({ name, fromVersion, toVersion: version[1] });
+      fromVersion = null;
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Formats where the version is part of the entry itself, so an update is a removed entry
+ * paired with an added entry of the same name
+ */
+function parseReplacedEntries(lines: DiffLine[], entryPattern: RegExp): PackageUpdate[] {
+  const removed = new Map<string, string>();
+  const added = new Map<string, string>();
+
+  for (const { marker, text } of lines) {
+    if (marker === ' ') continue;
+
+    const entry = entryPattern.exec(text);
+    if (!entry) continue;
+
+    const versions = marker === '-' ? removed : added;
+    if (!versions.has(entry[1])) {
+      versions.set(entry[1], entry[2]);
+    }
+  }
+
+  return [...removed.entries()]
+    .filter(([name]) => added.has(name))
+    .map(([name, fromVersion]) => ({ name, fromVersion, toVersion: added.get(name) ?? '' }));
+}
@@ -0,0 +1,220 @@
+/**
+ * Maven repository operations
+ * Reads maven-metadata.xml and POM files using the standard repository layout
+ * (https://maven.apache.org/repositories/layout.html), so Maven Central, Nexus/Artifactory
+ * mirrors, or a local stand-in all work
+ */
+
+import semver from 'semver';
+import { httpGetText } from './http-client.js';
+import { getEnvironmentConfig } from './env-config.js';
+import { validateMavenCoordinate } from './validation.js';
+import { loggers } from './logger.js';
+
+export const DEFAULT_MAVEN_REPOSITORY = 'https://repo1.maven.org/maven2';
+
+export type MavenCoordinate = {
+  groupId: string;
+  artifactId: string;
+};
+
+export type MavenMetadata = {
+  versions: string[];
+  latest?: string;
+  release?: string;
+  lastUpdated?: string;
+};
+
+export type MavenRelocation = {
+  groupId?: string;
+  artifactId?: string;
+  version?: string;
+  message?: string;
+};
+
+/**
+ * The project-level POM fields the analyzer cares about
+ */
+export type MavenPom = {
+  name?: string;
+  description?: string;
+  url?: string;
+  scmUrl?: string;
+  licenses: string[];
+  javaVersion?: string;
+  relocation?: MavenRelocation;
+};
+
+/**
+ * Resolve the repository base URL: explicit argument, then environment, then Maven Central
+ */
+export function getMavenRepositoryUrl(repositoryUrl?: string): string {
+  const base =
+    repositoryUrl || getEnvironmentConfig().mavenRepositoryUrl || DEFAULT_MAVEN_REPOSITORY;
+  return base.replace(/\/+$/, '');
+}
+
+/**
+ * Split "groupId:artifactId" into its parts
+ */
+export function parseMavenCoordinate(coordinate: string): MavenCoordinate {
+  const safeCoordinate = validateMavenCoordinate(coordinate);
+  const [groupId, artifactId] = safeCoordinate.split(':');
+  return { groupId, artifactId };
+}
+
+/**
+ * Repository path of an artifact directory, e.g. org/slf4j/slf4j-api
+ */
+export function getMavenArtifactPath({ groupId, artifactId }: MavenCoordinate): string {
+  return `${groupId.replace(/\./g, '/')}/${artifactId}`;
+}
+
+/**
+ * Fetch the version listing for an artifact
+ */
+export async function fetchMavenMetadata(
+  coordinate: string,
+  repositoryUrl?: string
+): Promise<MavenMetadata | null> {
+  const baseUrl = getMavenRepositoryUrl(repositoryUrl);
+  const url = `${baseUrl}/${getMavenArtifactPath(parseMavenCoordinate(coordinate))}/maven-metadata.xml`;
+  const response = await httpGetText(url, { baseUrl });
+
+  if (!response.ok || !response.data) {
+    loggers.debug(`Maven metadata lookup failed for ${coordinate}:`, response.error);
+    return null;
+  }
+
+  const versioning = getXmlElement(response.data, 'versioning') ?? '';
+  return {
+    versions: getXmlElements(versioning, 'version'),
+    latest: getXmlElement(versioning, 'latest'),
+    release: getXmlElement(versioning, 'release'),
+    lastUpdated: getXmlElement(versioning, 'lastUpdated'),
+  };
+}
+
+/**
+ * Fetch and parse the POM for a specific version
+ */
+export async function fetchMavenPom(
+  coordinate: string,
+  version: string,
+  repositoryUrl?: string
+): Promise<MavenPom | null> {
+  const parsed = parseMavenCoordinate(coordinate);
+  const safeVersion = encodeURIComponent(version);
+  const baseUrl = getMavenRepositoryUrl(repositoryUrl);
+  const url = `${baseUrl}/${getMavenArtifactPath(parsed)}/${safeVersion}/${parsed.artifactId}-${safeVersion}.pom`;
+  const response = await httpGetText(url, { baseUrl });
+
+  if (!response.ok || !response.data) {
+    loggers.debug(`POM lookup failed for ${coordinate}@${version}:`, response.error);
+    return null;
+  }
+
+  return parsePom(response.data);
+}
+
+/**
+ * Extract project-level fields from a POM document
+ * Nested sections (parent, dependencies, build, ...) are dropped first so their
+ * <name>/<url> children are not mistaken for the project's own
+ */
+export function parsePom(xml: string): MavenPom {
+  const withoutComments = xml.replace(/<!--[\s\S]*?-->/g, '');
+  const relocationBlock = getXmlElement(withoutComments, 'relocation');
+  const scm = getXmlElement(withoutComments, 'scm');
+  const licenses = getXmlElement(withoutComments, 'licenses') ?? '';
+  const properties = getXmlElement(withoutComments, 'properties') ?? '';
+
+  const projectLevel = [
+    'parent',
+    'dependencies',
+    'dependencyManagement',
+    'build',
+    'profiles',
+    'developers',
+    'contributors',
+    'organization',
+    'distributionManagement',
+    'scm',
+    'licenses',
+    'issueManagement',
+    'ciManagement',
+    'mailingLists',
+    'reporting',
+  ].reduce(
+    (content, tag) => content.replace(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'g'), ''),
+    withoutComments
+  );
+
+  return {
+    name: getXmlElement(projectLevel, 'name'),
+    description: getXmlElement(projectLevel, 'description')?.replace(/\s+/g, ' '),
+    url: getXmlElement(projectLevel, 'url'),
+    scmUrl: scm ? (getXmlElement(scm, 'url') ?? getXmlElement(scm, 'connection')) : undefined,
+    licenses: getXmlElements(licenses, 'name'),
+    javaVersion:
+      getXmlElement(properties, 'maven.compiler.release') ??
+      getXmlElement(properties, 'maven.compiler.target') ??
+      getXmlElement(properties, 'java.version'),
+    relocation: relocationBlock
+      ? {
+          groupId: getXmlElement(relocationBlock, 'groupId'),
+          artifactId: getXmlElement(relocationBlock, 'artifactId'),
+          version: getXmlElement(relocationBlock, 'version'),
+          message: getXmlElement(relocationBlock, 'message'),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Versions published after fromVersion up to and including toVersion
+ * Maven versions are not semver ("33.0.0-jre", "5.6.15.Final", "2.2"), so they are
+ * coerced for comparison while keeping the repository's listing order
+ */
+export function getMavenVersionsInRange(
+  versions: string[],
+  fromVersion: string,
+  toVersion: string
+): string[] {
+  const from = semver.coerce(fromVersion);
+  const to = semver.coerce(toVersion);
+  if (!from || !to) {
+    return [];
+  }
+
+  return versions.filter((version) => {
+    if (version === toVersion) return true;
+    const coerced = semver.coerce(version);
+    return coerced !== null && semver.gt(coerced, from) && semver.lte(coerced, to);
+  });
+}
+
+function getXmlElement(xml: string, tag: string): string | undefined {
+  const pattern = new RegExp(`<${escapeTag(tag)}>\\s*([\\s\\S]*?)\\s*</${escapeTag(tag)}>`);
+  const match = pattern.exec(xml);
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+function getXmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${escapeTag(tag)}>\\s*([\\s\\S]*?)\\s*</${escapeTag(tag)}>`, 'g');
+  return [...xml.matchAll(pattern)].map((match) => decodeXmlEntities(match[1]));
+}
+
+function escapeTag(tag: string): string {
+  return tag.replace(/\./g, '\\.');
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
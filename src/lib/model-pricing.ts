@@ -0,0 +1,78 @@
+/**
+ * LLM pricing used for the cost estimates in execution stats
+ * Prices are in USD per 1K tokens. `modelPricing` in .renovate-safety.json overrides or adds
+ * models, e.g. when prices change or requests go through a proxy with its own rates
+ */
+
+import { z } from 'zod';
+
+const modelPriceSchema = z
+  .object({
+    inputPrice: z.number().nonnegative(),
+    outputPrice: z.number().nonnegative(),
+  })
+  .strict();
+
+const modelPricingSchema = z.record(modelPriceSchema);
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+export type ModelPricing = Record<string, ModelPrice>;
+
+/** Key used for models without a price of their own */
+export const DEFAULT_PRICING_KEY = 'default';
+
+export const DEFAULT_MODEL_PRICING: ModelPricing = {
+  'gpt-4o-mini': { inputPrice: 0.00015, outputPrice: 0.0006 },
+  'gpt-4o': { inputPrice: 0.0025, outputPrice: 0.01 },
+  'gpt-4': { inputPrice: 0.03, outputPrice: 0.06 },
+  // Conservative estimate for unknown models
+  [DEFAULT_PRICING_KEY]: { inputPrice: 0.0015, outputPrice: 0.003 },
+};
+
+let modelPricing: ModelPricing = DEFAULT_MODEL_PRICING;
+
+/**
+ * Validate the `modelPricing` section of a config file; model names are matched case-insensitively
+ */
+export function parseModelPricing(raw: unknown): ModelPricing {
+  const result = modelPricingSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'modelPricing'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid modelPricing in .renovate-safety.json: ${issues}`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(result.data).map(([model, price]) => [model.toLowerCase(), price])
+  );
+}
+
+/**
+ * Apply configured prices on top of the defaults; undefined restores the defaults
+ */
+export function setModelPricing(overrides: ModelPricing | undefined): void {
+  modelPricing = { ...DEFAULT_MODEL_PRICING, ...overrides };
+}
+
+export function getModelPricing(): ModelPricing {
+  return modelPricing;
+}
+
+export function getModelPrice(model: string | undefined): ModelPrice {
+  return (
+    (model && modelPricing[model.toLowerCase()]) ||
+    modelPricing[DEFAULT_PRICING_KEY] ||
+    DEFAULT_MODEL_PRICING[DEFAULT_PRICING_KEY]
+  );
+}
+
+export function calculateTokenCost(
+  model: string | undefined,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const price = getModelPrice(model);
+  return (inputTokens / 1000) * price.inputPrice + (outputTokens / 1000) * price.outputPrice;
+}
@@ -6,6 +6,7 @@
 import { secureNpmExec, parseJsonOutput, isSuccessful } from './secure-exec.js';
 import { loggers } from './logger.js';
 import { tryWithLogging } from './error-handlers.js';
+import { getCacheStore } from './cache-store.js';
 
 export type PackageInfo = {
   name: string;
@@ -28,6 +29,12 @@ export type PackageInfo = {
  * Consolidates the duplicate pattern across multiple files
  */
 export async function getPackageRepository(packageName: string): Promise<string | null> {
+  return getCacheStore().getOrSet('registry', `npm-repository:${packageName}`, () =>
+    fetchPackageRepository(packageName)
+  );
+}
+
+async function fetchPackageRepository(packageName: string): Promise<string | null> {
   const result = await tryWithLogging(
     async () => {
       const result = await secureNpmExec('view', [packageName, 'repository.url', '--json']);
@@ -69,6 +76,12 @@ export async function getPackageRepository(packageName: string): Promise<string
  * Replaces multiple instances of npm view --json
  */
 export async function getPackageMetadata(packageSpec: string): Promise<PackageInfo | null> {
+  return getCacheStore().getOrSet('registry', `npm-view:${packageSpec}`, () =>
+    fetchPackageMetadata(packageSpec)
+  );
+}
+
+async function fetchPackageMetadata(packageSpec: string): Promise<PackageInfo | null> {
   return tryWithLogging(
     async () => {
       const result = await secureNpmExec('view', [packageSpec, '--json']);
@@ -151,6 +164,12 @@ export async function getPackageReadme(packageSpec: string): Promise<string | nu
  * Fixed: Now uses correct --diff syntax instead of positional arguments
  */
 export async function getNpmDiff(fromSpec: string, toSpec: string): Promise<string | null> {
+  return getCacheStore().getOrSet('diff', `npm-diff:${fromSpec}->${toSpec}`, () =>
+    fetchNpmDiff(fromSpec, toSpec)
+  );
+}
+
+async function fetchNpmDiff(fromSpec: string, toSpec: string): Promise<string | null> {
   return tryWithLogging(
     async () => {
       // npm diff requires --diff flag for each package spec
@@ -0,0 +1,313 @@
+/**
+ * Offline bundles
+ * `renovate-safety prefetch` records every network response an analysis needs into a bundle
+ * directory; `--offline` replays them so the same analysis runs without network access.
+ * Entries live in <bundleDir>/<kind>/<sha256 of key>.json together with their original key
+ */
+
+import * as fs from 'fs/promises';
+import { rmSync } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { generateCacheKey } from './cache-utils.js';
+import { readJsonFile, writeJsonFile, ensureDirectory } from './file-helpers.js';
+import { logWarningMessage, logListItem, logSuccess } from './logger-extended.js';
+
+const BUNDLE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+/** Statuses whose responses cannot carry a body */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** Headers that describe the encoded transfer, not the recorded (decoded) body */
+const TRANSFER_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+/**
+ * - http: fetch requests (httpGet, Octokit, LLM SDKs)
+ * - exec: network commands (npm view/diff, gh, claude -p)
+ * - registry: npm registry lookups made through pacote
+ */
+export type BundleKind = 'http' | 'exec' | 'registry';
+
+/**
+ * record: run the real request and store its result; replay: read stored results only
+ */
+export type BundleMode = 'record' | 'replay';
+
+export type BundleEntry<T> = {
+  kind: BundleKind;
+  key: string;
+  recordedAt: string;
+  value: T;
+};
+
+export type BundleManifest = {
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  prs: number[];
+};
+
+export type RecordedResponse = {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+};
+
+export class OfflineBundle {
+  private readonly misses = new Set<string>();
+  private recorded = 0;
+
+  constructor(
+    readonly dir: string,
+    readonly mode: BundleMode
+  ) {}
+
+  /**
+   * Recorded result for the key; in record mode the result of compute is stored first.
+   * Throws on a replay miss so callers never silently fall back to the network
+   */
+  async resolve<T>(kind: BundleKind, key: string, compute: () => Promise<T>): Promise<T> {
+    if (this.mode === 'record') {
+      const value = await compute();
+      await this.writeEntry({ kind, key, recordedAt: new Date().toISOString(), value });
+      this.recorded++;
+      return value;
+    }
+
+    const entry = await this.readEntry<T>(kind, key);
+    if (!entry || entry.key !== key) {
+      this.misses.add(`${kind} ${key}`);
+      throw new Error(this.describeMiss(kind, key));
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * fetch-compatible function; bodies are recorded as text, which covers the JSON, diff and
+   * event-stream responses this tool requests
+   */
+  async fetch(...[input, init]: Parameters<typeof fetch>): Promise<Response> {
+    const request = new Request(input, init);
+    const body = request.body ? await request.clone().text() : '';
+    const key = [
+      request.method,
+      request.url,
+      request.headers.get('accept'),
+      body && generateCacheKey(body),
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    const recorded = await this.resolve('http', key, async () =>
+      toRecordedResponse(await globalThis.fetch(input, init))
+    );
+
+    const response = new Response(NULL_BODY_STATUSES.has(recorded.status) ? null : recorded.body, {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers,
+    });
+    Object.defineProperty(response, 'url', { value: recorded.url });
+    return response;
+  }
+
+  getMisses(): string[] {
+    return [...this.misses];
+  }
+
+  getRecordedCount(): number {
+    return this.recorded;
+  }
+
+  async readManifest(): Promise<BundleManifest | null> {
+    return readJsonFile<BundleManifest>(path.join(this.dir, MANIFEST_FILE));
+  }
+
+  /**
+   * Create or update the manifest; a bundle can hold recordings for several PRs
+   */
+  async writeManifest(prNumber?: number): Promise<BundleManifest> {
+    const now = new Date().toISOString();
+    const existing = await this.readManifest();
+    const prs = new Set(existing?.prs ?? []);
+    if (prNumber !== undefined) {
+      prs.add(prNumber);
+    }
+
+    const manifest: BundleManifest = {
+      version: BUNDLE_VERSION,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      prs: [...prs].sort((a, b) => a - b),
+    };
+
+    await ensureDirectory(this.dir);
+    await writeJsonFile(path.join(this.dir, MANIFEST_FILE), manifest);
+    return manifest;
+  }
+
+  /**
+   * Persist recordings kept in memory; a bundle directory writes each entry as it is recorded
+   */
+  flush(): void {}
+
+  protected async readEntry<T>(kind: BundleKind, key: string): Promise<BundleEntry<T> | null> {
+    return readJsonFile<BundleEntry<T>>(this.getEntryPath(kind, key));
+  }
+
+  protected async writeEntry<T>(entry: BundleEntry<T>): Promise<void> {
+    const file = this.getEntryPath(entry.kind, entry.key);
+    await ensureDirectory(path.dirname(file));
+    await writeJsonFile(file, entry);
+  }
+
+  protected describeMiss(kind: BundleKind, key: string): string {
+    return (
+      `Offline bundle ${this.dir} has no recorded ${kind} response for "${key}". ` +
+      'Run `renovate-safety prefetch` for this PR on a connected machine to add it.'
+    );
+  }
+
+  private getEntryPath(kind: BundleKind, key: string): string {
+    return path.join(this.dir, kind, `${generateCacheKey(key)}.json`);
+  }
+}
+
+let activeBundle: OfflineBundle | null = null;
+
+/**
+ * Replay from an existing bundle; fails when the directory holds no bundle
+ */
+export async function useOfflineBundle(dir: string): Promise<OfflineBundle> {
+  const bundle = new OfflineBundle(path.resolve(dir), 'replay');
+  const manifest = await bundle.readManifest();
+
+  if (!manifest) {
+    throw new Error(
+      `No offline bundle found at ${bundle.dir}. Create one with \`renovate-safety prefetch --pr <number> --out ${dir}\``
+    );
+  }
+  if (manifest.version !== BUNDLE_VERSION) {
+    throw new Error(
+      `Offline bundle ${bundle.dir} has version ${manifest.version}, expected ${BUNDLE_VERSION}. Re-run \`renovate-safety prefetch\``
+    );
+  }
+
+  activeBundle = bundle;
+  return bundle;
+}
+
+/**
+ * Record every network response into the bundle directory
+ */
+export async function startBundleRecording(dir: string, prNumber?: number): Promise<OfflineBundle> {
+  const bundle = new OfflineBundle(path.resolve(dir), 'record');
+  await bundle.writeManifest(prNumber);
+  activeBundle = bundle;
+  return bundle;
+}
+
+export function getActiveBundle(): OfflineBundle | null {
+  return activeBundle;
+}
+
+/**
+ * Route network requests through the given bundle, e.g. a cassette opened by a test
+ */
+export function activateOfflineBundle(bundle: OfflineBundle): void {
+  activeBundle = bundle;
+}
+
+/**
+ * Stop recording or replaying (useful for testing)
+ */
+export function resetOfflineBundle(): void {
+  activeBundle = null;
+}
+
+/**
+ * Route a network lookup through the active bundle; runs it directly when there is none
+ */
+export async function withOfflineBundle<T>(
+  kind: BundleKind,
+  key: string,
+  compute: () => Promise<T>
+): Promise<T> {
+  return activeBundle ? activeBundle.resolve(kind, key, compute) : compute();
+}
+
+/**
+ * Drop-in fetch for HTTP clients (Octokit, LLM SDKs); checks for an active bundle per request,
+ * so clients created before --offline is parsed are covered too
+ */
+export const bundleFetch: typeof fetch = (input, init) =>
+  activeBundle ? activeBundle.fetch(input, init) : globalThis.fetch(input, init);
+
+/**
+ * CLI setup shared by --offline and prefetch: activates the bundle and returns a throwaway
+ * cache directory, so no lookup is answered from the user's cache instead of the bundle.
+ * A path ending in .json is a single-file cassette instead of a bundle directory.
+ * On exit the cache is removed and the bundle outcome is reported
+ */
+export async function setupBundleForCli(
+  dir: string,
+  mode: BundleMode,
+  prNumber?: number
+): Promise<{ bundle: OfflineBundle; cacheDir: string }> {
+  let bundle: OfflineBundle;
+  if (dir.endsWith('.json')) {
+    // Loaded lazily: cassette.ts extends OfflineBundle, so a static import would be circular
+    const { insertCassette } = await import('./cassette.js');
+    bundle = await insertCassette(dir, mode);
+  } else {
+    bundle =
+      mode === 'record' ? await startBundleRecording(dir, prNumber) : await useOfflineBundle(dir);
+  }
+  const cacheDir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-bundle-cache-'));
+
+  process.once('exit', () => {
+    rmSync(cacheDir, { recursive: true, force: true });
+    bundle.flush();
+    reportBundleOutcome(bundle);
+  });
+
+  return { bundle, cacheDir };
+}
+
+function reportBundleOutcome(bundle: OfflineBundle): void {
+  if (bundle.mode === 'record') {
+    logSuccess(`Recorded ${bundle.getRecordedCount()} responses to ${bundle.dir}`);
+    return;
+  }
+
+  const misses = bundle.getMisses();
+  if (misses.length === 0) return;
+
+  logWarningMessage(
+    `Offline mode: ${misses.length} request${misses.length === 1 ? ' was' : 's were'} not in the bundle, so the analysis may be incomplete:`
+  );
+  for (const miss of misses) {
+    logListItem(miss);
+  }
+}
+
+async function toRecordedResponse(response: Response): Promise<RecordedResponse> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!TRANSFER_HEADERS.has(name)) {
+      headers[name] = value;
+    }
+  });
+
+  return {
+    url: response.url,
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: await response.text(),
+  };
+}
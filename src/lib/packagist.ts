@@ -0,0 +1,192 @@
+/**
+ * Packagist registry operations
+ * Reads Composer v2 metadata (https://packagist.org/apidoc#get-package-metadata-v2)
+ * from repo.packagist.org or any compatible repository (Private Packagist, Satis, a local stand-in)
+ */
+
+import { httpGet } from './http-client.js';
+import { getEnvironmentConfig } from './env-config.js';
+import { validateComposerPackageName } from './validation.js';
+import { loggers } from './logger.js';
+import { readJsonFile } from './file-helpers.js';
+import { join } from 'path';
+import semver from 'semver';
+
+export const DEFAULT_PACKAGIST_URL = 'https://repo.packagist.org';
+
+type AutoloadMap = Record<string, string | string[]>;
+
+/**
+ * One release of a package, as listed in the p2 metadata
+ */
+export type PackagistVersion = {
+  name: string;
+  version: string;
+  version_normalized?: string;
+  description?: string;
+  homepage?: string;
+  license?: string[];
+  time?: string;
+  source?: { type?: string; url?: string; reference?: string };
+  require?: Record<string, string>;
+  autoload?: { 'psr-4'?: AutoloadMap; 'psr-0'?: AutoloadMap };
+  abandoned?: boolean | string;
+};
+
+/**
+ * The parts of composer.json and composer.lock the analyzers read
+ */
+export type ComposerManifest = {
+  name?: string;
+  require?: Record<string, string>;
+  'require-dev'?: Record<string, string>;
+};
+
+export type ComposerLockPackage = {
+  name: string;
+  version: string;
+  require?: Record<string, string>;
+  autoload?: PackagistVersion['autoload'];
+};
+
+export type ComposerLock = {
+  packages?: ComposerLockPackage[];
+  'packages-dev'?: ComposerLockPackage[];
+};
+
+type PackagistMetadataResponse = {
+  minified?: string;
+  packages?: Record<string, Array<Record<string, unknown>>>;
+};
+
+function getRepositoryUrl(repositoryUrl?: string): string {
+  const base = repositoryUrl || getEnvironmentConfig().packagistUrl || DEFAULT_PACKAGIST_URL;
+  return base.replace(/\/+$/, '');
+}
+
+/**
+ * Fetch every tagged release of a package (newest first, as Packagist lists them)
+ */
+export async function fetchPackagistVersions(
+  packageName: string,
+  repositoryUrl?: string
+): Promise<PackagistVersion[]> {
+  const safeName = validateComposerPackageName(packageName);
+  const response = await httpGet<PackagistMetadataResponse>(
+    `${getRepositoryUrl(repositoryUrl)}/p2/${safeName}.json`
+  );
+
+  const versions = response.data?.packages?.[safeName];
+  if (!response.ok || !Array.isArray(versions)) {
+    loggers.debug(`Packagist lookup failed for ${packageName}:`, response.error);
+    return [];
+  }
+
+  const expanded =
+    response.data?.minified === 'composer/2.0' ? expandMinifiedVersions(versions) : versions;
+  return expanded as PackagistVersion[];
+}
+
+/**
+ * Undo Composer's metadata minification: each entry only lists the fields that differ
+ * from the previous one, and "__unset" removes a field
+ */
+export function expandMinifiedVersions(
+  versions: Array<Record<string, unknown>>
+): Array<Record<string, unknown>> {
+  const expanded: Array<Record<string, unknown>> = [];
+  let previous: Record<string, unknown> | null = null;
+
+  for (const version of versions) {
+    const current: Record<string, unknown> = Object.fromEntries(
+      Object.entries({ ...(previous ?? {}), ...version }).filter(([, value]) => value !== '__unset')
+    );
+    expanded.push(current);
+    previous = current;
+  }
+
+  return expanded;
+}
+
+/**
+ * Find a release by version; tags may carry a "v" prefix, and a bare "11.0" from a
+ * bumped constraint resolves to the newest matching release
+ */
+export function findPackagistVersion(
+  versions: PackagistVersion[],
+  version: string
+): PackagistVersion | undefined {
+  const bare = version.replace(/^v/, '');
+  const exact = versions.find(
+    (entry) => entry.version === version || entry.version.replace(/^v/, '') === bare
+  );
+  if (exact) {
+    return exact;
+  }
+
+  return versions.find((entry) => entry.version.replace(/^v/, '').startsWith(`${bare}.`));
+}
+
+/**
+ * Releases after fromVersion up to and including toVersion, oldest first
+ */
+export function getPackagistVersionsInRange(
+  versions: PackagistVersion[],
+  fromVersion: string,
+  toVersion: string
+): PackagistVersion[] {
+  const from = semver.coerce(fromVersion);
+  const to = semver.coerce(findPackagistVersion(versions, toVersion)?.version ?? toVersion);
+  if (!from || !to) {
+    return [];
+  }
+
+  return versions
+    .filter((entry) => {
+      const version = semver.coerce(entry.version);
+      return version && !isDevVersion(entry) && semver.gt(version, from) && semver.lte(version, to);
+    })
+    .reverse();
+}
+
+/**
+ * PSR-4/PSR-0 namespace prefixes a package autoloads, without the trailing backslash
+ */
+export function getAutoloadNamespaces(
+  autoload: PackagistVersion['autoload'] | undefined
+): string[] {
+  const prefixes = [
+    ...Object.keys(autoload?.['psr-4'] ?? {}),
+    ...Object.keys(autoload?.['psr-0'] ?? {}),
+  ];
+  return [...new Set(prefixes.map((prefix) => prefix.replace(/\\+$/, '')).filter(Boolean))];
+}
+
+/**
+ * Replacement package suggested by an abandoned package, if any
+ */
+export function getAbandonedReplacement(version: PackagistVersion): string | undefined {
+  return typeof version.abandoned === 'string' && version.abandoned ? version.abandoned : undefined;
+}
+
+/**
+ * Names of the packages a project requires in composer.json or has locked in composer.lock;
+ * empty when the project has no composer.json
+ */
+export async function listComposerPackages(projectPath: string): Promise<Set<string>> {
+  const manifest = await readJsonFile<ComposerManifest>(join(projectPath, 'composer.json'));
+  if (!manifest) {
+    return new Set();
+  }
+
+  const lock = await readJsonFile<ComposerLock>(join(projectPath, 'composer.lock'));
+  return new Set([
+    ...Object.keys(manifest.require ?? {}),
+    ...Object.keys(manifest['require-dev'] ?? {}),
+    ...[...(lock?.packages ?? []), ...(lock?.['packages-dev'] ?? [])].map((entry) => entry.name),
+  ]);
+}
+
+function isDevVersion(entry: PackagistVersion): boolean {
+  return entry.version.startsWith('dev-') || entry.version.endsWith('-dev');
+}
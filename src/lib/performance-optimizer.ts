@@ -1,10 +1,25 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import { generateCacheKey, generateMultiParamCacheKey } from './cache-utils.js';
+import { generateMultiParamCacheKey } from './cache-utils.js';
+import { getCacheStore, type CacheStore } from './cache-store.js';
 import { loggers } from './logger.js';
 import { clearTimeout } from 'node:timers';
-import { readJsonFile, ensureDirectory } from './file-helpers.js';
-import { processInParallel, executeInParallel } from './parallel-helpers.js';
+import type { Ora } from 'ora';
+import {
+  findAppropriateAnalyzer,
+  fetchChangelogAndKnowledge,
+  fetchCodeDifference,
+  analyzeDependencyUsageStep,
+  analyzeWorkspaceImpactStep,
+  gatherLibraryHealthStep,
+  compareDeclarationsStep,
+  typecheckStep,
+  analyzePackageUsageStep,
+  extractBreakingChangesStep,
+  performLLMAnalysis,
+  convertUsageAnalysisToApiUsages,
+  performDeepAnalysisStep,
+  generateAnalysisResult,
+} from './analysis-steps.js';
+import type { AnalysisResult, CLIOptions, PackageUpdate } from '../types/index.js';
 
 export type PerformanceOptimizer = {
   cache: SmartCache;
@@ -21,7 +36,11 @@ export type SmartCache = {
 
 export type ParallelExecutor = {
   execute<T>(tasks: Task<T>[], options?: ExecutionOptions): Promise<T[]>;
-  executeWithDependencies<T>(tasks: DependentTask<T>[]): Promise<T[]>;
+  executeWithDependencies<T>(tasks: DependentTask<T>[], options?: ExecutionOptions): Promise<T[]>;
+  executeGraph<T>(
+    tasks: DependentTask<T>[],
+    options?: ExecutionOptions
+  ): Promise<GraphExecutionResult<T>>;
 };
 
 export type ProgressTracker = {
@@ -39,8 +58,28 @@ export type Task<T> = {
   retries?: number;
 };
 
-export type DependentTask<T> = Task<T> & {
+/**
+ * Results of completed tasks keyed by task id, handed to their dependents
+ */
+export type TaskResults = ReadonlyMap<string, unknown>;
+
+export type DependentTask<T> = Omit<Task<T>, 'execute'> & {
   dependencies: string[];
+  execute: (results: TaskResults) => Promise<T>;
+};
+
+export type TaskTiming = {
+  id: string;
+  name: string;
+  startedAt: number;
+  duration: number;
+  status: 'completed' | 'failed';
+};
+
+export type GraphExecutionResult<T> = {
+  results: Map<string, T>;
+  /** In task definition order; tasks that never started are omitted */
+  timings: TaskTiming[];
 };
 
 export type ExecutionOptions = {
@@ -50,13 +89,7 @@ export type ExecutionOptions = {
   retryFailedTasks?: boolean;
 };
 
-export type CacheEntry<T> = {
-  value: T;
-  timestamp: number;
-  ttl: number;
-};
-
-export function createPerformanceOptimizer(cacheDir: string): PerformanceOptimizer {
+export function createPerformanceOptimizer(cacheDir?: string): PerformanceOptimizer {
   const cache = new FileBasedCache(cacheDir);
   const parallelExecutor = new ConcurrentExecutor();
   const progressTracker = new ConsoleProgressTracker();
@@ -68,112 +101,30 @@ export function createPerformanceOptimizer(cacheDir: string): PerformanceOptimiz
   };
 }
 
+/**
+ * SmartCache backed by the "performance" namespace of the shared cache store
+ */
 class FileBasedCache implements SmartCache {
-  private readonly cacheDir: string;
-  private readonly memoryCache = new Map<string, CacheEntry<unknown>>();
+  private readonly store: CacheStore;
 
-  constructor(cacheDir: string) {
-    this.cacheDir = path.join(cacheDir, 'performance-cache');
+  constructor(cacheDir?: string) {
+    this.store = getCacheStore(cacheDir);
   }
 
   async get<T>(key: string): Promise<T | null> {
-    // Check memory cache first
-    const memoryCached = this.memoryCache.get(key);
-    if (memoryCached && !this.isExpired(memoryCached)) {
-      return memoryCached.value as T;
-    }
-
-    // Check file cache
-    try {
-      const cacheFile = this.getCacheFilePath(key);
-      const entryData = await readJsonFile(cacheFile);
-      const entry = entryData as CacheEntry<T>;
-
-      if (entry && !this.isExpired(entry)) {
-        // Cache in memory for faster access
-        this.memoryCache.set(key, entry);
-        return entry.value;
-      } else {
-        // Remove expired file
-        await fs.unlink(cacheFile).catch(() => {});
-      }
-    } catch {
-      // Cache miss or error
-    }
-
-    return null;
+    return this.store.get<T>('performance', key);
   }
 
   async set<T>(key: string, value: T, ttl: number = 3600000): Promise<void> {
-    const entry: CacheEntry<T> = {
-      value,
-      timestamp: Date.now(),
-      ttl,
-    };
-
-    // Store in memory
-    this.memoryCache.set(key, entry);
-
-    // Store in file
-    try {
-      await ensureDirectory(this.cacheDir);
-      const cacheFile = this.getCacheFilePath(key);
-      await fs.writeFile(cacheFile, JSON.stringify(entry, null, 2));
-    } catch (error) {
-      loggers.debug('Failed to write cache file:', error);
-    }
+    await this.store.set('performance', key, value, ttl);
   }
 
   async invalidate(pattern: string): Promise<void> {
-    // Clear matching entries from memory cache
-    for (const key of this.memoryCache.keys()) {
-      if (key.includes(pattern)) {
-        this.memoryCache.delete(key);
-      }
-    }
-
-    // Clear matching files
-    try {
-      const files = await fs.readdir(this.cacheDir);
-      const matching = files.filter((file) => file.includes(this.hashKey(pattern)));
-
-      await processInParallel(
-        matching,
-        async (file) => {
-          try {
-            await fs.unlink(path.join(this.cacheDir, file));
-          } catch {
-            // Ignore unlink errors
-          }
-        },
-        { concurrency: 10 }
-      );
-    } catch {
-      // Directory might not exist
-    }
+    await this.store.invalidate('performance', pattern);
   }
 
   async clear(): Promise<void> {
-    this.memoryCache.clear();
-
-    try {
-      await fs.rm(this.cacheDir, { recursive: true, force: true });
-    } catch {
-      // Directory might not exist
-    }
-  }
-
-  private getCacheFilePath(key: string): string {
-    const hashedKey = this.hashKey(key);
-    return path.join(this.cacheDir, `${hashedKey}.json`);
-  }
-
-  private hashKey(key: string): string {
-    return generateCacheKey(key);
-  }
-
-  private isExpired(entry: CacheEntry<unknown>): boolean {
-    return Date.now() - entry.timestamp > entry.ttl;
+    await this.store.clear(['performance']);
   }
 }
 
@@ -233,75 +184,114 @@ class ConcurrentExecutor implements ParallelExecutor {
     return results;
   }
 
-  async executeWithDependencies<T>(tasks: DependentTask<T>[]): Promise<T[]> {
-    const results = new Map<string, T>();
-    const completed = new Set<string>();
-    const inProgress = new Set<string>();
-
-    const executeTask = async (task: DependentTask<T>): Promise<void> => {
-      // Wait for dependencies
-      for (const depId of task.dependencies) {
-        while (!completed.has(depId)) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      }
+  async executeWithDependencies<T>(
+    tasks: DependentTask<T>[],
+    options: ExecutionOptions = {}
+  ): Promise<T[]> {
+    const { results } = await this.executeGraph(tasks, options);
+    return tasks.map((task) => results.get(task.id) as T);
+  }
 
-      inProgress.add(task.id);
-      try {
-        const result = await task.execute();
-        results.set(task.id, result);
-        completed.add(task.id);
-      } finally {
-        inProgress.delete(task.id);
+  /**
+   * Run a task graph: a task starts as soon as all of its dependencies have completed,
+   * with at most maxConcurrency tasks running at once. After the first failure no further
+   * tasks are started, and the graph rejects with that error once the tasks already running
+   * have settled, so none of them outlives the call
+   */
+  async executeGraph<T>(
+    tasks: DependentTask<T>[],
+    options: ExecutionOptions = {}
+  ): Promise<GraphExecutionResult<T>> {
+    const { maxConcurrency = 5, timeout } = options;
+    const taskIds = new Set(tasks.map((task) => task.id));
+
+    for (const task of tasks) {
+      const missing = task.dependencies.filter((dep) => !taskIds.has(dep));
+      if (missing.length > 0) {
+        throw new Error(`Task ${task.id} depends on unknown tasks: ${missing.join(', ')}`);
       }
-    };
-
-    // Find tasks with no dependencies and start them
-    const readyTasks = tasks.filter((task) => task.dependencies.length === 0);
-    const pendingTasks = tasks.filter((task) => task.dependencies.length > 0);
+    }
 
-    // Execute ready tasks
-    await executeInParallel(
-      readyTasks.map((task) => () => executeTask(task)),
-      { concurrency: 10 }
+    const results = new Map<string, T>();
+    const timings = new Map<string, TaskTiming>();
+    const pending = [...tasks].sort(
+      (a, b) => this.getPriorityWeight(a.priority) - this.getPriorityWeight(b.priority)
     );
+    let running = 0;
+    let failure: Error | undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      const runTask = (task: DependentTask<T>) => {
+        const startedAt = Date.now();
+        const record = (status: TaskTiming['status']) => {
+          timings.set(task.id, {
+            id: task.id,
+            name: task.name,
+            startedAt,
+            duration: Date.now() - startedAt,
+            status,
+          });
+        };
+
+        running++;
+        this.executeTask({ ...task, execute: () => task.execute(results) }, timeout)
+          .then((result) => {
+            results.set(task.id, result);
+            record('completed');
+          })
+          .catch((error: unknown) => {
+            record('failed');
+            failure ??= error instanceof Error ? error : new Error(String(error));
+          })
+          .finally(() => {
+            running--;
+            scheduleReadyTasks();
+          });
+      };
+
+      const scheduleReadyTasks = () => {
+        if (failure) {
+          if (running === 0) reject(failure);
+          return;
+        }
 
-    // Execute remaining tasks as dependencies are satisfied
-    while (pendingTasks.length > 0) {
-      const nowReady = pendingTasks.filter(
-        (task) =>
-          task.dependencies.every((dep) => completed.has(dep)) &&
-          !inProgress.has(task.id) &&
-          !completed.has(task.id)
-      );
-
-      if (nowReady.length === 0) {
-        throw new Error('Circular dependency detected or unresolvable dependencies');
-      }
-
-      await executeInParallel(
-        nowReady.map((task) => () => executeTask(task)),
-        { concurrency: 10 }
-      );
+        for (let i = 0; i < pending.length && running < maxConcurrency; ) {
+          const task = pending[i];
+          if (task.dependencies.every((dep) => results.has(dep))) {
+            pending.splice(i, 1);
+            runTask(task);
+          } else {
+            i++;
+          }
+        }
 
-      // Remove completed tasks from pending
-      nowReady.forEach((task) => {
-        const index = pendingTasks.indexOf(task);
-        if (index > -1) pendingTasks.splice(index, 1);
-      });
-    }
+        if (running === 0) {
+          if (pending.length > 0) {
+            reject(
+              new Error(
+                `Circular dependency detected or unresolvable dependencies: ${pending.map((task) => task.id).join(', ')}`
+              )
+            );
+          } else {
+            resolve();
+          }
+        }
+      };
 
-    return tasks.map((task) => {
-      const result = results.get(task.id);
-      if (!result) {
-        throw new Error(`Task ${task.id} result not found`);
-      }
-      return result;
+      scheduleReadyTasks();
     });
+
+    return {
+      results,
+      timings: tasks.flatMap((task) => timings.get(task.id) ?? []),
+    };
   }
 
-  private async executeTask<T>(task: Task<T>, timeout: number): Promise<T> {
+  private async executeTask<T>(task: Task<T>, timeout?: number): Promise<T> {
     const taskTimeout = task.timeout || timeout;
+    if (!taskTimeout) {
+      return task.execute();
+    }
 
     return new Promise<T>((resolve, reject) => {
       const timer = setTimeout(() => {
@@ -396,82 +386,227 @@ class ConsoleProgressTracker implements ProgressTracker {
   }
 }
 
-// Utility functions for creating optimized tasks
+export const ANALYSIS_RESULT_TASK = 'risk-assessment';
+
+/**
+ * Result of a completed task inside a dependent task's execute
+ */
+export function getTaskResult<T>(results: TaskResults, id: string): T {
+  if (!results.has(id)) {
+    throw new Error(`Result of task ${id} is not available`);
+  }
+  return results.get(id) as T;
+}
+
+/**
+ * The CLI analysis pipeline for one package as a task graph. Changelog fetch, code diff,
+ * dependency tree and usage scan are independent of each other; the ANALYSIS_RESULT_TASK
+ * task combines everything into the AnalysisResult
+ */
 export function createOptimizedAnalysisFlow(
-  packageName: string,
-  fromVersion: string,
-  toVersion: string
-) {
+  spinner: Ora,
+  packageUpdate: PackageUpdate,
+  options: CLIOptions
+): DependentTask<unknown>[] {
+  type Analyzer = Awaited<ReturnType<typeof findAppropriateAnalyzer>>;
+  type Changelog = Awaited<ReturnType<typeof fetchChangelogAndKnowledge>>;
+  type CodeDiff = Awaited<ReturnType<typeof fetchCodeDifference>>;
+  type DependencyUsage = Awaited<ReturnType<typeof analyzeDependencyUsageStep>>;
+  type UsageAnalysis = Awaited<ReturnType<typeof analyzePackageUsageStep>>;
+  type BreakingChanges = Awaited<ReturnType<typeof extractBreakingChangesStep>>;
+  type LLMSummary = Awaited<ReturnType<typeof performLLMAnalysis>>;
+  type DeepAnalysis = Awaited<ReturnType<typeof performDeepAnalysisStep>>;
+  type WorkspaceImpact = Awaited<ReturnType<typeof analyzeWorkspaceImpactStep>>;
+  type LibraryHealth = Awaited<ReturnType<typeof gatherLibraryHealthStep>>;
+  type DeclarationDiff = Awaited<ReturnType<typeof compareDeclarationsStep>>;
+  type Typecheck = Awaited<ReturnType<typeof typecheckStep>>;
+
   const tasks: DependentTask<unknown>[] = [
     {
-      id: 'basic-info',
-      name: 'Extract basic package info',
+      id: 'analyzer',
+      name: 'Find package analyzer',
       priority: 'high',
       dependencies: [],
-      execute: async () => {
-        // Basic package information extraction
-        return { packageName, fromVersion, toVersion };
-      },
+      execute: () => findAppropriateAnalyzer(spinner, packageUpdate),
     },
     {
-      id: 'dependency-analysis',
-      name: 'Analyze dependency tree',
+      id: 'changelog',
+      name: 'Fetch changelog and known breaking changes',
+      priority: 'high',
+      dependencies: ['analyzer'],
+      execute: (results) =>
+        fetchChangelogAndKnowledge(
+          spinner,
+          getTaskResult<Analyzer>(results, 'analyzer'),
+          packageUpdate,
+          options
+        ),
+    },
+    {
+      id: 'code-diff',
+      name: 'Fetch code diff',
       priority: 'high',
       dependencies: [],
-      execute: async () => {
-        // Enhanced dependency analysis
-        const { performEnhancedDependencyAnalysis } = await import(
-          './enhanced-dependency-analysis.js'
-        );
-        return performEnhancedDependencyAnalysis(packageName, fromVersion, toVersion);
-      },
+      execute: () => fetchCodeDifference(spinner, packageUpdate),
     },
     {
-      id: 'library-intelligence',
-      name: 'Gather library intelligence',
+      id: 'declaration-diff',
+      name: 'Compare type declarations',
+      priority: 'medium',
+      dependencies: ['analyzer'],
+      execute: (results) =>
+        compareDeclarationsStep(
+          spinner,
+          getTaskResult<Analyzer>(results, 'analyzer'),
+          packageUpdate
+        ),
+    },
+    {
+      id: 'typecheck',
+      name: 'Typecheck against the target version',
+      priority: 'low',
+      dependencies: ['analyzer'],
+      execute: (results) =>
+        typecheckStep(
+          spinner,
+          options,
+          getTaskResult<Analyzer>(results, 'analyzer'),
+          packageUpdate
+        ),
+    },
+    {
+      id: 'dependency-tree',
+      name: 'Analyze dependency tree',
       priority: 'medium',
       dependencies: [],
-      execute: async () => {
-        // Library intelligence gathering
-        const { gatherLibraryIntelligence } = await import('./library-intelligence.js');
-        return gatherLibraryIntelligence(packageName, fromVersion, toVersion);
-      },
+      execute: () => analyzeDependencyUsageStep(spinner, packageUpdate),
     },
     {
-      id: 'code-diff',
-      name: 'Fetch and analyze code diff',
+      id: 'usage-scan',
+      name: 'Scan package usage',
       priority: 'medium',
-      dependencies: ['basic-info'],
-      execute: async () => {
-        // Code diff analysis
-        const { fetchCodeDiff } = await import('./github-diff.js');
-        const packageUpdate = { name: packageName, fromVersion, toVersion };
-        return fetchCodeDiff(packageUpdate);
-      },
+      dependencies: ['analyzer'],
+      execute: (results) =>
+        analyzePackageUsageStep(
+          spinner,
+          getTaskResult<Analyzer>(results, 'analyzer'),
+          packageUpdate
+        ),
     },
     {
-      id: 'enhanced-code-analysis',
-      name: 'Perform enhanced code analysis',
+      id: 'breaking-changes',
+      name: 'Extract breaking changes',
       priority: 'medium',
-      dependencies: ['code-diff'],
-      execute: async () => {
-        // Enhanced code analysis
-        const { performEnhancedCodeAnalysis } = await import('./enhanced-code-analysis.js');
-        const packageUpdate = { name: packageName, fromVersion, toVersion };
-        // Would need to pass the code diff result here
-        return performEnhancedCodeAnalysis(packageUpdate, null);
+      dependencies: ['changelog', 'code-diff'],
+      execute: (results) => {
+        const { changelogDiff, knowledgeBasedBreaking } = getTaskResult<Changelog>(
+          results,
+          'changelog'
+        );
+        return extractBreakingChangesStep(
+          spinner,
+          changelogDiff,
+          getTaskResult<CodeDiff>(results, 'code-diff'),
+          knowledgeBasedBreaking
+        );
       },
     },
+    {
+      id: 'workspace-impact',
+      name: 'Analyze workspace packages',
+      priority: 'medium',
+      dependencies: ['usage-scan', 'breaking-changes'],
+      execute: (results) =>
+        analyzeWorkspaceImpactStep(
+          spinner,
+          packageUpdate,
+          getTaskResult<UsageAnalysis>(results, 'usage-scan'),
+          getTaskResult<BreakingChanges>(results, 'breaking-changes')
+        ),
+    },
+    {
+      id: 'library-health',
+      name: 'Check maintenance and popularity',
+      priority: 'low',
+      dependencies: ['analyzer'],
+      execute: (results) =>
+        gatherLibraryHealthStep(
+          spinner,
+          options,
+          getTaskResult<Analyzer>(results, 'analyzer'),
+          packageUpdate
+        ),
+    },
     {
       id: 'llm-analysis',
       name: 'Generate LLM analysis',
       priority: 'low',
-      dependencies: ['dependency-analysis', 'library-intelligence', 'enhanced-code-analysis'],
-      execute: async () => {
-        // Enhanced LLM analysis with all context
-        // Enhanced LLM analysis can be implemented here if needed
-        // Placeholder for future comprehensive analysis feature
-        return null; // Placeholder
+      dependencies: ['changelog', 'code-diff', 'dependency-tree', 'breaking-changes'],
+      execute: (results) => {
+        const { changelogDiff, knowledgeBasedBreaking } = getTaskResult<Changelog>(
+          results,
+          'changelog'
+        );
+        return performLLMAnalysis(spinner, options, {
+          packageUpdate,
+          changelogDiff,
+          codeDiff: getTaskResult<CodeDiff>(results, 'code-diff'),
+          dependencyUsage: getTaskResult<DependencyUsage>(results, 'dependency-tree'),
+          breakingChanges: getTaskResult<BreakingChanges>(results, 'breaking-changes'),
+          knowledgeBasedBreaking,
+        });
+      },
+    },
+    {
+      id: 'deep-analysis',
+      name: 'Perform deep code analysis',
+      priority: 'low',
+      dependencies: ['breaking-changes'],
+      execute: (results) =>
+        performDeepAnalysisStep(
+          spinner,
+          options,
+          packageUpdate,
+          getTaskResult<BreakingChanges>(results, 'breaking-changes')
+        ),
+    },
+    {
+      id: ANALYSIS_RESULT_TASK,
+      name: 'Assess risk',
+      priority: 'high',
+      dependencies: [
+        'changelog',
+        'code-diff',
+        'declaration-diff',
+        'typecheck',
+        'dependency-tree',
+        'usage-scan',
+        'breaking-changes',
+        'workspace-impact',
+        'library-health',
+        'llm-analysis',
+        'deep-analysis',
+      ],
+      execute: (results): Promise<AnalysisResult> => {
+        const usageAnalysis = getTaskResult<UsageAnalysis>(results, 'usage-scan');
+        return generateAnalysisResult(
+          {
+            packageUpdate,
+            changelogDiff: getTaskResult<Changelog>(results, 'changelog').changelogDiff,
+            codeDiff: getTaskResult<CodeDiff>(results, 'code-diff'),
+            declarationDiff: getTaskResult<DeclarationDiff>(results, 'declaration-diff'),
+            dependencyUsage: getTaskResult<DependencyUsage>(results, 'dependency-tree'),
+            breakingChanges: getTaskResult<BreakingChanges>(results, 'breaking-changes'),
+            llmSummary: getTaskResult<LLMSummary>(results, 'llm-analysis'),
+            apiUsages: convertUsageAnalysisToApiUsages(usageAnalysis, packageUpdate),
+            deepAnalysis: getTaskResult<DeepAnalysis>(results, 'deep-analysis'),
+            usageAnalysis,
+            workspaceImpact: getTaskResult<WorkspaceImpact>(results, 'workspace-impact'),
+            libraryHealth: getTaskResult<LibraryHealth>(results, 'library-health'),
+            typecheck: getTaskResult<Typecheck>(results, 'typecheck'),
+          },
+          options
+        );
       },
     },
   ];
@@ -0,0 +1,183 @@
+/**
+ * Policy-as-code for merge decisions
+ * Rules in the "policy" section of .renovate-safety.json map dependencies to an action;
+ * the first matching rule wins, and the most restrictive action decides for the whole PR
+ */
+
+import { z } from 'zod';
+import { getUpdateType } from './version-utils.js';
+
+export const POLICY_ACTIONS = ['approve', 'label', 'require-review', 'block'] as const;
+
+export type PolicyAction = (typeof POLICY_ACTIONS)[number];
+
+const policyRuleSchema = z.object({
+  name: z.string().optional(),
+  match: z
+    .object({
+      packages: z.array(z.string()).optional(),
+      updateTypes: z.array(z.enum(['patch', 'minor', 'major'])).optional(),
+      dependencyTypes: z.array(z.enum(['dev', 'prod'])).optional(),
+      riskLevels: z
+        .array(z.enum(['safe', 'low', 'medium', 'high', 'critical', 'unknown']))
+        .optional(),
+    })
+    .default({}),
+  action: z.enum(POLICY_ACTIONS),
+  labels: z.array(z.string()).optional(),
+  reason: z.string().optional(),
+});
+
+const policySchema = z.object({
+  rules: z.array(policyRuleSchema).default([]),
+  defaultAction: z.enum(POLICY_ACTIONS).default('require-review'),
+});
+
+export type PolicyRule = z.infer<typeof policyRuleSchema>;
+export type PolicyConfig = z.infer<typeof policySchema>;
+
+/**
+ * What a policy is evaluated against: one dependency update and its assessed risk
+ */
+export type PolicySubject = {
+  name: string;
+  fromVersion: string;
+  toVersion: string;
+  dependencyType?: 'dev' | 'prod';
+  riskLevel: string;
+};
+
+export type PolicyDecision = {
+  dependency: string;
+  action: PolicyAction;
+  /** Rule name, or "rules[i]" for unnamed rules, or "default" when no rule matched */
+  ruleName: string;
+  rule?: PolicyRule;
+  labels: string[];
+  reason?: string;
+};
+
+export type PolicyEvaluation = {
+  decisions: PolicyDecision[];
+  action: PolicyAction;
+};
+
+/**
+ * Validate the "policy" section of a config file
+ */
+export function parsePolicy(raw: unknown): PolicyConfig {
+  const result = policySchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'policy'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid policy in .renovate-safety.json: ${issues}`);
+  }
+  return result.data;
+}
+
+export function evaluatePolicy(policy: PolicyConfig, subject: PolicySubject): PolicyDecision {
+  const index = policy.rules.findIndex((rule) => ruleMatches(rule, subject));
+
+  if (index === -1) {
+    return {
+      dependency: subject.name,
+      action: policy.defaultAction,
+      ruleName: 'default',
+      labels: [],
+    };
+  }
+
+  const rule = policy.rules[index];
+  return {
+    dependency: subject.name,
+    action: rule.action,
+    ruleName: rule.name ?? `rules[${index}]`,
+    rule,
+    labels: rule.action === 'label' ? (rule.labels ?? []) : [],
+    reason: rule.reason,
+  };
+}
+
+/**
+ * Evaluate every dependency of a PR; the PR gets the most restrictive action
+ */
+export function evaluatePolicyForAll(
+  policy: PolicyConfig,
+  subjects: PolicySubject[]
+): PolicyEvaluation {
+  const decisions = subjects.map((subject) => evaluatePolicy(policy, subject));
+  const action = decisions.reduce<PolicyAction>(
+    (strictest, decision) =>
+      POLICY_ACTIONS.indexOf(decision.action) > POLICY_ACTIONS.indexOf(strictest)
+        ? decision.action
+        : strictest,
+    'approve'
+  );
+
+  return { decisions, action };
+}
+
+/**
+ * Whether the PR can be merged without a human: approve and label both allow it
+ */
+export function isAutoMergeAllowed(action: PolicyAction): boolean {
+  return action === 'approve' || action === 'label';
+}
+
+export function formatPolicyDecision(decision: PolicyDecision): string {
+  let line = `${decision.dependency}: ${decision.action} (rule: ${decision.ruleName})`;
+  if (decision.labels.length > 0) {
+    line += ` [${decision.labels.join(', ')}]`;
+  }
+  if (decision.reason) {
+    line += ` - ${decision.reason}`;
+  }
+  return line;
+}
+
+/**
+ * Map a package.json section name to the policy's dev/prod split
+ */
+export function toPolicyDependencyType(section: string | undefined): 'dev' | 'prod' | undefined {
+  if (!section) return undefined;
+  return /dev/i.test(section) ? 'dev' : 'prod';
+}
+
+/**
+ * Glob match for package names: "*" matches any run of characters, "?" a single one
+ */
+export function matchesPackagePattern(packageName: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`).test(packageName);
+}
+
+function ruleMatches(rule: PolicyRule, subject: PolicySubject): boolean {
+  const { packages, updateTypes, dependencyTypes, riskLevels } = rule.match;
+
+  if (packages && !packages.some((pattern) => matchesPackagePattern(subject.name, pattern))) {
+    return false;
+  }
+  if (updateTypes && !updateTypes.includes(getUpdateType(subject.fromVersion, subject.toVersion))) {
+    return false;
+  }
+  // A rule that filters on dependency type never matches when the type is unknown
+  if (
+    dependencyTypes &&
+    (!subject.dependencyType || !dependencyTypes.includes(subject.dependencyType))
+  ) {
+    return false;
+  }
+  if (riskLevels && !riskLevels.some((level) => level === subject.riskLevel)) {
+    return false;
+  }
+
+  return true;
+}
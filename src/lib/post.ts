@@ -167,3 +167,20 @@ export async function updateComment(commentId: number, report: string): Promise<
     }
   }
 }
+
+export async function addLabelsToPR(prNumber: number, labels: string[]): Promise<void> {
+  if (labels.length === 0) {
+    return;
+  }
+
+  const result = await secureSystemExec('gh', [
+    'pr',
+    'edit',
+    prNumber.toString(),
+    ...labels.flatMap((label) => ['--add-label', label]),
+  ]);
+
+  if (!result.success) {
+    throw new Error(`Failed to add labels: ${result.error}`);
+  }
+}
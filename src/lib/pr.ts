@@ -1,9 +1,11 @@
-import { Octokit } from '@octokit/rest';
 import { getEnvironmentConfig } from './env-config.js';
+import { createGitHubClient } from './github-client.js';
 import { secureSystemExec } from './secure-exec.js';
 import type { CLIOptions, PackageUpdate } from '../types/index.js';
 import { safeJsonParse } from './safe-json.js';
 import { logError } from './logger-extended.js';
+import { parseLockfileDiff } from './lockfile-diff.js';
+import { listComposerPackages } from './packagist.js';
 
 export async function extractPackageInfo(options: CLIOptions): Promise<PackageUpdate | null> {
   // If manual override provided, use it
@@ -15,23 +17,11 @@ export async function extractPackageInfo(options: CLIOptions): Promise<PackageUp
     };
   }
 
-  // Try to get info from PR or current branch
-  let prData: PRData | null;
-
-  if (options.pr) {
-    prData = await getPRData(options.pr);
-  } else {
-    prData = await getPRDataFromCurrentBranch();
-  }
-
-  if (!prData) {
-    throw new Error(
-      'Could not determine PR information. Please provide --pr or manual package info.'
-    );
-  }
+  const prData = await getPRDataForOptions(options);
+  const composerPackages = await listComposerPackages(process.cwd());
 
   // Extract package info from PR title/branch name
-  const packageInfo = extractFromRenovatePR(prData);
+  const packageInfo = extractFromRenovatePR(prData, composerPackages);
 
   if (!packageInfo && (!options.package || !options.from || !options.to)) {
     throw new Error(
@@ -48,6 +38,70 @@ export async function extractPackageInfo(options: CLIOptions): Promise<PackageUp
   );
 }
 
+/**
+ * Every package a PR updates. Grouped PRs ("Update all non-major dependencies", monorepo
+ * groups) list one dependency-table row per package; the lockfile diff pins each row to
+ * the exact resolved versions and stands in for the table when the body has none
+ */
+export async function extractPackageUpdates(options: CLIOptions): Promise<PackageUpdate[]> {
+  if (options.package && options.from && options.to) {
+    return [{ name: options.package, fromVersion: options.from, toVersion: options.to }];
+  }
+
+  const prData = await getPRDataForOptions(options);
+  const tableUpdates = extractFromDependencyTable(prData.body);
+
+  if (tableUpdates.length <= 1) {
+    const packageInfo = extractFromRenovatePR(prData, await listComposerPackages(process.cwd()));
+    if (packageInfo) {
+      return [packageInfo];
+    }
+  }
+
+  const lockfileUpdates = options.pr ? parseLockfileDiff((await getPRDiff(options.pr)) ?? '') : [];
+
+  if (tableUpdates.length > 0) {
+    return tableUpdates.map(
+      (update) => lockfileUpdates.find((locked) => locked.name === update.name) ?? update
+    );
+  }
+
+  if (lockfileUpdates.length > 0) {
+    return lockfileUpdates;
+  }
+
+  throw new Error(
+    'Could not extract package information from PR. Please provide manual overrides.'
+  );
+}
+
+async function getPRDataForOptions(options: CLIOptions): Promise<PRData> {
+  // Try to get info from PR or current branch
+  let prData: PRData | null;
+
+  if (options.pr) {
+    prData = await getPRData(options.pr);
+  } else {
+    prData = await getPRDataFromCurrentBranch();
+  }
+
+  if (!prData) {
+    throw new Error(
+      'Could not determine PR information. Please provide --pr or manual package info.'
+    );
+  }
+
+  return prData;
+}
+
+/**
+ * Head branch of a PR, e.g. renovate/react-19.x; null when the PR cannot be read
+ */
+export async function getPRBranch(prNumber: number): Promise<string | null> {
+  const prData = await getPRData(prNumber);
+  return prData?.branch || null;
+}
+
 export async function getRenovatePRs(): Promise<PRInfo[]> {
   try {
     // Try using gh CLI first
@@ -76,6 +130,9 @@ export async function getRenovatePRs(): Promise<PRInfo[]> {
       const isRenovateBranch = pr.headRefName?.startsWith('renovate/');
       const isRenovateTitle =
         pr.title?.toLowerCase().includes('update dependency') ||
+        pr.title?.toLowerCase().includes('update module') ||
+        pr.title?.toLowerCase().includes('docker tag') ||
+        pr.title?.toLowerCase().includes(' action to ') ||
         pr.title?.toLowerCase().includes('chore(deps)');
 
       return isRenovateAuthor || isRenovateBranch || isRenovateTitle;
@@ -92,9 +149,7 @@ export async function getRenovatePRs(): Promise<PRInfo[]> {
     // Fallback to Octokit if gh CLI fails
     try {
       const [owner, repo] = await getRepoInfo();
-      const octokit = new Octokit({
-        auth: getEnvironmentConfig().githubToken,
-      });
+      const octokit = createGitHubClient(getEnvironmentConfig().githubToken);
 
       const { data: allPRs } = await octokit.pulls.list({
         owner,
@@ -111,6 +166,9 @@ export async function getRenovatePRs(): Promise<PRInfo[]> {
         const isRenovateBranch = pr.head.ref?.startsWith('renovate/');
         const isRenovateTitle =
           pr.title?.toLowerCase().includes('update dependency') ||
+          pr.title?.toLowerCase().includes('update module') ||
+          pr.title?.toLowerCase().includes('docker tag') ||
+          pr.title?.toLowerCase().includes(' action to ') ||
           pr.title?.toLowerCase().includes('chore(deps)');
 
         return isRenovateAuthor || isRenovateBranch || isRenovateTitle;
@@ -173,7 +231,7 @@ async function getPRData(prNumber: number): Promise<PRData | null> {
 
     // Use Octokit if token available
     const [owner, repo] = await getRepoInfo();
-    const octokit = new Octokit({ auth: config.githubToken });
+    const octokit = createGitHubClient(config.githubToken);
 
     const { data } = await octokit.pulls.get({
       owner,
@@ -192,6 +250,40 @@ async function getPRData(prNumber: number): Promise<PRData | null> {
   }
 }
 
+/**
+ * Unified diff of a PR, used to read lockfile changes
+ */
+async function getPRDiff(prNumber: number): Promise<string | null> {
+  try {
+    const config = getEnvironmentConfig();
+    if (!config.githubToken) {
+      const result = await secureSystemExec('gh', ['pr', 'diff', prNumber.toString()]);
+
+      if (!result.success) {
+        throw new Error(`gh CLI failed: ${result.error}`);
+      }
+
+      return result.stdout;
+    }
+
+    const [owner, repo] = await getRepoInfo();
+    const octokit = createGitHubClient(config.githubToken);
+
+    // With the diff media type the response body is the raw diff text
+    const { data } = await octokit.pulls.get({
+      owner,
+      repo,
+      pull_number: prNumber,
+      mediaType: { format: 'diff' },
+    });
+
+    return data as unknown as string;
+  } catch (error) {
+    logError('Failed to fetch PR diff:', error);
+    return null;
+  }
+}
+
 async function getPRDataFromCurrentBranch(): Promise<PRData | null> {
   try {
     // Get current branch name
@@ -231,7 +323,7 @@ async function getPRDataFromCurrentBranch(): Promise<PRData | null> {
   }
 }
 
-async function getRepoInfo(): Promise<[string, string]> {
+export async function getRepoInfo(): Promise<[string, string]> {
   try {
     const result = await secureSystemExec('git', ['remote', 'get-url', 'origin']);
 
@@ -250,7 +342,14 @@ async function getRepoInfo(): Promise<[string, string]> {
   throw new Error('Could not determine repository owner and name');
 }
 
-function extractFromRenovatePR(prData: PRData): PackageUpdate | null {
+/**
+ * composerPackages are the packages of the project's composer.json and composer.lock; only
+ * those are read as Composer rows, since any npm scope or Go path also looks like owner/name
+ */
+function extractFromRenovatePR(
+  prData: PRData,
+  composerPackages: ReadonlySet<string>
+): PackageUpdate | null {
   // Handle monorepo cases first - extract from body table
   if (prData.title.toLowerCase().includes('monorepo')) {
     const monorepoResult = extractFromMonorepoTable(prData.body);
@@ -258,7 +357,7 @@ function extractFromRenovatePR(prData: PRData): PackageUpdate | null {
   }
 
   // Try common Renovate patterns from title
-  const titleResult = extractFromRenovateTitle(prData);
+  const titleResult = extractFromRenovateTitle(prData, composerPackages);
   if (titleResult) return titleResult;
 
   // Try branch name as fallback
@@ -275,12 +374,12 @@ function extractFromVersion(body: string, packageName: string): string | null {
   const patterns = [
     // Markdown table with caret/tilde: | globals | `^14.0.0` -> `^16.2.0` |
     new RegExp(
-      `\\|\\s*\\[?${escapeRegex(packageName)}\\]?[^|]*\\|[^|]*\`[~^]?([\\d]+\\.[\\d]+\\.[\\d]+(?:-[\\w.]+)?)\`\\s*->`,
+      `\\|\\s*\\[?${escapeRegex(packageName)}\\]?[^|]*\\|[^|]*\`[~^]?v?([\\d]+\\.[\\d]+\\.[\\d]+(?:-[\\w.]+)?)\`\\s*->`,
       'i'
     ),
     // Standard markdown table: | [@types/node](...) | `24.0.6` -> `24.0.7` |
     new RegExp(
-      `\\|\\s*\\[?${escapeRegex(packageName)}\\]?[^|]*\\|[^|]*\`([\\d]+\\.[\\d]+\\.[\\d]+(?:-[\\w.]+)?)\`\\s*->`,
+      `\\|\\s*\\[?${escapeRegex(packageName)}\\]?[^|]*\\|[^|]*\`v?([\\d]+\\.[\\d]+\\.[\\d]+(?:-[\\w.]+)?)\`\\s*->`,
       'i'
     ),
     // Python format: | lxml | `==5.4.0` -> `==6.0.0` |
@@ -316,12 +415,12 @@ function extractToVersion(body: string, packageName: string): string | null {
   const patterns = [
     // Markdown table with caret/tilde: | globals | `^14.0.0` -> `^16.2.0` |
     new RegExp(
-      `\\|\\s*\\[?${escapeRegex(packageName)}\\]?[^|]*\\|[^|]*->[\\s]*\`[~^]?([\\d]+\\.[\\d]+\\.[\\d]+(?:-[\\w.]+)?)\``,
+      `\\|\\s*\\[?${escapeRegex(packageName)}\\]?[^|]*\\|[^|]*->[\\s]*\`[~^]?v?([\\d]+\\.[\\d]+\\.[\\d]+(?:-[\\w.]+)?)\``,
       'i'
     ),
     // Standard markdown table: | [@types/node](...) | `24.0.6` -> `24.0.7` |
     new RegExp(
-      `\\|\\s*\\[?${escapeRegex(packageName)}\\]?[^|]*\\|[^|]*->[\\s]*\`([\\d]+\\.[\\d]+\\.[\\d]+(?:-[\\w.]+)?)\``,
+      `\\|\\s*\\[?${escapeRegex(packageName)}\\]?[^|]*\\|[^|]*->[\\s]*\`v?([\\d]+\\.[\\d]+\\.[\\d]+(?:-[\\w.]+)?)\``,
       'i'
     ),
     // Python format: | lxml | `==5.4.0` -> `==6.0.0` |
@@ -429,7 +528,55 @@ function extractFromMonorepoTable(body: string): PackageUpdate | null {
   return null;
 }
 
-function extractFromRenovateTitle(prData: PRData): PackageUpdate | null {
+/**
+ * Every row of Renovate's dependency table, one update per package:
+ * | [lodash](https://...) ([source](https://...)) | dependencies | minor | [`4.17.20` -> `4.17.21`](https://...) |
+ * | guzzlehttp/guzzle | require | major | `^6.5` -> `^7.0` |
+ */
+function extractFromDependencyTable(body: string): PackageUpdate[] {
+  const cleanBody = body.replace(/&#\d+;/g, '');
+  const updates = new Map<string, PackageUpdate>();
+
+  for (const line of cleanBody.split('\n')) {
+    if (!line.trim().startsWith('|')) continue;
+
+    const versions = /`([^`\s]+)`\s*->\s*`([^`\s]+)`/.exec(line);
+    const nameCell = line.split('|')[1]?.trim() ?? '';
+    const name = (/^\[([^\]]+)\]/.exec(nameCell)?.[1] ?? nameCell.split(/\s+\(/)[0]).trim();
+
+    if (!versions || !name || name.toLowerCase() === 'package' || updates.has(name)) continue;
+
+    const fromVersion = normalizeTableVersion(versions[1]);
+    const toVersion = normalizeTableVersion(versions[2]);
+    if (fromVersion && toVersion) {
+      updates.set(name, { name, fromVersion, toVersion });
+    }
+  }
+
+  return [...updates.values()];
+}
+
+/**
+ * Strip range operators ("^1.2", "==5.4.0", ">=2.0") and a "v" before a number, but keep
+ * non-semver versions such as Docker tags ("18-alpine") and Maven versions intact
+ */
+function normalizeTableVersion(version: string): string {
+  return version.replace(/^(?:[~^]|==|>=|~>)?\s*v?(?=\d)/, '');
+}
+
+function extractFromRenovateTitle(
+  prData: PRData,
+  composerPackages: ReadonlySet<string>
+): PackageUpdate | null {
+  // Docker images and GitHub Actions: "Update node Docker tag to v20",
+  // "chore(deps): update actions/checkout action to v4"
+  // Tags such as "18-alpine" or "v4" are not semver, so read them verbatim from the body
+  const tagMatch = /update (.+?) (?:docker tag|action) to \S+$/i.exec(prData.title);
+  if (tagMatch) {
+    const versions = extractVerbatimVersionsFromBody(prData.body, tagMatch[1]);
+    return versions ? { name: tagMatch[1], ...versions } : null;
+  }
+
   // Common Renovate patterns
   const patterns = [
     // "Update dependency @types/node to v20.11.5"
@@ -440,6 +587,10 @@ function extractFromRenovateTitle(prData: PRData): PackageUpdate | null {
     /chore\(deps\): update dependency (.+?) to v?(.+)$/,
     // "fix(deps): update dependency @types/node to v20.11.5"
     /fix\(deps\): update dependency (.+?) to v?(.+)$/,
+    // Go modules: "Update module github.com/foo/bar to v1.2.3"
+    /Update module (.+?) to v?(.+)$/,
+    // "chore(deps): update module github.com/foo/bar to v1.2.3"
+    /(?:chore|fix)\(deps\): update module (.+?) to v?(.+)$/,
     // Branch name patterns: "renovate/node-20.x"
     /renovate\/(.+?)-(.+)$/,
   ];
@@ -457,7 +608,7 @@ function extractFromRenovateTitle(prData: PRData): PackageUpdate | null {
         };
       } else if (match.length === 3) {
         // Pattern with only to version - need to extract from version from PR body
-        return extractVersionsFromBody(prData, match[1], match[2]);
+        return extractVersionsFromBody(prData, match[1], match[2], composerPackages);
       }
     }
   }
@@ -468,8 +619,29 @@ function extractFromRenovateTitle(prData: PRData): PackageUpdate | null {
 function extractVersionsFromBody(
   prData: PRData,
   packageName: string,
-  toVersionFromTitle: string
+  toVersionFromTitle: string,
+  composerPackages: ReadonlySet<string>
 ): PackageUpdate | null {
+  // Maven/Gradle versions are not semver ("2.2", "5.6.15.Final"), so read them verbatim
+  if (isMavenCoordinate(packageName)) {
+    const mavenVersions = extractVerbatimVersionsFromBody(prData.body, packageName);
+    if (mavenVersions) {
+      return { name: packageName, ...mavenVersions };
+    }
+  }
+
+  // Composer rows show tags ("v10.48.4") or, with rangeStrategy=bump, constraints ("^10.5")
+  if (composerPackages.has(packageName)) {
+    const composerVersions = extractVerbatimVersionsFromBody(prData.body, packageName);
+    if (composerVersions) {
+      return {
+        name: packageName,
+        fromVersion: normalizeComposerVersion(composerVersions.fromVersion),
+        toVersion: normalizeComposerVersion(composerVersions.toVersion),
+      };
+    }
+  }
+
   // Extract full versions from body
   const fromVersion = extractFromVersion(prData.body, packageName);
   const toVersion = extractToVersion(prData.body, packageName);
@@ -496,6 +668,35 @@ function extractVersionsFromBody(
   return null;
 }
 
+function isMavenCoordinate(packageName: string): boolean {
+  return /^[\w.-]+:[\w.-]+$/.test(packageName);
+}
+
+function normalizeComposerVersion(version: string): string {
+  return version.replace(/^(?:[~^]|>=)?v?/, '');
+}
+
+/**
+ * Read the versions of a package's table row exactly as written
+ */
+function extractVerbatimVersionsFromBody(
+  body: string,
+  packageName: string
+): Pick<PackageUpdate, 'fromVersion' | 'toVersion'> | null {
+  const cleanBody = body.replace(/&#\d+;/g, '');
+
+  // | [org.slf4j:slf4j-api](...) | `2.0.9` -> `2.0.12` |
+  // | com.google.guava:guava | dependencies | major | `32.1.3-jre` -> `33.0.0-jre` |
+  // | node | final | major | `18-alpine` -> `20-alpine` |
+  const rowPattern = new RegExp(
+    `\\|\\s*\\[?${escapeRegex(packageName)}\\]?[^\\n]*?\`([^\`\\s]+)\`\\s*->\\s*\`([^\`\\s]+)\``,
+    'i'
+  );
+  const match = rowPattern.exec(cleanBody);
+
+  return match ? { fromVersion: match[1], toVersion: match[2] } : null;
+}
+
 function extractFromBranchName(prData: PRData): PackageUpdate | null {
   // Try branch name
   const branchRegex = /renovate\/(.+?)-(.+)$/;
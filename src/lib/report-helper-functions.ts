@@ -62,7 +62,8 @@ export function generateSummarySection(llmSummary: AnalysisResult['llmSummary'])
 }
 
 export function generateDependencyUsageSection(
-  dependencyUsage: AnalysisResult['dependencyUsage']
+  dependencyUsage: AnalysisResult['dependencyUsage'],
+  workspaceImpact?: AnalysisResult['workspaceImpact']
 ): string[] {
   if (!dependencyUsage) return [];
 
@@ -70,6 +71,23 @@ export function generateDependencyUsageSection(
   sections.push(`### 🌳 Dependency Usage`);
   sections.push(`- **Type**: ${dependencyUsage.isDirect ? 'Direct' : 'Transitive'} dependency`);
   sections.push(`- **Category**: ${dependencyUsage.usageType}`);
+
+  if (workspaceImpact) {
+    sections.push(
+      `- **Impact**: ${workspaceImpact.affected.length} of ${workspaceImpact.totalPackages} packages affected`
+    );
+    for (const pkg of workspaceImpact.affected) {
+      const declared = pkg.dependencyType
+        ? `${pkg.dependencyType} ${pkg.versionRange}`
+        : 'not declared';
+      sections.push(
+        `  - ${getRiskEmoji(pkg.riskLevel)} \`${pkg.name}\` (${declared}): ${pkg.reason}`
+      );
+    }
+    sections.push('');
+    return sections;
+  }
+
   sections.push(
     `- **Impact**: Affects ${dependencyUsage.dependents.length} package${dependencyUsage.dependents.length > 1 ? 's' : ''}`
   );
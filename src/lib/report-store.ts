@@ -0,0 +1,269 @@
+/**
+ * Local archive of analysis reports
+ * Each analysis is stored as <dir>/<owner>/<repo>/pr-<number>/<timestamp>-<sha>.{md,json},
+ * so the history of a PR shows how its assessment changed across Renovate rebases
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { homedir } from 'os';
+import { getEnvironmentConfig } from './env-config.js';
+import { safeJsonParse } from './safe-json.js';
+import type { ExecutionStats } from '../mastra/tools/execution-tracker.js';
+
+export const DEFAULT_REPORT_DIR = path.join(homedir(), '.renovate-safety-reports');
+
+/**
+ * Per-dependency summary kept alongside the full report, used by `reports diff`
+ */
+export type StoredDependencySummary = {
+  name: string;
+  fromVersion: string;
+  toVersion: string;
+  riskLevel: string;
+  breakingChanges: number;
+  usages: number;
+};
+
+export type StoredReportEntry = {
+  id: string;
+  repository: string;
+  prNumber: number;
+  headSha: string;
+  createdAt: string;
+  overallRisk: string;
+  markdownPath: string;
+  jsonPath: string;
+};
+
+export type StoredReport = StoredReportEntry & {
+  dependencies: StoredDependencySummary[];
+  data: unknown;
+  markdown: string;
+  executionStats?: ExecutionStats;
+};
+
+export type SaveReportInput = {
+  repository: { owner: string; name: string };
+  prNumber: number;
+  headSha?: string;
+  overallRisk: string;
+  markdown: string;
+  dependencies: StoredDependencySummary[];
+  data: unknown;
+  /** Agent, token and cost usage of the run, read by `renovate-safety costs` */
+  executionStats?: ExecutionStats;
+};
+
+export type StoredReportDiff = {
+  from: StoredReportEntry;
+  to: StoredReportEntry;
+  overallRisk?: { from: string; to: string };
+  changed: Array<{
+    name: string;
+    from: StoredDependencySummary;
+    to: StoredDependencySummary;
+  }>;
+  added: StoredDependencySummary[];
+  removed: StoredDependencySummary[];
+};
+
+type StoredReportFile = Omit<StoredReportEntry, 'id' | 'markdownPath' | 'jsonPath'> & {
+  dependencies: StoredDependencySummary[];
+  data: unknown;
+  executionStats?: ExecutionStats;
+};
+
+export function getReportDir(reportDir?: string): string {
+  return reportDir || getEnvironmentConfig().reportDir || DEFAULT_REPORT_DIR;
+}
+
+/**
+ * Write a report as markdown and JSON; the JSON file carries the metadata
+ */
+export async function saveReportToStore(
+  input: SaveReportInput,
+  reportDir?: string
+): Promise<StoredReportEntry> {
+  const createdAt = new Date().toISOString();
+  const headSha = input.headSha || 'unknown';
+  const repository = `${input.repository.owner}/${input.repository.name}`;
+  const id = `${createdAt.replace(/[:.]/g, '-')}-${headSha.slice(0, 7)}`;
+  const dir = getPRDir(getReportDir(reportDir), repository, input.prNumber);
+
+  const record: StoredReportFile = {
+    repository,
+    prNumber: input.prNumber,
+    headSha,
+    createdAt,
+    overallRisk: input.overallRisk,
+    dependencies: input.dependencies,
+    data: input.data,
+    executionStats: input.executionStats,
+  };
+
+  await fs.mkdir(dir, { recursive: true });
+  const markdownPath = path.join(dir, `${id}.md`);
+  const jsonPath = path.join(dir, `${id}.json`);
+  await fs.writeFile(markdownPath, input.markdown, 'utf-8');
+  await fs.writeFile(jsonPath, JSON.stringify(record, null, 2), 'utf-8');
+
+  return toEntry(record, id, dir);
+}
+
+/**
+ * Stored reports, oldest first, optionally narrowed to one repository and/or PR
+ */
+export async function listStoredReports(
+  filter: { repository?: string; prNumber?: number } = {},
+  reportDir?: string
+): Promise<StoredReportEntry[]> {
+  const root = getReportDir(reportDir);
+  const entries: StoredReportEntry[] = [];
+
+  for (const dir of await findPRDirs(root)) {
+    const files = (await readDirSafe(dir)).filter((file) => file.endsWith('.json'));
+
+    for (const file of files) {
+      const record = await readRecord(path.join(dir, file));
+      if (!record) continue;
+      if (filter.repository && record.repository !== filter.repository) continue;
+      if (filter.prNumber !== undefined && record.prNumber !== filter.prNumber) continue;
+
+      entries.push(toEntry(record, file.replace(/\.json$/, ''), dir));
+    }
+  }
+
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Load a stored report by id; a unique prefix of the id or of the head SHA also matches
+ */
+export async function loadStoredReport(
+  idOrSha: string,
+  filter: { repository?: string; prNumber?: number } = {},
+  reportDir?: string
+): Promise<StoredReport | null> {
+  const entries = await listStoredReports(filter, reportDir);
+  const matches = entries.filter(
+    (entry) => entry.id.startsWith(idOrSha) || entry.headSha.startsWith(idOrSha)
+  );
+
+  if (matches.length > 1) {
+    throw new Error(`Report "${idOrSha}" is ambiguous: ${matches.map((m) => m.id).join(', ')}`);
+  }
+
+  return matches.length === 1 ? readStoredReport(matches[0]) : null;
+}
+
+export async function readStoredReport(entry: StoredReportEntry): Promise<StoredReport | null> {
+  const record = await readRecord(entry.jsonPath);
+  if (!record) {
+    return null;
+  }
+
+  const markdown = await fs.readFile(entry.markdownPath, 'utf-8').catch(() => '');
+  return {
+    ...entry,
+    dependencies: record.dependencies,
+    data: record.data,
+    markdown,
+    executionStats: record.executionStats,
+  };
+}
+
+/**
+ * What changed between two stored reports of the same PR
+ */
+export function diffStoredReports(from: StoredReport, to: StoredReport): StoredReportDiff {
+  const fromDeps = new Map(from.dependencies.map((dep) => [dep.name, dep]));
+  const toDeps = new Map(to.dependencies.map((dep) => [dep.name, dep]));
+
+  const changed: StoredReportDiff['changed'] = [];
+  for (const [name, toDep] of toDeps) {
+    const fromDep = fromDeps.get(name);
+    if (fromDep && !isSameSummary(fromDep, toDep)) {
+      changed.push({ name, from: fromDep, to: toDep });
+    }
+  }
+
+  return {
+    from: stripReport(from),
+    to: stripReport(to),
+    overallRisk:
+      from.overallRisk === to.overallRisk
+        ? undefined
+        : { from: from.overallRisk, to: to.overallRisk },
+    changed,
+    added: to.dependencies.filter((dep) => !fromDeps.has(dep.name)),
+    removed: from.dependencies.filter((dep) => !toDeps.has(dep.name)),
+  };
+}
+
+function getPRDir(root: string, repository: string, prNumber: number): string {
+  const [owner, name] = repository.split('/').map(toPathSegment);
+  return path.join(root, owner, name ?? 'unknown', `pr-${prNumber}`);
+}
+
+function toPathSegment(value: string): string {
+  return value.replace(/[^\w.-]/g, '_').replace(/^\.+/, '_') || 'unknown';
+}
+
+async function findPRDirs(root: string): Promise<string[]> {
+  const dirs: string[] = [];
+
+  for (const owner of await readDirSafe(root)) {
+    for (const repo of await readDirSafe(path.join(root, owner))) {
+      const repoDir = path.join(root, owner, repo);
+      const prDirs = (await readDirSafe(repoDir)).filter((dir) => /^pr-\d+$/.test(dir));
+      dirs.push(...prDirs.map((dir) => path.join(repoDir, dir)));
+    }
+  }
+
+  return dirs;
+}
+
+async function readDirSafe(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+}
+
+async function readRecord(file: string): Promise<StoredReportFile | null> {
+  try {
+    const record = safeJsonParse<StoredReportFile | null>(await fs.readFile(file, 'utf-8'), null);
+    return record && typeof record.prNumber === 'number' ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+function toEntry(record: StoredReportFile, id: string, dir: string): StoredReportEntry {
+  return {
+    id,
+    repository: record.repository,
+    prNumber: record.prNumber,
+    headSha: record.headSha,
+    createdAt: record.createdAt,
+    overallRisk: record.overallRisk,
+    markdownPath: path.join(dir, `${id}.md`),
+    jsonPath: path.join(dir, `${id}.json`),
+  };
+}
+
+function stripReport(report: StoredReport): StoredReportEntry {
+  return toEntry(report, report.id, path.dirname(report.jsonPath));
+}
+
+function isSameSummary(a: StoredDependencySummary, b: StoredDependencySummary): boolean {
+  return (
+    a.fromVersion === b.fromVersion &&
+    a.toVersion === b.toVersion &&
+    a.riskLevel === b.riskLevel &&
+    a.breakingChanges === b.breakingChanges &&
+    a.usages === b.usages
+  );
+}
@@ -40,7 +40,7 @@ async function generateMarkdownReport(result: AnalysisResult): Promise<string> {
   sections.push(...generateSummarySection(result.llmSummary));
 
   // Dependency usage information
-  sections.push(...generateDependencyUsageSection(result.dependencyUsage));
+  sections.push(...generateDependencyUsageSection(result.dependencyUsage, result.workspaceImpact));
 
   // Code changes information
   sections.push(...generateCodeChangesSection(result.codeDiff));
@@ -111,6 +111,7 @@ function generateJSONReport(result: AnalysisResult): string {
           })),
         }
       : null,
+    workspaceImpact: result.workspaceImpact ?? null,
     summary: result.llmSummary?.summary || null,
     breakingChanges: {
       total: result.breakingChanges.length,
@@ -0,0 +1,183 @@
+import chalk from 'chalk';
+import {
+  listStoredReports,
+  loadStoredReport,
+  readStoredReport,
+  diffStoredReports,
+  getReportDir,
+  type StoredReport,
+  type StoredReportDiff,
+  type StoredDependencySummary,
+} from './report-store.js';
+import { logSection, logTable, logKeyValue, logWarningMessage } from './logger-extended.js';
+
+export type ReportsCommandOptions = {
+  pr?: number;
+  repo?: string;
+  json?: boolean;
+  dir?: string;
+};
+
+/**
+ * `reports list`: stored analyses, oldest first
+ */
+export async function runReportsList(options: ReportsCommandOptions): Promise<void> {
+  const entries = await listStoredReports(getFilter(options), options.dir);
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  if (entries.length === 0) {
+    logWarningMessage(`No saved reports found in ${getReportDir(options.dir)}`);
+    return;
+  }
+
+  logSection('Saved reports', '🗂️');
+  logTable(
+    ['Repository', 'PR', 'Head', 'Created', 'Risk', 'ID'],
+    entries.map((entry) => [
+      entry.repository,
+      `#${entry.prNumber}`,
+      entry.headSha.slice(0, 7),
+      entry.createdAt,
+      entry.overallRisk,
+      entry.id,
+    ])
+  );
+}
+
+/**
+ * `reports show [id]`: print a stored report; without an id, the latest one for --pr
+ */
+export async function runReportsShow(
+  id: string | undefined,
+  options: ReportsCommandOptions
+): Promise<void> {
+  const report = id
+    ? await loadStoredReport(id, getFilter(options), options.dir)
+    : await loadLatestReports(options, 1).then((reports) => reports[0] ?? null);
+
+  if (!report) {
+    throw new Error(id ? `No saved report matches "${id}"` : 'No saved report found');
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(report.data, null, 2));
+  } else {
+    console.log(report.markdown);
+  }
+}
+
+/**
+ * `reports diff [from] [to]`: compare two stored reports; defaults to the two latest for --pr
+ */
+export async function runReportsDiff(
+  fromId: string | undefined,
+  toId: string | undefined,
+  options: ReportsCommandOptions
+): Promise<void> {
+  const [from, to] = await resolveDiffReports(fromId, toId, options);
+  const diff = diffStoredReports(from, to);
+
+  if (options.json) {
+    console.log(JSON.stringify(diff, null, 2));
+    return;
+  }
+
+  printReportDiff(diff);
+}
+
+async function resolveDiffReports(
+  fromId: string | undefined,
+  toId: string | undefined,
+  options: ReportsCommandOptions
+): Promise<[StoredReport, StoredReport]> {
+  if (fromId && toId) {
+    const filter = getFilter(options);
+    const from = await loadStoredReport(fromId, filter, options.dir);
+    const to = await loadStoredReport(toId, filter, options.dir);
+    if (!from || !to) {
+      throw new Error(`No saved report matches "${from ? toId : fromId}"`);
+    }
+    return [from, to];
+  }
+
+  if (options.pr === undefined) {
+    throw new Error('Provide two report ids, or --pr <number> to compare its two latest reports');
+  }
+
+  const reports = await loadLatestReports(options, 2);
+  if (reports.length < 2) {
+    throw new Error(`PR #${options.pr} has fewer than two saved reports`);
+  }
+  return [reports[0], reports[1]];
+}
+
+/**
+ * The latest `count` reports matching the filter, oldest first
+ */
+async function loadLatestReports(
+  options: ReportsCommandOptions,
+  count: number
+): Promise<StoredReport[]> {
+  const entries = (await listStoredReports(getFilter(options), options.dir)).slice(-count);
+  const reports = await Promise.all(entries.map((entry) => readStoredReport(entry)));
+  return reports.filter((report): report is StoredReport => report !== null);
+}
+
+function getFilter(options: ReportsCommandOptions): { repository?: string; prNumber?: number } {
+  return { repository: options.repo, prNumber: options.pr };
+}
+
+function printReportDiff(diff: StoredReportDiff): void {
+  logSection(`Report diff for ${diff.to.repository}#${diff.to.prNumber}`, '🔀');
+  logKeyValue('From', `${diff.from.headSha.slice(0, 7)} (${diff.from.createdAt})`);
+  logKeyValue('To', `${diff.to.headSha.slice(0, 7)} (${diff.to.createdAt})`);
+  logKeyValue(
+    'Overall risk',
+    diff.overallRisk
+      ? `${diff.overallRisk.from} → ${diff.overallRisk.to}`
+      : `${diff.to.overallRisk} (unchanged)`
+  );
+
+  if (diff.changed.length === 0 && diff.added.length === 0 && diff.removed.length === 0) {
+    console.log('\nNo dependency assessments changed.');
+    return;
+  }
+
+  console.log('');
+  diff.changed.forEach(({ name, from, to }) => {
+    console.log(chalk.yellow(`~ ${name}: ${describeChange(from, to)}`));
+  });
+  diff.added.forEach((dep) => {
+    console.log(chalk.green(`+ ${describeDependency(dep)}`));
+  });
+  diff.removed.forEach((dep) => {
+    console.log(chalk.red(`- ${describeDependency(dep)}`));
+  });
+}
+
+function describeDependency(dep: StoredDependencySummary): string {
+  return `${dep.name} ${dep.fromVersion} → ${dep.toVersion} (${dep.riskLevel})`;
+}
+
+function describeChange(from: StoredDependencySummary, to: StoredDependencySummary): string {
+  const changes: string[] = [];
+  if (from.fromVersion !== to.fromVersion || from.toVersion !== to.toVersion) {
+    changes.push(
+      `version ${from.fromVersion} → ${from.toVersion} became ${to.fromVersion} → ${to.toVersion}`
+    );
+  }
+  if (from.riskLevel !== to.riskLevel) {
+    changes.push(`risk ${from.riskLevel} → ${to.riskLevel}`);
+  }
+  if (from.breakingChanges !== to.breakingChanges) {
+    changes.push(`breaking changes ${from.breakingChanges} → ${to.breakingChanges}`);
+  }
+  if (from.usages !== to.usages) {
+    changes.push(`usages ${from.usages} → ${to.usages}`);
+  }
+  return changes.join(', ');
+}
@@ -0,0 +1,159 @@
+/**
+ * RubyGems registry operations
+ * Talks to the rubygems.org JSON API (https://guides.rubygems.org/rubygems-org-api/);
+ * any compatible server (Gemstash, a private mirror, or a local stand-in) works too
+ */
+
+import { httpGet, httpGetText } from './http-client.js';
+import { getEnvironmentConfig } from './env-config.js';
+import { validateGemName, escapeForUrl } from './validation.js';
+import { loggers } from './logger.js';
+
+export const DEFAULT_RUBYGEMS_API = 'https://rubygems.org';
+
+/**
+ * Gem-level (or version-level, for the v2 endpoint) metadata
+ */
+export type RubyGemInfo = {
+  name: string;
+  version: string;
+  info?: string | null;
+  licenses?: string[] | null;
+  homepage_uri?: string | null;
+  source_code_uri?: string | null;
+  changelog_uri?: string | null;
+  documentation_uri?: string | null;
+  metadata?: Record<string, string>;
+  ruby_version?: string | null;
+  created_at?: string;
+  yanked?: boolean;
+};
+
+export type RubyGemVersion = {
+  number: string;
+  created_at?: string;
+  prerelease?: boolean;
+  platform?: string;
+  ruby_version?: string | null;
+  licenses?: string[] | null;
+};
+
+function getApiUrl(apiUrl?: string): string {
+  const base = apiUrl || getEnvironmentConfig().rubygemsApiUrl || DEFAULT_RUBYGEMS_API;
+  return base.replace(/\/+$/, '');
+}
+
+/**
+ * Fetch metadata for the latest version of a gem
+ */
+export async function fetchGemInfo(gemName: string, apiUrl?: string): Promise<RubyGemInfo | null> {
+  const safeName = validateGemName(gemName);
+  const baseUrl = getApiUrl(apiUrl);
+  const url = `${baseUrl}/api/v1/gems/${escapeForUrl(safeName)}.json`;
+  const response = await httpGet<RubyGemInfo>(url, { baseUrl });
+
+  if (!response.ok || !response.data) {
+    loggers.debug(`RubyGems lookup failed for ${gemName}:`, response.error);
+    return null;
+  }
+
+  return response.data;
+}
+
+/**
+ * Fetch metadata for a specific gem version, falling back to the gem-level record
+ * for servers that do not implement the v2 endpoint
+ */
+export async function fetchGemVersionInfo(
+  gemName: string,
+  version: string,
+  apiUrl?: string
+): Promise<RubyGemInfo | null> {
+  const safeName = validateGemName(gemName);
+  const baseUrl = getApiUrl(apiUrl);
+  const url = `${baseUrl}/api/v2/rubygems/${escapeForUrl(safeName)}/versions/${escapeForUrl(version)}.json`;
+  const response = await httpGet<RubyGemInfo>(url, { baseUrl });
+
+  if (response.ok && response.data) {
+    return response.data;
+  }
+
+  loggers.debug(`RubyGems version lookup failed for ${gemName}@${version}:`, response.error);
+  return fetchGemInfo(gemName, apiUrl);
+}
+
+/**
+ * Fetch every published version of a gem (newest first, as the API returns them)
+ */
+export async function fetchGemVersions(
+  gemName: string,
+  apiUrl?: string
+): Promise<RubyGemVersion[]> {
+  const safeName = validateGemName(gemName);
+  const baseUrl = getApiUrl(apiUrl);
+  const url = `${baseUrl}/api/v1/versions/${escapeForUrl(safeName)}.json`;
+  const response = await httpGet<RubyGemVersion[]>(url, { baseUrl });
+
+  if (!response.ok || !Array.isArray(response.data)) {
+    loggers.debug(`RubyGems versions lookup failed for ${gemName}:`, response.error);
+    return [];
+  }
+
+  return response.data;
+}
+
+/**
+ * Changelog URI as declared in the gemspec metadata
+ */
+export function getGemChangelogUri(info: RubyGemInfo): string | undefined {
+  return info.changelog_uri ?? info.metadata?.changelog_uri ?? undefined;
+}
+
+/**
+ * Source repository URI as declared in the gemspec metadata, or the homepage as a last resort
+ */
+export function getGemSourceUri(info: RubyGemInfo): string | undefined {
+  return (
+    info.source_code_uri ??
+    info.metadata?.source_code_uri ??
+    info.homepage_uri ??
+    info.metadata?.homepage_uri ??
+    undefined
+  );
+}
+
+/**
+ * Turn a changelog URI into one that serves the raw file
+ * GitHub "blob" links are rewritten to raw.githubusercontent.com; release pages and
+ * other HTML views return null because they cannot be parsed as a changelog file
+ */
+export function toRawChangelogUrl(changelogUri: string): string | null {
+  const blob = /^https:\/\/github\.com\/([^/]+)\/([^/]+)\/blob\/(.+)$/.exec(changelogUri);
+  if (blob) {
+    return `https://raw.githubusercontent.com/${blob[1]}/${blob[2]}/${blob[3]}`;
+  }
+
+  if (/\.(?:md|markdown|txt|rdoc)$/i.test(changelogUri) || /\/CHANGELOG$/i.test(changelogUri)) {
+    return changelogUri;
+  }
+
+  return null;
+}
+
+/**
+ * Download a changelog file referenced by a gem's changelog URI
+ */
+export async function fetchGemChangelogFile(changelogUri: string): Promise<string | null> {
+  const rawUrl = toRawChangelogUrl(changelogUri);
+  if (!rawUrl) {
+    return null;
+  }
+
+  const response = await httpGetText(rawUrl);
+  if (!response.ok || !response.data) {
+    loggers.debug(`Changelog download failed for ${changelogUri}:`, response.error);
+    return null;
+  }
+
+  return response.data;
+}
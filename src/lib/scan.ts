@@ -240,6 +240,12 @@ function isFromPackage(identifier: Node, packageName: string): boolean {
           return true;
         }
 
+        // Check default import, e.g. import ReactDOM from 'react-dom'
+        const defaultImport = decl.getDefaultImport();
+        if (defaultImport && defaultImport.getText() === expression.getText()) {
+          return true;
+        }
+
         return false;
       });
 
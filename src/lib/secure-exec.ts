@@ -6,6 +6,7 @@
 import { execa, ExecaError } from 'execa';
 import { validatePackageName, validateVersion } from './validation.js';
 import { tmpdir } from 'os';
+import { withOfflineBundle } from './offline-bundle.js';
 
 export type SecureExecOptions = {
   cwd?: string;
@@ -48,6 +49,22 @@ function handleExecError(error: unknown, options: SecureExecOptions): ExecResult
   };
 }
 
+/**
+ * Commands that reach the network; offline bundles record and replay their results
+ */
+function isNetworkCommand(command: string, args: string[]): boolean {
+  switch (command) {
+    case 'npm':
+      return ['view', 'info', 'diff', 'audit'].includes(args[0]);
+    case 'gh':
+      return args[0] !== '--version';
+    case 'claude':
+      return args.includes('-p');
+    default:
+      return false;
+  }
+}
+
 /**
  * Common execution wrapper with error handling
  */
@@ -56,6 +73,21 @@ async function executeCommand(
   args: string[],
   options: SecureExecOptions = {},
   cwdDefault?: string
+): Promise<ExecResult> {
+  if (isNetworkCommand(command, args)) {
+    return withOfflineBundle('exec', [command, ...args].join(' '), () =>
+      runCommand(command, args, options, cwdDefault)
+    );
+  }
+
+  return runCommand(command, args, options, cwdDefault);
+}
+
+async function runCommand(
+  command: string,
+  args: string[],
+  options: SecureExecOptions,
+  cwdDefault?: string
 ): Promise<ExecResult> {
   try {
     const result = await execa(command, args, {
@@ -165,7 +197,7 @@ export async function secureGhExec(
 
   // Validate subcommands
   const commandValidation: Record<string, string[]> = {
-    pr: ['view', 'comment', 'list', 'create', 'edit'],
+    pr: ['view', 'comment', 'list', 'create', 'edit', 'diff'],
     auth: ['status', 'login', 'logout', 'token'],
     api: [], // API calls need special handling
     repo: ['view', 'list', 'clone'],
@@ -228,6 +260,8 @@ export async function secureGitExec(
     'show',
     'describe',
     'tag',
+    'commit',
+    'push',
   ];
 
   if (!allowedCommands.includes(args[0])) {
@@ -0,0 +1,337 @@
+/**
+ * Typecheck the project against the target version of a package
+ * The target version is extracted into a temporary node_modules overlay and only imports of
+ * the package resolve there, so the project's own node_modules stays untouched. Diagnostics
+ * the current version does not produce are mapped back to the package symbols involved
+ */
+
+import pacote from 'pacote';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { Node, Project, SyntaxKind, ts, type ResolutionHostFactory } from 'ts-morph';
+import { fileExists } from './file-helpers.js';
+import { withOfflineBundle } from './offline-bundle.js';
+import { findTypesEntry } from './declaration-diff.js';
+import type {
+  BreakingChange,
+  PackageUpdate,
+  TypeErrorDiagnostic,
+  TypecheckResult,
+} from '../types/index.js';
+
+export type TypecheckOverlay = {
+  /** Package as published; `@types/*` packages type the module they are named after */
+  packageName: string;
+  /** Directory whose node_modules holds the target version of the package */
+  root: string;
+};
+
+type Diagnostic = TypeErrorDiagnostic & {
+  /** File, position and code; stable between both runs since the project is unchanged */
+  key: string;
+};
+
+/**
+ * Diagnostics with the installed versions by tsconfig.json path; the project does not change
+ * during a run, so every package of a PR shares one baseline program
+ */
+const baselineCache = new Map<string, Diagnostic[]>();
+
+/**
+ * Typecheck of the project in projectDir with packageUpdate.toVersion; null without a
+ * tsconfig.json or when the target version ships no type declarations
+ */
+export async function typecheckAgainstVersion(
+  packageUpdate: PackageUpdate,
+  projectDir = process.cwd()
+): Promise<TypecheckResult | null> {
+  const tsConfigFilePath = path.join(projectDir, 'tsconfig.json');
+  if (!(await fileExists(tsConfigFilePath))) return null;
+
+  // The tarball is extracted to disk, so offline bundles record the result itself
+  const { name, toVersion } = packageUpdate;
+  return withOfflineBundle('registry', `typecheck:${name}@${toVersion}`, () =>
+    typecheckWithOverlay(packageUpdate, tsConfigFilePath)
+  );
+}
+
+async function typecheckWithOverlay(
+  { name, toVersion }: PackageUpdate,
+  tsConfigFilePath: string
+): Promise<TypecheckResult | null> {
+  const root = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-typecheck-'));
+
+  try {
+    // pacote reads the tarball from npm's cache when it is there
+    const packageDir = path.join(root, 'node_modules', name);
+    await pacote.extract(`${name}@${toVersion}`, packageDir, { preferOffline: true });
+    if (!(await findTypesEntry(packageDir))) return null;
+
+    const result = compareTypecheck(tsConfigFilePath, { packageName: name, root });
+    return { version: toVersion, ...result };
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Type errors of the project with the package from the overlay that it does not have with
+ * the installed version
+ */
+export function compareTypecheck(
+  tsConfigFilePath: string,
+  overlay: TypecheckOverlay
+): Omit<TypecheckResult, 'version'> {
+  const projectDir = path.dirname(tsConfigFilePath);
+  const baseline = getBaselineDiagnostics(tsConfigFilePath);
+  const baselineKeys = new Set(baseline.map((diagnostic) => diagnostic.key));
+
+  const target = collectDiagnostics(
+    new Project({
+      tsConfigFilePath,
+      resolutionHost: createOverlayResolutionHost(overlay, projectDir),
+    }),
+    projectDir,
+    overlay
+  );
+  const targetKeys = new Set(target.diagnostics.map((diagnostic) => diagnostic.key));
+
+  return {
+    filesChecked: target.filesChecked,
+    newErrors: target.diagnostics
+      .filter((diagnostic) => !baselineKeys.has(diagnostic.key))
+      .map(({ key: _key, ...diagnostic }) => diagnostic),
+    fixedErrors: baseline.filter((diagnostic) => !targetKeys.has(diagnostic.key)).length,
+  };
+}
+
+function getBaselineDiagnostics(tsConfigFilePath: string): Diagnostic[] {
+  let diagnostics = baselineCache.get(tsConfigFilePath);
+  if (!diagnostics) {
+    // Only the diagnostics are kept: large projects do not fit in memory twice
+    const project = new Project({ tsConfigFilePath });
+    diagnostics = collectDiagnostics(project, path.dirname(tsConfigFilePath)).diagnostics;
+    baselineCache.set(tsConfigFilePath, diagnostics);
+  }
+  return diagnostics;
+}
+
+/**
+ * New type errors as breaking changes; the compiler leaves no doubt, so they are high
+ * confidence and carry the exact location
+ */
+export function toTypecheckBreakingChanges(typecheck: TypecheckResult): BreakingChange[] {
+  return typecheck.newErrors.map((error) => ({
+    line: `${error.symbol ? `\`${error.symbol}\`: ` : ''}TS${error.code} ${error.message}`,
+    severity: 'breaking',
+    source: 'typecheck',
+    location: { file: error.file, line: error.line, column: error.column },
+    confidence: 'high',
+  }));
+}
+
+/**
+ * Imports of the package resolve from the overlay. Its files resolve their own relative
+ * imports and take every other package from the project, which has the dependencies
+ * installed. Subpaths the overlay has no declarations for keep the project's resolution.
+ * Type reference directives, including the automatic inclusion of `@types/*`, resolve the
+ * same way, so an `@types/*` package is not loaded from both places
+ */
+function createOverlayResolutionHost(
+  overlay: TypecheckOverlay,
+  projectDir: string
+): ResolutionHostFactory {
+  // Resolution walks up from the directory of the importing file, any file name will do
+  const overlayAnchor = path.join(overlay.root, 'index.ts');
+  const projectAnchor = path.join(projectDir, 'index.ts');
+  const packageDir = getOverlayPackageDir(overlay);
+  const moduleName = getTypedModuleName(overlay.packageName);
+  const overlayTypeRoots = [path.join(overlay.root, 'node_modules', '@types')];
+
+  return (moduleResolutionHost) => ({
+    resolveModuleNames: (moduleNames, containingFile, _reused, _redirected, options, file) =>
+      moduleNames.map((specifier, index) => {
+        const mode = file ? ts.getModeForResolutionAtIndex(file, index, options) : undefined;
+        const resolve = (from: string) =>
+          ts.resolveModuleName(
+            specifier,
+            from,
+            options,
+            moduleResolutionHost,
+            undefined,
+            undefined,
+            mode
+          ).resolvedModule;
+
+        if (isPackageSpecifier(specifier, moduleName)) {
+          const resolved = resolve(overlayAnchor);
+          return resolved && /\.d\.[cm]?ts$/.test(resolved.resolvedFileName)
+            ? resolved
+            : resolve(containingFile);
+        }
+
+        const isBare = !specifier.startsWith('.') && !path.isAbsolute(specifier);
+        return isBare && isInside(containingFile, packageDir)
+          ? resolve(projectAnchor)
+          : resolve(containingFile);
+      }),
+    resolveTypeReferenceDirectives: (references, containingFile, redirected, options, fileMode) =>
+      references.map((reference) => {
+        const name = typeof reference === 'string' ? reference : reference.fileName;
+        const mode = ts.getModeForFileReference(reference, fileMode);
+        const resolve = (from: string, typeRoots = options.typeRoots) =>
+          ts.resolveTypeReferenceDirective(
+            name,
+            from,
+            { ...options, typeRoots },
+            moduleResolutionHost,
+            redirected,
+            undefined,
+            mode
+          ).resolvedTypeReferenceDirective;
+
+        if (name === moduleName) return resolve(overlayAnchor, overlayTypeRoots);
+        return isInside(containingFile, packageDir)
+          ? resolve(projectAnchor)
+          : resolve(containingFile);
+      }),
+  });
+}
+
+/**
+ * Module an `@types/*` package declares: `@types/node` types `node`, `@types/babel__core`
+ * types `@babel/core`; other packages type themselves
+ */
+function getTypedModuleName(packageName: string): string {
+  const typed = /^@types\/(.+)$/.exec(packageName)?.[1];
+  if (!typed) return packageName;
+  return typed.includes('__') ? `@${typed.replace('__', '/')}` : typed;
+}
+
+function getOverlayPackageDir(overlay: TypecheckOverlay): string {
+  return path.join(overlay.root, 'node_modules', overlay.packageName);
+}
+
+function isPackageSpecifier(moduleName: string, packageName: string): boolean {
+  return moduleName === packageName || moduleName.startsWith(`${packageName}/`);
+}
+
+/**
+ * Semantic errors of the project's own files; declarations and node_modules are left to
+ * skipLibCheck as the project configured it
+ */
+function collectDiagnostics(
+  project: Project,
+  projectDir: string,
+  overlay?: TypecheckOverlay
+): { filesChecked: number; diagnostics: Diagnostic[] } {
+  const program = project.getProgram();
+  const sourceFiles = project
+    .getSourceFiles()
+    .filter((sourceFile) => !sourceFile.isDeclarationFile() && !sourceFile.isInNodeModules());
+  const diagnostics: Diagnostic[] = [];
+
+  for (const sourceFile of sourceFiles) {
+    for (const diagnostic of program.getSemanticDiagnostics(sourceFile)) {
+      const start = diagnostic.getStart();
+      if (diagnostic.getCategory() !== ts.DiagnosticCategory.Error || start === undefined) {
+        continue;
+      }
+
+      const file = path.relative(projectDir, sourceFile.getFilePath());
+      const { line, column } = sourceFile.getLineAndColumnAtPos(start);
+      const message = ts.flattenDiagnosticMessageText(diagnostic.compilerObject.messageText, '\n');
+      const node = sourceFile.getDescendantAtPos(start);
+
+      diagnostics.push({
+        key: `${file}:${start}:${diagnostic.getCode()}`,
+        file,
+        line,
+        column,
+        code: diagnostic.getCode(),
+        message: message.split('\n')[0],
+        symbol: overlay && node ? findPackageSymbol(node, overlay) : undefined,
+      });
+    }
+  }
+
+  return { filesChecked: sourceFiles.length, diagnostics };
+}
+
+/**
+ * Innermost callee, property access, type reference or import around the error that refers
+ * to a declaration of the package
+ */
+function findPackageSymbol(node: Node, overlay: TypecheckOverlay): string | undefined {
+  // Removed exports fail at the import, where the name resolves to nothing
+  const importDeclaration = node.getFirstAncestorByKind(SyntaxKind.ImportDeclaration);
+  if (importDeclaration) {
+    const specifier = importDeclaration.getModuleSpecifierValue();
+    if (!isPackageSpecifier(specifier, getTypedModuleName(overlay.packageName))) {
+      return undefined;
+    }
+    return Node.isIdentifier(node) ? node.getText() : specifier;
+  }
+
+  const packageDir = getOverlayPackageDir(overlay);
+  for (
+    let current: Node | undefined = node;
+    current && !Node.isStatement(current) && !Node.isSourceFile(current);
+    current = current.getParent()
+  ) {
+    const candidate = getReferenceCandidate(current);
+    if (candidate && isDeclaredInPackage(candidate, packageDir)) {
+      return candidate.getText();
+    }
+  }
+
+  return undefined;
+}
+
+function getReferenceCandidate(node: Node): Node | undefined {
+  if (Node.isCallExpression(node) || Node.isNewExpression(node)) return node.getExpression();
+  if (Node.isTypeReference(node)) return node.getTypeName();
+  if (Node.isJsxOpeningElement(node) || Node.isJsxSelfClosingElement(node)) {
+    return node.getTagNameNode();
+  }
+  if (Node.isVariableDeclaration(node)) return node.getTypeNode();
+  if (Node.isPropertyAccessExpression(node) || Node.isIdentifier(node)) return node;
+  return undefined;
+}
+
+/**
+ * The symbol is declared by the package, or, for members the target version no longer has,
+ * the receiver or its type is
+ */
+function isDeclaredInPackage(node: Node, packageDir: string, isReceiver = false): boolean {
+  const target = Node.isTypeReference(node) ? node.getTypeName() : node;
+  const symbol = target.getSymbol();
+  const resolved = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+  const typeSymbol = isReceiver
+    ? (target.getType().getAliasSymbol() ?? target.getType().getSymbol())
+    : undefined;
+
+  const isInPackage = (declarations: Node[] | undefined) =>
+    Boolean(
+      declarations?.some((declaration) =>
+        isInside(declaration.getSourceFile().getFilePath(), packageDir)
+      )
+    );
+
+  if (isInPackage(resolved?.getDeclarations()) || isInPackage(typeSymbol?.getDeclarations())) {
+    return true;
+  }
+  if (Node.isPropertyAccessExpression(target) || Node.isQualifiedName(target)) {
+    return isDeclaredInPackage(
+      Node.isPropertyAccessExpression(target) ? target.getExpression() : target.getLeft(),
+      packageDir,
+      true
+    );
+  }
+  return false;
+}
+
+function isInside(file: string, dir: string): boolean {
+  return file.startsWith(`${dir}${path.sep}`);
+}
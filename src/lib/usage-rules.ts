@@ -0,0 +1,192 @@
+/**
+ * Usage rule packs
+ * Code patterns that make an update of a package risky, kept as data so teams can share and
+ * version rules for their own libraries. Built-in packs live in data/usage-rules, project packs
+ * in .renovate-safety/usage-rules of the analyzed project
+ */
+
+import { basename, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import semver from 'semver';
+import { z } from 'zod';
+import { Node, Project, SyntaxKind, type SourceFile } from 'ts-morph';
+import { getFiles } from './glob-helpers.js';
+import { readJsonFile } from './file-helpers.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const BUILTIN_USAGE_RULES_DIR = join(__dirname, '../../data/usage-rules');
+export const PROJECT_USAGE_RULES_DIR = join('.renovate-safety', 'usage-rules');
+
+const selectorSchema = z
+  .object({
+    kind: z.enum(['call', 'property-access', 'import']),
+    name: z.string().min(1),
+    /** Receiver of a call or property access, e.g. ReactDOM for ReactDOM.render() */
+    object: z.string().min(1).optional(),
+  })
+  .strict();
+
+const ruleSchema = z
+  .object({
+    id: z.string().min(1),
+    /** Package name; a trailing * matches every package with that prefix */
+    package: z.string().min(1),
+    /** Versions being updated to that the rule applies to */
+    versions: z
+      .string()
+      .refine((range) => semver.validRange(range) !== null, 'invalid semver range')
+      .default('*'),
+    /** Regular expression run against the file content */
+    pattern: z.string().min(1).refine(isValidPattern, 'invalid regular expression').optional(),
+    selector: selectorSchema.optional(),
+    riskLevel: z.enum(['high', 'medium', 'low']),
+    message: z.string().min(1),
+    recommendations: z.array(z.string()).default([]),
+  })
+  .strict()
+  .refine((rule) => (rule.pattern === undefined) !== (rule.selector === undefined), {
+    message: 'set exactly one of pattern or selector',
+  });
+
+const packSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    rules: z.array(ruleSchema),
+  })
+  .strict();
+
+export type UsageRuleSelector = z.infer<typeof selectorSchema>;
+export type UsageRule = z.infer<typeof ruleSchema>;
+export type UsageRulePack = z.infer<typeof packSchema> & {
+  source: 'builtin' | 'project';
+  file: string;
+};
+
+/**
+ * Built-in packs followed by the packs of the project; an invalid pack is an error rather
+ * than silently ignored
+ */
+export async function loadUsageRulePacks(projectDir = process.cwd()): Promise<UsageRulePack[]> {
+  return [
+    ...(await loadPackDirectory(BUILTIN_USAGE_RULES_DIR, 'builtin')),
+    ...(await loadPackDirectory(join(projectDir, PROJECT_USAGE_RULES_DIR), 'project')),
+  ];
+}
+
+async function loadPackDirectory(
+  dir: string,
+  source: UsageRulePack['source']
+): Promise<UsageRulePack[]> {
+  const files = await getFiles('*.json', { cwd: dir, absolute: true });
+  const packs: UsageRulePack[] = [];
+
+  for (const file of files.sort()) {
+    packs.push(parseUsageRulePack(await readJsonFile(file), file, source));
+  }
+
+  return packs;
+}
+
+export function parseUsageRulePack(
+  data: unknown,
+  file: string,
+  source: UsageRulePack['source']
+): UsageRulePack {
+  const result = packSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid usage rule pack ${basename(file)}: ${issues}`);
+  }
+  return { ...result.data, source, file };
+}
+
+/**
+ * Rules of every pack that cover the package and the version it is updated to; rules are kept
+ * when the version is unknown
+ */
+export function selectUsageRules(
+  packs: UsageRulePack[],
+  packageName: string,
+  toVersion?: string
+): UsageRule[] {
+  const version = toVersion ? semver.coerce(toVersion) : null;
+
+  return packs
+    .flatMap((pack) => pack.rules)
+    .filter(
+      (rule) =>
+        matchesPackage(rule.package, packageName) &&
+        (!version || semver.satisfies(version, rule.versions))
+    );
+}
+
+/**
+ * Match rules against one file; the file is only parsed when a rule uses a selector
+ */
+export function createUsageRuleMatcher(
+  content: string,
+  fileName = 'file.tsx'
+): (rule: UsageRule) => boolean {
+  let sourceFile: SourceFile | undefined;
+
+  return (rule) => {
+    if (rule.pattern) return new RegExp(rule.pattern).test(content);
+    if (!rule.selector) return false;
+
+    sourceFile ??= new Project({ useInMemoryFileSystem: true }).createSourceFile(fileName, content);
+    return matchesSelector(sourceFile, rule.selector);
+  };
+}
+
+function matchesSelector(sourceFile: SourceFile, selector: UsageRuleSelector): boolean {
+  const { kind, name, object } = selector;
+
+  if (kind === 'import') {
+    return sourceFile
+      .getImportDeclarations()
+      .some((declaration) =>
+        declaration.getNamedImports().some((specifier) => specifier.getName() === name)
+      );
+  }
+
+  if (kind === 'property-access') {
+    return sourceFile
+      .getDescendantsOfKind(SyntaxKind.PropertyAccessExpression)
+      .some(
+        (access) =>
+          access.getName() === name && (!object || access.getExpression().getText() === object)
+      );
+  }
+
+  return sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).some((call) => {
+    const callee = call.getExpression();
+    if (Node.isIdentifier(callee)) return !object && callee.getText() === name;
+    return (
+      Node.isPropertyAccessExpression(callee) &&
+      callee.getName() === name &&
+      (!object || callee.getExpression().getText() === object)
+    );
+  });
+}
+
+/**
+ * Package name of a rule; a trailing * matches every package with that prefix
+ */
+export function matchesPackage(rulePackage: string, packageName: string): boolean {
+  return rulePackage.endsWith('*')
+    ? packageName.startsWith(rulePackage.slice(0, -1))
+    : rulePackage === packageName;
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
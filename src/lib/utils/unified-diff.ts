@@ -0,0 +1,133 @@
+/**
+ * Unified diffs of file contents, as printed by `git diff`
+ */
+
+type DiffLine = {
+  type: ' ' | '-' | '+';
+  text: string;
+};
+
+/**
+ * Unified diff of two versions of a file; empty when they are equal
+ */
+export function createUnifiedDiff(
+  fileName: string,
+  before: string,
+  after: string,
+  context = 3
+): string {
+  if (before === after) {
+    return '';
+  }
+
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const hunks = groupHunks(lines, context);
+
+  return [`--- a/${fileName}`, `+++ b/${fileName}`, ...hunks].join('\n') + '\n';
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' algorithm); linear in memory per edit,
+ * so the few edits of a codemod stay cheap on large files
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        return backtrack(trace, a, b, offset);
+      }
+    }
+  }
+
+  return [];
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], offset: number): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const previousK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = v[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      lines.push({ type: ' ', text: a[--x] });
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === previousX) {
+        lines.push({ type: '+', text: b[--y] });
+      } else {
+        lines.push({ type: '-', text: a[--x] });
+      }
+    }
+  }
+
+  return lines.reverse();
+}
+
+function groupHunks(lines: DiffLine[], context: number): string[] {
+  const changed = lines.flatMap((line, index) => (line.type === ' ' ? [] : [index]));
+  const hunks: string[] = [];
+  let index = 0;
+
+  while (index < changed.length) {
+    const start = Math.max(changed[index] - context, 0);
+    let end = changed[index];
+
+    // Changes closer than twice the context share one hunk
+    while (index + 1 < changed.length && changed[index + 1] - end <= context * 2) {
+      end = changed[++index];
+    }
+    end = Math.min(end + context, lines.length - 1);
+    index++;
+
+    const oldStart = lines.slice(0, start).filter((line) => line.type !== '+').length;
+    const newStart = lines.slice(0, start).filter((line) => line.type !== '-').length;
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter((line) => line.type !== '+').length;
+    const newCount = hunk.filter((line) => line.type !== '-').length;
+
+    hunks.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      ...hunk.map((line) => `${line.type}${line.text}`)
+    );
+  }
+
+  return hunks;
+}
+
+function splitLines(content: string): string[] {
+  return (content.endsWith('\n') ? content.slice(0, -1) : content).split('\n');
+}
+
+function formatRange(linesBefore: number, count: number): string {
+  // An empty range names the line before it
+  const start = count === 0 ? linesBefore : linesBefore + 1;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
@@ -87,8 +87,9 @@ export function validateVersion(version: string): string {
 
 /**
  * Validates and sanitizes URL for API calls
+ * trustedHosts extends the allowlist, e.g. with the host of a configured registry mirror
  */
-export function validateUrl(url: string): string {
+export function validateUrl(url: string, trustedHosts: string[] = []): string {
   try {
     const parsed = new URL(url);
 
@@ -109,6 +110,15 @@ export function validateUrl(url: string): string {
       'api.github.com',
       'github.com',
       'raw.githubusercontent.com',
+      'proxy.golang.org',
+      'index.crates.io',
+      'crates.io',
+      'repo1.maven.org',
+      'repo.maven.apache.org',
+      'rubygems.org',
+      'hub.docker.com',
+      'repo.packagist.org',
+      'packagist.org',
     ];
 
     // Allow localhost for development
@@ -116,7 +126,11 @@ export function validateUrl(url: string): string {
       return url;
     }
 
-    if (!validHosts.includes(parsed.hostname) && !parsed.hostname.endsWith('.npmjs.org')) {
+    if (
+      !validHosts.includes(parsed.hostname) &&
+      !trustedHosts.includes(parsed.hostname) &&
+      !parsed.hostname.endsWith('.npmjs.org')
+    ) {
       throw new Error(`Untrusted host: ${parsed.hostname}`);
     }
 
@@ -159,3 +173,129 @@ export function validatePythonPackageName(packageName: string): string {
 
   return normalized;
 }
+
+/**
+ * Validates Go module path format
+ * @see https://go.dev/ref/mod#go-mod-file-ident
+ */
+export function validateGoModulePath(modulePath: string): string {
+  if (!modulePath || typeof modulePath !== 'string') {
+    throw new Error('Module path must be a non-empty string');
+  }
+
+  if (modulePath.length > 512) {
+    throw new Error('Module path too long (max 512 characters)');
+  }
+
+  // Path elements: letters, digits, and -._~ separated by slashes
+  // The first element must look like a domain name (contain a dot)
+  const goModulePattern = /^[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)+(\/[a-zA-Z0-9-._~]+)*$/;
+
+  if (!goModulePattern.test(modulePath)) {
+    throw new Error(`Invalid Go module path format: ${modulePath}`);
+  }
+
+  if (modulePath.includes('..')) {
+    throw new Error(`Module path contains unsafe characters: ${modulePath}`);
+  }
+
+  return modulePath;
+}
+
+/**
+ * Validates Rust crate name format
+ * @see https://doc.rust-lang.org/cargo/reference/manifest.html#the-name-field
+ */
+export function validateCrateName(crateName: string): string {
+  if (!crateName || typeof crateName !== 'string') {
+    throw new Error('Crate name must be a non-empty string');
+  }
+
+  // crates.io limits names to 64 ASCII alphanumerics, '-' and '_', starting with a letter
+  const cratePattern = /^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/;
+
+  if (!cratePattern.test(crateName)) {
+    throw new Error(`Invalid crate name format: ${crateName}`);
+  }
+
+  return crateName;
+}
+
+/**
+ * Validates Maven coordinate format (groupId:artifactId)
+ * @see https://maven.apache.org/guides/mini/guide-naming-conventions.html
+ */
+export function validateMavenCoordinate(coordinate: string): string {
+  if (!coordinate || typeof coordinate !== 'string') {
+    throw new Error('Maven coordinate must be a non-empty string');
+  }
+
+  // Both parts use letters, digits, '.', '_' and '-'; groupId segments must be non-empty
+  const coordinatePattern = /^[a-zA-Z0-9_-]+(\.[a-zA-Z0-9_-]+)*:[a-zA-Z0-9_.-]+$/;
+
+  if (!coordinatePattern.test(coordinate)) {
+    throw new Error(`Invalid Maven coordinate format: ${coordinate}`);
+  }
+
+  if (coordinate.includes('..')) {
+    throw new Error(`Maven coordinate contains unsafe characters: ${coordinate}`);
+  }
+
+  return coordinate;
+}
+
+/**
+ * Validates RubyGems gem name format
+ * @see https://guides.rubygems.org/name-your-gem/
+ */
+export function validateGemName(gemName: string): string {
+  if (!gemName || typeof gemName !== 'string') {
+    throw new Error('Gem name must be a non-empty string');
+  }
+
+  // rubygems.org allows letters, digits, '.', '_' and '-', and requires a letter or digit somewhere
+  const gemPattern = /^[a-zA-Z0-9_][a-zA-Z0-9._-]*$/;
+
+  if (!gemPattern.test(gemName) || !/[a-zA-Z0-9]/.test(gemName)) {
+    throw new Error(`Invalid gem name format: ${gemName}`);
+  }
+
+  return gemName;
+}
+
+/**
+ * Validate a Docker image name (optionally registry-qualified), without tag or digest
+ */
+export function validateDockerImageName(imageName: string): string {
+  if (!imageName || typeof imageName !== 'string') {
+    throw new Error('Image name must be a non-empty string');
+  }
+
+  // [registry[:port]/]path-component[/path-component...]; path components are lowercase
+  const imagePattern =
+    /^(?:[a-zA-Z0-9.-]+(?::\d+)?\/)?[a-z0-9]+(?:[._-][a-z0-9]+)*(?:\/[a-z0-9]+(?:[._-][a-z0-9]+)*)*$/;
+
+  if (!imagePattern.test(imageName) || imageName.length > 255) {
+    throw new Error(`Invalid image name format: ${imageName}`);
+  }
+
+  return imageName;
+}
+
+/**
+ * Validate a Composer package name ("vendor/package")
+ */
+export function validateComposerPackageName(packageName: string): string {
+  if (!packageName || typeof packageName !== 'string') {
+    throw new Error('Package name must be a non-empty string');
+  }
+
+  // Pattern from the Composer JSON schema
+  const composerPattern = /^[a-z0-9]([_.-]?[a-z0-9]+)*\/[a-z0-9](([_.]|-{1,2})?[a-z0-9]+)*$/;
+
+  if (!composerPattern.test(packageName)) {
+    throw new Error(`Invalid Composer package name format: ${packageName}`);
+  }
+
+  return packageName;
+}
@@ -83,3 +83,18 @@ export function extractVersion(versionString: string): string | null {
 
   return null;
 }
+
+/**
+ * Classify an update as patch, minor or major
+ * Versions that cannot be coerced to semver are treated as major, the most cautious choice
+ */
+export function getUpdateType(fromVersion: string, toVersion: string): 'patch' | 'minor' | 'major' {
+  const from = semver.coerce(fromVersion);
+  const to = semver.coerce(toVersion);
+
+  if (!from || !to || semver.major(from) !== semver.major(to)) {
+    return 'major';
+  }
+
+  return semver.minor(from) === semver.minor(to) ? 'patch' : 'minor';
+}
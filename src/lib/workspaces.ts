@@ -0,0 +1,213 @@
+/**
+ * Workspace monorepos
+ * Finds the packages of an npm, yarn or pnpm workspace and breaks the impact of an update down
+ * per package: which packages declare the dependency and at what range, which import it or the
+ * APIs its breaking changes name, and how risky the update is for each of them
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { load } from 'js-yaml';
+import { getFiles } from './glob-helpers.js';
+import { fileExists, readJsonFile } from './file-helpers.js';
+import { escapeRegex } from './string-validators.js';
+import { loggers } from './logger.js';
+import { getErrorMessage } from '../analyzers/utils.js';
+import type { UsageAnalysis, UsageLocation } from '../analyzers/base.js';
+import type { DependencyUsage, WorkspaceImpact, WorkspacePackageImpact } from '../types/index.js';
+
+type PackageManifest = {
+  name?: string;
+  workspaces?: string[] | { packages?: string[] };
+} & Partial<Record<DependencyUsage['usageType'], Record<string, string>>>;
+
+export type WorkspacePackage = {
+  name: string;
+  /** Directory relative to the repository root */
+  path: string;
+  manifest: PackageManifest;
+};
+
+export type Workspaces = {
+  manager: WorkspaceImpact['manager'];
+  packages: WorkspacePackage[];
+};
+
+const DEPENDENCY_TYPES = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+] as const;
+
+const RISK_ORDER: Record<WorkspacePackageImpact['riskLevel'], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/**
+ * Read the workspace globs of pnpm-workspace.yaml or the root package.json `workspaces` field
+ * and resolve them to packages; null when the project is not a monorepo
+ */
+export async function findWorkspaces(rootDir = process.cwd()): Promise<Workspaces | null> {
+  let manager: WorkspaceImpact['manager'];
+  let patterns: string[];
+
+  const pnpmWorkspace = await fs
+    .readFile(path.join(rootDir, 'pnpm-workspace.yaml'), 'utf-8')
+    .catch(() => null);
+  if (pnpmWorkspace !== null) {
+    manager = 'pnpm';
+    patterns = parsePnpmWorkspace(pnpmWorkspace);
+  } else {
+    const rootManifest = await readJsonFile<PackageManifest>(path.join(rootDir, 'package.json'));
+    const workspaces = rootManifest?.workspaces;
+    patterns = (Array.isArray(workspaces) ? workspaces : workspaces?.packages) ?? [];
+    manager = (await fileExists(path.join(rootDir, 'yarn.lock'))) ? 'yarn' : 'npm';
+  }
+
+  const include = patterns.filter((pattern) => !pattern.startsWith('!'));
+  if (include.length === 0) return null;
+
+  const manifestPaths = await getFiles(
+    include.map((pattern) => path.posix.join(normalizePattern(pattern), 'package.json')),
+    {
+      cwd: rootDir,
+      includeTests: true,
+      additionalIgnore: patterns
+        .filter((pattern) => pattern.startsWith('!'))
+        .map((pattern) => path.posix.join(normalizePattern(pattern.slice(1)), 'package.json')),
+    }
+  );
+
+  const packages: WorkspacePackage[] = [];
+  for (const manifestPath of manifestPaths.sort()) {
+    const manifest = await readJsonFile<PackageManifest>(path.join(rootDir, manifestPath));
+    if (!manifest) continue;
+
+    const dir = path.posix.dirname(manifestPath.split(path.sep).join('/'));
+    packages.push({ name: manifest.name ?? dir, path: dir, manifest });
+  }
+
+  return packages.length > 0 ? { manager, packages } : null;
+}
+
+/**
+ * Workspace globs of pnpm-workspace.yaml: its `packages` list, block or flow style
+ */
+export function parsePnpmWorkspace(yaml: string): string[] {
+  let document: unknown;
+  try {
+    document = load(yaml);
+  } catch (error) {
+    loggers.debug(`Invalid pnpm-workspace.yaml: ${getErrorMessage(error)}`);
+    return [];
+  }
+
+  const packages =
+    typeof document === 'object' && document !== null && 'packages' in document
+      ? document.packages
+      : undefined;
+  return Array.isArray(packages)
+    ? packages.filter((pattern): pattern is string => typeof pattern === 'string')
+    : [];
+}
+
+/**
+ * Attribute the usage scan of the repository root to the workspace packages and grade each
+ * package that declares or imports the dependency
+ */
+export function assessWorkspaceImpact(
+  packageName: string,
+  workspaces: Workspaces,
+  usageAnalysis: UsageAnalysis | null,
+  changedApis: string[]
+): WorkspaceImpact {
+  const locationsByPackage = groupLocationsByPackage(
+    usageAnalysis?.locations ?? [],
+    workspaces.packages
+  );
+  const affected: WorkspacePackageImpact[] = [];
+
+  for (const pkg of workspaces.packages) {
+    const dependencyType = DEPENDENCY_TYPES.find((type) => pkg.manifest[type]?.[packageName]);
+    const locations = locationsByPackage.get(pkg.path) ?? [];
+    if (!dependencyType && locations.length === 0) continue;
+
+    const productionUsageCount = locations.filter(
+      (location) => location.context === 'production'
+    ).length;
+    const usedApis = changedApis.filter((api) =>
+      locations.some((location) => new RegExp(`\\b${escapeRegex(api)}\\b`).test(location.code))
+    );
+
+    affected.push({
+      name: pkg.name,
+      path: pkg.path,
+      dependencyType,
+      versionRange: dependencyType ? pkg.manifest[dependencyType]?.[packageName] : undefined,
+      usageCount: locations.length,
+      productionUsageCount,
+      changedApis: usedApis,
+      ...gradeWorkspacePackage(dependencyType, locations.length, productionUsageCount, usedApis),
+    });
+  }
+
+  affected.sort(
+    (a, b) => RISK_ORDER[a.riskLevel] - RISK_ORDER[b.riskLevel] || a.name.localeCompare(b.name)
+  );
+
+  return { manager: workspaces.manager, totalPackages: workspaces.packages.length, affected };
+}
+
+export function formatWorkspaceImpactSummary(impact: WorkspaceImpact): string {
+  return `${impact.affected.length} of ${impact.totalPackages} packages affected`;
+}
+
+function gradeWorkspacePackage(
+  dependencyType: DependencyUsage['usageType'] | undefined,
+  usageCount: number,
+  productionUsageCount: number,
+  changedApis: string[]
+): Pick<WorkspacePackageImpact, 'riskLevel' | 'reason'> {
+  if (changedApis.length > 0) {
+    return { riskLevel: 'high', reason: `Uses changed APIs: ${changedApis.join(', ')}` };
+  }
+  if (productionUsageCount > 0) {
+    return {
+      riskLevel: 'medium',
+      reason: `Imported in production code (${productionUsageCount} locations)`,
+    };
+  }
+  if (usageCount > 0) {
+    return { riskLevel: 'low', reason: 'Used only in tests, build or configuration files' };
+  }
+  return { riskLevel: 'low', reason: `Declared in ${dependencyType} but not imported` };
+}
+
+/**
+ * Usage locations are relative to the repository root; each belongs to the innermost
+ * workspace package containing it
+ */
+function groupLocationsByPackage(
+  locations: UsageLocation[],
+  packages: WorkspacePackage[]
+): Map<string, UsageLocation[]> {
+  const byDepth = [...packages].sort((a, b) => b.path.length - a.path.length);
+  const grouped = new Map<string, UsageLocation[]>();
+
+  for (const location of locations) {
+    const file = location.file.split(path.sep).join('/');
+    const owner = byDepth.find((pkg) => pkg.path === '.' || file.startsWith(`${pkg.path}/`));
+    if (!owner) continue;
+
+    grouped.set(owner.path, [...(grouped.get(owner.path) ?? []), location]);
+  }
+
+  return grouped;
+}
+
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+}
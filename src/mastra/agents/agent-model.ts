@@ -0,0 +1,32 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { bundleFetch } from '../../lib/offline-bundle.js';
+import { getProviderClientApiKey, resolveAgentModel } from '../../lib/llm-providers.js';
+
+/** Model the agents run on unless .renovate-safety.json picks another */
+export const DEFAULT_AGENT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Model for an agent from the LLM provider registry
+ * Resolved on every call, so the providers and per-agent overrides loaded from
+ * .renovate-safety.json apply. Requests go through the offline bundle when one is active
+ */
+export function agentModel(agentName: string, defaultModel = DEFAULT_AGENT_MODEL) {
+  return () => {
+    const { provider, modelId } = resolveAgentModel(agentName, defaultModel);
+    const client = createOpenAI({
+      apiKey: getProviderClientApiKey(provider),
+      baseURL: provider.baseURL,
+      fetch: bundleFetch,
+    });
+
+    // OpenAI-compatible servers implement chat completions, not the responses API
+    return provider.type === 'openai-compatible' ? client.chat(modelId) : client(modelId);
+  };
+}
+
+/**
+ * Model id an agent runs on, for execution tracking and cost estimates
+ */
+export function getAgentModelId(agentName: string, defaultModel = DEFAULT_AGENT_MODEL): string {
+  return resolveAgentModel(agentName, defaultModel).modelId;
+}
@@ -245,7 +245,7 @@ function isMigrationStep(line: string): boolean {
   return /^[\d\-*•]/.test(line) || /^\s{2,}/.test(line);
 }
 
-export function assessRiskLevel(breakingChanges: BreakingChangeInfo[], packageName: string): 'safe' | 'low' | 'medium' | 'high' {
+export function assessRiskLevel(breakingChanges: Pick<BreakingChangeInfo, 'severity'>[], packageName: string): 'safe' | 'low' | 'medium' | 'high' {
   // Special handling for @types packages
   if (packageName.startsWith('@types/')) {
     // Type definition packages in patch versions are usually safe
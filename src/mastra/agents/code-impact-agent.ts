@@ -1,5 +1,5 @@
 import { Agent } from '@mastra/core/agent';
-import { openai } from '@ai-sdk/openai';
+import { agentModel } from './agent-model.js';
 import { z } from 'zod';
 import { tsUsageScannerTool } from '../tools/ts-usage-scanner.js';
 import { configScannerTool } from '../tools/config-scanner.js';
@@ -51,7 +51,7 @@ export const CodeImpactAgent = new Agent({
     - Configuration files that reference the package
     - Main entry points and critical application paths
     
-    Return structured output with:
+    Respond with only a JSON object, without any other text, with these fields:
     - totalUsages: total count of package usages found
     - criticalUsages: array of {file, line, reason} for high-risk usage locations
     - usageByType: record of usage counts by category
@@ -61,9 +61,11 @@ export const CodeImpactAgent = new Agent({
     - projectType: detected project type (typescript/javascript/python/etc)
     - score: numerical risk score
     
+    Responses that do not match this shape are sent back with the validation errors.
+    
     Always use both tools to gather comprehensive usage information.`,
   
-  model: openai('gpt-4o-mini'),
+  model: agentModel('CodeImpactAgent'),
   
   tools: {
     tsUsageScanner: tsUsageScannerTool,
@@ -4,8 +4,9 @@
  */
 
 import { Agent } from '@mastra/core/agent';
-import { openai } from '@ai-sdk/openai';
+import { agentModel, getAgentModelId } from './agent-model.js';
 import { z } from 'zod';
+import { trackAgent } from '../tools/execution-tracker.js';
 
 // Input/Output schemas for Agent
 export const libraryOverviewInputSchema = z.object({
@@ -49,7 +50,7 @@ Always provide meaningful, specific information that helps developers understand
 
 Respond in the same language as requested - if Japanese is requested, respond in Japanese with natural, technical Japanese.`,
   
-  model: openai('gpt-4o-mini'),
+  model: agentModel('LibraryOverviewAgent'),
 });
 
 export async function generateLibraryOverview(packageName: string, language: 'en' | 'ja' = 'en'): Promise<{
@@ -58,12 +59,21 @@ export async function generateLibraryOverview(packageName: string, language: 'en
   mainPurpose: string;
 }> {
   try {
-    const result = await LibraryOverviewAgent.generateVNext([
-      {
-        role: 'user',
-        content: `Please provide a detailed library overview for package: ${packageName} in language: ${language}`
-      }
-    ]) as any;
+    const result = await trackAgent('LibraryOverviewAgent', getAgentModelId('LibraryOverviewAgent'), async () => {
+      return await LibraryOverviewAgent.generateVNext([
+        {
+          role: 'user',
+          content: `Please provide a detailed library overview for package: ${packageName} in language: ${language}`
+        }
+      ]) as any;
+    }, {
+      packageName,
+      fallback: {
+        subject: packageName,
+        description: 'built-in package overview',
+        execute: async () => ({ object: generateEnhancedFallback(packageName, language) }),
+      },
+    });
 
     if (result.object) {
       return result.object;
@@ -1,5 +1,5 @@
 import { Agent } from '@mastra/core/agent';
-import { openai } from '@ai-sdk/openai';
+import { agentModel } from './agent-model.js';
 import { npmDiffTool } from '../tools/npm-diff.js';
 import { dependencyReviewTool } from '../tools/dependency-review.js';
 import { githubCompareTool } from '../tools/github-compare.js';
@@ -15,7 +15,7 @@ export const npmAgent = new Agent({
     Use dependency-review tool for GitHub dependency changes.
     Use github-compare tool for GitHub commit comparisons.
     Provide clear summaries of breaking changes and version differences.`,
-  model: openai('gpt-4o-mini'),
+  model: agentModel('npm-analyst'),
   tools: { 
     npmDiffTool, 
     dependencyReviewTool,
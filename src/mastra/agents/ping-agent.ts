@@ -1,5 +1,5 @@
 import { Agent } from '@mastra/core/agent';
-import { openai } from '@ai-sdk/openai';
+import { agentModel } from './agent-model.js';
 
 /**
  * 最小限のテスト用Agent
@@ -8,5 +8,5 @@ import { openai } from '@ai-sdk/openai';
 export const pingAgent = new Agent({
   name: 'ping',
   instructions: 'You are a helpful assistant. When asked to say hello to Mastra, respond with exactly "Hello, Mastra!" and nothing else.',
-  model: openai('gpt-3.5-turbo'),
+  model: agentModel('ping', 'gpt-3.5-turbo'),
 });
\ No newline at end of file
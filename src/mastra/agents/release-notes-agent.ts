@@ -1,5 +1,5 @@
 import { Agent } from '@mastra/core/agent';
-import { openai } from '@ai-sdk/openai';
+import { agentModel } from './agent-model.js';
 import { z } from 'zod';
 import { npmDiffTool } from '../tools/npm-diff.js';
 import { githubReleasesFetcher } from '../tools/github-releases.js';
@@ -67,21 +67,22 @@ export const ReleaseNotesAgent = new Agent({
     - Consider semantic versioning indicators
     - Special consideration for @types/* packages (lower risk)
     
-    You MUST return structured JSON output that matches this exact schema:
+    You MUST respond with only a JSON object, without any other text, that matches this exact schema:
     {
-      "breakingChanges": [{"text": "string", "severity": "critical|breaking|warning|removal", "source": "string"}],
+      "breakingChanges": [{"text": "string", "severity": "breaking|warning|removal", "source": "string"}],
       "migrationSteps": ["string"],
       "riskLevel": "safe|low|medium|high",
       "summary": "string",
       "sources": [{"type": "string", "url": "string", "status": "success|failed"}]
     }
     
+    Report Node.js requirement changes with severity 'breaking'. Responses that do not match the schema are sent back with the validation errors.
     If major Node.js requirement changes or multiple breaking changes exist, use 'high' risk level.
     If npmDiffTool finds breaking changes but other sources don't provide details, prioritize the tool findings and clearly state what was detected.
     
     Always attempt to use all available tools to gather comprehensive information.`,
     
-  model: openai('gpt-4o-mini'),
+  model: agentModel('ReleaseNotesAgent'),
   
   tools: { 
     npmDiffTool, 
@@ -4,6 +4,20 @@ import { program } from 'commander';
 import { execSync } from 'child_process';
 import { analyzeRenovatePR } from '../workflows/analyze-renovate-pr.js';
 import { validateConfig } from '../config/index.js';
+import { loadConfig } from '../../lib/config.js';
+import {
+  evaluatePolicyForAll,
+  formatPolicyDecision,
+  isAutoMergeAllowed,
+  toPolicyDependencyType,
+  type PolicyConfig,
+} from '../../lib/policy.js';
+import { addLabelsToPR } from '../../lib/post.js';
+import { setDefaultCacheDir } from '../../lib/cache-store.js';
+import { setupBundleForCli } from '../../lib/offline-bundle.js';
+import { setModelPricing } from '../../lib/model-pricing.js';
+import { getAgentProvider } from '../../lib/llm-providers.js';
+import { DEFAULT_AGENT_MODEL } from '../agents/agent-model.js';
 
 program
   .name('renovate-safety')
@@ -16,11 +30,14 @@ program
   .command('analyze')
   .description('Analyze a Renovate PR')
   .option('-p, --pr <number>', 'PR number to analyze', parseInt)
-  .option('--post <mode>', 'Post mode: always|update|never', 'always')
+  .option('--post <mode>', 'Post mode: always|update|check|never', 'always')
   .option('--format <format>', 'Output format: markdown|json', 'markdown')
   .option('--language <lang>', 'Language: en|ja', 'en')
-  .option('--threshold <score>', 'Risk threshold for auto-merge', parseInt, 1)
+  .option('--threshold <score>', 'Risk threshold for auto-merge (ignored when .renovate-safety.json defines a policy)', parseInt, 1)
   .option('--concurrency <number>', 'Number of dependencies to analyze in parallel', parseInt, 3)
+  .option('--offline <dir>', 'Replay network responses from a bundle or .json cassette recorded by "renovate-safety prefetch --agent" (implies --post never)')
+  .option('--max-cost <usd>', 'LLM spend limit in USD; agent steps beyond it use heuristics instead', parseFloat)
+  .option('--max-tokens <number>', 'LLM token limit; agent steps beyond it use heuristics instead', parseInt)
   .action(async (options) => {
     await handleAnalyzeCommand(options, false);
   });
@@ -31,9 +48,10 @@ program
   .description('Check environment setup')
   .action(async () => {
     try {
+      await loadConfig();
       validateConfig();
       console.log('✅ Environment setup is valid');
-      console.log('  - OpenAI API key: configured');
+      console.log(`  - LLM provider: ${describeAgentProvider()}`);
       console.log('  - GitHub access: available');
       console.log('  - Mastra: initialized');
       process.exit(0);
@@ -48,11 +66,14 @@ program
   .command('analyze')
   .description('Legacy: Analyze a Renovate PR (use "agent analyze" instead)')
   .option('-p, --pr <number>', 'PR number to analyze', parseInt)
-  .option('--post <mode>', 'Post mode: always|update|never', 'always')
+  .option('--post <mode>', 'Post mode: always|update|check|never', 'always')
   .option('--format <format>', 'Output format: markdown|json', 'markdown')
   .option('--language <lang>', 'Language: en|ja', 'en')
-  .option('--threshold <score>', 'Risk threshold for auto-merge', parseInt, 1)
+  .option('--threshold <score>', 'Risk threshold for auto-merge (ignored when .renovate-safety.json defines a policy)', parseInt, 1)
   .option('--concurrency <number>', 'Number of dependencies to analyze in parallel', parseInt, 3)
+  .option('--offline <dir>', 'Replay network responses from a bundle or .json cassette recorded by "renovate-safety prefetch --agent" (implies --post never)')
+  .option('--max-cost <usd>', 'LLM spend limit in USD; agent steps beyond it use heuristics instead', parseFloat)
+  .option('--max-tokens <number>', 'LLM token limit; agent steps beyond it use heuristics instead', parseInt)
   .action(async (options) => {
     console.warn('⚠️ Using legacy command. Use "renovate-safety agent analyze" instead.');
     await handleAnalyzeCommand(options, true);
@@ -98,12 +119,55 @@ function handleExitBasedOnRisk(result: any, threshold: number): void {
   }
 }
 
+// Helper function to evaluate the policy from .renovate-safety.json and exit on its decision
+async function handleExitBasedOnPolicy(result: any, policy: PolicyConfig, prNumber: number, postMode: string): Promise<void> {
+  const subjects = (result.assessments as any[]).map((assessment) => ({
+    name: assessment.dependency.name,
+    fromVersion: assessment.dependency.fromVersion,
+    toVersion: assessment.dependency.toVersion,
+    dependencyType: toPolicyDependencyType(assessment.dependency.type),
+    riskLevel: assessment.risk.level,
+  }));
+  const evaluation = evaluatePolicyForAll(policy, subjects);
+
+  console.log('📜 Policy decisions:');
+  for (const decision of evaluation.decisions) {
+    console.log(`  - ${formatPolicyDecision(decision)}`);
+  }
+
+  const labels = [...new Set(evaluation.decisions.flatMap((decision) => decision.labels))];
+  if (labels.length > 0 && postMode !== 'never') {
+    try {
+      await addLabelsToPR(prNumber, labels);
+      console.log(`🏷️  Added policy labels: ${labels.join(', ')}`);
+    } catch (error) {
+      console.warn('Failed to add policy labels:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (isAutoMergeAllowed(evaluation.action)) {
+    console.log(`✅ Policy result: ${evaluation.action}`);
+    process.exit(0);
+  } else {
+    console.log(`⚠️ Policy result: ${evaluation.action}`);
+    process.exit(1);
+  }
+}
+
 // Shared function to handle analyze command logic
 async function handleAnalyzeCommand(options: any, isLegacy: boolean = false): Promise<void> {
   try {
-    // Validate configuration
+    if (options.offline) {
+      await setupOfflineMode(options);
+    }
+
+    validateBudgetOptions(options);
+
+    // Validate configuration; loadConfig registers the LLM providers validateConfig checks
     console.log('🔧 Validating configuration...');
+    const { policy, modelPricing } = await loadConfig();
     validateConfig();
+    setModelPricing(modelPricing);
 
     // Get PR number
     const prNumber = await getPRNumber(options, isLegacy);
@@ -119,13 +183,19 @@ async function handleAnalyzeCommand(options: any, isLegacy: boolean = false): Pr
       language: options.language,
       threshold: options.threshold,
       concurrency: options.concurrency,
+      maxCost: options.maxCost,
+      maxTokens: options.maxTokens,
     });
 
     // Output results
     outputResults(result, options.format);
 
-    // Exit code based on risk
-    handleExitBasedOnRisk(result, options.threshold);
+    // Exit code based on the policy when one is configured, otherwise on the risk threshold
+    if (policy) {
+      await handleExitBasedOnPolicy(result, policy, prNumber, options.post);
+    } else {
+      handleExitBasedOnRisk(result, options.threshold);
+    }
   } catch (error) {
     console.error('❌ Error:', error instanceof Error ? error.message : error);
     if (!isLegacy && error instanceof Error && error.stack) {
@@ -135,6 +205,39 @@ async function handleAnalyzeCommand(options: any, isLegacy: boolean = false): Pr
   }
 }
 
+// Helper function to describe the provider the agents run on unless overridden per agent
+function describeAgentProvider(): string {
+  const provider = getAgentProvider();
+  return provider ? `${provider.name} (${provider.model ?? DEFAULT_AGENT_MODEL})` : 'none';
+}
+
+// Helper function to reject budget limits that are not positive numbers
+function validateBudgetOptions(options: any): void {
+  for (const [flag, value] of [['--max-cost', options.maxCost], ['--max-tokens', options.maxTokens]]) {
+    if (value !== undefined && !(value > 0)) {
+      console.error(`❌ ${flag} must be a positive number`);
+      process.exit(1);
+    }
+  }
+}
+
+// Helper function to replay everything from an offline bundle instead of the network
+async function setupOfflineMode(options: any): Promise<void> {
+  if (!options.pr) {
+    console.error('❌ --offline needs --pr <number>, the PR recorded with "renovate-safety prefetch --agent"');
+    process.exit(1);
+  }
+
+  const { cacheDir } = await setupBundleForCli(options.offline, 'replay');
+  setDefaultCacheDir(cacheDir);
+  options.post = 'never';
+
+  // Requests never leave the machine, so the OpenAI provider only needs a placeholder key
+  process.env.OPENAI_API_KEY ??= 'offline-bundle';
+
+  console.log(`📦 Offline mode: replaying ${options.offline}`);
+}
+
 async function detectCurrentPR(): Promise<number | null> {
   try {
     // Try to detect PR from current git branch
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { validateConfig } from '../index.js';
+import { parseLLMConfig, setLLMConfig } from '../../../lib/llm-providers.js';
 
 describe('Mastra Configuration', () => {
   const originalEnv = process.env;
@@ -12,6 +13,7 @@ describe('Mastra Configuration', () => {
   
   afterEach(() => {
     process.env = originalEnv;
+    setLLMConfig(undefined);
   });
   
   it('should throw error when OPENAI_API_KEY is missing', () => {
@@ -24,6 +26,14 @@ describe('Mastra Configuration', () => {
     expect(() => validateConfig()).not.toThrow();
   });
   
+  it('should validate without OPENAI_API_KEY when an OpenAI-compatible server is configured', () => {
+    delete process.env.OPENAI_API_KEY;
+    setLLMConfig(parseLLMConfig({
+      providers: { ollama: { type: 'openai-compatible', baseURL: 'http://localhost:11434/v1', model: 'llama3.1' } },
+    }));
+    expect(() => validateConfig()).not.toThrow();
+  });
+  
   it('should warn when GITHUB_TOKEN is missing', () => {
     process.env.OPENAI_API_KEY = 'test-key';
     delete process.env.GITHUB_TOKEN;
@@ -4,6 +4,7 @@ import { pingAgent } from '../agents/ping-agent.js';
 import { ReleaseNotesAgent } from '../agents/release-notes-agent.js';
 import { CodeImpactAgent } from '../agents/code-impact-agent.js';
 import { analyzeRenovatePRWorkflow } from '../workflows/analyze-renovate-pr.js';
+import { getAgentModelId } from '../agents/agent-model.js';
 import { 
   dependencyReviewTool, 
   githubCompareTool, 
@@ -34,9 +35,11 @@ export {
 };
 
 // 設定の検証
+// Providers come from loadConfig(), so call it first when .renovate-safety.json configures llm
 export function validateConfig(): void {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
+  // Throws when no provider can run the agents
+  for (const agent of Object.values(mastra.getAgents())) {
+    getAgentModelId(agent.name);
   }
   
   if (!process.env.GITHUB_TOKEN && !process.env.GH_TOKEN) {
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  generateStructured,
+  parseAgentOutput,
+  getToolResult,
+  MAX_REPAIR_ATTEMPTS,
+  type AgentMessage,
+} from '../structured-output.js';
+
+const schema = z.object({
+  riskLevel: z.enum(['safe', 'low', 'medium', 'high']),
+  summary: z.string(),
+});
+
+function createAgent(responses: string[]) {
+  const calls: AgentMessage[][] = [];
+  const agent = {
+    name: 'TestAgent',
+    generateVNext: async (messages: AgentMessage[]) => {
+      calls.push([...messages]);
+      return {
+        text: responses[calls.length - 1] ?? '',
+        usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+      };
+    },
+  };
+  return { agent, calls };
+}
+
+describe('Structured agent output', () => {
+  it('should accept JSON wrapped in prose or a code fence', () => {
+    expect(
+      parseAgentOutput('Result:\n```json\n{"riskLevel":"low","summary":"ok"}\n```', schema)
+    ).toEqual({
+      success: true,
+      data: { riskLevel: 'low', summary: 'ok' },
+    });
+    expect(parseAgentOutput('Total Usages: 3', schema)).toEqual({
+      success: false,
+      errors: ['Response contains no JSON object'],
+    });
+  });
+
+  it('should send validation errors back and use the repaired output', async () => {
+    const { agent, calls } = createAgent([
+      '{"riskLevel":"critical","summary":"Node.js 20 required"}',
+      '{"riskLevel":"high","summary":"Node.js 20 required"}',
+    ]);
+
+    const result = await generateStructured(agent, schema, 'Analyze lodash');
+
+    expect(result.object).toEqual({ riskLevel: 'high', summary: 'Node.js 20 required' });
+    expect(result.usage).toEqual({ inputTokens: 200, outputTokens: 40, totalTokens: 240 });
+    expect(result.validation).toMatchObject({ agentName: 'TestAgent', valid: true, attempts: 2 });
+    expect(result.validation.errors).toEqual([
+      expect.stringMatching(/^Attempt 1: riskLevel: Invalid enum value/),
+    ]);
+
+    const repair = calls[1];
+    expect(repair.map((message) => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(repair[2].content).toContain('- riskLevel: Invalid enum value');
+  });
+
+  it('should stop after the bounded number of repairs', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { agent, calls } = createAgent(['not json', '{"summary":1}', '{', '{"riskLevel":"low"}']);
+
+    const result = await generateStructured(agent, schema, 'Analyze lodash');
+
+    expect(calls).toHaveLength(MAX_REPAIR_ATTEMPTS + 1);
+    expect(result.object).toBeNull();
+    expect(result.validation.valid).toBe(false);
+    expect(result.validation.errors).toHaveLength(MAX_REPAIR_ATTEMPTS + 1);
+  });
+
+  it('should run every attempt through the runner and stop when it skips one', async () => {
+    const { agent, calls } = createAgent(['not json', '{"riskLevel":"low","summary":"ok"}']);
+    let runs = 0;
+
+    const result = await generateStructured(agent, schema, 'Analyze lodash', 2, async (call) => {
+      runs++;
+      return runs === 1 ? call() : null;
+    });
+
+    expect(runs).toBe(2);
+    expect(calls).toHaveLength(1);
+    expect(result.object).toBeNull();
+    expect(result.usage.totalTokens).toBe(120);
+    expect(result.validation).toMatchObject({ valid: false, attempts: 1 });
+    expect(result.validation.errors).toHaveLength(1);
+  });
+
+  it('should find tool results in agent responses', () => {
+    const toolResults = [
+      { type: 'tool-result', payload: { toolName: 'configScanner', result: { usages: [] } } },
+      { type: 'tool-result', payload: { toolName: 'tsUsageScanner', result: { usages: [1] } } },
+    ];
+
+    expect(getToolResult(toolResults, 'tsUsageScanner')).toEqual({ usages: [1] });
+    expect(getToolResult(toolResults, 'npmDiffTool')).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { translateRecommendation } from '../translation-service.js';
+import { bundleFetch } from '../../../lib/offline-bundle.js';
+import { initializeTracking, finalizeTracking } from '../../tools/execution-tracker.js';
+
+vi.mock('../../../lib/offline-bundle.js', () => ({
+  bundleFetch: vi.fn(),
+}));
+
+vi.mock('../../../lib/llm-providers.js', () => ({
+  resolveAgentModel: () => ({
+    provider: { name: 'openai', type: 'openai' },
+    modelId: 'gpt-4o-mini',
+  }),
+  getProviderClientApiKey: () => 'sk-test',
+}));
+
+const recommendation = 'Review the breaking changes before merging';
+
+describe('translateRecommendation', () => {
+  beforeEach(() => {
+    finalizeTracking();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should count the translation call against the budget', async () => {
+    initializeTracking(123, undefined, { maxTokens: 10000 });
+    vi.mocked(bundleFetch).mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          choices: [{ message: { content: '破壊的変更を確認してください' } }],
+          usage: { prompt_tokens: 80, completion_tokens: 20, total_tokens: 100 },
+        })
+      )
+    );
+
+    expect(await translateRecommendation(recommendation)).toBe('破壊的変更を確認してください');
+    expect(finalizeTracking()?.apiCalls.totalTokens).toBe(100);
+  });
+
+  it('should keep the untranslated text once the budget is exhausted', async () => {
+    initializeTracking(123, undefined, { maxTokens: 100 });
+
+    expect(await translateRecommendation(recommendation)).toBe(recommendation);
+    expect(bundleFetch).not.toHaveBeenCalled();
+    expect(finalizeTracking()?.budget?.skippedSteps).toEqual([
+      expect.objectContaining({ agentName: 'TranslationService', fallback: 'untranslated text' }),
+    ]);
+  });
+});
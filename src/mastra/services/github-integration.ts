@@ -11,12 +11,15 @@ import {
   prLabelTool
 } from '../tools/index.js';
 import { RuntimeContext } from '@mastra/core/runtime-context';
+import { publishCheckRun } from '../../lib/check-run.js';
+import type { RiskLevel } from '../../types/index.js';
 
 export type GitHubPRInfo = {
   number: number;
   title: string;
   base: string;
   head: string;
+  headSha?: string;
   repository: {
     owner: string;
     name: string;
@@ -179,6 +182,10 @@ export async function handlePRPosting(
     return false;
   }
 
+  if (postMode === 'check') {
+    return publishPRCheckRun(prInfo, reportBody, riskLevel);
+  }
+
   console.log(`📝 Posting to PR #${prInfo.number} (mode: ${postMode})`);
   
   try {
@@ -212,4 +219,30 @@ export async function handlePRPosting(
     console.error('❌ Failed to post to PR:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+/**
+ * Publish the report as a GitHub check run on the PR head commit instead of a comment
+ */
+async function publishPRCheckRun(
+  prInfo: GitHubPRInfo,
+  reportBody: string,
+  riskLevel: string
+): Promise<boolean> {
+  console.log(`✔️  Creating check run for PR #${prInfo.number}...`);
+
+  try {
+    const checkRun = await publishCheckRun({
+      prNumber: prInfo.number,
+      riskLevel: riskLevel as RiskLevel,
+      report: reportBody,
+      repository: prInfo.repository,
+      headSha: prInfo.headSha,
+    });
+
+    console.log(`✅ Created check run (${checkRun.conclusion})${checkRun.url ? `: ${checkRun.url}` : ''}`);
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to create check run:', error);
+    return false;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Heuristic Analysis Service
+ * Non-LLM replacements for the release notes and code impact agents, used when an
+ * agent call would exceed the --max-cost / --max-tokens budget or its output never
+ * passes schema validation
+ */
+
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { npmDiffTool, changelogFetcher } from '../tools/index.js';
+import { tsUsageScannerTool, type TsUsage } from '../tools/ts-usage-scanner.js';
+import {
+  detectBreakingChangesFromText,
+  extractMigrationSteps,
+  assessRiskLevel,
+} from '../agents/breaking-change-detector.js';
+import type { ReleaseNotesOutput } from '../agents/release-notes-agent.js';
+import type { CodeImpactOutput } from '../agents/code-impact-agent.js';
+
+type HeuristicDependency = {
+  name: string;
+  fromVersion: string;
+  toVersion: string;
+};
+
+/**
+ * Breaking changes from the npm diff (BreakingChangeAnalyzer) and changelog patterns,
+ * shaped like a ReleaseNotesAgent response
+ */
+export async function analyzeReleaseNotesHeuristically(
+  dep: HeuristicDependency
+): Promise<{ object: ReleaseNotesOutput }> {
+  const context = { packageName: dep.name, fromVersion: dep.fromVersion, toVersion: dep.toVersion };
+
+  const [diffResult, changelogResult] = await Promise.all([
+    npmDiffTool.execute({ context, runtimeContext: new RuntimeContext() }).catch(() => null),
+    changelogFetcher
+      .execute({
+        context: { ...context, registry: 'npm' as const },
+        runtimeContext: new RuntimeContext(),
+      })
+      .catch(() => null),
+  ]);
+
+  const breakingChanges: ReleaseNotesOutput['breakingChanges'] = (
+    diffResult?.breakingChanges || []
+  ).map((change) => ({
+    text: change.text,
+    severity: change.severity === 'warning' ? 'warning' : 'breaking',
+    source: change.source,
+  }));
+
+  const changelog = changelogResult?.success ? changelogResult.content || '' : '';
+  for (const change of detectBreakingChangesFromText(changelog)) {
+    if (!breakingChanges.some((existing) => existing.text === change.text)) {
+      breakingChanges.push({ text: change.text, severity: change.severity, source: 'changelog' });
+    }
+  }
+
+  return {
+    object: {
+      breakingChanges,
+      migrationSteps: extractMigrationSteps(changelog),
+      riskLevel: assessRiskLevel(breakingChanges, dep.name),
+      summary: `Heuristic analysis found ${breakingChanges.length} breaking changes without an LLM`,
+      sources: [
+        { type: 'npm-diff', status: diffResult?.success ? 'success' : 'failed' },
+        { type: 'changelog', status: changelog ? 'success' : 'failed' },
+      ],
+    },
+  };
+}
+
+/**
+ * Usage scan with ts-morph only, shaped like a CodeImpactAgent response
+ */
+export async function analyzeCodeImpactHeuristically(
+  dep: HeuristicDependency
+): Promise<{ object: CodeImpactOutput; usages: TsUsage[] }> {
+  const result = await tsUsageScannerTool.execute({
+    context: { packageName: dep.name, projectPath: '.', patterns: [] },
+    runtimeContext: new RuntimeContext(),
+  });
+  const { summary } = result;
+
+  let impactLevel: CodeImpactOutput['impactLevel'] = 'low';
+  if (summary.total === 0) {
+    impactLevel = 'minimal';
+  } else if (summary.criticalFiles.length > 0) {
+    impactLevel = 'high';
+  } else if (summary.total > 10) {
+    impactLevel = 'medium';
+  }
+
+  const criticalUsages = summary.criticalFiles.map((file) => ({
+    file,
+    line: result.usages.find((usage) => usage.file === file)?.line ?? 0,
+    reason: `${summary.byFile[file]} usages in this file`,
+  }));
+
+  return {
+    object: {
+      totalUsages: summary.total,
+      criticalUsages,
+      usageByType: summary.byType,
+      impactLevel,
+      affectedFiles: Object.keys(summary.byFile),
+      recommendations: [],
+      projectType: 'typescript',
+      score: Math.min(10, summary.total * 2),
+    },
+    usages: result.usages,
+  };
+}
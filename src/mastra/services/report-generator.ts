@@ -10,8 +10,9 @@ import {
   type GitHubLinkOptions
 } from '../tools/github-link-generator.js';
 import { getHighestRisk } from '../workflows/report-generator.js';
-import type { ExecutionStats } from '../tools/execution-tracker.js';
+import type { ExecutionStats, BudgetStatus } from '../tools/execution-tracker.js';
 import { generateRiskAssessmentBreakdown } from './risk-assessment-breakdown.js';
+import type { OutputValidation } from './structured-output.js';
 
 // Helper function to get repository URL from package name
 function getRepositoryUrl(packageName: string): string | null {
@@ -106,6 +107,11 @@ export async function generateUnifiedReport(assessments: any[], options: {
   let markdown = `### ${isJapanese ? 'renovate-safety 分析結果' : 'renovate-safety Analysis'}\n\n`;
   markdown += `**${isJapanese ? '結論' : 'Conclusion'}**: ${riskEmoji} ${overallRisk.toUpperCase()}\n\n`;
   
+  // Steps skipped for the budget change the analysis quality, so they are always shown
+  if (executionStats?.budget?.skippedSteps.length) {
+    markdown += generateBudgetNoticeSection(executionStats.budget, isJapanese);
+  }
+  
   // Summary section
   markdown += await generateSummarySection(assessments, isJapanese);
   
@@ -341,6 +347,9 @@ async function generateAssessmentsSection(assessments: any[], isJapanese: boolea
     // Risk assessment breakdown
     markdown += await generateRiskAssessmentBreakdown(assessment, isJapanese);
 
+    // Agent outputs that needed repairs or were replaced
+    markdown += generateOutputValidationNotice(assessment.outputValidation, isJapanese);
+
     // Functional summary
     markdown += await generateFunctionalSummarySection(assessment, dependency, isJapanese);
 
@@ -354,6 +363,31 @@ async function generateAssessmentsSection(assessments: any[], isJapanese: boolea
   return markdown;
 }
 
+// Generate notice for agent outputs that failed schema validation
+function generateOutputValidationNotice(validations: OutputValidation[] | undefined, isJapanese: boolean): string {
+  const failures = (validations || []).filter(validation => validation.errors.length > 0);
+  if (failures.length === 0) return '';
+
+  let markdown = isJapanese
+    ? '> ⚠️ **エージェント出力の検証**: 以下の出力はスキーマ検証に失敗しました\n'
+    : '> ⚠️ **Agent output validation**: the following outputs failed schema validation\n';
+
+  for (const validation of failures) {
+    const lastError = validation.errors[validation.errors.length - 1];
+    let outcome: string;
+    if (validation.valid) {
+      outcome = isJapanese ? `${validation.attempts}回目で修復` : `repaired on attempt ${validation.attempts}`;
+    } else {
+      outcome = isJapanese
+        ? `${validation.attempts}回とも無効、${validation.fallback}で代替`
+        : `invalid after ${validation.attempts} attempts, replaced by ${validation.fallback}`;
+    }
+    markdown += `> - ${validation.agentName}: ${outcome} — ${lastError}\n`;
+  }
+
+  return markdown + '\n';
+}
+
 // Generate code impact recommendations
 async function generateCodeImpactRecommendations(codeImpact: any, isJapanese: boolean): Promise<string> {
   if (!codeImpact?.recommendations?.length) return '';
@@ -503,6 +537,19 @@ async function generateRecommendationsSection(overallRisk: string, isJapanese: b
   return markdown;
 }
 
+// Generate the notice for agent steps replaced by heuristics because of --max-cost / --max-tokens
+function generateBudgetNoticeSection(budget: BudgetStatus, isJapanese: boolean): string {
+  let markdown = isJapanese
+    ? '> ⚠️ **予算上限に達しました**: 以下のLLMステップはスキップされ、ヒューリスティック分析で代替されました\n'
+    : '> ⚠️ **Budget limit reached**: the following LLM steps were skipped and replaced by heuristic analysis\n';
+
+  for (const step of budget.skippedSteps) {
+    markdown += `> - ${step.agentName} (${step.subject}): ${step.fallback} — ${step.reason}\n`;
+  }
+
+  return markdown + '\n';
+}
+
 // Generate execution statistics section
 function generateExecutionStatsSection(stats: ExecutionStats, isJapanese: boolean): string {
   let markdown = `<details>\n<summary><small><em>${isJapanese ? '📊 実行統計' : '📊 Execution Statistics'}</em></small></summary>\n\n`;
@@ -513,7 +560,9 @@ function generateExecutionStatsSection(stats: ExecutionStats, isJapanese: boolea
   markdown += formatApiCallStats(stats, isJapanese);
   markdown += formatTokenStats(stats, isJapanese);
   markdown += formatCostStats(stats, isJapanese);
+  markdown += formatBudgetStats(stats, isJapanese);
   markdown += formatDataSourceStats(stats, isJapanese);
+  markdown += formatCacheStats(stats, isJapanese);
 
   markdown += '\n</em></small>\n</details>\n\n';
 
@@ -573,9 +622,30 @@ function formatCostStats(stats: ExecutionStats, isJapanese: boolean): string {
   return `- ${isJapanese ? '推定コスト' : 'Estimated Cost'}: $${cost}\n`;
 }
 
+function formatBudgetStats(stats: ExecutionStats, isJapanese: boolean): string {
+  if (!stats.budget) return '';
+  const limits = [
+    stats.budget.maxCost !== undefined && `$${stats.budget.maxCost}`,
+    stats.budget.maxTokens !== undefined && `${stats.budget.maxTokens.toLocaleString()} tokens`,
+  ].filter(Boolean).join(', ');
+  const skipped = stats.budget.skippedSteps.length;
+  return isJapanese
+    ? `- 予算: ${limits}（スキップ ${skipped}件）\n`
+    : `- Budget: ${limits} (${skipped} steps skipped)\n`;
+}
+
 function formatDataSourceStats(stats: ExecutionStats, isJapanese: boolean): string {
   if (!stats.dataSourcesUsed || stats.dataSourcesUsed.length === 0) return '';
   const dataSources = stats.dataSourcesUsed.join(', ');
   return `- ${isJapanese ? 'データソース' : 'Data Sources'}: ${dataSources}\n`;
 }
 
+function formatCacheStats(stats: ExecutionStats, isJapanese: boolean): string {
+  const hits = stats.cacheHits || 0;
+  const misses = stats.cacheMisses || 0;
+  if (hits + misses === 0) return '';
+  return isJapanese
+    ? `- キャッシュ: ヒット ${hits}件 / ミス ${misses}件\n`
+    : `- Cache: ${hits} hits / ${misses} misses\n`;
+}
+
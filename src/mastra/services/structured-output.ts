@@ -0,0 +1,196 @@
+/**
+ * Structured Agent Output
+ * Runs an agent and validates its JSON answer against the agent's zod output schema.
+ * An invalid answer is sent back to the agent with the validation errors, a bounded
+ * number of times, instead of scraping values out of free text
+ */
+
+import type { z } from 'zod';
+
+/** Repair requests after the first answer; each one is a full agent call */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export type AgentMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string };
+
+export type AgentResponse = {
+  text?: string;
+  usage?: Record<string, number | undefined>;
+  toolResults?: unknown[];
+};
+
+/**
+ * Runs one agent call, e.g. to track it and check the budget first; null skips the call
+ * and ends the repair loop
+ */
+export type AgentCallRunner = (call: () => Promise<AgentResponse>) => Promise<AgentResponse | null>;
+
+export type StructuredAgent = {
+  name: string;
+  generateVNext(messages: AgentMessage[]): Promise<AgentResponse>;
+};
+
+/**
+ * Outcome of validating one agent's output, reported with each dependency assessment
+ */
+export type OutputValidation = {
+  agentName: string;
+  valid: boolean;
+  attempts: number;
+  /** Validation failures of every attempt, in order */
+  errors: string[];
+  /** What replaced the output when no attempt validated */
+  fallback?: string;
+};
+
+export type StructuredAgentResult<T> = {
+  object: T | null;
+  text: string;
+  usage: { inputTokens: number; outputTokens: number; totalTokens: number };
+  toolResults: unknown[];
+  validation: OutputValidation;
+};
+
+/**
+ * Ask the agent for output matching the schema, repairing invalid answers up to maxRepairs times.
+ * Every attempt goes through runCall on its own
+ */
+export async function generateStructured<T>(
+  agent: StructuredAgent,
+  schema: z.ZodType<T>,
+  prompt: string,
+  maxRepairs: number = MAX_REPAIR_ATTEMPTS,
+  runCall: AgentCallRunner = (call) => call()
+): Promise<StructuredAgentResult<T>> {
+  const messages: AgentMessage[] = [{ role: 'user', content: prompt }];
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  const toolResults: unknown[] = [];
+  const errors: string[] = [];
+  let text = '';
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const response = await runCall(() => agent.generateVNext(messages));
+    if (!response) {
+      return {
+        object: null,
+        text,
+        usage,
+        toolResults,
+        validation: { agentName: agent.name, valid: false, attempts: attempt - 1, errors },
+      };
+    }
+
+    text = response.text || '';
+    addUsage(usage, response.usage);
+    toolResults.push(...(response.toolResults || []));
+
+    const parsed = parseAgentOutput(text, schema);
+    if (parsed.success) {
+      return {
+        object: parsed.data,
+        text,
+        usage,
+        toolResults,
+        validation: { agentName: agent.name, valid: true, attempts: attempt, errors },
+      };
+    }
+
+    errors.push(`Attempt ${attempt}: ${parsed.errors.join('; ')}`);
+    messages.push(
+      { role: 'assistant', content: text },
+      { role: 'user', content: buildRepairPrompt(parsed.errors) }
+    );
+  }
+
+  console.warn(`⚠️ ${agent.name} output failed schema validation after ${maxRepairs + 1} attempts`);
+  return {
+    object: null,
+    text,
+    usage,
+    toolResults,
+    validation: { agentName: agent.name, valid: false, attempts: maxRepairs + 1, errors },
+  };
+}
+
+/**
+ * Parse the JSON object in an agent answer and validate it; the object may be wrapped in a code fence
+ */
+export function parseAgentOutput<T>(
+  text: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; errors: string[] } {
+  const json = extractJson(text);
+  if (json === null) {
+    return { success: false, errors: ['Response contains no JSON object'] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [
+        `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      ],
+    };
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+function extractJson(text: string): string | null {
+  const fenced = /```(?:json)?[ \t]*\n([\s\S]*?)\n```/.exec(text);
+  const candidate = fenced ? fenced[1] : text;
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return start !== -1 && end > start ? candidate.slice(start, end + 1) : null;
+}
+
+function buildRepairPrompt(errors: string[]): string {
+  return `Your previous response did not match the required output schema:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Reply with only the corrected JSON object, without any other text. Keep every field required by the schema.`;
+}
+
+function addUsage(
+  total: StructuredAgentResult<unknown>['usage'],
+  usage: AgentResponse['usage']
+): void {
+  const inputTokens = usage?.inputTokens || 0;
+  const outputTokens = usage?.outputTokens || 0;
+  total.inputTokens += inputTokens;
+  total.outputTokens += outputTokens;
+  total.totalTokens += usage?.totalTokens || inputTokens + outputTokens;
+}
+
+/**
+ * Result of the first call of a tool in an agent response, e.g. the usage scan behind a code impact
+ */
+export function getToolResult(toolResults: unknown[], toolName: string): unknown {
+  for (const entry of toolResults) {
+    const chunk = entry as {
+      toolName?: string;
+      result?: unknown;
+      payload?: { toolName?: string; result?: unknown };
+    };
+    const toolResult = chunk.payload ?? chunk;
+    if (toolResult.toolName === toolName) {
+      return toolResult.result;
+    }
+  }
+  return undefined;
+}
@@ -3,8 +3,16 @@
  * Handles text translation using OpenAI API for natural Japanese translation
  */
 
+import { bundleFetch } from '../../lib/offline-bundle.js';
+import { getProviderClientApiKey, resolveAgentModel, type LLMProvider } from '../../lib/llm-providers.js';
+import { DEFAULT_AGENT_MODEL } from '../agents/agent-model.js';
+import { trackAgent } from '../tools/execution-tracker.js';
+
+const OPENAI_API_URL = 'https://api.openai.com/v1';
+
 /**
  * Translates recommendation text to Japanese using OpenAI API
+ * The call counts against --max-cost/--max-tokens; over budget the text stays untranslated
  */
 export async function translateRecommendation(rec: string): Promise<string> {
   // Skip translation if already in Japanese or very short
@@ -13,42 +21,17 @@ export async function translateRecommendation(rec: string): Promise<string> {
   }
   
   try {
-    // Use OpenAI for natural translation
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json'
+    // Use the agents' LLM provider for natural translation
+    const { provider, modelId } = resolveAgentModel('TranslationService', DEFAULT_AGENT_MODEL);
+    const { text } = await trackAgent('TranslationService', modelId, () => requestTranslation(rec, provider, modelId), {
+      fallback: {
+        subject: 'recommendation',
+        description: 'untranslated text',
+        execute: async () => ({ text: rec }),
       },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: '技術的な推奨アクションを自然な日本語に翻訳してください。技術用語は適切な日本語に翻訳し、コード名（バッククォートで囲まれた部分）はそのまま保持してください。丁寧語を使用してください。'
-          },
-          {
-            role: 'user',
-            content: rec
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 200
-      })
     });
-    
-    if (!response.ok) {
-      throw new Error(`Translation API failed: ${response.status}`);
-    }
-    
-    const data = await response.json() as Record<string, unknown>;
-    const choices = Array.isArray(data?.choices) ? data.choices : [];
-    const firstChoice = choices[0] as Record<string, unknown> | undefined;
-    const message = firstChoice?.message as Record<string, unknown> | undefined;
-    const content = message?.content;
-    const translated = typeof content === 'string' ? content.trim() : undefined;
-    
-    return translated || rec; // Fallback to original if translation fails
+
+    return text;
   } catch (error) {
     // Removed debug logging - use structured logging instead
     console.warn('Translation failed, using original text:', error);
@@ -56,6 +39,47 @@ export async function translateRecommendation(rec: string): Promise<string> {
   }
 }
 
+/**
+ * Chat completion translating one recommendation; the usage is returned for trackAgent
+ */
+async function requestTranslation(rec: string, provider: LLMProvider, modelId: string): Promise<{ text: string; usage?: unknown }> {
+  const response = await bundleFetch(`${provider.baseURL ?? OPENAI_API_URL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${getProviderClientApiKey(provider)}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      model: modelId,
+      messages: [
+        {
+          role: 'system',
+          content: '技術的な推奨アクションを自然な日本語に翻訳してください。技術用語は適切な日本語に翻訳し、コード名（バッククォートで囲まれた部分）はそのまま保持してください。丁寧語を使用してください。'
+        },
+        {
+          role: 'user',
+          content: rec
+        }
+      ],
+      temperature: 0.1,
+      max_tokens: 200
+    })
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Translation API failed: ${response.status}`);
+  }
+  
+  const data = await response.json() as Record<string, unknown>;
+  const choices = Array.isArray(data?.choices) ? data.choices : [];
+  const firstChoice = choices[0] as Record<string, unknown> | undefined;
+  const message = firstChoice?.message as Record<string, unknown> | undefined;
+  const content = message?.content;
+  const translated = typeof content === 'string' ? content.trim() : undefined;
+  
+  return { text: translated || rec, usage: data.usage }; // Fallback to original if translation fails
+}
+
 /**
  * Translate an array of recommendations
  */
@@ -3,12 +3,23 @@
  * Handles the orchestration of dependency analysis workflow
  */
 
-import { ReleaseNotesAgent } from '../agents/release-notes-agent.js';
-import { CodeImpactAgent } from '../agents/code-impact-agent.js';
+import { ReleaseNotesAgent, releaseNotesOutputSchema } from '../agents/release-notes-agent.js';
+import { CodeImpactAgent, codeImpactOutputSchema, type CodeImpactOutput } from '../agents/code-impact-agent.js';
 import { generateLibraryOverview } from '../agents/library-overview-agent.js';
+import { getAgentModelId } from '../agents/agent-model.js';
 import { RiskArbiter } from '../tools/index.js';
 import { trackAgent, getCurrentTracker } from '../tools/execution-tracker.js';
 import { usageImpactAnalyzer, type UsageImpact } from '../tools/usage-impact-analyzer.js';
+import type { TsUsage, TsUsageResult } from '../tools/ts-usage-scanner.js';
+import { analyzeReleaseNotesHeuristically, analyzeCodeImpactHeuristically } from './heuristic-analysis.js';
+import {
+  generateStructured,
+  getToolResult,
+  MAX_REPAIR_ATTEMPTS,
+  type AgentCallRunner,
+  type AgentResponse,
+  type OutputValidation,
+} from './structured-output.js';
 
 export type DependencyAssessment = {
   dependency: {
@@ -25,6 +36,7 @@ export type DependencyAssessment = {
   releaseNotes: any;
   codeImpact: any;
   usageImpact?: UsageImpact; // Add usage impact analysis
+  outputValidation?: OutputValidation[]; // Schema validation of the agent outputs
   risk: {
     level: 'safe' | 'low' | 'medium' | 'high' | 'critical';
     score: number;
@@ -36,234 +48,35 @@ export type DependencyAssessment = {
   };
 };
 
-// Helper functions to extract data from CodeImpactAgent response
-function extractTotalUsages(codeImpactResult: any): number {
-  try {
-    // Try to extract from tool results in the response
-    const toolResults = codeImpactResult?.steps?.find((step: any) => 
-      step.stepType === 'tool-result' && step.tools?.length > 0
-    )?.tools || [];
-    
-    const tsUsageResult = toolResults.find((tool: any) => tool.name === 'tsUsageScanner');
-    if (tsUsageResult?.result?.summary?.total) {
-      return tsUsageResult.result.summary.total;
-    }
-    
-    // Fallback: try to parse from text response
-    const text = codeImpactResult?.text || '';
-    // Limit characters to prevent ReDoS with external input
-    const totalMatch = /Total Usages[^\n]{0,50}?(\d+)/i.exec(text);
-    if (totalMatch) {
-      return parseInt(totalMatch[1], 10);
-    }
-    
-    return 0;
-  } catch (error) {
-    console.warn('Error extracting total usages:', error);
-    return 0;
-  }
-}
+type UsageDetail = {
+  file: string;
+  usage: string;
+  context: string;
+  description?: string;
+};
 
-function extractCriticalUsages(codeImpactResult: any): number {
-  try {
-    // Try to extract from text response
-    const text = codeImpactResult?.text || '';
-    // Limit characters to prevent ReDoS with external input
-    const criticalMatch = /Critical Usages[^\n]{0,50}?(\d+)/i.exec(text);
-    if (criticalMatch) {
-      return parseInt(criticalMatch[1], 10);
-    }
-    
-    return 0;
-  } catch (error) {
-    console.warn('Error extracting critical usages:', error);
-    return 0;
-  }
-}
+// Code impact for the report: the validated agent output plus usage details from the ts-morph scan
+function buildCodeImpact(codeImpact: CodeImpactOutput, usages: TsUsage[], text: string) {
+  const recommendations = codeImpact.recommendations.length > 0
+    ? codeImpact.recommendations
+    : generateContextAwareRecommendations(text, codeImpact.totalUsages, codeImpact.affectedFiles);
 
-function extractCodeImpactData(codeImpactResult: any): any {
-  try {
-    const totalUsages = extractTotalUsages(codeImpactResult);
-    const criticalUsages = extractCriticalUsages(codeImpactResult);
-    
-    // Extract other data from text response
-    const text = codeImpactResult?.text || '';
-    
-    // Extract impact level
-    let impactLevel = 'minimal';
-    // Limit characters to prevent ReDoS with external input
-    const impactMatch = /Impact Level[^\n]{0,50}?(\w+)/i.exec(text);
-    if (impactMatch) {
-      impactLevel = impactMatch[1].toLowerCase();
-    }
-    
-    // Extract affected files with more context
-    const affectedFiles: string[] = [];
-    const fileMatches = text.match(/src\/[^:\s]+\.(ts|js|tsx|jsx)/g) || [];
-    fileMatches.forEach((file: string) => {
-      if (!affectedFiles.includes(file)) {
-        affectedFiles.push(file);
-      }
-    });
-    
-    // Extract detailed usage information
-    const usageDetails = extractUsageDetails(text);
-    
-    // Extract recommendations with improved pattern matching
-    const recommendations: string[] = [];
-    
-    // Try multiple patterns to match recommendations
-    const patterns = [
-      /\*\*Recommendations?\*\*:\s*\n([\s\S]*?)(?=\n\n|\n#|\n\*|$)/im,
-      /(?:Recommendations?|Actions?):\s*\n([\s\S]*?)(?=\n\n|\n#|\n\*|$)/im,
-      /### Recommendations?\s*\n([\s\S]*?)(?=\n\n|\n#|\n\*|$)/im,
-    ];
-    
-    for (const pattern of patterns) {
-      const match = pattern.exec(text);
-      if (match) {
-        const recText = match[1];
-        // Limit line length to prevent ReDoS
-        const recs = recText.match(/- ([^\n]{1,500})(?:\n|$)/g);
-        if (recs) {
-          recommendations.push(...recs.map(r => r.replace(/^- /, '').trim()));
-        }
-        break;
-      }
-    }
-    
-    // Enhanced fallback: Generate context-aware recommendations
-    if (recommendations.length === 0) {
-      recommendations.push(...generateContextAwareRecommendations(text, totalUsages, affectedFiles));
-    }
-    
-    return {
-      totalUsages,
-      criticalUsages: Array.from({length: criticalUsages}, () => ({ 
-        file: affectedFiles[0] || 'unknown',
-        line: 0,
-        reason: 'Usage detected'
-      })),
-      usageByType: { 'function-call': totalUsages },
-      impactLevel,
-      affectedFiles,
-      usageDetails, // Add usage details
-      recommendations,
-      projectType: 'typescript',
-      score: totalUsages > 0 ? Math.min(10, totalUsages * 2) : 0
-    };
-  } catch (error) {
-    console.warn('Error extracting code impact data:', error);
-    return {
-      totalUsages: 0,
-      criticalUsages: [],
-      usageByType: {},
-      impactLevel: 'minimal',
-      affectedFiles: [],
-      usageDetails: [],
-      recommendations: [],
-      projectType: 'unknown',
-      score: 0
-    };
-  }
+  return {
+    ...codeImpact,
+    usageDetails: toUsageDetails(usages),
+    recommendations,
+  };
 }
 
-// Extract detailed usage information from analysis text with enhanced parsing
-function extractUsageDetails(text: string): Array<{file: string, usage: string, context: string, description?: string}> {
-  const usageDetails: Array<{file: string, usage: string, context: string, description?: string}> = [];
-  
-  try {
-    // Extract import statements with safer pattern (avoids ReDoS)
-    const importMatches = text.match(/import[^;\n]+from\s+['"`][^'"`]+['"`]/g) || [];
-    importMatches.forEach(importStmt => {
-      const packageMatch = /from\s+['"`]([^'"`]*)['"`]/.exec(importStmt);
-      const importedItemsMatch = /import\s+(?:\{([^}]+)\}|\*\s+as\s+(\w+)|(\w+))/.exec(importStmt);
-      
-      if (packageMatch) {
-        let description = 'パッケージをインポート';
-        if (importedItemsMatch) {
-          const namedImports = importedItemsMatch[1];
-          const namespaceImport = importedItemsMatch[2];
-          const defaultImport = importedItemsMatch[3];
-          
-          if (namedImports) {
-            const items = namedImports.split(',').map(s => s.trim()).filter(Boolean);
-            description = `${items.join(', ')}をインポート`;
-          } else if (namespaceImport) {
-            description = `${namespaceImport}として名前空間インポート`;
-          } else if (defaultImport) {
-            description = `${defaultImport}としてデフォルトインポート`;
-          }
-        }
-        
-        usageDetails.push({
-          file: 'unknown',
-          usage: 'import',
-          context: importStmt.trim(),
-          description
-        });
-      }
-    });
-    
-    // Extract function calls with safer pattern (avoids ReDoS)
-    // Limit whitespace and content inside parentheses to prevent ReDoS
-    const functionCallMatches = text.match(/\w+\s{0,5}\([^)]{0,100}\)/g) || [];
-    functionCallMatches.slice(0, 4).forEach(call => {
-      let description = '関数を実行';
-      
-      // Analyze the function call pattern
-      if (call.includes('pLimit') || call.includes('p-limit')) {
-        description = '同時実行数制限の設定・実行';
-      } else if (call.includes('async') || call.includes('await')) {
-        description = '非同期処理の実行';
-      } else if (call.includes('Promise')) {
-        description = 'Promise処理の実行';
-      }
-      
-      usageDetails.push({
-        file: 'unknown',
-        usage: 'function-call',
-        context: call.trim(),
-        description
-      });
-    });
-    
-    // Extract variable assignments with more context
-    // Limit content to prevent ReDoS with external input
-    const assignmentMatches = text.match(/(?:const|let|var)\s{1,5}\w+\s{0,5}=[^;\n]{0,200}[;\n]/g) || [];
-    assignmentMatches.slice(0, 3).forEach(assignment => {
-      let description = '変数への代入';
-      
-      if (assignment.includes('pLimit') || assignment.includes('limit')) {
-        description = '同時実行制限の設定を変数に格納';
-      } else if (assignment.includes('async') || assignment.includes('await')) {
-        description = '非同期処理の結果を変数に格納';
-      }
-      
-      usageDetails.push({
-        file: 'unknown',
-        usage: 'assignment',
-        context: assignment.trim(),
-        description
-      });
-    });
-
-    // Extract function definitions with safer pattern (avoids ReDoS)
-    const functionDefMatches = text.match(/(function\s+\w+|const\s+\w+\s*=|async\s+function)/g) || [];
-    functionDefMatches.slice(0, 2).forEach(funcDef => {
-      usageDetails.push({
-        file: 'unknown',
-        usage: 'function-definition',
-        context: funcDef.trim(),
-        description: 'パッケージを使用する関数を定義'
-      });
-    });
-    
-  } catch (error) {
-    console.warn('Error extracting usage details:', error);
-  }
-  
-  return usageDetails;
+// Usage details from the scan behind the analysis, for the usage patterns in the report
+function toUsageDetails(usages: TsUsage[]): UsageDetail[] {
+  return usages
+    .filter(usage => usage.type === 'import' || usage.type === 'function-call')
+    .map(usage => ({
+      file: usage.file,
+      usage: usage.type,
+      context: (usage.code || usage.context || '').trim(),
+    }));
 }
 
 // Generate context-aware recommendations based on usage patterns
@@ -323,6 +136,21 @@ function generateContextAwareRecommendations(
 }
 
 
+/**
+ * Track every attempt of a structured agent call on its own, so repairs count against the
+ * budget and are skipped once it is exhausted; the caller then runs the fallback
+ */
+function trackAttempts(
+  agentName: string,
+  packageName: string,
+  fallback: { subject: string; description: string }
+): AgentCallRunner {
+  return (call) => trackAgent<AgentResponse | null>(agentName, getAgentModelId(agentName), call, {
+    packageName,
+    fallback: { subject: fallback.subject, description: fallback.description, execute: async () => null },
+  });
+}
+
 /**
  * Analyze a single dependency with parallel agent execution where possible
  */
@@ -332,40 +160,71 @@ export async function analyzeDependency(
   language: 'en' | 'ja' = 'en'
 ): Promise<DependencyAssessment> {
   console.log(`📦 Analyzing ${dep.name} ${dep.fromVersion} → ${dep.toVersion}...`);
+  const subject = `${dep.name} ${dep.fromVersion} → ${dep.toVersion}`;
+  
+  const releaseNotesFallback = {
+    subject,
+    description: 'npm diff breaking change analyzer and changelog patterns',
+    execute: () => analyzeReleaseNotesHeuristically(dep),
+  };
+  const codeImpactFallback = {
+    subject,
+    description: 'ts-morph usage scan',
+    execute: () => analyzeCodeImpactHeuristically(dep),
+  };
+  const outputValidation: OutputValidation[] = [];
   
   // Phase 1: Get overview and release notes in parallel
   const [overviewResult, releaseNotesResult] = await Promise.all([
     // Use direct function call instead of Agent for simple operations
     generateLibraryOverview(dep.name, language),
     
-    trackAgent('ReleaseNotesAgent', 'gpt-4o-mini', async () => {
-      return await ReleaseNotesAgent.generateVNext([
-        {
-          role: 'user',
-          content: `Analyze ${dep.name} from ${dep.fromVersion} to ${dep.toVersion}`
-        }
-      ]) as any;
-    })
+    generateStructured(
+      ReleaseNotesAgent,
+      releaseNotesOutputSchema,
+      `Analyze ${dep.name} from ${dep.fromVersion} to ${dep.toVersion}`,
+      MAX_REPAIR_ATTEMPTS,
+      trackAttempts('ReleaseNotesAgent', dep.name, releaseNotesFallback)
+    )
   ]);
 
+  // Outputs that never passed validation, or were skipped for the budget, are replaced by the heuristic analysis
+  let releaseNotes = releaseNotesResult.object;
+  outputValidation.push(releaseNotesResult.validation);
+  if (!releaseNotes) {
+    releaseNotes = (await releaseNotesFallback.execute()).object;
+    outputValidation[outputValidation.length - 1].fallback = releaseNotesFallback.description;
+  }
+
   // Phase 2: Code impact analysis (depends on release notes)
-  const codeImpactResult = await trackAgent('CodeImpactAgent', 'gpt-4o-mini', async () => {
-    return await CodeImpactAgent.generateVNext([
-      {
-        role: 'user',
-        content: `Please analyze code impact for the following package:
+  const codeImpactResult = await generateStructured(
+    CodeImpactAgent,
+    codeImpactOutputSchema,
+    `Please analyze code impact for the following package:
 
 Package Name: ${dep.name}
 Project Path: .
-Breaking Changes: ${JSON.stringify(releaseNotesResult?.object?.breakingChanges || [])}
+Breaking Changes: ${JSON.stringify(releaseNotes.breakingChanges)}
 
 Use the tsUsageScanner and configScanner tools with these exact parameters:
 - packageName: "${dep.name}"
 - projectPath: "."
-- patterns: []`
-      }
-    ]) as any;
-  });
+- patterns: []`,
+    MAX_REPAIR_ATTEMPTS,
+    trackAttempts('CodeImpactAgent', dep.name, codeImpactFallback)
+  );
+
+  let codeImpact: CodeImpactOutput | null = codeImpactResult.object;
+  outputValidation.push(codeImpactResult.validation);
+  const scan = getToolResult(codeImpactResult.toolResults, 'tsUsageScanner') as TsUsageResult | undefined;
+  let usages: TsUsage[] = scan?.usages || [];
+  const codeImpactText = codeImpactResult.text;
+  if (!codeImpact) {
+    const heuristic = await codeImpactFallback.execute();
+    codeImpact = heuristic.object;
+    usages = heuristic.usages;
+    outputValidation[outputValidation.length - 1].fallback = codeImpactFallback.description;
+  }
 
   // Add data sources to tracker
   const tracker = getCurrentTracker();
@@ -373,34 +232,30 @@ Use the tsUsageScanner and configScanner tools with these exact parameters:
     tracker.addDataSource('npm-registry');
     tracker.addDataSource('github-releases');
     tracker.addDataSource('ts-morph-analysis');
-    if (releaseNotesResult.object?.sources) {
-      releaseNotesResult.object.sources.forEach((source: any) => {
-        if (source.status === 'success') {
-          tracker.addDataSource(source.type);
-        }
-      });
-    }
+    releaseNotes.sources.forEach((source) => {
+      if (source.status === 'success') {
+        tracker.addDataSource(source.type);
+      }
+    });
   }
 
-  // Extract breaking changes from ReleaseNotesAgent result (fallback to text parsing)
-  const extractedReleaseNotes = extractReleaseNotesData(releaseNotesResult);
-
   // Phase 2.5: Analyze actual usage impact of breaking changes
   let usageImpact: UsageImpact | null = null;
-  if (extractedReleaseNotes.breakingChanges && extractedReleaseNotes.breakingChanges.length > 0) {
+  if (releaseNotes.breakingChanges.length > 0) {
     try {
       console.log(`🔍 Analyzing actual usage impact for ${dep.name}...`);
       
       // Convert breaking changes to the format expected by UsageImpactAnalyzer
-      const breakingChangesForAnalysis = extractedReleaseNotes.breakingChanges.map((bc: any) => ({
-        text: typeof bc === 'string' ? bc : bc.text || bc.description || String(bc),
-        category: bc.category || 'api-change'
+      const breakingChangesForAnalysis = releaseNotes.breakingChanges.map((bc) => ({
+        text: bc.text,
+        category: 'api-change'
       }));
       
       usageImpact = await usageImpactAnalyzer.analyzeImpact(
         dep.name,
         breakingChangesForAnalysis,
-        process.cwd()
+        process.cwd(),
+        dep.toVersion
       );
       
       console.log(`✅ Usage impact analysis complete:`, {
@@ -422,12 +277,12 @@ Use the tsUsageScanner and configScanner tools with these exact parameters:
     isDevDependency: dep.type === 'devDependencies',
     isTypeDefinition: dep.name.startsWith('@types/'),
     isLockfileOnly: compareResult.isLockfileOnly,
-    breakingChanges: extractedReleaseNotes.breakingChanges?.map((bc: any) => bc.text) || [],
-    usageCount: extractTotalUsages(codeImpactResult) || 0,
-    hasChangelog: extractedReleaseNotes.sources?.some((s: any) => s.status === 'success') || false,
+    breakingChanges: releaseNotes.breakingChanges.map((bc) => bc.text),
+    usageCount: codeImpact.totalUsages,
+    hasChangelog: releaseNotes.sources.some((s) => s.status === 'success'),
     hasDiff: true,
     testCoverage: 0,
-    criticalPathUsage: extractCriticalUsages(codeImpactResult) > 0,
+    criticalPathUsage: codeImpact.criticalUsages.length > 0,
     // Enhanced risk factors based on usage impact analysis
   }) as {
     level: 'safe' | 'low' | 'medium' | 'high' | 'critical';
@@ -442,10 +297,11 @@ Use the tsUsageScanner and configScanner tools with these exact parameters:
   return {
     dependency: dep,
     overview: overviewResult,
-    releaseNotes: extractedReleaseNotes,
-    codeImpact: extractCodeImpactData(codeImpactResult),
+    releaseNotes,
+    codeImpact: buildCodeImpact(codeImpact, usages, codeImpactText),
     usageImpact: usageImpact || undefined, // Include usage impact analysis
     risk: riskResult,
+    outputValidation,
   };
 }
 
@@ -475,136 +331,3 @@ export async function analyzeDependencies(
   
   return assessments;
 }
-
-// Extract release notes data from ReleaseNotesAgent result (with fallback to text parsing)
-function extractReleaseNotesData(releaseNotesResult: any): any {
-  try {
-    // First, try to use structured output if available
-    if (releaseNotesResult.object?.breakingChanges) {
-      return releaseNotesResult.object;
-    }
-    
-    // Fallback: Parse from text field
-    if (releaseNotesResult.text) {
-      const parsedData = parseReleaseNotesFromText(releaseNotesResult.text);
-      if (parsedData) {
-        return parsedData;
-      }
-    }
-    
-    // Last resort: return empty structure
-    return {
-      breakingChanges: [],
-      migrationSteps: [],
-      riskLevel: 'medium',
-      summary: 'Unable to extract release notes data',
-      sources: []
-    };
-  } catch (error) {
-    console.warn('Error extracting release notes data:', error);
-    return {
-      breakingChanges: [],
-      migrationSteps: [],
-      riskLevel: 'medium', 
-      summary: 'Error parsing release notes',
-      sources: []
-    };
-  }
-}
-
-// Parse release notes data from text field
-function parseReleaseNotesFromText(text: string): any {
-  try {
-    // Look for JSON in various formats
-    const jsonPatterns = [
-      /```json\n([\s\S]*?)\n```/,
-      // Safer pattern to avoid ReDoS - limit content length
-      /\{[^}]{0,1000}"breakingChanges"[^}]{0,1000}\}/,
-      /### Structured Output[^\n]*\n```json\n([\s\S]{0,50000}?)\n```/
-    ];
-    
-    for (const pattern of jsonPatterns) {
-      const match = pattern.exec(text);
-      if (match) {
-        try {
-          const jsonStr = match[1] || match[0];
-          const parsed = JSON.parse(jsonStr);
-          
-          // Validate that it has the expected structure
-          if (parsed.breakingChanges !== undefined) {
-            return parsed;
-          }
-        } catch (jsonError) {
-          // Continue to next pattern if JSON parsing fails
-          console.debug('JSON parsing failed for pattern, trying next:', jsonError);
-          continue;
-        }
-      }
-    }
-    
-    // If JSON parsing fails, try to extract key information from text
-    return extractFromPlainText(text);
-  } catch (error) {
-    console.warn('Error parsing release notes from text:', error);
-    return null;
-  }
-}
-
-// Extract breaking changes information from plain text
-function extractFromPlainText(text: string): any {
-  const breakingChanges: any[] = [];
-  let riskLevel = 'low';
-  const sources: any[] = [];
-  
-  // Look for breaking change indicators in text
-  const breakingPatterns = [
-    /Node\.js requirement raised from ([^"]+) to ([^"]+)/gi,
-    /Export structure changed/gi,
-    /Functions removed or renamed/gi,
-    /API methods? (removed|added|changed)/gi,
-    /Breaking[:\s]+([^\n]+)/gi
-  ];
-  
-  for (const pattern of breakingPatterns) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      let severity = 'breaking';
-      let changeText = match[0];
-      
-      // Special handling for Node.js requirement changes
-      if (match[1] && match[2]) {
-        severity = 'critical';
-        changeText = `Node.js requirement raised from ${match[1]} to ${match[2]}`;
-        riskLevel = 'high';
-      } else if (changeText.includes('Node.js requirement')) {
-        severity = 'critical';
-        riskLevel = 'high';
-      }
-      
-      breakingChanges.push({
-        text: changeText,
-        severity,
-        source: 'text-extraction'
-      });
-    }
-  }
-  
-  // Look for sources mentioned in text
-  if (text.includes('npm Diff Tool') || text.includes('npmDiffTool')) {
-    sources.push({ type: 'npm-diff', status: 'success' });
-  }
-  if (text.includes('GitHub Releases') || text.includes('githubReleasesFetcher')) {
-    sources.push({ type: 'github-releases', status: 'success' });
-  }
-  if (text.includes('Changelog') || text.includes('changelogFetcher')) {
-    sources.push({ type: 'changelog', status: 'success' });
-  }
-  
-  return {
-    breakingChanges,
-    migrationSteps: [],
-    riskLevel: breakingChanges.length > 0 ? riskLevel : 'low',
-    summary: `Extracted ${breakingChanges.length} breaking changes from release notes analysis`,
-    sources
-  };
-}
\ No newline at end of file
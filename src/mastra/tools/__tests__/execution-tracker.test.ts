@@ -6,6 +6,10 @@ import {
   trackAgent,
   trackTool
 } from '../execution-tracker.js';
+import { CacheStore } from '../../../lib/cache-store.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
 
 describe('Execution Tracker', () => {
   beforeEach(() => {
@@ -196,6 +200,25 @@ describe('Execution Tracker', () => {
       expect(stats.cacheHits).toBe(2);
       expect(stats.cacheMisses).toBe(1);
     });
+
+    it('should count lookups of the cache store until finalized', async () => {
+      const cacheDir = await fs.mkdtemp(path.join(tmpdir(), 'renovate-safety-tracker-cache-'));
+      try {
+        const store = new CacheStore(cacheDir);
+        await store.get('registry', 'key');
+        await store.set('registry', 'key', 'value');
+        await store.get('registry', 'key');
+
+        const stats = finalizeTracking();
+        expect(stats?.cacheHits).toBe(1);
+        expect(stats?.cacheMisses).toBe(1);
+
+        await store.get('registry', 'key');
+        expect(tracker.getCurrentStats().cacheHits).toBe(1);
+      } finally {
+        await fs.rm(cacheDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('Repository and Branch Info', () => {
@@ -303,6 +326,64 @@ describe('Execution Tracker', () => {
       });
     });
 
+    describe('budget', () => {
+      const fallback = {
+        subject: 'lodash 4.17.20 → 4.17.21',
+        description: 'heuristics',
+        execute: async () => 'heuristic',
+      };
+
+      it('should run the fallback instead of a call that would exceed --max-tokens', async () => {
+        initializeTracking(123, undefined, { maxTokens: 10000 });
+        const execution = vi.fn().mockResolvedValue({ usage: { inputTokens: 4000, outputTokens: 2000, totalTokens: 6000 } });
+
+        await trackAgent('ReleaseNotesAgent', 'gpt-4o-mini', execution, { fallback });
+        const result = await trackAgent('CodeImpactAgent', 'gpt-4o-mini', execution, { fallback });
+
+        expect(result).toBe('heuristic');
+        expect(execution).toHaveBeenCalledTimes(1);
+
+        const { budget } = finalizeTracking()!;
+        expect(budget?.skippedSteps).toEqual([
+          expect.objectContaining({
+            agentName: 'CodeImpactAgent',
+            subject: 'lodash 4.17.20 → 4.17.21',
+            fallback: 'heuristics',
+            reason: expect.stringContaining('--max-tokens'),
+          }),
+        ]);
+      });
+
+      it('should count running calls against --max-cost', async () => {
+        // The default estimate of 5000 gpt-4o tokens costs about $0.02 per call
+        initializeTracking(123, undefined, { maxCost: 0.03 });
+        let finish: (value: string) => void = () => {};
+        const running = trackAgent('ReleaseNotesAgent', 'gpt-4o', () => new Promise<string>(resolve => { finish = resolve; }), { fallback });
+
+        const result = await trackAgent('LibraryOverviewAgent', 'gpt-4o', vi.fn(), { fallback });
+        finish('agent');
+
+        expect(await running).toBe('agent');
+        expect(result).toBe('heuristic');
+        expect(getCurrentTracker()!.getCurrentStats().budget?.skippedSteps[0].reason).toContain('--max-cost $0.03');
+      });
+
+      it('should fail a call without fallback once the budget is exhausted', async () => {
+        initializeTracking(123, undefined, { maxTokens: 100 });
+        const execution = vi.fn();
+
+        await expect(trackAgent('TestAgent', 'gpt-4o-mini', execution)).rejects.toThrow(/TestAgent skipped: .*--max-tokens 100/);
+        expect(execution).not.toHaveBeenCalled();
+      });
+
+      it('should leave calls alone without limits', async () => {
+        const result = await trackAgent('TestAgent', 'gpt-4o-mini', vi.fn().mockResolvedValue('agent'), { fallback });
+
+        expect(result).toBe('agent');
+        expect(finalizeTracking()!.budget).toBeUndefined();
+      });
+    });
+
     it('should handle no tracker gracefully', async () => {
       finalizeTracking(); // Clear tracker
       
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import * as path from 'path';
+import { getPRInfoTool, githubCompareTool } from '../index.js';
+import { insertCassette, ejectCassette } from '../../../lib/cassette.js';
+
+// A hand-written cassette of gh and GitHub API responses replaces the exec and Octokit mocks of
+// the functional tests. It was not recorded, so it is always replayed, even with
+// RENOVATE_SAFETY_CASSETTE=record, and its timestamps are placeholders
+describe('GitHub Tools - hand-written cassette', () => {
+  beforeAll(async () => {
+    vi.stubEnv('GH_TOKEN', 'ghp_cassette_replay');
+    await insertCassette(path.join(__dirname, 'fixtures', 'github-tools-cassette.json'), 'replay');
+  });
+
+  afterAll(() => {
+    ejectCassette();
+    vi.unstubAllEnvs();
+  });
+
+  it('should read PR info from gh', async () => {
+    const result = await getPRInfoTool.execute({
+      context: { prNumber: 42, includeBaseRepository: false },
+      runtimeContext: new RuntimeContext(),
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      data: {
+        number: 42,
+        title: 'Update dependency lodash to v4.17.21',
+        base: 'main',
+        head: 'renovate/lodash-4.x',
+        author: 'app/renovate',
+      },
+    });
+  });
+
+  it('should compare commits from the GitHub API', async () => {
+    const result = await githubCompareTool.execute({
+      context: { owner: 'acme', repo: 'web', base: 'main', head: 'renovate/lodash-4.x' },
+      runtimeContext: new RuntimeContext(),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      isLockfileOnly: false,
+      lockfileCount: 1,
+      sourceFileCount: 1,
+      totalFiles: 2,
+      commits: { ahead: 1, behind: 0, total: 1 },
+    });
+  });
+});
@@ -3,7 +3,10 @@
  */
 
 import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import { UsageImpactAnalyzer } from '../usage-impact-analyzer.js';
+import { BUILTIN_USAGE_RULES_DIR, parseUsageRulePack } from '../../../lib/usage-rules.js';
 
 // Mock modules
 vi.mock('fs/promises', () => ({
@@ -20,11 +23,20 @@ import { glob } from 'glob';
 const mockReadFile = vi.mocked(fs.readFile);
 const mockGlob = vi.mocked(glob);
 
+// fs/promises and glob are mocked for the project files, so read the built-in packs directly
+const builtinRulePacks = ['p-limit.json', 'react.json'].map((file) =>
+  parseUsageRulePack(
+    JSON.parse(readFileSync(join(BUILTIN_USAGE_RULES_DIR, file), 'utf-8')),
+    file,
+    'builtin'
+  )
+);
+
 describe('UsageImpactAnalyzer', () => {
   let analyzer: UsageImpactAnalyzer;
 
   beforeEach(() => {
-    analyzer = new UsageImpactAnalyzer();
+    analyzer = new UsageImpactAnalyzer(async () => builtinRulePacks);
     mockGlob.mockReset();
     mockReadFile.mockReset();
   });
@@ -174,4 +186,19 @@ console.log('Pending:', limit.pendingCount);
     expect(result.affectedFiles).toHaveLength(0);
     expect(result.riskLevel).toBe('none');
   });
-});
\ No newline at end of file
+
+  test('should only apply rules that cover the target version', async () => {
+    mockGlob.mockResolvedValue(['/project/src/worker.ts']);
+    mockReadFile.mockResolvedValue(`
+import pLimit from 'p-limit';
+
+const limit = pLimit(3);
+console.log('Active tasks:', limit.activeCount);
+`);
+
+    const result = await analyzer.analyzeImpact('p-limit', [], '/project', '6.2.0');
+
+    expect(result.riskLevel).toBe('low');
+    expect(result.affectedPatterns).toEqual(['Creates limit instance']);
+  });
+});
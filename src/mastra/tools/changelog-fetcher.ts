@@ -1,6 +1,7 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { fetchChangelogDiff } from '../../lib/changelog.js';
+import { getCacheDir } from '../../lib/cache-store.js';
 import { httpGet } from '../../lib/http-client.js';
 import type { PackageUpdate } from '../../types/index.js';
 
@@ -35,7 +36,7 @@ export const changelogFetcher = createTool({
 
       if (registry === 'npm') {
         // Use existing changelog fetching logic for npm
-        const result = await fetchChangelogDiff(packageUpdate, '.cache/changelog');
+        const result = await fetchChangelogDiff(packageUpdate, getCacheDir());
         
         if (result) {
           return {
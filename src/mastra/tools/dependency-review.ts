@@ -1,6 +1,7 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { Octokit } from '@octokit/rest';
+import { createGitHubClient } from '../../lib/github-client.js';
 import type { Endpoints } from '@octokit/types';
 import { getEnvironmentConfig } from '../../lib/env-config.js';
 
@@ -153,7 +154,7 @@ async function extractDependenciesFromPRDiff(
   branchOrPrNumber: string,
   auth: string
 ): Promise<DependencyChange[]> {
-  const octokit = new Octokit({ auth });
+  const octokit = createGitHubClient(auth);
 
   try {
     // Get PR number using various strategies
@@ -224,7 +225,7 @@ export const dependencyReviewTool = createTool({
       };
     }
 
-    const octokit = new Octokit({ auth });
+    const octokit = createGitHubClient(auth);
 
     try {
       // GitHub Dependency Review API
@@ -3,6 +3,9 @@
  * Tracks agent executions, tool calls, and performance statistics
  */
 
+import { calculateTokenCost } from '../../lib/model-pricing.js';
+import { setCacheLookupListener } from '../../lib/cache-store.js';
+
 export type AgentExecution = {
   agentName: string;
   startTime: Date;
@@ -14,6 +17,10 @@ export type AgentExecution = {
   outputTokens?: number;
   totalTokens?: number;
   model?: string;
+  /** Package the call analyzed, used to attribute costs */
+  packageName?: string;
+  /** Set when the analysis is finalized, with the pricing in effect at that time */
+  estimatedCost?: number;
   toolCalls?: ToolExecution[];
 };
 
@@ -51,14 +58,54 @@ export type ExecutionStats = {
   dataSourcesUsed: string[];
   cacheHits?: number;
   cacheMisses?: number;
+  budget?: BudgetStatus;
+};
+
+/**
+ * Spending limits for one analysis (--max-cost in USD, --max-tokens)
+ */
+export type BudgetLimits = {
+  maxCost?: number;
+  maxTokens?: number;
+};
+
+/**
+ * An agent call that was replaced by its non-LLM fallback because of the budget
+ */
+export type SkippedStep = {
+  agentName: string;
+  subject: string;
+  fallback: string;
+  reason: string;
+};
+
+export type BudgetStatus = BudgetLimits & {
+  skippedSteps: SkippedStep[];
+};
+
+/**
+ * Non-LLM replacement for an agent call, used when the call would exceed the budget
+ */
+export type BudgetFallback<T> = {
+  /** What the call analyzes, e.g. "lodash 4.17.20 → 4.17.21" */
+  subject: string;
+  /** How the fallback produces its result, shown in the report */
+  description: string;
+  execute: () => Promise<T>;
 };
 
+/**
+ * Token estimate for an agent call before any call in the analysis has reported its usage
+ */
+const DEFAULT_AGENT_CALL_TOKENS = 5000;
+
 class ExecutionTracker {
   private readonly stats: ExecutionStats;
   private readonly activeAgents: Map<string, AgentExecution> = new Map();
   private readonly activeTools: Map<string, ToolExecution> = new Map();
+  private executionSequence = 0;
 
-  constructor(prNumber: number, analysisId?: string) {
+  constructor(prNumber: number, analysisId?: string, budget?: BudgetLimits) {
     this.stats = {
       analysisId: analysisId || `analysis_${Date.now()}`,
       prNumber,
@@ -72,18 +119,24 @@ class ExecutionTracker {
       },
       dataSourcesUsed: []
     };
+
+    if (budget && (budget.maxCost !== undefined || budget.maxTokens !== undefined)) {
+      this.stats.budget = { ...budget, skippedSteps: [] };
+    }
   }
 
   /**
    * Start tracking an agent execution
    */
-  startAgent(agentName: string, model?: string): string {
-    const executionId = `${agentName}_${Date.now()}`;
+  startAgent(agentName: string, model?: string, packageName?: string): string {
+    // The sequence keeps ids unique for parallel calls of the same agent
+    const executionId = `${agentName}_${Date.now()}_${++this.executionSequence}`;
     const execution: AgentExecution = {
       agentName,
       startTime: new Date(),
       success: false,
       model,
+      packageName,
       toolCalls: []
     };
     
@@ -129,6 +182,43 @@ class ExecutionTracker {
     this.activeAgents.delete(executionId);
   }
 
+  /**
+   * Why the next call of the model would exceed the budget, or null when it fits.
+   * Running calls count as already spent, since their usage is only known once they end
+   */
+  getBudgetExceededReason(model?: string): string | null {
+    const budget = this.stats.budget;
+    if (!budget) return null;
+
+    const completed = this.stats.agents.filter(agent => getAgentTokens(agent) > 0);
+    const spentTokens = completed.reduce((sum, agent) => sum + getAgentTokens(agent), 0);
+    const spentCost = completed.reduce((sum, agent) => sum + estimateAgentCost(agent), 0);
+
+    const tokensPerCall = completed.length > 0
+      ? Math.ceil(spentTokens / completed.length)
+      : DEFAULT_AGENT_CALL_TOKENS;
+    const pendingCalls = this.activeAgents.size + 1;
+
+    const projectedTokens = spentTokens + pendingCalls * tokensPerCall;
+    if (budget.maxTokens !== undefined && projectedTokens > budget.maxTokens) {
+      return `~${projectedTokens.toLocaleString()} tokens would exceed --max-tokens ${budget.maxTokens.toLocaleString()} (${spentTokens.toLocaleString()} used)`;
+    }
+
+    const projectedCost = spentCost + pendingCalls * estimateAgentCost({ model, totalTokens: tokensPerCall });
+    if (budget.maxCost !== undefined && projectedCost > budget.maxCost) {
+      return `~$${projectedCost.toFixed(4)} would exceed --max-cost $${budget.maxCost} ($${spentCost.toFixed(4)} used)`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Record an agent call that was replaced by its fallback
+   */
+  recordSkippedStep(step: SkippedStep): void {
+    this.stats.budget?.skippedSteps.push(step);
+  }
+
   /**
    * Start tracking a tool execution
    */
@@ -223,54 +313,18 @@ class ExecutionTracker {
 
   /**
    * Calculate accurate cost based on model pricing and input/output token breakdown
+   * Each agent keeps its own cost, so runs can later be aggregated by agent, model and package
    */
   private calculateAccurateCost(): number {
     let totalCost = 0;
-    
-    // Removed debug logging - use structured logging in production
-    
-    // Calculate cost for each agent execution
+
     for (const agent of this.stats.agents) {
-      if (!agent.inputTokens || !agent.outputTokens || !agent.model) {
-        console.log(`DEBUG - Skipping agent ${agent.agentName} - missing data (input:${!!agent.inputTokens}, output:${!!agent.outputTokens}, model:${!!agent.model})`);
-        continue;
-      }
-      
-      const modelKey = agent.model.toLowerCase();
-      const pricing = MODEL_PRICING[modelKey] || MODEL_PRICING['default'];
-      
-      const inputCost = (agent.inputTokens / 1000) * pricing.inputPrice;
-      const outputCost = (agent.outputTokens / 1000) * pricing.outputPrice;
-      const agentCost = inputCost + outputCost;
-      
-      console.log(`DEBUG - ${agent.agentName}: ${agent.inputTokens}+${agent.outputTokens}=${agent.totalTokens} tokens → $${agentCost.toFixed(6)}`);
-      
-      totalCost += agentCost;
-    }
-    
-    // If no agent-level pricing available, use simple fallback
-    if (totalCost === 0 && this.stats.apiCalls.totalTokens > 0) {
-      console.log('DEBUG - Cost calculation using fallback method');
-      console.log('DEBUG - Total agents with token data:', this.stats.agents.filter(a => a.inputTokens && a.outputTokens).length);
-      console.log('DEBUG - Total tokens for fallback calculation:', this.stats.apiCalls.totalTokens);
-      
-      // Assume 70% input, 30% output tokens (typical ratio)
-      const estimatedInputTokens = this.stats.apiCalls.totalTokens * 0.7;
-      const estimatedOutputTokens = this.stats.apiCalls.totalTokens * 0.3;
-      
-      // Use gpt-4o-mini pricing as default
-      const pricing = MODEL_PRICING['gpt-4o-mini'];
-      const inputCost = (estimatedInputTokens / 1000) * pricing.inputPrice;
-      const outputCost = (estimatedOutputTokens / 1000) * pricing.outputPrice;
-      totalCost = inputCost + outputCost;
-      
-      console.log(`DEBUG - Fallback cost calculation: input=${estimatedInputTokens} * $${pricing.inputPrice} + output=${estimatedOutputTokens} * $${pricing.outputPrice} = $${totalCost}`);
-    } else if (totalCost > 0) {
-      console.log('DEBUG - Using agent-level pricing, total cost:', totalCost);
-    } else {
-      console.log('DEBUG - No token data available for cost calculation');
+      if (getAgentTokens(agent) === 0) continue;
+
+      agent.estimatedCost = estimateAgentCost(agent);
+      totalCost += agent.estimatedCost;
     }
-    
+
     return totalCost;
   }
 
@@ -292,9 +346,17 @@ let currentTracker: ExecutionTracker | null = null;
 /**
  * Initialize tracking for a new analysis
  */
-export function initializeTracking(prNumber: number, analysisId?: string): ExecutionTracker {
-  currentTracker = new ExecutionTracker(prNumber, analysisId);
-  return currentTracker;
+export function initializeTracking(prNumber: number, analysisId?: string, budget?: BudgetLimits): ExecutionTracker {
+  const tracker = new ExecutionTracker(prNumber, analysisId, budget);
+  setCacheLookupListener((hit) => {
+    if (hit) {
+      tracker.recordCacheHit();
+    } else {
+      tracker.recordCacheMiss();
+    }
+  });
+  currentTracker = tracker;
+  return tracker;
 }
 
 /**
@@ -314,6 +376,7 @@ export function finalizeTracking(): ExecutionStats | null {
   
   const stats = currentTracker.finalize();
   currentTracker = null;
+  setCacheLookupListener(undefined);
   return stats;
 }
 
@@ -444,18 +507,36 @@ function extractTokenUsageFromResult(result: any): TokenUsage | undefined {
 
 /**
  * Utility function to wrap agent execution with tracking
+ * When the call would exceed the budget it is skipped and the fallback runs instead
  */
 export async function trackAgent<T>(
   agentName: string,
   model: string | undefined,
-  execution: () => Promise<T>
+  execution: () => Promise<T>,
+  options: { packageName?: string; fallback?: BudgetFallback<T> } = {}
 ): Promise<T> {
+  const { packageName, fallback } = options;
   const tracker = getCurrentTracker();
   if (!tracker) {
     return execution();
   }
 
-  const executionId = tracker.startAgent(agentName, model);
+  const budgetExceededReason = tracker.getBudgetExceededReason(model);
+  if (budgetExceededReason) {
+    tracker.recordSkippedStep({
+      agentName,
+      subject: fallback?.subject || agentName,
+      fallback: fallback?.description || 'none',
+      reason: budgetExceededReason,
+    });
+    if (!fallback) {
+      throw new Error(`${agentName} skipped: ${budgetExceededReason}`);
+    }
+    console.warn(`💸 Budget: skipping ${agentName} for ${fallback.subject}, using ${fallback.description}`);
+    return fallback.execute();
+  }
+
+  const executionId = tracker.startAgent(agentName, model, packageName);
 
   try {
     const result = await execution();
@@ -493,30 +574,18 @@ export async function trackTool<T>(
   }
 }
 
+function getAgentTokens(agent: AgentExecution): number {
+  return agent.totalTokens || (agent.inputTokens || 0) + (agent.outputTokens || 0);
+}
+
 /**
- * Model pricing configuration (per 1K tokens)
+ * Estimated cost of an agent call; without an input/output breakdown
+ * a 70% input / 30% output split is assumed
  */
-interface ModelPricing {
-  inputPrice: number;  // Price per 1K input tokens
-  outputPrice: number; // Price per 1K output tokens
-}
+export function estimateAgentCost(agent: Pick<AgentExecution, 'model' | 'inputTokens' | 'outputTokens' | 'totalTokens'>): number {
+  const hasBreakdown = agent.inputTokens !== undefined && agent.outputTokens !== undefined;
+  const inputTokens = hasBreakdown ? agent.inputTokens || 0 : (agent.totalTokens || 0) * 0.7;
+  const outputTokens = hasBreakdown ? agent.outputTokens || 0 : (agent.totalTokens || 0) * 0.3;
 
-const MODEL_PRICING: Record<string, ModelPricing> = {
-  'gpt-4o-mini': {
-    inputPrice: 0.00015,   // $0.00015 per 1K input tokens
-    outputPrice: 0.0006,   // $0.0006 per 1K output tokens
-  },
-  'gpt-4o': {
-    inputPrice: 0.0025,    // $0.0025 per 1K input tokens
-    outputPrice: 0.01,     // $0.01 per 1K output tokens
-  },
-  'gpt-4': {
-    inputPrice: 0.03,      // $0.03 per 1K input tokens
-    outputPrice: 0.06,     // $0.06 per 1K output tokens
-  },
-  // Fallback pricing for unknown models
-  'default': {
-    inputPrice: 0.0015,    // Conservative estimate
-    outputPrice: 0.003,    // Conservative estimate
-  }
-};
\ No newline at end of file
+  return calculateTokenCost(agent.model, inputTokens, outputTokens);
+}
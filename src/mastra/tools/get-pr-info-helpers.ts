@@ -1,5 +1,5 @@
 // Helper functions for get-pr-info to reduce complexity
-import { Octokit } from '@octokit/rest';
+import { createGitHubClient } from '../../lib/github-client.js';
 import { secureSystemExec } from '../../lib/secure-exec.js';
 import { safeJsonParse } from '../../lib/safe-json.js';
 
@@ -9,6 +9,7 @@ export type DetailedPRInfo = {
   body: string;
   base: string;
   head: string;
+  headSha?: string;
   state: string;
   author: string;
   repository?: {
@@ -32,6 +33,7 @@ export async function fetchPRWithGHCLI(
     'body',
     'baseRefName',
     'headRefName',
+    'headRefOid',
     'state',
     'author'
   ];
@@ -70,6 +72,7 @@ function transformGHCLIData(data: Record<string, any>, prNumber: number): Detail
     body: typeof data.body === 'string' ? data.body : '',
     base: typeof data.baseRefName === 'string' ? data.baseRefName : '',
     head: typeof data.headRefName === 'string' ? data.headRefName : '',
+    headSha: typeof data.headRefOid === 'string' ? data.headRefOid : undefined,
     state: typeof data.state === 'string' ? data.state : 'unknown',
     author: data.author?.login || '',
   };
@@ -114,7 +117,7 @@ export async function fetchPRWithOctokit(
 ): Promise<{ success: boolean; data?: DetailedPRInfo; error?: string; status?: number }> {
   try {
     const [owner, repo] = await getRepoInfo();
-    const octokit = new Octokit({ auth });
+    const octokit = createGitHubClient(auth);
 
     const response = await octokit.pulls.get({
       owner,
@@ -156,6 +159,7 @@ function transformOctokitData(data: any): DetailedPRInfo {
     body: data.body || '',
     base: data.base.ref,
     head: data.head.ref,
+    headSha: data.head.sha,
     state: data.state,
     author: data.user?.login || '',
   };
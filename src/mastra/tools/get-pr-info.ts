@@ -41,6 +41,7 @@ const outputSchema = z.object({
     body: z.string(),
     base: z.string(),
     head: z.string(),
+    headSha: z.string().optional(),
     state: z.string(),
     author: z.string(),
     repository: z.object({
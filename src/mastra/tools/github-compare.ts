@@ -1,6 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { Octokit } from '@octokit/rest';
+import { createGitHubClient } from '../../lib/github-client.js';
 import type { Endpoints } from '@octokit/types';
 import { getEnvironmentConfig } from '../../lib/env-config.js';
 
@@ -55,7 +55,7 @@ export const githubCompareTool = createTool({
       };
     }
 
-    const octokit = new Octokit({ auth });
+    const octokit = createGitHubClient(auth);
 
     try {
       // Compare two commits
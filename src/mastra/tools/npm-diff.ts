@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { spawn } from 'child_process';
 import { breakingChangeAnalyzer } from './breaking-change-analyzer.js';
 import { httpGet } from '../../lib/http-client.js';
+import { withOfflineBundle } from '../../lib/offline-bundle.js';
 
 // Zod schemas
 const diffChangeSchema = z.object({
@@ -181,8 +182,13 @@ async function executeNpmDiff(
     return { success: false, output: 'Invalid package specification format' };
   }
 
+  const args = ['diff', '--diff', spec1, '--diff', spec2];
+  return withOfflineBundle('exec', ['npm', ...args].join(' '), () => runNpmDiff(args));
+}
+
+function runNpmDiff(args: string[]): Promise<{ success: boolean; output: string }> {
   return new Promise((resolve) => {
-    const child = spawn('npm', ['diff', '--diff', spec1, '--diff', spec2]);
+    const child = spawn('npm', args);
 
     let output = '';
     let error = '';
@@ -389,6 +395,10 @@ async function fetchPackageJson(packageName: string, version: string): Promise<P
 }
 
 async function executeCommand(command: string, args: string[]): Promise<PackageJson> {
+  return withOfflineBundle('exec', [command, ...args].join(' '), () => runCommand(command, args));
+}
+
+function runCommand(command: string, args: string[]): Promise<PackageJson> {
   return new Promise((resolve, reject) => {
     const child = spawn(command, args);
     let output = '';
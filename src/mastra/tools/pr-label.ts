@@ -1,6 +1,7 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { Octokit } from '@octokit/rest';
+import { createGitHubClient } from '../../lib/github-client.js';
 import type { Endpoints } from '@octokit/types';
 import { getEnvironmentConfig } from '../../lib/env-config.js';
 import { secureSystemExec } from '../../lib/secure-exec.js';
@@ -231,7 +232,7 @@ export const prLabelTool = createTool({
 
     try {
       const [owner, repo] = await getRepoInfo();
-      const octokit = new Octokit({ auth });
+      const octokit = createGitHubClient(auth);
 
       // Get current labels
       const { names: currentLabelNames, labels: currentLabels } = await getCurrentLabels(
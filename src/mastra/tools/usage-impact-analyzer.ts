@@ -5,12 +5,14 @@
 
 import { glob } from 'glob';
 import * as fs from 'fs/promises';
-
-export type UsagePattern = {
-  pattern: RegExp;
-  description: string;
-  riskLevel: 'high' | 'medium' | 'low';
-};
+import { basename } from 'path';
+import {
+  loadUsageRulePacks,
+  selectUsageRules,
+  createUsageRuleMatcher,
+  type UsageRule,
+  type UsageRulePack,
+} from '../../lib/usage-rules.js';
 
 export type UsageImpact = {
   isAffected: boolean;
@@ -22,21 +24,25 @@ export type UsageImpact = {
 };
 
 export class UsageImpactAnalyzer {
-  
+  constructor(
+    private readonly loadRulePacks: (projectRoot: string) => Promise<UsageRulePack[]> = loadUsageRulePacks
+  ) {}
+
   /**
    * Analyze if breaking changes actually affect the project's usage
    */
   async analyzeImpact(
     packageName: string,
     breakingChanges: Array<{text: string, category: string}>,
-    projectRoot: string = process.cwd()
+    projectRoot: string = process.cwd(),
+    toVersion?: string
   ): Promise<UsageImpact> {
     
-    const usagePatterns = this.getUsagePatternsForPackage(packageName, breakingChanges);
+    const usageRules = await this.getUsageRulesForPackage(packageName, breakingChanges, projectRoot, toVersion);
     const codeFiles = await this.findCodeFiles(projectRoot);
     
     const affectedFiles: string[] = [];
-    const affectedPatterns: string[] = [];
+    const matchedRules: UsageRule[] = [];
     let maxRiskLevel: 'high' | 'medium' | 'low' | 'none' = 'none';
     
     for (const file of codeFiles) {
@@ -48,14 +54,15 @@ export class UsageImpactAnalyzer {
           continue;
         }
         
-        for (const {pattern, description, riskLevel} of usagePatterns) {
-          if (pattern.test(content)) {
+        const matches = createUsageRuleMatcher(content, basename(file));
+        for (const rule of usageRules) {
+          if (matches(rule)) {
             affectedFiles.push(file);
-            affectedPatterns.push(description);
+            matchedRules.push(rule);
             
             // Update max risk level
-            if (this.compareRiskLevel(riskLevel, maxRiskLevel) > 0) {
-              maxRiskLevel = riskLevel;
+            if (this.compareRiskLevel(rule.riskLevel, maxRiskLevel) > 0) {
+              maxRiskLevel = rule.riskLevel;
             }
           }
         }
@@ -64,9 +71,10 @@ export class UsageImpactAnalyzer {
       }
     }
     
+    const affectedPatterns = matchedRules.map((rule) => rule.message);
     const isAffected = affectedFiles.length > 0;
-    const confidence = this.calculateConfidence(usagePatterns, affectedPatterns);
-    const recommendations = this.generateRecommendations(packageName, affectedPatterns, maxRiskLevel);
+    const confidence = this.calculateConfidence(usageRules, affectedPatterns);
+    const recommendations = this.generateRecommendations(packageName, matchedRules, maxRiskLevel);
     
     return {
       isAffected,
@@ -79,49 +87,15 @@ export class UsageImpactAnalyzer {
   }
 
   /**
-   * Get usage patterns specific to package and its breaking changes
+   * Rule pack rules for the package and version, plus rules derived from its breaking changes
    */
-  private getUsagePatternsForPackage(
+  private async getUsageRulesForPackage(
     packageName: string, 
-    breakingChanges: Array<{text: string, category: string}>
-  ): UsagePattern[] {
-    const patterns: UsagePattern[] = [];
-    
-    // Package-specific patterns
-    if (packageName === 'p-limit') {
-      patterns.push({
-        pattern: /\.activeCount\b/g,
-        description: 'Uses activeCount property',
-        riskLevel: 'high'
-      });
-      
-      patterns.push({
-        pattern: /\.pendingCount\b/g,
-        description: 'Uses pendingCount property',
-        riskLevel: 'medium'
-      });
-      
-      patterns.push({
-        pattern: /pLimit\s*\(\s*\d+\s*\)/g,
-        description: 'Creates limit instance',
-        riskLevel: 'low'
-      });
-    }
-    
-    // React-specific patterns
-    if (packageName.startsWith('react') || packageName === 'react') {
-      patterns.push({
-        pattern: /componentWillMount|componentWillReceiveProps|componentWillUpdate/g,
-        description: 'Uses deprecated lifecycle methods',
-        riskLevel: 'high'
-      });
-      
-      patterns.push({
-        pattern: /ReactDOM\.render/g,
-        description: 'Uses ReactDOM.render (potentially deprecated)',
-        riskLevel: 'medium'
-      });
-    }
+    breakingChanges: Array<{text: string, category: string}>,
+    projectRoot: string,
+    toVersion?: string
+  ): Promise<UsageRule[]> {
+    const rules = selectUsageRules(await this.loadRulePacks(projectRoot), packageName, toVersion);
     
     // Generic patterns based on breaking change categories
     for (const change of breakingChanges) {
@@ -131,11 +105,15 @@ export class UsageImpactAnalyzer {
         const functionMatch = /function\s{1,3}(\w+)|(\w+)\s{1,3}(?:removed|renamed|changed)/i.exec(change.text);
         if (functionMatch) {
           const functionName = functionMatch[1] || functionMatch[2];
-          patterns.push({
+          rules.push({
+            id: `breaking-change-${functionName}`,
+            package: packageName,
+            versions: '*',
             // Escape function name to prevent regex injection
-            pattern: new RegExp(`\\b${functionName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s{0,3}\\(`, 'g'),
-            description: `Uses potentially affected function: ${functionName}`,
-            riskLevel: 'high'
+            pattern: `\\b${functionName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s{0,3}\\(`,
+            riskLevel: 'high',
+            message: `Uses potentially affected function: ${functionName}`,
+            recommendations: []
           });
         }
       }
@@ -143,16 +121,20 @@ export class UsageImpactAnalyzer {
       if (change.category === 'runtime-requirement') {
         // Node.js version checks
         if (change.text.includes('Node.js')) {
-          patterns.push({
-            pattern: /process\.version|engines\.node/g,
-            description: 'Checks Node.js version',
-            riskLevel: 'medium'
+          rules.push({
+            id: 'breaking-change-node-version',
+            package: packageName,
+            versions: '*',
+            pattern: 'process\\.version|engines\\.node',
+            riskLevel: 'medium',
+            message: 'Checks Node.js version',
+            recommendations: []
           });
         }
       }
     }
     
-    return patterns;
+    return rules;
   }
 
   /**
@@ -209,10 +191,10 @@ export class UsageImpactAnalyzer {
   /**
    * Calculate confidence based on pattern coverage
    */
-  private calculateConfidence(usagePatterns: UsagePattern[], affectedPatterns: string[]): number {
-    if (usagePatterns.length === 0) return 0.5; // Default confidence
+  private calculateConfidence(usageRules: UsageRule[], affectedPatterns: string[]): number {
+    if (usageRules.length === 0) return 0.5; // Default confidence
     
-    const coverage = affectedPatterns.length / usagePatterns.length;
+    const coverage = affectedPatterns.length / usageRules.length;
     return Math.min(0.9, 0.3 + (coverage * 0.6)); // Range: 0.3-0.9
   }
 
@@ -221,10 +203,11 @@ export class UsageImpactAnalyzer {
    */
   private generateRecommendations(
     packageName: string,
-    affectedPatterns: string[],
+    matchedRules: UsageRule[],
     riskLevel: string
   ): string[] {
     const recommendations: string[] = [];
+    const affectedPatterns = [...new Set(matchedRules.map((rule) => rule.message))];
     
     if (affectedPatterns.length === 0) {
       recommendations.push(`No specific usage patterns detected that would be affected by ${packageName} changes`);
@@ -232,17 +215,8 @@ export class UsageImpactAnalyzer {
       return recommendations;
     }
     
-    // Package-specific recommendations
-    if (packageName === 'p-limit') {
-      if (affectedPatterns.some(p => p.includes('activeCount'))) {
-        recommendations.push('⚠️ Your code uses activeCount - verify behavior change in v7.0.0');
-        recommendations.push('Test concurrent operations to ensure activeCount increments correctly');
-      }
-      
-      if (affectedPatterns.some(p => p.includes('pendingCount'))) {
-        recommendations.push('Review pendingCount usage for accuracy with new activeCount behavior');
-      }
-    }
+    // Rule-specific recommendations
+    recommendations.push(...new Set(matchedRules.flatMap((rule) => rule.recommendations)));
     
     // Risk-based recommendations
     if (riskLevel === 'high') {
@@ -61,26 +61,17 @@ vi.mock('../../tools/index.js', () => ({
   },
 }));
 
-vi.mock('../../agents/release-notes-agent.js', () => ({
+// Agents are mocked; their output schemas are the real ones the workflow validates against
+vi.mock('../../agents/release-notes-agent.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../agents/release-notes-agent.js')>()),
   ReleaseNotesAgent: mockReleaseNotesAgent,
-  releaseNotesInputSchema: {},
-  releaseNotesOutputSchema: {},
 }));
 
-vi.mock('../../agents/code-impact-agent.js', () => ({
+vi.mock('../../agents/code-impact-agent.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../agents/code-impact-agent.js')>()),
   CodeImpactAgent: mockCodeImpactAgent,
-  codeImpactInputSchema: {},
-  codeImpactOutputSchema: {},
 }));
 
-vi.mock('../../agents/release-notes-agent.js', () => ({
-  ReleaseNotesAgent: mockReleaseNotesAgent,
-}))
-
-vi.mock('../../agents/code-impact-agent.js', () => ({
-  CodeImpactAgent: mockCodeImpactAgent,
-}))
-
 vi.mock('../../agents/tool-agent.js', () => ({
   PRInfoAgent: mockPRInfoAgent,
   DependencyReviewAgent: mockDependencyReviewAgent,
@@ -95,6 +86,11 @@ vi.mock('../report-generator.js', () => ({
   saveReport: vi.fn(),
 }));
 
+// Agents answer with the JSON text the workflow parses and validates
+function agentResponse(object: Record<string, unknown>) {
+  return { text: JSON.stringify(object) };
+}
+
 // Now import the modules after mocks are set
 import { analyzeRenovatePR } from '../analyze-renovate-pr.js';
 import { generateReport, getHighestRisk } from '../report-generator.js';
@@ -110,19 +106,18 @@ describe('analyzeRenovatePR Workflow', () => {
     vi.clearAllMocks();
     
     // Reset mocks with proper return values
-    mockReleaseNotesAgent.generateVNext.mockResolvedValue({
-      object: {
+    mockReleaseNotesAgent.generateVNext.mockResolvedValue(
+      agentResponse({
         breakingChanges: [],
         migrationSteps: [],
         riskLevel: 'safe',
         summary: 'Default mock summary',
         sources: [{ type: 'npm', status: 'success' }],
-      },
-      text: 'Mock response',
-    });
+      })
+    );
     
-    mockCodeImpactAgent.generateVNext.mockResolvedValue({
-      object: {
+    mockCodeImpactAgent.generateVNext.mockResolvedValue(
+      agentResponse({
         totalUsages: 0,
         criticalUsages: [],
         usageByType: {},
@@ -131,9 +126,8 @@ describe('analyzeRenovatePR Workflow', () => {
         recommendations: [],
         projectType: 'typescript',
         score: 0,
-      },
-      text: 'Mock response',
-    });
+      })
+    );
 
     // Reset Tool Agent mocks
     mockPRInfoAgent.generateVNext.mockResolvedValue({
@@ -219,21 +213,18 @@ describe('analyzeRenovatePR Workflow', () => {
     });
 
     // Mock Agent.generateVNext() calls - override defaults for this test
-    mockReleaseNotesAgent.generateVNext.mockResolvedValue({
-      object: {
+    mockReleaseNotesAgent.generateVNext.mockResolvedValue(
+      agentResponse({
         breakingChanges: [],
         migrationSteps: [],
         riskLevel: 'safe',
         summary: 'Minor type definitions update',
-        sources: [
-          { type: 'npm', status: 'success' }
-        ],
-      },
-      text: 'Mock response',
-    });
+        sources: [{ type: 'npm', status: 'success' }],
+      })
+    );
 
-    mockCodeImpactAgent.generateVNext.mockResolvedValue({
-      object: {
+    mockCodeImpactAgent.generateVNext.mockResolvedValue(
+      agentResponse({
         totalUsages: 0,
         criticalUsages: [],
         usageByType: {},
@@ -242,9 +233,8 @@ describe('analyzeRenovatePR Workflow', () => {
         recommendations: [],
         projectType: 'typescript',
         score: 0,
-      },
-      text: 'Mock response',
-    });
+      })
+    );
 
     // Mock risk assessment - @types/* patch should be SAFE
     vi.mocked(RiskArbiter.assess).mockResolvedValue({
@@ -325,36 +315,28 @@ describe('analyzeRenovatePR Workflow', () => {
 
     // Mock Agent.generateVNext() calls for both dependencies
     mockReleaseNotesAgent.generateVNext
-      .mockResolvedValueOnce({
-        object: {
+      .mockResolvedValueOnce(
+        agentResponse({
           breakingChanges: [],
           migrationSteps: [],
           riskLevel: 'safe',
           summary: 'Minor type definitions update',
-          sources: [
-            { type: 'npm', status: 'success' }
-          ],
-        },
-        text: 'Mock response',
-      })
-      .mockResolvedValueOnce({
-        object: {
-          breakingChanges: [
-            { text: 'Router middleware API changed', severity: 'breaking' }
-          ],
+          sources: [{ type: 'npm', status: 'success' }],
+        })
+      )
+      .mockResolvedValueOnce(
+        agentResponse({
+          breakingChanges: [{ text: 'Router middleware API changed', severity: 'breaking' }],
           migrationSteps: ['Update router middleware syntax'],
           riskLevel: 'medium',
           summary: 'Major version upgrade with breaking changes',
-          sources: [
-            { type: 'npm', status: 'success' }
-          ],
-        },
-        text: 'Mock response',
-      });
+          sources: [{ type: 'npm', status: 'success' }],
+        })
+      );
 
     mockCodeImpactAgent.generateVNext
-      .mockResolvedValueOnce({
-        object: {
+      .mockResolvedValueOnce(
+        agentResponse({
           totalUsages: 0,
           criticalUsages: [],
           usageByType: {},
@@ -363,24 +345,20 @@ describe('analyzeRenovatePR Workflow', () => {
           recommendations: [],
           projectType: 'typescript',
           score: 0,
-        },
-        text: 'Mock response',
-      })
-      .mockResolvedValueOnce({
-        object: {
+        })
+      )
+      .mockResolvedValueOnce(
+        agentResponse({
           totalUsages: 5,
-          criticalUsages: [
-            { file: 'src/app.js', line: 10, reason: 'Direct API usage' }
-          ],
+          criticalUsages: [{ file: 'src/app.js', line: 10, reason: 'Direct API usage' }],
           usageByType: { import: 3, call: 2 },
           impactLevel: 'medium',
           affectedFiles: ['src/app.js', 'src/router.js'],
           recommendations: ['Update middleware usage patterns'],
           projectType: 'javascript',
           score: 25,
-        },
-        text: 'Mock response',
-      });
+        })
+      );
 
     // Mock different risk levels
     vi.mocked(RiskArbiter.assess)
@@ -26,11 +26,13 @@ import {
 // Workflow schemas
 const workflowInputSchema = z.object({
   prNumber: z.number().describe('PR number to analyze'),
-  postMode: z.enum(['always', 'update', 'never']).default('always').describe('When to post comments'),
+  postMode: z.enum(['always', 'update', 'never', 'check']).default('always').describe('When to post comments, or check to create a GitHub check run'),
   format: z.enum(['markdown', 'json']).default('markdown').describe('Output format'),
   language: z.enum(['en', 'ja']).default('en').describe('Output language'),
   threshold: z.number().default(1).describe('Risk threshold for auto-merge'),
   concurrency: z.number().default(3).describe('Number of dependencies to analyze in parallel'),
+  maxCost: z.number().optional().describe('LLM spend limit in USD; agent calls beyond it fall back to heuristics'),
+  maxTokens: z.number().optional().describe('LLM token limit; agent calls beyond it fall back to heuristics'),
 });
 
 const workflowOutputSchema = z.object({
@@ -60,12 +62,12 @@ const getPRInfoStep = createStep({
     concurrency: z.number(),
   }),
   execute: async ({ inputData }) => {
-    const { prNumber, postMode, format, language, concurrency } = inputData;
+    const { prNumber, postMode, format, language, concurrency, maxCost, maxTokens } = inputData;
     
     console.log(`🔍 Analyzing PR #${prNumber}...`);
     
     // Initialize execution tracking
-    const tracker = initializeTracking(prNumber, `analysis_${prNumber}_${Date.now()}`);
+    const tracker = initializeTracking(prNumber, `analysis_${prNumber}_${Date.now()}`, { maxCost, maxTokens });
     console.log(`📊 Execution tracking initialized for PR #${prNumber}`);
     
     // Use direct service call instead of Agent wrapper
@@ -193,7 +195,7 @@ const generateReportStep = createStep({
     console.log('📊 Execution tracking finalized');
     
     // Generate report using the unified service
-    const report = await generateUnifiedReport(assessments, {
+    const reportOptions = {
       format: format as 'markdown' | 'json',
       language: language as 'en' | 'ja',
       prInfo: {
@@ -208,11 +210,18 @@ const generateReportStep = createStep({
       },
       executionStats: finalExecutionStats || undefined,
       includeExecutionStats: true,
-    });
+    };
+    const report = await generateUnifiedReport(assessments, reportOptions);
+
+    // The archive and check runs always need a markdown rendering
+    const markdownReport = report.format === 'markdown'
+      ? report
+      : await generateUnifiedReport(assessments, { ...reportOptions, format: 'markdown' });
 
     // Handle PR posting using the service
     const overallRisk = getHighestRisk(assessments);
-    const reportBody = report.format === 'markdown' ? report.markdown : report.json;
+    const markdownBody = markdownReport.format === 'markdown' ? markdownReport.markdown : '';
+    const reportBody = report.format === 'json' && postMode !== 'check' ? report.json : markdownBody;
     
     const posted = await handlePRPosting(
       prInfo,
@@ -221,8 +230,17 @@ const generateReportStep = createStep({
       overallRisk
     );
 
-    // Save report to file
-    await saveReport(report, prNumber);
+    // Save report to the local report store
+    const archivedReport = {
+      ...report,
+      markdown: markdownBody,
+    };
+    await saveReport(archivedReport, prNumber, {
+      prInfo: { ...reportOptions.prInfo, headSha: prInfo.headSha },
+      assessments,
+      overallRisk,
+      executionStats: finalExecutionStats || undefined,
+    });
     
     // Display final statistics
     if (finalExecutionStats) {
@@ -9,6 +9,8 @@ import {
   generateReportFooter,
   getHighestRisk,
 } from './report-generator-helpers.js';
+import { saveReportToStore, type StoredReportEntry } from '../../lib/report-store.js';
+import { safeJsonParse } from '../../lib/safe-json.js';
 
 interface PRInfo {
   number: number;
@@ -128,8 +130,48 @@ function getRiskDistribution(assessments: Assessment[]): Record<string, number>
   return distribution;
 }
 
-export async function saveReport(report: { markdown?: string; json?: string; format: string }, prNumber: number): Promise<void> {
-  // Report saving is currently a no-op - extend this function when file system persistence is needed
-  // Current implementation logs the action for debugging purposes
-  console.log(`Would save ${report.format} report for PR #${prNumber}`);
-}
\ No newline at end of file
+export type SaveReportContext = {
+  prInfo: PRInfo & { headSha?: string };
+  assessments: Assessment[];
+  overallRisk: string;
+  executionStats?: ExecutionStats;
+  reportDir?: string;
+};
+
+/**
+ * Archive the report in the local report store (see `renovate-safety reports`)
+ * Saving is best effort: a failure is logged and never fails the analysis
+ */
+export async function saveReport(
+  report: { markdown?: string; json?: string; format: string },
+  prNumber: number,
+  context: SaveReportContext
+): Promise<StoredReportEntry | null> {
+  try {
+    const entry = await saveReportToStore(
+      {
+        repository: context.prInfo.repository,
+        prNumber,
+        headSha: context.prInfo.headSha,
+        overallRisk: context.overallRisk,
+        markdown: report.markdown ?? '',
+        dependencies: context.assessments.map((assessment) => ({
+          name: assessment.dependency.name,
+          fromVersion: assessment.dependency.fromVersion,
+          toVersion: assessment.dependency.toVersion,
+          riskLevel: assessment.risk.level,
+          breakingChanges: assessment.releaseNotes?.breakingChanges.length ?? 0,
+          usages: assessment.codeImpact?.totalUsages ?? 0,
+        })),
+        data: report.json ? safeJsonParse<unknown>(report.json, null) : { assessments: context.assessments },
+        executionStats: context.executionStats,
+      },
+      context.reportDir
+    );
+    console.log(`💾 Saved report for PR #${prNumber} to ${entry.markdownPath}`);
+    return entry;
+  } catch (error) {
+    console.warn(`Failed to save report for PR #${prNumber}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -1,16 +1,23 @@
+import type { PolicyConfig } from '../lib/policy.js';
+
 export type CLIOptions = {
   pr?: number;
   from?: string;
   to?: string;
   package?: string;
-  post?: 'always' | 'update' | 'never'; // Changed from boolean
+  post?: 'always' | 'update' | 'never' | 'check'; // Changed from boolean
   noLlm: boolean;
-  llm?: 'claude-cli' | 'anthropic' | 'openai';
-  cacheDir: string;
+  llm?: string;
+  cacheDir?: string;
   json: boolean;
   force: boolean;
   language?: 'en' | 'ja';
   deep: boolean;
+  maxParallel?: number;
+  policy?: PolicyConfig;
+  offline?: string;
+  typecheck?: boolean;
+  libraryHealth?: boolean;
 };
 
 export type PackageUpdate = {
@@ -21,7 +28,18 @@ export type PackageUpdate = {
 
 export type ChangelogDiff = {
   content: string;
-  source: 'npm' | 'github' | 'PyPI' | 'github+npm';
+  source:
+    | 'npm'
+    | 'github'
+    | 'PyPI'
+    | 'github+npm'
+    | 'go-proxy'
+    | 'crates.io'
+    | 'maven'
+    | 'rubygems'
+    | 'github-actions'
+    | 'docker-hub'
+    | 'packagist';
   fromVersion?: string;
   toVersion?: string;
 };
@@ -36,6 +54,39 @@ export type CodeDiff = {
   toTag: string;
 };
 
+export type DeclarationChangeKind =
+  | 'removed-export'
+  | 'added-export'
+  | 'narrowed-parameter'
+  | 'widened-parameter'
+  | 'new-required-parameter'
+  | 'new-optional-parameter'
+  | 'removed-parameter'
+  | 'changed-return-type'
+  | 'removed-overload'
+  | 'added-overload';
+
+/**
+ * One change between the type declarations of two versions
+ */
+export type DeclarationChange = {
+  kind: DeclarationChangeKind;
+  /** Export the change belongs to; `new Name` for constructors */
+  name: string;
+  classification: 'breaking' | 'compatible';
+  /** Parameter, types or signature involved, e.g. "input: string | Buffer → string" */
+  detail?: string;
+};
+
+export type DeclarationDiff = {
+  fromVersion: string;
+  toVersion: string;
+  /** Declaration entry files compared, relative to the package root */
+  fromEntry: string;
+  toEntry: string;
+  changes: DeclarationChange[];
+};
+
 export type DependencyUsage = {
   packageName: string;
   dependents: DependentInfo[];
@@ -50,10 +101,65 @@ export type DependentInfo = {
   type: 'direct' | 'transitive';
 };
 
+/**
+ * How an update reaches one package of a workspace monorepo
+ */
+export type WorkspacePackageImpact = {
+  name: string;
+  /** Directory relative to the repository root */
+  path: string;
+  /** Unset when the package imports the dependency without declaring it (hoisted) */
+  dependencyType?: DependencyUsage['usageType'];
+  versionRange?: string;
+  usageCount: number;
+  productionUsageCount: number;
+  /** APIs named by the breaking changes that the package uses */
+  changedApis: string[];
+  riskLevel: 'high' | 'medium' | 'low';
+  reason: string;
+};
+
+export type WorkspaceImpact = {
+  manager: 'npm' | 'yarn' | 'pnpm';
+  totalPackages: number;
+  /** Packages that declare or import the dependency, highest risk first */
+  affected: WorkspacePackageImpact[];
+};
+
 export type BreakingChange = {
   line: string;
   severity: 'breaking' | 'warning' | 'removal';
   source?: string; // e.g., 'changelog', 'release-notes', 'code-diff'
+  /** Where the project is affected, for changes found in its own code */
+  location?: SourceLocation;
+  /** 'high' when the compiler confirmed the change breaks the project */
+  confidence?: 'high' | 'medium' | 'low';
+};
+
+export type SourceLocation = {
+  /** Relative to the project root */
+  file: string;
+  line: number;
+  column: number;
+};
+
+/**
+ * A type error the target version introduces in the project
+ */
+export type TypeErrorDiagnostic = SourceLocation & {
+  /** TypeScript error code, e.g. 2345 */
+  code: number;
+  message: string;
+  /** Package symbol the error involves, e.g. "parse" or "client.connect" */
+  symbol?: string;
+};
+
+export type TypecheckResult = {
+  version: string;
+  filesChecked: number;
+  newErrors: TypeErrorDiagnostic[];
+  /** Errors of the current version the target version no longer reports */
+  fixedErrors: number;
 };
 
 export type LLMSummary = {
@@ -92,11 +198,28 @@ export type AnalysisResult = {
   package: PackageUpdate;
   changelogDiff: ChangelogDiff | null;
   codeDiff: CodeDiff | null;
+  /** Comparison of the type declarations of both versions, when the package ships them */
+  declarationDiff?: DeclarationDiff;
   dependencyUsage: DependencyUsage | null;
   breakingChanges: BreakingChange[];
   llmSummary: LLMSummary | null;
   apiUsages: APIUsage[];
   deepAnalysis?: DeepAnalysisResult;
+  /** Per-package impact when the project is a workspace monorepo */
+  workspaceImpact?: WorkspaceImpact;
+  /** Project typechecked against the target version (--typecheck) */
+  typecheck?: TypecheckResult;
+  riskAssessment: RiskAssessment;
+  recommendation: string;
+};
+
+/**
+ * Result for a PR that updates several packages at once (a Renovate group)
+ * riskAssessment is the aggregate over every package, so callers that only read
+ * `riskAssessment.level` treat grouped and single-package results alike
+ */
+export type GroupedAnalysisResult = {
+  packages: AnalysisResult[];
   riskAssessment: RiskAssessment;
   recommendation: string;
 };
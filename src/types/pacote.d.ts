@@ -10,6 +10,15 @@ declare module 'pacote' {
     [key: string]: unknown;
   };
 
+  type ExtractOptions = {
+    /** Use npm's tarball cache without revalidating it */
+    preferOffline?: boolean;
+  };
+
   export function manifest(spec: string): Promise<ManifestResult>;
-  export function extract(spec: string, destination: string): Promise<void>;
+  export function extract(
+    spec: string,
+    destination: string,
+    options?: ExtractOptions
+  ): Promise<void>;
 }